@@ -6,6 +6,7 @@ import { NavigationContainer } from '@react-navigation/native';
 
 import { RootTabs } from './src/navigation/RootTabs';
 import { MapFocusProvider } from './src/state/MapFocusContext';
+import { RankingOutboxProvider } from './src/state/RankingOutboxContext';
 import { SearchProvider } from './src/state/SearchContext';
 import { SettingsProvider } from './src/state/SettingsContext';
 
@@ -20,9 +21,11 @@ export default function App() {
         <SettingsProvider>
           <SearchProvider>
             <MapFocusProvider>
-              <NavigationContainer>
-                <RootTabs />
-              </NavigationContainer>
+              <RankingOutboxProvider>
+                <NavigationContainer>
+                  <RootTabs />
+                </NavigationContainer>
+              </RankingOutboxProvider>
             </MapFocusProvider>
           </SearchProvider>
         </SettingsProvider>
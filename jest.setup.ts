@@ -0,0 +1,4 @@
+// In-memory AsyncStorage, so lib/cache's persistent tier works without a device
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
@@ -1,9 +1,10 @@
 import React, { useRef, useState } from 'react';
 import { View, StyleSheet, Image, Pressable, Dimensions, ScrollView, Platform } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
-import { SDText } from './ui';
+import { SDButton, SDText } from './ui';
+import { DishPhotoViewer } from './DishPhotoViewer';
 import { theme } from '../theme';
-import { getSampleDishPhotos } from '../utils/sampleDishPhotos';
+import type { DishPhoto } from '../types/database';
 
 const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 // Carousel height should be ~60% of bottom sheet height (which is ~45% of screen at first snap)
@@ -11,9 +12,11 @@ const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
 const CAROUSEL_HEIGHT = Math.max(SCREEN_HEIGHT * 0.27, 200);
 
 export interface DishImageCarouselProps {
-  images: string[];
-  restaurantId?: string;
+  photos: DishPhoto[];
   restaurantName?: string;
+  onAddPhoto?: () => void; // Shown as "Add one" when the restaurant has no photos yet
+  onReportPhoto?: (photo: DishPhoto) => void;
+  currentUserId?: string | null;
   onFavorite?: () => void;
   onClose?: () => void;
   showFavoriteLabel?: boolean;
@@ -21,9 +24,11 @@ export interface DishImageCarouselProps {
 }
 
 export function DishImageCarousel({
-  images,
-  restaurantId,
+  photos,
   restaurantName,
+  onAddPhoto,
+  onReportPhoto,
+  currentUserId,
   onFavorite,
   onClose,
   showFavoriteLabel = false,
@@ -31,14 +36,8 @@ export function DishImageCarousel({
 }: DishImageCarouselProps) {
   const scrollViewRef = useRef<ScrollView>(null);
   const [currentIndex, setCurrentIndex] = useState(0);
-
-  // Use dish photos if available, otherwise use sample photos
-  const displayImages = images.length > 0 
-    ? images 
-    : (restaurantId ? getSampleDishPhotos(restaurantId, 5) : []);
-
-  // Ensure we have at least one image
-  const finalImages = displayImages.length > 0 ? displayImages : getSampleDishPhotos('default', 1);
+  const [viewerIndex, setViewerIndex] = useState<number | null>(null);
+  const currentPhoto = photos[Math.min(currentIndex, photos.length - 1)];
 
   const handleScroll = (event: any) => {
     const contentOffsetX = event.nativeEvent.contentOffset.x;
@@ -57,26 +56,43 @@ export function DishImageCarousel({
 
   return (
     <View style={styles.container}>
-      <ScrollView
-        ref={scrollViewRef}
-        horizontal
-        pagingEnabled
-        showsHorizontalScrollIndicator={false}
-        onScroll={handleScroll}
-        scrollEventThrottle={16}
-        style={styles.scrollView}
-        contentContainerStyle={styles.scrollViewContent}
-        nestedScrollEnabled={true}
-      >
-        {finalImages.map((imageUri, index) => (
-          <Image
-            key={`${imageUri}-${index}`}
-            source={{ uri: imageUri }}
-            style={styles.image}
-            resizeMode="cover"
-          />
-        ))}
-      </ScrollView>
+      {photos.length === 0 ? (
+        <View style={styles.emptyState}>
+          <Ionicons name="camera-outline" size={32} color={theme.colors.textMuted} />
+          <SDText weight="semibold">No photos yet</SDText>
+          <SDText variant="caption" color="textMuted" align="center">
+            {restaurantName ? `Be the first to share a dish from ${restaurantName}.` : 'Be the first to share a dish from here.'}
+          </SDText>
+          {onAddPhoto && <SDButton title="Add one" onPress={onAddPhoto} style={styles.addButton} />}
+        </View>
+      ) : (
+        <ScrollView
+          ref={scrollViewRef}
+          horizontal
+          pagingEnabled
+          showsHorizontalScrollIndicator={false}
+          onScroll={handleScroll}
+          scrollEventThrottle={16}
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollViewContent}
+          nestedScrollEnabled={true}
+        >
+          {photos.map((photo, index) => (
+            <Pressable
+              key={photo.id}
+              accessibilityRole="imagebutton"
+              accessibilityLabel={`${photo.dish_name}, ${photo.score} out of 10. Open photo`}
+              onPress={() => setViewerIndex(index)}
+            >
+              <Image
+                source={{ uri: photo.thumbnail_url ?? photo.image_url }}
+                style={styles.image}
+                resizeMode="cover"
+              />
+            </Pressable>
+          ))}
+        </ScrollView>
+      )}
 
       {/* Overlay elements */}
       <View style={styles.overlay} pointerEvents="box-none">
@@ -104,7 +120,7 @@ export function DishImageCarousel({
               <Ionicons
                 name={isFavorite ? 'heart' : 'heart-outline'}
                 size={22}
-                color={theme.colors.text}
+                color={isFavorite ? theme.colors.brand : theme.colors.text}
               />
             </Pressable>
           )}
@@ -123,25 +139,49 @@ export function DishImageCarousel({
           )}
         </View>
 
-        {/* Bottom-center: Navigation dots */}
-        {finalImages.length > 1 && (
-          <View style={styles.dotsContainer}>
-            {finalImages.map((_, index) => (
-              <Pressable
-                key={index}
-                accessibilityRole="button"
-                accessibilityLabel={`Go to image ${index + 1}`}
-                onPress={() => scrollToIndex(index)}
-                style={({ pressed }) => [
-                  styles.dot,
-                  currentIndex === index && styles.dotActive,
-                  { opacity: pressed ? 0.7 : 1 },
-                ]}
-              />
-            ))}
+        {/* Bottom: caption for the current photo, then navigation dots */}
+        {currentPhoto && (
+          <View style={styles.bottomRow} pointerEvents="box-none">
+            <View style={styles.caption} pointerEvents="none">
+              <SDText weight="semibold" color="white" variant="caption" numberOfLines={1}>
+                {currentPhoto.dish_name}
+              </SDText>
+              <View style={styles.captionScore}>
+                <Ionicons name="star" size={12} color={theme.colors.brand2} />
+                <SDText weight="bold" color="white" variant="caption">
+                  {currentPhoto.score}/10
+                </SDText>
+              </View>
+            </View>
+            {photos.length > 1 && (
+              <View style={styles.dotsContainer}>
+                {photos.map((_, index) => (
+                  <Pressable
+                    key={index}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Go to image ${index + 1}`}
+                    onPress={() => scrollToIndex(index)}
+                    style={({ pressed }) => [
+                      styles.dot,
+                      currentIndex === index && styles.dotActive,
+                      { opacity: pressed ? 0.7 : 1 },
+                    ]}
+                  />
+                ))}
+              </View>
+            )}
           </View>
         )}
       </View>
+
+      <DishPhotoViewer
+        photos={photos}
+        initialIndex={viewerIndex ?? 0}
+        visible={viewerIndex !== null}
+        onClose={() => setViewerIndex(null)}
+        currentUserId={currentUserId}
+        onReport={onReportPhoto}
+      />
     </View>
   );
 }
@@ -160,6 +200,16 @@ const styles = StyleSheet.create({
   scrollViewContent: {
     alignItems: 'center',
   },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.xl,
+  },
+  addButton: {
+    marginTop: theme.spacing.xxs,
+  },
   image: {
     width: SCREEN_WIDTH,
     height: CAROUSEL_HEIGHT,
@@ -218,6 +268,23 @@ const styles = StyleSheet.create({
           elevation: 3,
         }),
   },
+  bottomRow: {
+    alignItems: 'flex-start',
+    gap: theme.spacing.xs,
+  },
+  caption: {
+    maxWidth: '80%',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    borderRadius: theme.radii.md,
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    gap: 2,
+  },
+  captionScore: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
   dotsContainer: {
     alignSelf: 'center',
     flexDirection: 'row',
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { SDText } from './ui';
+import { theme } from '../theme';
+import { lightHaptic } from '../lib/haptics';
+import type { DishNameSuggestion } from '../types/database';
+
+type Props = {
+  suggestions: DishNameSuggestion[];
+  onSelect: (name: string) => void;
+};
+
+/**
+ * Chips under the dish name input offering dishes already ranked at this restaurant,
+ * so new rankings join the existing dish instead of starting a near-duplicate.
+ */
+export function DishNameSuggestions({ suggestions, onSelect }: Props) {
+  if (suggestions.length === 0) return null;
+
+  return (
+    <View style={styles.container}>
+      <SDText variant="caption" color="textMuted">
+        Already ranked here
+      </SDText>
+      <View style={styles.chips}>
+        {suggestions.map((suggestion) => (
+          <Pressable
+            key={suggestion.platillo_id}
+            accessibilityRole="button"
+            accessibilityLabel={`Use dish name ${suggestion.name}`}
+            onPress={async () => {
+              await lightHaptic();
+              onSelect(suggestion.name);
+            }}
+            style={({ pressed }) => [styles.chip, { opacity: pressed ? 0.85 : 1 }]}
+          >
+            <SDText variant="caption" weight="semibold" numberOfLines={1}>
+              {suggestion.name}
+            </SDText>
+            {suggestion.ranking_count > 0 && (
+              <SDText variant="caption" color="textMuted">
+                {suggestion.ranking_count}
+              </SDText>
+            )}
+          </Pressable>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing.xxs,
+    marginTop: theme.spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xxs,
+    maxWidth: '100%',
+    borderRadius: theme.radii.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface2,
+    paddingVertical: 6,
+    paddingHorizontal: theme.spacing.sm,
+  },
+});
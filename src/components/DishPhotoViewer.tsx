@@ -0,0 +1,209 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, StyleSheet, Image, Pressable, Dimensions, FlatList, Modal, Platform } from 'react-native';
+import { Gesture, GestureDetector, GestureHandlerRootView } from 'react-native-gesture-handler';
+import Animated, { runOnJS, useAnimatedStyle, useSharedValue, withTiming } from 'react-native-reanimated';
+import { Ionicons } from '@expo/vector-icons';
+import { SDText } from './ui';
+import { theme } from '../theme';
+import type { DishPhoto } from '../types/database';
+
+const { width: SCREEN_WIDTH, height: SCREEN_HEIGHT } = Dimensions.get('window');
+const MAX_ZOOM = 4;
+const DOUBLE_TAP_ZOOM = 2.5;
+
+export interface DishPhotoViewerProps {
+  photos: DishPhoto[];
+  initialIndex: number;
+  visible: boolean;
+  onClose: () => void;
+  currentUserId?: string | null;
+  onReport?: (photo: DishPhoto) => void; // Offered on photos other users posted
+}
+
+function ZoomablePhoto({ uri, onZoomChange }: { uri: string; onZoomChange: (zoomed: boolean) => void }) {
+  const [zoomed, setZoomed] = useState(false);
+  const scale = useSharedValue(1);
+  const savedScale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const savedTranslateX = useSharedValue(0);
+  const savedTranslateY = useSharedValue(0);
+
+  const handleZoomChange = useCallback(
+    (next: boolean) => {
+      setZoomed(next);
+      onZoomChange(next);
+    },
+    [onZoomChange]
+  );
+
+  const pinch = Gesture.Pinch()
+    .onUpdate((e) => {
+      scale.value = Math.min(Math.max(savedScale.value * e.scale, 1), MAX_ZOOM);
+    })
+    .onEnd(() => {
+      if (scale.value <= 1.05) {
+        scale.value = withTiming(1);
+        translateX.value = withTiming(0);
+        translateY.value = withTiming(0);
+        savedTranslateX.value = 0;
+        savedTranslateY.value = 0;
+      }
+      savedScale.value = scale.value <= 1.05 ? 1 : scale.value;
+      runOnJS(handleZoomChange)(savedScale.value > 1);
+    });
+
+  // Panning only while zoomed in, so a plain swipe still pages between photos
+  const pan = Gesture.Pan()
+    .enabled(zoomed)
+    .onUpdate((e) => {
+      const maxX = (SCREEN_WIDTH * (scale.value - 1)) / 2;
+      const maxY = (SCREEN_HEIGHT * (scale.value - 1)) / 2;
+      translateX.value = Math.min(Math.max(savedTranslateX.value + e.translationX, -maxX), maxX);
+      translateY.value = Math.min(Math.max(savedTranslateY.value + e.translationY, -maxY), maxY);
+    })
+    .onEnd(() => {
+      savedTranslateX.value = translateX.value;
+      savedTranslateY.value = translateY.value;
+    });
+
+  const doubleTap = Gesture.Tap()
+    .numberOfTaps(2)
+    .onEnd(() => {
+      const next = savedScale.value > 1 ? 1 : DOUBLE_TAP_ZOOM;
+      scale.value = withTiming(next);
+      savedScale.value = next;
+      translateX.value = withTiming(0);
+      translateY.value = withTiming(0);
+      savedTranslateX.value = 0;
+      savedTranslateY.value = 0;
+      runOnJS(handleZoomChange)(next > 1);
+    });
+
+  const animatedStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: translateX.value }, { translateY: translateY.value }, { scale: scale.value }],
+  }));
+
+  return (
+    <GestureDetector gesture={Gesture.Simultaneous(doubleTap, pinch, pan)}>
+      <Animated.View style={[styles.page, animatedStyle]}>
+        <Image source={{ uri }} style={styles.photo} resizeMode="contain" />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+/**
+ * Full-screen photo viewer: swipe between photos, pinch or double-tap to zoom.
+ * Shows the full-size image, not the thumbnail used in the carousel.
+ */
+export function DishPhotoViewer({ photos, initialIndex, visible, onClose, currentUserId, onReport }: DishPhotoViewerProps) {
+  const [currentIndex, setCurrentIndex] = useState(initialIndex);
+  const [isZoomed, setIsZoomed] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setCurrentIndex(initialIndex);
+      setIsZoomed(false);
+    }
+  }, [visible, initialIndex]);
+
+  const current = photos[currentIndex];
+
+  return (
+    <Modal visible={visible} animationType="fade" onRequestClose={onClose} statusBarTranslucent>
+      {/* Modals render outside the app's root view, so gestures need their own root here */}
+      <GestureHandlerRootView style={styles.container}>
+        <FlatList
+          data={photos}
+          keyExtractor={(photo) => photo.id}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!isZoomed}
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={Math.min(initialIndex, Math.max(photos.length - 1, 0))}
+          getItemLayout={(_, index) => ({ length: SCREEN_WIDTH, offset: SCREEN_WIDTH * index, index })}
+          onMomentumScrollEnd={(event) => {
+            setCurrentIndex(Math.round(event.nativeEvent.contentOffset.x / SCREEN_WIDTH));
+          }}
+          renderItem={({ item }) => <ZoomablePhoto uri={item.image_url} onZoomChange={setIsZoomed} />}
+        />
+
+        <Pressable
+          accessibilityRole="button"
+          accessibilityLabel="Close photo"
+          onPress={onClose}
+          style={({ pressed }) => [styles.overlayButton, styles.closeButton, { opacity: pressed ? 0.7 : 1 }]}
+        >
+          <Ionicons name="close" size={26} color={theme.colors.white} />
+        </Pressable>
+
+        {current && onReport && current.user_id !== currentUserId && (
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Report photo"
+            onPress={() => onReport(current)}
+            style={({ pressed }) => [styles.overlayButton, styles.reportButton, { opacity: pressed ? 0.7 : 1 }]}
+          >
+            <Ionicons name="flag-outline" size={22} color={theme.colors.white} />
+          </Pressable>
+        )}
+
+        {current && (
+          <View style={styles.caption} pointerEvents="none">
+            <SDText weight="bold" color="white" numberOfLines={2}>
+              {current.dish_name}
+            </SDText>
+            <SDText variant="caption" color="white">
+              {current.score}/10{photos.length > 1 ? `  ·  ${currentIndex + 1} of ${photos.length}` : ''}
+            </SDText>
+          </View>
+        )}
+      </GestureHandlerRootView>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.black,
+  },
+  page: {
+    width: SCREEN_WIDTH,
+    height: SCREEN_HEIGHT,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  photo: {
+    width: SCREEN_WIDTH,
+    height: SCREEN_HEIGHT,
+  },
+  overlayButton: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 54 : 24,
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  closeButton: {
+    right: theme.spacing.md,
+  },
+  reportButton: {
+    left: theme.spacing.md,
+  },
+  caption: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingHorizontal: theme.spacing.md,
+    paddingTop: theme.spacing.sm,
+    paddingBottom: Platform.OS === 'ios' ? 40 : theme.spacing.md,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    gap: theme.spacing.xxs,
+  },
+});
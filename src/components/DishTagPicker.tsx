@@ -0,0 +1,88 @@
+import React from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+
+import { SDText } from './ui';
+import { theme } from '../theme';
+import { lightHaptic } from '../lib/haptics';
+import type { DishTag } from '../types/database';
+import {
+  SPICE_LEVEL_TAGS,
+  TOGGLE_DISH_TAGS,
+  isSpiceLevelTag,
+  toggleDishTag,
+  withSpiceLevel,
+} from '../utils/dishTags';
+
+type Props = {
+  tags: DishTag[];
+  onChange: (tags: DishTag[]) => void;
+};
+
+/**
+ * Diet and allergen toggles plus a single spice level for the ranking form.
+ */
+export function DishTagPicker({ tags, onChange }: Props) {
+  const spiceLevel = tags.find(isSpiceLevelTag) ?? null;
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <Pressable
+      key={key}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ selected }}
+      onPress={async () => {
+        await lightHaptic();
+        onPress();
+      }}
+      style={({ pressed }) => [styles.chip, selected ? styles.chipSelected : null, { opacity: pressed ? 0.85 : 1 }]}
+    >
+      <SDText variant="caption" weight={selected ? 'bold' : 'semibold'} color={selected ? 'black' : 'text'}>
+        {label}
+      </SDText>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.chips}>
+        {TOGGLE_DISH_TAGS.map(({ tag, label }) =>
+          renderChip(tag, label, tags.includes(tag), () => onChange(toggleDishTag(tags, tag)))
+        )}
+      </View>
+      <SDText variant="caption" color="textMuted">
+        Spice level
+      </SDText>
+      <View style={styles.chips}>
+        {renderChip('spicy_none', 'Not spicy', spiceLevel == null, () => onChange(withSpiceLevel(tags, null)))}
+        {SPICE_LEVEL_TAGS.map(({ tag, label }) =>
+          renderChip(tag, label, spiceLevel === tag, () =>
+            onChange(withSpiceLevel(tags, spiceLevel === tag ? null : tag))
+          )
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  chip: {
+    borderRadius: theme.radii.pill,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface2,
+    paddingVertical: 6,
+    paddingHorizontal: theme.spacing.sm,
+  },
+  chipSelected: {
+    borderColor: 'rgba(0,0,0,0.15)',
+    backgroundColor: theme.colors.brand,
+  },
+});
@@ -0,0 +1,454 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { ActivityIndicator, Alert, Image, Pressable, StyleSheet, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useFocusEffect } from '@react-navigation/native';
+
+import { SDButton, SDText } from './ui';
+import { theme } from '../theme';
+import { lightHaptic } from '../lib/haptics';
+import { getMyDishRankings, type MyDishRankingsSort } from '../services/dishRankingService';
+import type { PendingRanking } from '../services/rankingOutboxService';
+import { useRankingOutbox } from '../state/RankingOutboxContext';
+import { normalizeRestaurantRef } from '../utils/restaurantRef';
+import { formatPrice } from '../utils/price';
+import type { DishRanking, UUID } from '../types/database';
+
+const PAGE_SIZE = 20;
+
+const SORT_OPTIONS: Array<{ value: MyDishRankingsSort; label: string }> = [
+  { value: 'date', label: 'Newest' },
+  { value: 'score', label: 'Top rated' },
+];
+
+export type MyRankingsGroup = {
+  placeId: UUID;
+  restaurantId: string | null; // Canonical ref used to open the restaurant on the map
+  restaurantName: string;
+  lat: number | null;
+  lng: number | null;
+  rankings: DishRanking[];
+};
+
+// Groups keep the order of their first ranking, so the chosen sort carries over to restaurants
+function groupByPlace(rankings: DishRanking[]): MyRankingsGroup[] {
+  const groups = new Map<UUID, MyRankingsGroup>();
+
+  for (const ranking of rankings) {
+    let group = groups.get(ranking.place_id);
+    if (!group) {
+      group = {
+        placeId: ranking.place_id,
+        restaurantId: normalizeRestaurantRef(ranking.osm_id),
+        restaurantName: ranking.restaurant_name,
+        lat: null,
+        lng: null,
+        rankings: [],
+      };
+      groups.set(ranking.place_id, group);
+    }
+    if (group.lat == null && ranking.restaurant_lat != null && ranking.restaurant_lng != null) {
+      group.lat = ranking.restaurant_lat;
+      group.lng = ranking.restaurant_lng;
+    }
+    group.rankings.push(ranking);
+  }
+
+  return Array.from(groups.values());
+}
+
+function formatRankingDate(iso: string): string {
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return '';
+  return date.toLocaleDateString(undefined, { year: 'numeric', month: 'short', day: 'numeric' });
+}
+
+type Props = {
+  onSelect: (group: MyRankingsGroup) => void;
+};
+
+/**
+ * The signed-in user's rankings, grouped by restaurant and paged in on demand.
+ * Reloads from the first page whenever the screen regains focus, so ratings
+ * made on the map show up without a manual refresh. Rankings saved offline are
+ * listed first with a "Pending sync" badge until the outbox submits them, or with the
+ * reason and a retry button if the server rejected them.
+ */
+export function MyRankingsList({ onSelect }: Props) {
+  const [sort, setSort] = useState<MyDishRankingsSort>('date');
+  const [rankings, setRankings] = useState<DishRanking[]>([]);
+  const [page, setPage] = useState(0);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const { pendingRankings, lastSynced, discardRanking, retryRanking } = useRankingOutbox();
+
+  // Ignore responses for a sort or reload that has since been superseded
+  const requestIdRef = useRef(0);
+
+  const loadFirstPage = useCallback(async (nextSort: MyDishRankingsSort) => {
+    const requestId = ++requestIdRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await getMyDishRankings({ sort: nextSort, page: 0, pageSize: PAGE_SIZE });
+      if (requestId !== requestIdRef.current) return;
+      setRankings(result.rankings);
+      setHasMore(result.hasMore);
+      setPage(0);
+    } catch (e) {
+      if (requestId !== requestIdRef.current) return;
+      setError(e instanceof Error ? e.message : 'Failed to load your rankings.');
+    } finally {
+      if (requestId === requestIdRef.current) setLoading(false);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      void loadFirstPage(sort);
+    }, [loadFirstPage, sort])
+  );
+
+  // A queued ranking just landed; show it from the server instead of the outbox
+  useEffect(() => {
+    if (lastSynced) void loadFirstPage(sort);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [lastSynced]);
+
+  const confirmDiscard = useCallback(
+    (entry: PendingRanking) => {
+      Alert.alert('Discard ranking?', `Your ranking of ${entry.input.dish_name} hasn't been submitted yet and will be lost.`, [
+        { text: 'Keep', style: 'cancel' },
+        { text: 'Discard', style: 'destructive', onPress: () => void discardRanking(entry.clientRequestId) },
+      ]);
+    },
+    [discardRanking]
+  );
+
+  const loadMore = useCallback(async () => {
+    if (loadingMore || !hasMore) return;
+    const requestId = requestIdRef.current;
+    const nextPage = page + 1;
+    setLoadingMore(true);
+    try {
+      const result = await getMyDishRankings({ sort, page: nextPage, pageSize: PAGE_SIZE });
+      if (requestId !== requestIdRef.current) return;
+      setRankings((prev) => {
+        const seen = new Set(prev.map((r) => r.id));
+        return [...prev, ...result.rankings.filter((r) => !seen.has(r.id))];
+      });
+      setHasMore(result.hasMore);
+      setPage(nextPage);
+    } catch (e) {
+      if (requestId !== requestIdRef.current) return;
+      setError(e instanceof Error ? e.message : 'Failed to load more rankings.');
+    } finally {
+      setLoadingMore(false);
+    }
+  }, [hasMore, loadingMore, page, sort]);
+
+  const groups = useMemo(() => groupByPlace(rankings), [rankings]);
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.headerRow}>
+        <SDText weight="bold" variant="subtitle">
+          My rankings
+        </SDText>
+        <View style={styles.sortRow}>
+          {SORT_OPTIONS.map((option) => {
+            const active = option.value === sort;
+            return (
+              <Pressable
+                key={option.value}
+                accessibilityRole="button"
+                accessibilityState={{ selected: active }}
+                accessibilityLabel={`Sort by ${option.label}`}
+                onPress={async () => {
+                  if (active) return;
+                  await lightHaptic();
+                  setSort(option.value);
+                }}
+                style={({ pressed }) => [
+                  styles.sortChip,
+                  active && styles.sortChipActive,
+                  { opacity: pressed ? 0.85 : 1 },
+                ]}
+              >
+                <SDText variant="caption" weight="semibold" color={active ? 'black' : 'textMuted'}>
+                  {option.label}
+                </SDText>
+              </Pressable>
+            );
+          })}
+        </View>
+      </View>
+
+      {pendingRankings.length > 0 ? (
+        <View style={styles.group}>
+          {pendingRankings.map((entry) => {
+            const photo = entry.input.thumbnail_url ?? entry.input.image_url ?? entry.imageUri;
+            const failed = entry.status === 'failed';
+            return (
+              <View key={entry.clientRequestId} style={styles.rankingItem}>
+                {photo ? (
+                  <Image source={{ uri: photo }} style={styles.thumbnail} resizeMode="cover" />
+                ) : (
+                  <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                    <Ionicons name="restaurant" size={20} color={theme.colors.textMuted} />
+                  </View>
+                )}
+                <View style={styles.rankingContent}>
+                  <SDText weight="semibold" numberOfLines={1}>
+                    {entry.input.dish_name}
+                  </SDText>
+                  <SDText color="textMuted" variant="caption" numberOfLines={1}>
+                    {entry.input.restaurant_name}
+                  </SDText>
+                  <View style={styles.row}>
+                    <View style={styles.scorePill}>
+                      <SDText weight="bold" color="black" variant="caption">
+                        {entry.input.score}/10
+                      </SDText>
+                    </View>
+                    {failed ? (
+                      <View style={styles.pendingBadge}>
+                        <Ionicons name="alert-circle-outline" size={12} color={theme.colors.negative} />
+                        <SDText color="negative" variant="caption">
+                          Not submitted
+                        </SDText>
+                      </View>
+                    ) : (
+                      <View style={styles.pendingBadge}>
+                        <Ionicons name="cloud-upload-outline" size={12} color={theme.colors.textMuted} />
+                        <SDText color="textMuted" variant="caption">
+                          Pending sync
+                        </SDText>
+                      </View>
+                    )}
+                  </View>
+                  {failed && entry.lastError ? (
+                    <SDText color="textMuted" variant="caption" numberOfLines={2}>
+                      {entry.lastError}
+                    </SDText>
+                  ) : null}
+                </View>
+                {failed ? (
+                  <Pressable
+                    accessibilityRole="button"
+                    accessibilityLabel={`Retry submitting your ranking of ${entry.input.dish_name}`}
+                    hitSlop={8}
+                    onPress={() => void retryRanking(entry.clientRequestId)}
+                    style={({ pressed }) => [styles.retryButton, { opacity: pressed ? 0.7 : 1 }]}
+                  >
+                    <Ionicons name="refresh" size={18} color={theme.colors.textMuted} />
+                  </Pressable>
+                ) : null}
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel={`Discard unsent ranking of ${entry.input.dish_name}`}
+                  hitSlop={8}
+                  onPress={() => confirmDiscard(entry)}
+                  style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+                >
+                  <Ionicons name="close" size={18} color={theme.colors.textMuted} />
+                </Pressable>
+              </View>
+            );
+          })}
+        </View>
+      ) : null}
+
+      {loading ? (
+        <View style={styles.row}>
+          <ActivityIndicator color={theme.colors.textMuted} />
+          <SDText color="textMuted">Loading your rankings…</SDText>
+        </View>
+      ) : error && rankings.length === 0 ? (
+        <SDText color="textMuted" variant="caption">
+          {error}
+        </SDText>
+      ) : groups.length === 0 ? (
+        pendingRankings.length > 0 ? null : (
+          <SDText color="textMuted" variant="caption">
+            You haven't rated any dishes yet. Pick a restaurant on the map to rate your first one.
+          </SDText>
+        )
+      ) : (
+        <View style={styles.groups}>
+          {groups.map((group) => {
+            const canOpen = group.lat != null && group.lng != null && !!group.restaurantId;
+            return (
+              <View key={group.placeId} style={styles.group}>
+                <Pressable
+                  accessibilityRole="button"
+                  accessibilityLabel={`Show ${group.restaurantName} on the map`}
+                  disabled={!canOpen}
+                  onPress={async () => {
+                    await lightHaptic();
+                    onSelect(group);
+                  }}
+                  style={({ pressed }) => [styles.groupHeader, { opacity: pressed ? 0.85 : 1 }]}
+                >
+                  <View style={styles.groupTitle}>
+                    <SDText weight="semibold" numberOfLines={1}>
+                      {group.restaurantName}
+                    </SDText>
+                    <SDText color="textMuted" variant="caption">
+                      {group.rankings.length === 1 ? '1 dish' : `${group.rankings.length} dishes`}
+                      {canOpen ? '' : ' • location unavailable'}
+                    </SDText>
+                  </View>
+                  {canOpen ? <Ionicons name="map-outline" size={18} color={theme.colors.textMuted} /> : null}
+                </Pressable>
+
+                {group.rankings.map((ranking) => (
+                  <View key={ranking.id} style={styles.rankingItem}>
+                    {ranking.image_url ? (
+                      <Image source={{ uri: ranking.thumbnail_url ?? ranking.image_url }} style={styles.thumbnail} resizeMode="cover" />
+                    ) : (
+                      <View style={[styles.thumbnail, styles.thumbnailPlaceholder]}>
+                        <Ionicons name="restaurant" size={20} color={theme.colors.textMuted} />
+                      </View>
+                    )}
+                    <View style={styles.rankingContent}>
+                      <SDText weight="semibold" numberOfLines={1}>
+                        {ranking.dish_name}
+                      </SDText>
+                      <View style={styles.row}>
+                        <View style={styles.scorePill}>
+                          <SDText weight="bold" color="black" variant="caption">
+                            {ranking.score}/10
+                          </SDText>
+                        </View>
+                        {ranking.price_cents != null ? (
+                          <SDText color="textMuted" variant="caption">
+                            {formatPrice(ranking.price_cents)}
+                          </SDText>
+                        ) : null}
+                        {ranking.moderation_state === 'hidden' ? (
+                          <View style={styles.pendingBadge}>
+                            <Ionicons name="eye-off-outline" size={12} color={theme.colors.negative} />
+                            <SDText color="negative" variant="caption">
+                              Hidden after reports
+                            </SDText>
+                          </View>
+                        ) : null}
+                        <SDText color="textMuted" variant="caption" style={styles.date}>
+                          {formatRankingDate(ranking.created_at)}
+                        </SDText>
+                      </View>
+                    </View>
+                  </View>
+                ))}
+              </View>
+            );
+          })}
+
+          {hasMore ? (
+            <SDButton
+              title={loadingMore ? 'Loading…' : 'Load more'}
+              tone="surface"
+              disabled={loadingMore}
+              onPress={() => void loadMore()}
+            />
+          ) : null}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing.md,
+  },
+  headerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: theme.spacing.sm,
+  },
+  sortRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xxs,
+  },
+  sortChip: {
+    borderRadius: theme.radii.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface2,
+    paddingVertical: 6,
+    paddingHorizontal: theme.spacing.sm,
+  },
+  sortChipActive: {
+    backgroundColor: theme.colors.brand,
+    borderColor: theme.colors.brand,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xs,
+  },
+  groups: {
+    gap: theme.spacing.md,
+  },
+  group: {
+    gap: theme.spacing.xs,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingVertical: theme.spacing.xxs,
+  },
+  groupTitle: {
+    flex: 1,
+    gap: 2,
+  },
+  rankingItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    borderRadius: theme.radii.lg,
+    backgroundColor: theme.colors.surface2,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: theme.colors.border,
+    overflow: 'hidden',
+  },
+  thumbnail: {
+    width: 64,
+    height: 64,
+    backgroundColor: theme.colors.surface2,
+  },
+  thumbnailPlaceholder: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  rankingContent: {
+    flex: 1,
+    paddingVertical: theme.spacing.xs,
+    paddingRight: theme.spacing.sm,
+    gap: 6,
+  },
+  scorePill: {
+    borderRadius: theme.radii.pill,
+    backgroundColor: theme.colors.brand,
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    minWidth: 50,
+    alignItems: 'center',
+  },
+  pendingBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xxs,
+  },
+  retryButton: {
+    marginRight: theme.spacing.sm,
+  },
+  date: {
+    marginLeft: 'auto',
+  },
+});
@@ -0,0 +1,161 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivityIndicator, Pressable, StyleSheet, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { SDText } from './ui';
+import { usePlatilloVoteCounts } from '../hooks/usePlatilloVotes';
+import { theme } from '../theme';
+import { getDishPriceHistory, getPlaceDishes, getRestaurantDishLeaderboard } from '../services/platilloService';
+import type { DishLeaderboardEntry, DishRanking, PlaceDish, UUID } from '../types/database';
+import { dishTagLabel } from '../utils/dishTags';
+import { formatPrice } from '../utils/price';
+
+// Same cut-off as ScoreSummary: below it the weighted score is still mostly the global prior
+const LOW_CONFIDENCE = 0.5;
+
+type Props = {
+  placeId: UUID;
+  rankings: DishRanking[]; // The sheet's loaded rankings; the list reloads whenever they change
+  onSelect: (dish: PlaceDish) => void;
+};
+
+function scoreDetails(dish: PlaceDish, entry: DishLeaderboardEntry | undefined): string {
+  const ratings = dish.ranking_count === 1 ? '1 rating' : `${dish.ranking_count} ratings`;
+  if (!entry) return `${dish.avg_score.toFixed(1)}/10 · ${ratings}`;
+
+  const details = [`${entry.weighted_score.toFixed(1)} weighted`, `avg ${entry.avg_score.toFixed(1)}`, ratings];
+  if (entry.confidence < LOW_CONFIDENCE) details.push('few ratings yet');
+  return details.join(' · ');
+}
+
+/**
+ * Dishes at a place, star dish first, each opening its detail screen where users vote on it.
+ * Rows also show the dish's leaderboard numbers: confidence-weighted score, raw average and agreed tags,
+ * and its typical price in the latest month with prices. Vote counts for every row come from one
+ * batched hook and stay live, so votes cast in the detail screen show up here too.
+ */
+export function PlaceDishList({ placeId, rankings, onSelect }: Props) {
+  const [dishes, setDishes] = useState<PlaceDish[]>([]);
+  const [leaderboard, setLeaderboard] = useState<Map<UUID, DishLeaderboardEntry>>(new Map());
+  const [pricesById, setPricesById] = useState<Map<UUID, number>>(new Map());
+  const [loading, setLoading] = useState(true);
+  const platilloIds = useMemo(() => dishes.map((dish) => dish.platillo_id), [dishes]);
+  const { countsById } = usePlatilloVoteCounts(platilloIds);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    getPlaceDishes(placeId)
+      .then((rows) => {
+        if (!cancelled) setDishes(rows);
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[PlaceDishList] Failed to load dishes:', error);
+        if (!cancelled) setDishes([]);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    getRestaurantDishLeaderboard(placeId)
+      .then((entries) => {
+        if (!cancelled) setLeaderboard(new Map(entries.map((entry) => [entry.platillo_id, entry])));
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[PlaceDishList] Failed to load dish leaderboard:', error);
+        if (!cancelled) setLeaderboard(new Map());
+      });
+    getDishPriceHistory(placeId)
+      .then((rows) => {
+        if (cancelled) return;
+        // Newest period first, so the first row of each dish is its current price
+        const prices = new Map<UUID, number>();
+        for (const row of rows) {
+          if (!prices.has(row.platillo_id)) prices.set(row.platillo_id, row.median_price_cents);
+        }
+        setPricesById(prices);
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[PlaceDishList] Failed to load dish prices:', error);
+        if (!cancelled) setPricesById(new Map());
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [placeId, rankings]);
+
+  if (loading && dishes.length === 0) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="small" color={theme.colors.textMuted} />
+      </View>
+    );
+  }
+
+  if (dishes.length === 0) return null;
+
+  return (
+    <View style={styles.list}>
+      {dishes.map((dish, index) => {
+        const entry = leaderboard.get(dish.platillo_id);
+        const price = pricesById.get(dish.platillo_id);
+        const votes = countsById[dish.platillo_id];
+        return (
+          <Pressable
+            key={dish.platillo_id}
+            accessibilityRole="button"
+            accessibilityLabel={`Open ${dish.name}`}
+            onPress={() => onSelect(dish)}
+            style={({ pressed }) => [styles.row, { opacity: pressed ? 0.7 : 1 }]}
+          >
+            <Ionicons
+              name={index === 0 ? 'star' : 'restaurant-outline'}
+              size={16}
+              color={index === 0 ? theme.colors.brand : theme.colors.textMuted}
+            />
+            <View style={styles.rowText}>
+              <SDText weight="semibold" numberOfLines={1}>
+                {dish.name}
+              </SDText>
+              <SDText color="textMuted" variant="caption">
+                {scoreDetails(dish, entry)}
+                {price != null ? ` · ~${formatPrice(price)}` : ''}
+                {` · ▲ ${votes?.up ?? dish.up_votes} ▼ ${votes?.down ?? dish.down_votes}`}
+              </SDText>
+              {entry && entry.tags.length > 0 ? (
+                <SDText color="textMuted" variant="caption" numberOfLines={1}>
+                  {entry.tags.map(dishTagLabel).join(' · ')}
+                </SDText>
+              ) : null}
+            </View>
+            <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: theme.spacing.md,
+    alignItems: 'center',
+  },
+  list: {
+    gap: theme.spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.md,
+    paddingVertical: theme.spacing.xs,
+    paddingHorizontal: theme.spacing.sm,
+    borderRadius: theme.radii.md,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface,
+  },
+  rowText: {
+    flex: 1,
+    gap: 2,
+  },
+});
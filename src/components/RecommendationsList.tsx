@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 
 import { SDText } from './ui';
+import { ScoreSummary } from './ScoreSummary';
 import { theme } from '../theme';
 import { lightHaptic } from '../lib/haptics';
 import type { RestaurantWithRanking } from '../types/database';
@@ -55,14 +56,7 @@ function RecommendationSection({ title, icon, restaurants, onSelect }: SectionPr
                     {item.address}
                   </SDText>
                 )}
-                {item.top_dish_net_score > 0 && (
-                  <View style={styles.scoreRow}>
-                    <Ionicons name="star" size={12} color={theme.colors.brand} />
-                    <SDText weight="semibold" variant="caption" color="brand">
-                      {item.top_dish_net_score.toFixed(1)}
-                    </SDText>
-                  </View>
-                )}
+                <ScoreSummary restaurant={item} style={styles.scoreRow} />
               </View>
             </Pressable>
           </Animated.View>
@@ -73,6 +67,7 @@ function RecommendationSection({ title, icon, restaurants, onSelect }: SectionPr
 }
 
 type RecommendationsListProps = {
+  saved: RestaurantWithRanking[];
   recentlyViewed: RestaurantWithRanking[];
   topPicks: RestaurantWithRanking[];
   bestRated: RestaurantWithRanking[];
@@ -80,12 +75,14 @@ type RecommendationsListProps = {
 };
 
 export function RecommendationsList({
+  saved,
   recentlyViewed,
   topPicks,
   bestRated,
   onSelect,
 }: RecommendationsListProps) {
-  const hasAnyRecommendations = recentlyViewed.length > 0 || topPicks.length > 0 || bestRated.length > 0;
+  const hasAnyRecommendations =
+    saved.length > 0 || recentlyViewed.length > 0 || topPicks.length > 0 || bestRated.length > 0;
 
   if (!hasAnyRecommendations) {
     return (
@@ -103,6 +100,14 @@ export function RecommendationsList({
 
   return (
     <View style={styles.container}>
+      {saved.length > 0 && (
+        <RecommendationSection
+          title="Saved"
+          icon="heart-outline"
+          restaurants={saved}
+          onSelect={onSelect}
+        />
+      )}
       {recentlyViewed.length > 0 && (
         <RecommendationSection
           title="Recently Viewed"
@@ -170,9 +175,6 @@ const styles = StyleSheet.create({
     gap: theme.spacing.xs,
   },
   scoreRow: {
-    flexDirection: 'row',
-    alignItems: 'center',
-    gap: theme.spacing.xs,
     marginTop: theme.spacing.xs,
   },
   emptyState: {
@@ -1,12 +1,21 @@
-import React from 'react';
+import React, { useState } from 'react';
 import { View, StyleSheet, Pressable, FlatList, Image } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 
 import { SDText } from './ui';
+import { ScoreSummary } from './ScoreSummary';
 import { theme } from '../theme';
 import { lightHaptic } from '../lib/haptics';
 import type { RestaurantWithRanking } from '../types/database';
+import { formatPrice, valueScore } from '../utils/price';
+
+type CardSort = 'distance' | 'value';
+
+const SORT_OPTIONS: Array<{ value: CardSort; label: string }> = [
+  { value: 'distance', label: 'Nearest' },
+  { value: 'value', label: 'Best value' },
+];
 
 type RestaurantCardListProps = {
   restaurants: RestaurantWithRanking[];
@@ -97,6 +106,8 @@ function getCuisineLabel(restaurant: RestaurantWithRanking): string {
 }
 
 export function RestaurantCardList({ restaurants, onSelect, userLocation, isLoading }: RestaurantCardListProps) {
+  const [sort, setSort] = useState<CardSort>('distance');
+
   if (isLoading) {
     return (
       <View style={styles.container}>
@@ -132,14 +143,50 @@ export function RestaurantCardList({ restaurants, onSelect, userLocation, isLoad
     return { restaurant, distance };
   });
 
-  // Sort by distance if available, otherwise keep original order
-  const sortedRestaurants = userLocation
-    ? [...restaurantsWithDistance].sort((a, b) => {
-        if (a.distance === null) return 1;
-        if (b.distance === null) return -1;
-        return a.distance - b.distance;
-      })
-    : restaurantsWithDistance;
+  // Best value: score per peso of the typical dish, places without prices last.
+  // Otherwise sort by distance if available, or keep the original order.
+  const sortedRestaurants =
+    sort === 'value'
+      ? restaurantsWithDistance
+          .map((item) => ({ ...item, value: valueScore(item.restaurant) }))
+          .sort((a, b) => {
+            if (a.value === null) return b.value === null ? 0 : 1;
+            if (b.value === null) return -1;
+            return b.value - a.value;
+          })
+      : userLocation
+        ? [...restaurantsWithDistance].sort((a, b) => {
+            if (a.distance === null) return 1;
+            if (b.distance === null) return -1;
+            return a.distance - b.distance;
+          })
+        : restaurantsWithDistance;
+
+  const header = (
+    <View style={styles.sortRow}>
+      {SORT_OPTIONS.map((option) => {
+        const active = option.value === sort;
+        return (
+          <Pressable
+            key={option.value}
+            accessibilityRole="button"
+            accessibilityState={{ selected: active }}
+            accessibilityLabel={`Sort by ${option.label}`}
+            onPress={async () => {
+              if (active) return;
+              await lightHaptic();
+              setSort(option.value);
+            }}
+            style={({ pressed }) => [styles.sortChip, active && styles.sortChipActive, { opacity: pressed ? 0.85 : 1 }]}
+          >
+            <SDText variant="caption" weight="semibold" color={active ? 'black' : 'textMuted'}>
+              {option.label}
+            </SDText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
 
   return (
     <View style={styles.container}>
@@ -148,6 +195,7 @@ export function RestaurantCardList({ restaurants, onSelect, userLocation, isLoad
         keyExtractor={(item) => item.restaurant.id}
         contentContainerStyle={styles.list}
         showsVerticalScrollIndicator={false}
+        ListHeaderComponent={header}
         renderItem={({ item, index }) => {
           const { restaurant, distance } = item;
           const imageUrl = getCuisineImage(restaurant.cuisine, restaurant.establishment_type);
@@ -173,12 +221,14 @@ export function RestaurantCardList({ restaurants, onSelect, userLocation, isLoad
                   <SDText weight="bold" variant="subtitle" numberOfLines={1}>
                     {restaurant.name}
                   </SDText>
+                  <ScoreSummary restaurant={restaurant} />
                   <SDText color="textMuted" variant="caption" numberOfLines={2} style={styles.promotionText}>
                     {promotionalOffer}
                   </SDText>
                   <View style={styles.cardFooter}>
                     <SDText color="textMuted" variant="caption" weight="semibold">
                       {cuisineLabel}
+                      {restaurant.median_price_cents != null ? ` · ~${formatPrice(restaurant.median_price_cents)}` : ''}
                     </SDText>
                     {distance !== null && (
                       <SDText color="textMuted" variant="caption" weight="semibold">
@@ -204,6 +254,22 @@ const styles = StyleSheet.create({
     padding: theme.spacing.lg,
     gap: theme.spacing.lg,
   },
+  sortRow: {
+    flexDirection: 'row',
+    gap: theme.spacing.xxs,
+  },
+  sortChip: {
+    borderRadius: theme.radii.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface2,
+    paddingVertical: 6,
+    paddingHorizontal: theme.spacing.sm,
+  },
+  sortChipActive: {
+    backgroundColor: theme.colors.brand,
+    borderColor: theme.colors.brand,
+  },
   card: {
     flexDirection: 'row',
     backgroundColor: theme.colors.surface,
@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, StyleSheet, type ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+
+import { SDText } from './ui';
+import { theme } from '../theme';
+import type { RestaurantWithRanking } from '../types/database';
+
+// Below this the weighted score is still mostly the global prior
+const LOW_CONFIDENCE = 0.5;
+
+type Props = {
+  restaurant: RestaurantWithRanking;
+  style?: ViewStyle;
+};
+
+/**
+ * Weighted score first (what lists are ranked by), then the raw average and review count.
+ * Falls back to the raw average for restaurants that came without a weighted score.
+ */
+export function ScoreSummary({ restaurant, style }: Props) {
+  const reviewCount = restaurant.review_count ?? 0;
+  const average = restaurant.top_dish_net_score;
+  if (average <= 0 && reviewCount === 0) return null;
+
+  const score = restaurant.weighted_score ?? average;
+  const lowConfidence = restaurant.confidence != null && restaurant.confidence < LOW_CONFIDENCE;
+
+  const details: string[] = [];
+  if (restaurant.weighted_score != null) details.push(`avg ${average.toFixed(1)}`);
+  if (reviewCount > 0) details.push(reviewCount === 1 ? '1 rating' : `${reviewCount} ratings`);
+  if (lowConfidence) details.push('few ratings yet');
+
+  return (
+    <View style={[styles.row, style]}>
+      <Ionicons name="star" size={12} color={theme.colors.brand} />
+      <SDText weight="semibold" variant="caption" color="brand">
+        {score.toFixed(1)}
+      </SDText>
+      {details.length > 0 && (
+        <SDText color="textMuted" variant="caption" numberOfLines={1} style={styles.details}>
+          {details.join(' · ')}
+        </SDText>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.xxs,
+  },
+  details: {
+    flexShrink: 1,
+  },
+});
@@ -4,15 +4,24 @@ import { Ionicons } from '@expo/vector-icons';
 import Animated, { FadeInDown } from 'react-native-reanimated';
 import { useDebounce } from '../hooks/useDebounce';
 import { searchAutocomplete, retrieveFeature, type SearchAutocompleteResult } from '../services/mapboxSearchService';
+import { searchDishes } from '../services/dishSearchService';
 import { sessionTokenManager } from '../services/sessionTokenManager';
 import { lightHaptic } from '../lib/haptics';
 import { SDText } from './ui';
 import { theme } from '../theme';
-import type { MapboxSuggestion, MapboxFeature } from '../types/database';
+import type { MapboxSuggestion, MapboxFeature, DishSearchResult } from '../types/database';
+
+const DISH_RESULT_LIMIT = 4;
+
+// Dish matches from our own rankings are listed above Mapbox places
+type SearchSuggestion =
+  | { kind: 'dish'; key: string; dish: DishSearchResult }
+  | { kind: 'place'; key: string; place: SearchAutocompleteResult };
 
 export interface SearchHeaderProps {
   placeholder?: string;
   onSelect: (feature: MapboxFeature) => void;
+  onSelectDish?: (result: DishSearchResult) => void; // Enables dish search alongside places
   proximity?: { latitude: number; longitude: number };
   initialValue?: string;
   autoFocus?: boolean;
@@ -21,12 +30,13 @@ export interface SearchHeaderProps {
 export function SearchHeader({
   placeholder = 'What restaurant are you at?',
   onSelect,
+  onSelectDish,
   proximity,
   initialValue = '',
   autoFocus = false,
 }: SearchHeaderProps) {
   const [query, setQuery] = useState(initialValue);
-  const [suggestions, setSuggestions] = useState<SearchAutocompleteResult[]>([]);
+  const [suggestions, setSuggestions] = useState<SearchSuggestion[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [isFocused, setIsFocused] = useState(false);
   const [selectedIndex, setSelectedIndex] = useState(-1);
@@ -46,20 +56,34 @@ export function SearchHeader({
       try {
         // Get session token from shared manager (only creates one if needed for API call)
         const token = sessionTokenManager.getToken();
-        
-        const { results, sessionToken } = await searchAutocomplete(
-          debouncedQuery,
-          {
-            proximity,
-            limit: 10,
-          },
-          token
-        );
+
+        // Dish search is best-effort: places still show if it fails
+        const dishesPromise = onSelectDish
+          ? searchDishes(debouncedQuery, { proximity, limit: DISH_RESULT_LIMIT }).catch((error) => {
+              if (__DEV__) console.warn('[SearchHeader] Dish search error:', error);
+              return [] as DishSearchResult[];
+            })
+          : Promise.resolve([] as DishSearchResult[]);
+
+        const [{ results, sessionToken }, dishes] = await Promise.all([
+          searchAutocomplete(
+            debouncedQuery,
+            {
+              proximity,
+              limit: 10,
+            },
+            token
+          ),
+          dishesPromise,
+        ]);
         
         // Update the shared session token manager with the returned token
         // This ensures we use the same token for retrieve() calls
         sessionTokenManager.updateToken(sessionToken);
-        setSuggestions(results);
+        setSuggestions([
+          ...dishes.map((dish): SearchSuggestion => ({ kind: 'dish', key: `dish:${dish.platillo_id}`, dish })),
+          ...results.map((place): SearchSuggestion => ({ kind: 'place', key: place.suggestion.mapbox_id, place })),
+        ]);
       } catch (error) {
         if (__DEV__) {
           console.error('[SearchHeader] Autocomplete error:', error);
@@ -71,7 +95,7 @@ export function SearchHeader({
     };
 
     void search();
-  }, [debouncedQuery, proximity]);
+  }, [debouncedQuery, proximity, onSelectDish]);
 
   // Reset selected index when suggestions change
   useEffect(() => {
@@ -108,6 +132,18 @@ export function SearchHeader({
     [onSelect]
   );
 
+  const handleSelectDish = useCallback(
+    async (dish: DishSearchResult) => {
+      await lightHaptic();
+      Keyboard.dismiss();
+      setIsFocused(false);
+      setSuggestions([]);
+      setQuery(dish.dish_name);
+      onSelectDish?.(dish);
+    },
+    [onSelectDish]
+  );
+
   const handleClear = useCallback(async () => {
     await lightHaptic();
     setQuery('');
@@ -175,11 +211,43 @@ export function SearchHeader({
             ) : suggestions.length > 0 ? (
               <FlatList
                 data={suggestions}
-                keyExtractor={(item) => item.suggestion.mapbox_id}
+                keyExtractor={(item) => item.key}
                 style={styles.suggestionsList}
                 keyboardShouldPersistTaps="handled"
                 renderItem={({ item, index }) => {
-                  const suggestion = item.suggestion;
+                  if (item.kind === 'dish') {
+                    const { dish } = item;
+                    return (
+                      <Animated.View entering={FadeInDown.delay(index * 30).duration(200)}>
+                        <Pressable
+                          accessibilityRole="button"
+                          accessibilityLabel={`Select ${dish.dish_name} at ${dish.restaurant_name}`}
+                          onPress={() => void handleSelectDish(dish)}
+                          style={({ pressed }) => [
+                            styles.suggestionRow,
+                            pressed && styles.suggestionRowPressed,
+                          ]}
+                        >
+                          <View style={styles.suggestionIcon}>
+                            <Ionicons name="star" size={18} color={theme.colors.brand} />
+                          </View>
+                          <View style={styles.suggestionBody}>
+                            <SDText weight="semibold" numberOfLines={1}>
+                              {dish.dish_name}
+                            </SDText>
+                            <SDText color="textMuted" variant="caption" numberOfLines={1}>
+                              {dish.restaurant_name} · {dish.avg_score.toFixed(1)}/10 ({dish.review_count}{' '}
+                              {dish.review_count === 1 ? 'rating' : 'ratings'})
+                            </SDText>
+                          </View>
+                          <Ionicons name="chevron-forward" size={18} color={theme.colors.textMuted} />
+                        </Pressable>
+                      </Animated.View>
+                    );
+                  }
+
+                  const result = item.place;
+                  const suggestion = result.suggestion;
                   // Extract neighborhood from context
                   const neighborhood = suggestion.context?.find((ctx) => ctx.id === 'neighborhood' || ctx.id === 'place');
                   const neighborhoodText = neighborhood?.text || '';
@@ -189,7 +257,7 @@ export function SearchHeader({
                       <Pressable
                         accessibilityRole="button"
                         accessibilityLabel={`Select ${suggestion.name}`}
-                        onPress={() => void handleSelect(item)}
+                        onPress={() => void handleSelect(result)}
                         style={({ pressed }) => [
                           styles.suggestionRow,
                           pressed && styles.suggestionRowPressed,
@@ -9,9 +9,15 @@ interface AuthErrorModalProps {
   visible: boolean;
   onClose: () => void;
   onSignIn: () => void;
+  message?: string;
 }
 
-export function AuthErrorModal({ visible, onClose, onSignIn }: AuthErrorModalProps) {
+export function AuthErrorModal({
+  visible,
+  onClose,
+  onSignIn,
+  message = 'You need to sign in to rate a dish. Please sign in to your account or create a new one.',
+}: AuthErrorModalProps) {
   return (
     <Modal
       visible={visible}
@@ -32,7 +38,7 @@ export function AuthErrorModal({ visible, onClose, onSignIn }: AuthErrorModalPro
 
           <View style={styles.body}>
             <SDText color="textMuted" style={styles.message}>
-              You need to sign in to rate a dish. Please sign in to your account or create a new one.
+              {message}
             </SDText>
           </View>
 
@@ -0,0 +1,59 @@
+import { useEffect } from 'react';
+import { StyleSheet, View } from 'react-native';
+import Animated, { FadeInDown, FadeOutDown } from 'react-native-reanimated';
+
+import { theme } from '../../theme';
+import { SDText } from './SDText';
+
+type Props = {
+  message: string | null;
+  onHide: () => void;
+  duration?: number;
+};
+
+// Transient message pinned to the bottom of its parent; hides itself after `duration` ms
+export function Toast({ message, onHide, duration = 3000 }: Props) {
+  useEffect(() => {
+    if (!message) return;
+    const timeout = setTimeout(onHide, duration);
+    return () => clearTimeout(timeout);
+  }, [message, onHide, duration]);
+
+  if (!message) return null;
+
+  return (
+    <View pointerEvents="none" style={styles.wrap}>
+      <Animated.View
+        entering={FadeInDown.duration(200)}
+        exiting={FadeOutDown.duration(200)}
+        accessibilityLiveRegion="polite"
+        style={styles.toast}
+      >
+        <SDText weight="semibold" color="white">
+          {message}
+        </SDText>
+      </Animated.View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  wrap: {
+    position: 'absolute',
+    left: theme.spacing.lg,
+    right: theme.spacing.lg,
+    bottom: theme.spacing.xl,
+    alignItems: 'center',
+  },
+  toast: {
+    borderRadius: theme.radii.pill,
+    backgroundColor: theme.colors.text,
+    paddingVertical: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.lg,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 12,
+    elevation: 6,
+  },
+});
@@ -2,6 +2,7 @@ export { SDText } from './SDText';
 export { SDButton } from './SDButton';
 export { SkeletonBlock } from './SkeletonBlock';
 export { AuthErrorModal } from './AuthErrorModal';
+export { Toast } from './Toast';
 
 
 
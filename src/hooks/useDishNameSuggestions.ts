@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+
+import { useDebounce } from './useDebounce';
+import { lookupPlaceId } from '../services/placeService';
+import { suggestDishNames } from '../services/platilloService';
+import type { DishNameSuggestion, RestaurantWithRanking } from '../types/database';
+
+const SUGGEST_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+
+/**
+ * Existing dishes at `restaurant` that match the dish name being typed. Empty until the
+ * place has a canonical id (nothing has been ranked there yet means nothing to suggest),
+ * and once the typed name already matches a suggestion exactly.
+ */
+export function useDishNameSuggestions(
+  restaurant: Pick<RestaurantWithRanking, 'id' | 'place_id'> | null,
+  dishName: string
+): DishNameSuggestion[] {
+  const query = useDebounce(dishName.trim(), SUGGEST_DEBOUNCE_MS);
+  const [suggestions, setSuggestions] = useState<DishNameSuggestion[]>([]);
+
+  const restaurantRef = restaurant?.id ?? null;
+  const knownPlaceId = restaurant?.place_id ?? null;
+
+  useEffect(() => {
+    if (!restaurantRef || query.length < MIN_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    (knownPlaceId ? Promise.resolve(knownPlaceId) : lookupPlaceId(restaurantRef))
+      .then((placeId) => (placeId ? suggestDishNames(placeId, query) : []))
+      .then((rows) => {
+        if (!cancelled) setSuggestions(rows);
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[useDishNameSuggestions] Failed to load suggestions:', error);
+        if (!cancelled) setSuggestions([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [restaurantRef, knownPlaceId, query]);
+
+  const typed = dishName.trim().toLowerCase();
+  if (suggestions.some((s) => s.name.toLowerCase() === typed)) return [];
+  return suggestions;
+}
@@ -1,43 +1,71 @@
-import { useEffect, useMemo, useState } from 'react';
+import { useCallback, useEffect, useId, useMemo, useRef, useState } from 'react';
 
 import { supabase } from '../lib/supabase';
-
-type VoteCounts = {
-  up: number;
-  down: number;
-  net: number;
+import { getPlatilloVoteCounts } from '../services/voteService';
+import type { PlatilloVoteCounts, UUID, VoteType } from '../types/database';
+
+type VoteRow = {
+  id?: UUID;
+  user_id?: UUID;
+  platillo_id?: UUID;
+  vote_type?: VoteType;
 };
 
-async function fetchVoteCounts(platilloId: string): Promise<VoteCounts> {
-  // MVP approach: fetch all votes for the dish and aggregate client-side.
-  // For scale, replace with a SQL view or RPC returning aggregated counts.
-  const { data, error } = await supabase
-    .from('votes')
-    .select('vote_type')
-    .eq('platillo_id', platilloId);
+const EMPTY_COUNTS: PlatilloVoteCounts = { up: 0, down: 0, net: 0, myVote: null };
 
-  if (error) throw error;
+// Deletes that arrive without the old row are settled by one batched refetch
+const REFETCH_DELAY_MS = 500;
 
-  const up = (data ?? []).filter((v) => v.vote_type === 'UP').length;
-  const down = (data ?? []).filter((v) => v.vote_type === 'DOWN').length;
-  return { up, down, net: up - down };
+function applyVoteDelta(counts: PlatilloVoteCounts, from: VoteType | null, to: VoteType | null): PlatilloVoteCounts {
+  let { up, down } = counts;
+  if (from === 'UP') up -= 1;
+  if (from === 'DOWN') down -= 1;
+  if (to === 'UP') up += 1;
+  if (to === 'DOWN') down += 1;
+  up = Math.max(0, up);
+  down = Math.max(0, down);
+  return { ...counts, up, down, net: up - down };
 }
 
-export function usePlatilloVotes(platilloId: string | null) {
-  const [counts, setCounts] = useState<VoteCounts>({ up: 0, down: 0, net: 0 });
-  const [loading, setLoading] = useState<boolean>(!!platilloId);
-  const enabled = useMemo(() => !!platilloId, [platilloId]);
+/**
+ * Live vote counts for many platillos at once, plus the signed-in user's own vote on each.
+ * Counts come from one RPC call; realtime INSERT/UPDATE/DELETE events are applied as deltas.
+ */
+export function usePlatilloVoteCounts(platilloIds: UUID[]) {
+  // Stable key so callers can pass a fresh array every render
+  const idsKey = useMemo(() => Array.from(new Set(platilloIds.filter(Boolean))).sort().join(','), [platilloIds]);
+
+  const [countsById, setCountsById] = useState<Record<UUID, PlatilloVoteCounts>>({});
+  const [loading, setLoading] = useState<boolean>(!!idsKey);
+  const userIdRef = useRef<string | null>(null);
+  const refetchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // supabase.channel() hands back an existing channel with the same name, so two screens
+  // watching the same dish each need their own
+  const instanceId = useId();
+
+  const refresh = useCallback(async () => {
+    const ids = idsKey ? idsKey.split(',') : [];
+    if (ids.length === 0) {
+      setCountsById({});
+      return;
+    }
+    const counts = await getPlatilloVoteCounts(ids);
+    setCountsById(Object.fromEntries(ids.map((id) => [id, counts.get(id) ?? EMPTY_COUNTS])));
+  }, [idsKey]);
 
   useEffect(() => {
-    if (!platilloId) return;
+    if (!idsKey) {
+      setCountsById({});
+      setLoading(false);
+      return;
+    }
 
     let cancelled = false;
     setLoading(true);
 
-    fetchVoteCounts(platilloId)
-      .then((c) => {
-        if (cancelled) return;
-        setCounts(c);
+    refresh()
+      .catch((error) => {
+        if (__DEV__) console.warn('[usePlatilloVoteCounts] Failed to load vote counts:', error);
       })
       .finally(() => {
         if (cancelled) return;
@@ -47,35 +75,122 @@ export function usePlatilloVotes(platilloId: string | null) {
     return () => {
       cancelled = true;
     };
-  }, [platilloId]);
+  }, [idsKey, refresh]);
+
+  // The caller's own vote comes back from the RPC, so a new session means a refetch
+  useEffect(() => {
+    let alive = true;
+    supabase.auth.getUser().then(({ data }) => {
+      if (alive) userIdRef.current = data.user?.id ?? null;
+    });
+
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      const nextUserId = session?.user?.id ?? null;
+      if (nextUserId === userIdRef.current) return;
+      userIdRef.current = nextUserId;
+      refresh().catch(() => {
+        // best-effort refresh
+      });
+    });
+
+    return () => {
+      alive = false;
+      data.subscription.unsubscribe();
+    };
+  }, [refresh]);
 
   useEffect(() => {
-    if (!enabled || !platilloId) return;
+    if (!idsKey) return;
+
+    const ids = new Set(idsKey.split(','));
+
+    const scheduleRefetch = () => {
+      if (refetchTimerRef.current) clearTimeout(refetchTimerRef.current);
+      refetchTimerRef.current = setTimeout(() => {
+        refetchTimerRef.current = null;
+        refresh().catch(() => {
+          // best-effort realtime refresh
+        });
+      }, REFETCH_DELAY_MS);
+    };
+
+    const applyChange = (platilloId: UUID, userId: UUID | undefined, from: VoteType | null, to: VoteType | null) => {
+      setCountsById((prev) => {
+        const current = prev[platilloId] ?? EMPTY_COUNTS;
+        // Our own votes are tracked exactly in myVote; an echo of an optimistic update is a no-op
+        if (userId && userId === userIdRef.current) {
+          if (current.myVote === to) return prev;
+          return { ...prev, [platilloId]: { ...applyVoteDelta(current, current.myVote, to), myVote: to } };
+        }
+        return { ...prev, [platilloId]: applyVoteDelta(current, from, to) };
+      });
+    };
+
+    const filter = `platillo_id=in.(${idsKey})`;
 
     const channel = supabase
-      .channel(`votes:${platilloId}`)
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'votes', filter: `platillo_id=eq.${platilloId}` },
-        async () => {
-          try {
-            const c = await fetchVoteCounts(platilloId);
-            setCounts(c);
-          } catch {
-            // best-effort realtime refresh
-          }
+      .channel(`votes:${instanceId}:${idsKey}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'votes', filter }, (payload) => {
+        const row = payload.new as VoteRow;
+        if (!row.platillo_id || !ids.has(row.platillo_id) || !row.vote_type) return;
+        applyChange(row.platillo_id, row.user_id, null, row.vote_type);
+      })
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'votes', filter }, (payload) => {
+        const row = payload.new as VoteRow;
+        const old = payload.old as VoteRow;
+        if (!row.platillo_id || !ids.has(row.platillo_id) || !row.vote_type) return;
+        // A vote only ever flips, so the old value is the opposite one if the event omits it
+        const from = old.vote_type ?? (row.vote_type === 'UP' ? 'DOWN' : 'UP');
+        if (from === row.vote_type) return;
+        applyChange(row.platillo_id, row.user_id, from, row.vote_type);
+      })
+      // Realtime cannot filter deletes, and under RLS the old row carries only its id
+      .on('postgres_changes', { event: 'DELETE', schema: 'public', table: 'votes' }, (payload) => {
+        const old = payload.old as VoteRow;
+        if (old.platillo_id && old.vote_type) {
+          if (!ids.has(old.platillo_id)) return;
+          applyChange(old.platillo_id, old.user_id, old.vote_type, null);
+          return;
         }
-      )
+        scheduleRefetch();
+      })
       .subscribe();
 
     return () => {
+      if (refetchTimerRef.current) {
+        clearTimeout(refetchTimerRef.current);
+        refetchTimerRef.current = null;
+      }
       supabase.removeChannel(channel);
     };
-  }, [enabled, platilloId]);
-
-  return { counts, loading };
+  }, [idsKey, instanceId, refresh]);
+
+  // Set the user's own vote locally (optimistic update or rollback), adjusting counts to match
+  const setMyVote = useCallback((platilloId: UUID, vote: VoteType | null) => {
+    setCountsById((prev) => {
+      const current = prev[platilloId] ?? EMPTY_COUNTS;
+      if (current.myVote === vote) return prev;
+      return { ...prev, [platilloId]: { ...applyVoteDelta(current, current.myVote, vote), myVote: vote } };
+    });
+  }, []);
+
+  return { countsById, loading, refresh, setMyVote };
 }
 
-
-
-
+/**
+ * Live vote counts for a single platillo.
+ */
+export function usePlatilloVotes(platilloId: string | null) {
+  const ids = useMemo(() => (platilloId ? [platilloId] : []), [platilloId]);
+  const { countsById, loading, refresh, setMyVote: setVoteFor } = usePlatilloVoteCounts(ids);
+  const counts = (platilloId && countsById[platilloId]) || EMPTY_COUNTS;
+
+  const setMyVote = useCallback(
+    (vote: VoteType | null) => {
+      if (platilloId) setVoteFor(platilloId, vote);
+    },
+    [platilloId, setVoteFor]
+  );
+
+  return { counts, myVote: counts.myVote, loading, refresh, setMyVote };
+}
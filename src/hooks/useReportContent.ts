@@ -0,0 +1,72 @@
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+
+import { lightHaptic } from '../lib/haptics';
+import { isNetworkError } from '../lib/network';
+import { reportContent } from '../services/reportService';
+import type { DishRanking, ReportReason, ReportTarget, UUID } from '../types/database';
+
+// Alert shows at most three buttons on Android, so each target offers two reasons plus Cancel
+const REASONS: Record<ReportTarget, Array<{ label: string; reason: ReportReason }>> = {
+  photo: [
+    { label: 'Inappropriate', reason: 'inappropriate' },
+    { label: 'Not from here', reason: 'wrong_restaurant' },
+  ],
+  ranking: [
+    { label: 'Inappropriate', reason: 'inappropriate' },
+    { label: 'Spam or fake', reason: 'spam' },
+  ],
+};
+
+type Options = {
+  onAuthRequired: () => void;
+  onHidden?: (rankingId: UUID) => void; // The report was the one that hid the ranking
+};
+
+/**
+ * Returns a function that asks why a ranking (or its photo) is being reported and sends
+ * the report. Signed-out users are handed to onAuthRequired instead.
+ */
+export function useReportContent({ onAuthRequired, onHidden }: Options) {
+  const send = useCallback(
+    async (rankingId: UUID, target: ReportTarget, reason: ReportReason) => {
+      try {
+        const result = await reportContent({ rankingId, target, reason });
+        if (result.hidden) onHidden?.(rankingId);
+        Alert.alert(
+          'Thanks for letting us know',
+          result.alreadyReported
+            ? "You've already reported this. Our team will take a look."
+            : 'Our team will review it.'
+        );
+      } catch (err) {
+        if (err instanceof Error && err.message === 'Not authenticated') {
+          onAuthRequired();
+        } else if (isNetworkError(err)) {
+          Alert.alert("You're offline", 'Try reporting again once you are back online.');
+        } else {
+          Alert.alert('Error', err instanceof Error ? err.message : 'Failed to send report. Please try again.');
+        }
+      }
+    },
+    [onAuthRequired, onHidden]
+  );
+
+  return useCallback(
+    async (ranking: Pick<DishRanking, 'id' | 'dish_name'>, target: ReportTarget) => {
+      await lightHaptic();
+      Alert.alert(
+        target === 'photo' ? 'Report photo' : 'Report rating',
+        `What's wrong with this ${target === 'photo' ? 'photo' : 'rating'} of "${ranking.dish_name}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          ...REASONS[target].map(({ label, reason }) => ({
+            text: label,
+            onPress: () => void send(ranking.id, target, reason),
+          })),
+        ]
+      );
+    },
+    [send]
+  );
+}
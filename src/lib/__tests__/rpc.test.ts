@@ -0,0 +1,140 @@
+import { callRpc, RpcResponseError } from '../rpc';
+import { supabase } from '../supabase';
+
+jest.mock('../supabase', () => ({
+  supabase: { rpc: jest.fn() },
+}));
+
+type RpcResponse = { data: unknown; error: unknown };
+
+const rpc = supabase.rpc as unknown as jest.Mock;
+
+type RpcBuilder = {
+  abortSignal: jest.Mock;
+  then: (resolve: (value: RpcResponse) => unknown, reject?: (reason: unknown) => unknown) => Promise<unknown>;
+};
+
+function rpcReturning(response: RpcResponse): RpcBuilder {
+  const builder: RpcBuilder = {
+    abortSignal: jest.fn(() => builder),
+    then: (resolve: (value: RpcResponse) => unknown, reject?: (reason: unknown) => unknown) =>
+      Promise.resolve(response).then(resolve, reject),
+  };
+  return builder;
+}
+
+function topPick(overrides: Record<string, unknown> = {}) {
+  return {
+    place_id: 'p1',
+    place_ref: 'osm:node:1',
+    restaurant_name: 'Taquería Prueba',
+    avg_score: 8.5,
+    review_count: 4,
+    weighted_score: 7.9,
+    confidence: 0.44,
+    lat: 19.43,
+    lng: -99.13,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  rpc.mockReset();
+});
+
+describe('callRpc', () => {
+  it('passes the function name and args through and returns the checked rows', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [topPick()], error: null }));
+
+    const rows = await callRpc('get_top_picks', { limit_count: 5 });
+
+    expect(rpc).toHaveBeenCalledWith('get_top_picks', { limit_count: 5 });
+    expect(rows).toEqual([topPick()]);
+  });
+
+  it('accepts null in nullable columns', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [topPick({ place_ref: null, lat: null, lng: null })], error: null }));
+
+    const [row] = await callRpc('get_top_picks', {});
+
+    expect(row).toMatchObject({ place_ref: null, lat: null, lng: null });
+  });
+
+  it('drops columns the schema does not know about', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [topPick({ added_later: true })], error: null }));
+
+    const [row] = await callRpc('get_top_picks', {});
+
+    expect(row).not.toHaveProperty('added_later');
+  });
+
+  it('throws the PostgREST error as-is', async () => {
+    const error = { message: 'permission denied for function get_user_favorites', code: '42501' };
+    rpc.mockReturnValue(rpcReturning({ data: null, error }));
+
+    await expect(callRpc('get_user_favorites', {})).rejects.toBe(error);
+  });
+
+  it('reports where a response stopped matching the schema', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [topPick(), topPick({ avg_score: '8.5' })], error: null }));
+
+    const failure = await callRpc('get_top_picks', {}).catch((e: unknown) => e);
+
+    expect(failure).toBeInstanceOf(RpcResponseError);
+    expect(failure).toMatchObject({ path: 'get_top_picks[1].avg_score', expected: 'number', received: '8.5' });
+  });
+
+  it('rejects a missing column', async () => {
+    const { confidence: _confidence, ...renamed } = topPick();
+    rpc.mockReturnValue(rpcReturning({ data: [{ ...renamed, score_confidence: 0.44 }], error: null }));
+
+    await expect(callRpc('get_top_picks', {})).rejects.toThrow('get_top_picks[0].confidence');
+  });
+
+  it('rejects values outside a text enum', async () => {
+    rpc.mockReturnValue(
+      rpcReturning({
+        data: [{ platillo_id: 'd1', up_votes: 1, down_votes: 0, net_score: 1, my_vote: 'SIDEWAYS' }],
+        error: null,
+      })
+    );
+
+    await expect(callRpc('get_platillo_vote_counts', { platillo_ids: ['d1'] })).rejects.toThrow(
+      'get_platillo_vote_counts[0].my_vote: expected "UP" | "DOWN"'
+    );
+  });
+
+  it('rejects an object where a set of rows was expected', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: topPick(), error: null }));
+
+    await expect(callRpc('get_top_picks', {})).rejects.toThrow('expected array, got object');
+  });
+
+  it('checks scalar results', async () => {
+    rpc.mockReturnValueOnce(rpcReturning({ data: 'place-1', error: null }));
+    rpc.mockReturnValueOnce(rpcReturning({ data: null, error: null }));
+    rpc.mockReturnValueOnce(rpcReturning({ data: null, error: null }));
+
+    await expect(callRpc('resolve_place', { refs: ['osm:node:1'], name_param: 'Taquería' })).resolves.toBe('place-1');
+    await expect(callRpc('link_place_ref', { place_id_param: 'place-1', ref_param: 'mapbox:poi.1' })).resolves.toBeNull();
+    await expect(callRpc('resolve_place', { refs: ['osm:node:1'], name_param: 'Taquería' })).rejects.toThrow(
+      'resolve_place: expected string, got null'
+    );
+  });
+
+  it('expects no result from void functions', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: null, error: null }));
+
+    await expect(callRpc('toggle_platillo_vote', { platillo_id: 'd1', vote_type: 'UP' })).resolves.toBeNull();
+  });
+
+  it('attaches the abort signal when given', async () => {
+    const builder = rpcReturning({ data: [], error: null });
+    rpc.mockReturnValue(builder);
+    const controller = new AbortController();
+
+    await callRpc('get_top_picks', {}, { signal: controller.signal });
+
+    expect(builder.abortSignal).toHaveBeenCalledWith(controller.signal);
+  });
+});
@@ -0,0 +1,322 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Platform } from 'react-native';
+
+/**
+ * Shared two-tier cache for network results (search, geocoding).
+ *
+ * Each namespace keeps an LRU map in memory, mirrored to a persistent tier (AsyncStorage on
+ * native, IndexedDB on web) so results survive restarts. Entries are fresh for `ttlMs`, then
+ * served stale for up to `staleMs` more while getOrLoad() refreshes them in the background.
+ * Concurrent loads of the same key share one request.
+ */
+
+/** Key/value backend for the persistent tier. Values are JSON strings. */
+export interface CacheStorageTier {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+export type CacheOptions = {
+  namespace: string;
+  ttlMs: number;
+  staleMs?: number; // How long past ttlMs an entry may still be served while revalidating
+  maxEntries: number;
+  persist?: boolean; // Default true
+  storage?: CacheStorageTier; // Defaults to the platform tier
+};
+
+export type CacheSetOptions = {
+  ttlMs?: number; // Override for this entry, e.g. shorter for error placeholders
+  persist?: boolean; // false keeps the entry in memory only
+};
+
+export type CacheStats = {
+  namespace: string;
+  size: number;
+  hits: number;
+  staleHits: number;
+  misses: number;
+  loads: number;
+  errors: number;
+  hitRate: number; // (hits + staleHits) / lookups
+};
+
+export type CacheLoader<T> = (context: { background: boolean }) => Promise<T>;
+
+type Entry<T> = {
+  value: T;
+  storedAt: number;
+  freshUntil: number;
+  staleUntil: number;
+  persist: boolean;
+};
+
+type PersistedBlob<T> = { version: 1; entries: Array<[string, Entry<T>]> };
+
+const STORAGE_PREFIX = 'star-dish:cache:';
+const PERSIST_DEBOUNCE_MS = 1_000;
+
+export const asyncStorageTier: CacheStorageTier = {
+  getItem: (key) => AsyncStorage.getItem(key),
+  setItem: (key, value) => AsyncStorage.setItem(key, value),
+  removeItem: (key) => AsyncStorage.removeItem(key),
+};
+
+/**
+ * IndexedDB-backed tier for web, where localStorage (AsyncStorage's web backend) is small
+ * and synchronous.
+ */
+export function createIndexedDbTier(dbName = 'star-dish-cache'): CacheStorageTier {
+  const STORE = 'entries';
+  let dbPromise: Promise<IDBDatabase> | null = null;
+
+  const open = () => {
+    if (!dbPromise) {
+      dbPromise = new Promise((resolve, reject) => {
+        const request = indexedDB.open(dbName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(STORE);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return dbPromise;
+  };
+
+  const run = <R>(mode: IDBTransactionMode, op: (store: IDBObjectStore) => IDBRequest<R>) =>
+    open().then(
+      (db) =>
+        new Promise<R>((resolve, reject) => {
+          const request = op(db.transaction(STORE, mode).objectStore(STORE));
+          request.onsuccess = () => resolve(request.result);
+          request.onerror = () => reject(request.error);
+        })
+    );
+
+  return {
+    getItem: (key) => run('readonly', (store) => store.get(key)).then((value) => (typeof value === 'string' ? value : null)),
+    setItem: (key, value) => run('readwrite', (store) => store.put(value, key)).then(() => undefined),
+    removeItem: (key) => run('readwrite', (store) => store.delete(key)).then(() => undefined),
+  };
+}
+
+let defaultTier: CacheStorageTier | null = null;
+
+function getDefaultTier(): CacheStorageTier {
+  if (!defaultTier) {
+    defaultTier = Platform.OS === 'web' && typeof indexedDB !== 'undefined' ? createIndexedDbTier() : asyncStorageTier;
+  }
+  return defaultTier;
+}
+
+const registry = new Map<string, Cache<unknown>>();
+
+export class Cache<T> {
+  readonly namespace: string;
+  private readonly ttlMs: number;
+  private readonly staleMs: number;
+  private readonly maxEntries: number;
+  private readonly storage: CacheStorageTier | null;
+  private readonly entries = new Map<string, Entry<T>>();
+  private readonly inFlight = new Map<string, Promise<T>>();
+  private hydrated: Promise<void> | null = null;
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private generation = 0; // Bumped by clear(), so loads started before it don't write back
+  private counters = { hits: 0, staleHits: 0, misses: 0, loads: 0, errors: 0 };
+
+  constructor(options: CacheOptions) {
+    this.namespace = options.namespace;
+    this.ttlMs = options.ttlMs;
+    this.staleMs = options.staleMs ?? 0;
+    this.maxEntries = options.maxEntries;
+    this.storage = options.persist === false ? null : (options.storage ?? getDefaultTier());
+  }
+
+  private get storageKey() {
+    return `${STORAGE_PREFIX}${this.namespace}`;
+  }
+
+  /** Load persisted entries once; entries written in memory before that win. */
+  private hydrate(): Promise<void> {
+    if (!this.storage) return Promise.resolve();
+    if (!this.hydrated) {
+      this.hydrated = this.storage
+        .getItem(this.storageKey)
+        .then((raw) => {
+          if (!raw) return;
+          const blob = JSON.parse(raw) as PersistedBlob<T>;
+          if (blob?.version !== 1 || !Array.isArray(blob.entries)) return;
+
+          const now = Date.now();
+          const current = new Map(this.entries);
+          this.entries.clear();
+          for (const [key, entry] of blob.entries) {
+            if (entry.staleUntil > now && !current.has(key)) this.entries.set(key, { ...entry, persist: true });
+          }
+          for (const [key, entry] of current) this.entries.set(key, entry);
+          this.evict();
+        })
+        .catch((error) => {
+          if (__DEV__) console.warn(`[cache:${this.namespace}] Failed to read persisted entries:`, error);
+        });
+    }
+    return this.hydrated;
+  }
+
+  private schedulePersist() {
+    if (!this.storage || this.persistTimer) return;
+    const storage = this.storage;
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      // Never overwrite the persisted blob before it has been merged into memory
+      this.hydrate()
+        .then(() => {
+          const entries = Array.from(this.entries).filter(([, entry]) => entry.persist);
+          const blob: PersistedBlob<T> = { version: 1, entries };
+          return storage.setItem(this.storageKey, JSON.stringify(blob));
+        })
+        .catch((error) => {
+          if (__DEV__) console.warn(`[cache:${this.namespace}] Failed to persist entries:`, error);
+        });
+    }, PERSIST_DEBOUNCE_MS);
+  }
+
+  private evict() {
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string | undefined;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+
+  /**
+   * Cached value for `key`, or undefined on a miss. `stale` is true once the entry is past
+   * its TTL but still inside the stale window.
+   */
+  async get(key: string): Promise<{ value: T; stale: boolean } | undefined> {
+    await this.hydrate();
+    const entry = this.entries.get(key);
+    const now = Date.now();
+
+    if (!entry || entry.staleUntil <= now) {
+      if (entry) this.entries.delete(key);
+      this.counters.misses += 1;
+      return undefined;
+    }
+
+    // LRU bump
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    const stale = entry.freshUntil <= now;
+    if (stale) this.counters.staleHits += 1;
+    else this.counters.hits += 1;
+    return { value: entry.value, stale };
+  }
+
+  set(key: string, value: T, options?: CacheSetOptions) {
+    const now = Date.now();
+    const ttlMs = options?.ttlMs ?? this.ttlMs;
+    const persist = options?.persist ?? true;
+    this.entries.delete(key);
+    this.entries.set(key, {
+      value,
+      storedAt: now,
+      freshUntil: now + ttlMs,
+      // Entries with a custom TTL (placeholders) are never served stale
+      staleUntil: now + ttlMs + (options?.ttlMs != null ? 0 : this.staleMs),
+      persist,
+    });
+    this.evict();
+    if (persist) this.schedulePersist();
+  }
+
+  delete(key: string) {
+    if (this.entries.delete(key)) this.schedulePersist();
+  }
+
+  async clear() {
+    this.generation += 1;
+    this.entries.clear();
+    this.inFlight.clear();
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    await this.storage?.removeItem(this.storageKey).catch(() => undefined);
+  }
+
+  /**
+   * Fresh hit: cached value. Stale hit: cached value now, and `loader` refreshes the entry in
+   * the background (`background: true`, so it shouldn't use the caller's abort signal).
+   * Miss: waits for `loader`. Loader errors are rethrown only on a miss.
+   */
+  async getOrLoad(key: string, loader: CacheLoader<T>): Promise<T> {
+    const cached = await this.get(key);
+    if (cached && !cached.stale) return cached.value;
+
+    if (cached) {
+      this.load(key, loader, true).catch(() => undefined);
+      return cached.value;
+    }
+
+    return this.load(key, loader, false);
+  }
+
+  private load(key: string, loader: CacheLoader<T>, background: boolean): Promise<T> {
+    const existing = this.inFlight.get(key);
+    if (existing) return existing;
+
+    this.counters.loads += 1;
+    const generation = this.generation;
+    const promise = loader({ background })
+      .then((value) => {
+        if (generation === this.generation) this.set(key, value);
+        return value;
+      })
+      .catch((error) => {
+        this.counters.errors += 1;
+        throw error;
+      })
+      .finally(() => {
+        if (this.inFlight.get(key) === promise) this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  stats(): CacheStats {
+    const { hits, staleHits, misses } = this.counters;
+    const lookups = hits + staleHits + misses;
+    return {
+      namespace: this.namespace,
+      size: this.entries.size,
+      ...this.counters,
+      hitRate: lookups > 0 ? (hits + staleHits) / lookups : 0,
+    };
+  }
+}
+
+/**
+ * Cache for a namespace. Namespaces are singletons, so calling this twice with the same
+ * name returns the first instance.
+ */
+export function createCache<T>(options: CacheOptions): Cache<T> {
+  const existing = registry.get(options.namespace);
+  if (existing) return existing as Cache<T>;
+
+  const cache = new Cache<T>(options);
+  registry.set(options.namespace, cache as Cache<unknown>);
+  return cache;
+}
+
+/** Hit/miss counters for every namespace, e.g. for a debug screen or dev logging. */
+export function getCacheStats(): CacheStats[] {
+  return Array.from(registry.values(), (cache) => cache.stats());
+}
+
+/** Drop every namespace, in memory and on disk, e.g. when the user signs out. */
+export async function clearAllCaches(): Promise<void> {
+  await Promise.all(Array.from(registry.values(), (cache) => cache.clear()));
+}
@@ -0,0 +1,53 @@
+import { ImageManipulator, SaveFormat, type ImageResult } from 'expo-image-manipulator';
+import { Platform } from 'react-native';
+
+const FULL_MAX_DIMENSION = 1600;
+const FULL_QUALITY = 0.8;
+const THUMBNAIL_MAX_DIMENSION = 720;
+const THUMBNAIL_QUALITY = 0.7;
+
+// iOS can't encode WebP; JPEG is still far smaller than the camera original
+const OUTPUT_FORMAT = Platform.OS === 'ios' ? SaveFormat.JPEG : SaveFormat.WEBP;
+
+export type PreparedPhoto = ImageResult & {
+  contentType: string;
+  extension: string;
+};
+
+export type PreparedDishPhoto = {
+  full: PreparedPhoto;
+  thumbnail: PreparedPhoto;
+};
+
+function fitWithin(width: number, height: number, maxDimension: number): { width?: number; height?: number } | null {
+  if (width <= maxDimension && height <= maxDimension) return null;
+  return width >= height ? { width: maxDimension } : { height: maxDimension };
+}
+
+async function renderScaled(uri: string, width: number, height: number, maxDimension: number, quality: number): Promise<PreparedPhoto> {
+  const context = ImageManipulator.manipulate(uri);
+  const size = fitWithin(width, height, maxDimension);
+  if (size) context.resize(size);
+
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({ compress: quality, format: OUTPUT_FORMAT });
+  return {
+    ...result,
+    contentType: OUTPUT_FORMAT === SaveFormat.WEBP ? 'image/webp' : 'image/jpeg',
+    extension: OUTPUT_FORMAT === SaveFormat.WEBP ? 'webp' : 'jpg',
+  };
+}
+
+/**
+ * Re-encode a picked photo for upload: a full image capped at 1600px and a 720px thumbnail.
+ * Both are freshly encoded from pixels, so EXIF metadata (including GPS location) from the
+ * original file is not carried over.
+ */
+export async function prepareDishPhoto(uri: string): Promise<PreparedDishPhoto> {
+  const original = await ImageManipulator.manipulate(uri).renderAsync();
+  const { width, height } = original;
+
+  const full = await renderScaled(uri, width, height, FULL_MAX_DIMENSION, FULL_QUALITY);
+  const thumbnail = await renderScaled(full.uri, full.width, full.height, THUMBNAIL_MAX_DIMENSION, THUMBNAIL_QUALITY);
+  return { full, thumbnail };
+}
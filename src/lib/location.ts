@@ -1,4 +1,7 @@
 import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+
+import { setLocatedCountry } from './searchRegion';
 
 export type UserLocation = {
   latitude: number;
@@ -19,15 +22,23 @@ export async function getUserLocationBestEffort(): Promise<LocationPermissionSta
       accuracy: Location.Accuracy.Balanced,
     });
 
-    return {
-      status: 'granted',
-      location: { latitude: pos.coords.latitude, longitude: pos.coords.longitude },
-    };
+    const location = { latitude: pos.coords.latitude, longitude: pos.coords.longitude };
+    void detectCountry(location);
+
+    return { status: 'granted', location };
   } catch (e) {
     return { status: 'error', message: e instanceof Error ? e.message : 'Unknown error' };
   }
 }
 
-
-
-
+// Scope Mapbox search to the country the user is in. expo-location cannot reverse geocode on
+// web, where the device locale decides instead.
+async function detectCountry(location: UserLocation) {
+  if (Platform.OS === 'web') return;
+  try {
+    const [place] = await Location.reverseGeocodeAsync(location);
+    if (place?.isoCountryCode) setLocatedCountry(place.isoCountryCode);
+  } catch {
+    // no-op: the locale fallback applies
+  }
+}
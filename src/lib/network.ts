@@ -0,0 +1,30 @@
+/**
+ * True for failures caused by connectivity (the request never reached the server), as opposed
+ * to errors the server returned. supabase-js surfaces these as fetch TypeErrors or, from auth,
+ * AuthRetryableFetchError.
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (!error) return false;
+  const { name, message } = error as { name?: unknown; message?: unknown };
+  if (name === 'AuthRetryableFetchError') return true;
+  const text = typeof message === 'string' ? message : String(error);
+  return /network request failed|failed to fetch|network ?error|load failed|timed? ?out/i.test(text);
+}
+
+// SQLSTATE classes of passing server trouble: connection (08), transaction rollback (40),
+// insufficient resources (53), operator intervention such as timeouts (57) and internal (XX)
+const TRANSIENT_SQLSTATE = /^(08|40|53|57|XX)/;
+
+/**
+ * True for failures that may succeed if the same request is sent again: connectivity, and
+ * 5xx-class server errors (PostgREST connection errors, transient Postgres states, HTTP 5xx
+ * from Storage). Validation, permission and rate-limit errors would fail the same way.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!error) return false;
+  if (isNetworkError(error)) return true;
+  const { status, code, cause } = error as { status?: unknown; code?: unknown; cause?: unknown };
+  if (typeof status === 'number' && status >= 500) return true;
+  if (typeof code === 'string' && (/^PGRST00[0-3]$/.test(code) || TRANSIENT_SQLSTATE.test(code))) return true;
+  return cause !== undefined && cause !== error && isRetryableError(cause);
+}
@@ -0,0 +1,35 @@
+import type { Database } from '../types/supabase';
+import { rpcResponses, type RpcName, type RpcResult } from './rpcSchema';
+import { supabase } from './supabase';
+
+export { RpcResponseError, type RpcName, type RpcResult } from './rpcSchema';
+
+type Functions = Database['public']['Functions'];
+
+export type RpcArgs<F extends RpcName> = [Functions[F]['Args']] extends [never]
+  ? Record<string, never>
+  : Functions[F]['Args'];
+
+export type RpcOptions = {
+  signal?: AbortSignal;
+};
+
+/**
+ * Call a database function with args typed from the migrations and a response checked against
+ * rpcSchema.ts. Throws the PostgREST error as-is, or RpcResponseError if the response does not
+ * have the expected shape.
+ */
+export async function callRpc<F extends RpcName>(
+  fn: F,
+  args: RpcArgs<F>,
+  options: RpcOptions = {}
+): Promise<RpcResult<F>> {
+  // The client's overloads can't narrow on a generic name; args are already checked by RpcArgs<F>
+  let request = supabase.rpc(fn as RpcName, args as never);
+  if (options.signal) request = request.abortSignal(options.signal);
+
+  const { data, error } = await request;
+  if (error) throw error;
+
+  return rpcResponses[fn](data, fn) as RpcResult<F>;
+}
@@ -0,0 +1,291 @@
+import type { DishTag, ModerationState, VoteType } from '../types/database';
+import type { Database, Json } from '../types/supabase';
+
+/**
+ * Runtime checks for what every RPC in the migrations returns.
+ *
+ * The generated Database types say what a function should return but PostgREST hands back
+ * untyped JSON, so callRpc() (lib/rpc.ts) runs the response through the check registered
+ * here and a renamed column or changed type throws RpcResponseError instead of surfacing
+ * as NaN or undefined somewhere in the UI. The checks also carry the nullability the
+ * generator leaves out (LEFT JOINs, aggregates over no rows, scalar functions returning NULL).
+ */
+
+type Functions = Database['public']['Functions'];
+
+export type RpcName = keyof Functions;
+
+/** Validates `value` (found at `path`) and returns it typed, or throws RpcResponseError. */
+export type Check<T> = (value: unknown, path: string) => T;
+
+export class RpcResponseError extends Error {
+  constructor(readonly path: string, readonly expected: string, readonly received: unknown) {
+    super(`Unexpected RPC response at ${path}: expected ${expected}, got ${describe(received)}`);
+    this.name = 'RpcResponseError';
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string ${JSON.stringify(value.slice(0, 40))}`;
+  if (typeof value === 'number') return `number ${value}`;
+  return typeof value;
+}
+
+export const str: Check<string> = (value, path) => {
+  if (typeof value !== 'string') throw new RpcResponseError(path, 'string', value);
+  return value;
+};
+
+// PostgREST serializes numeric and bigint as JSON numbers; a string here means the column type changed
+export const num: Check<number> = (value, path) => {
+  if (typeof value !== 'number' || !Number.isFinite(value)) throw new RpcResponseError(path, 'number', value);
+  return value;
+};
+
+export const bool: Check<boolean> = (value, path) => {
+  if (typeof value !== 'boolean') throw new RpcResponseError(path, 'boolean', value);
+  return value;
+};
+
+// jsonb and types PostgREST renders as text (tsvector, tsquery) are passed through as-is
+export const json: Check<Json> = (value) => value as Json;
+
+// void functions answer with an empty body
+export const none: Check<null> = (value, path) => {
+  if (value !== null && value !== undefined) throw new RpcResponseError(path, 'no result', value);
+  return null;
+};
+
+export function nullable<T>(check: Check<T>): Check<T | null> {
+  return (value, path) => (value === null || value === undefined ? null : check(value, path));
+}
+
+export function oneOf<const T extends string>(...values: T[]): Check<T> {
+  return (value, path) => {
+    if (typeof value !== 'string' || !(values as string[]).includes(value)) {
+      throw new RpcResponseError(path, values.map((v) => `"${v}"`).join(' | '), value);
+    }
+    return value as T;
+  };
+}
+
+export function arrayOf<T>(check: Check<T>): Check<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new RpcResponseError(path, 'array', value);
+    return value.map((item, i) => check(item, `${path}[${i}]`));
+  };
+}
+
+/** An object with exactly the listed columns checked; other keys are dropped. */
+export function row<S extends Record<string, Check<unknown>>>(shape: S): Check<{ [K in keyof S]: ReturnType<S[K]> }> {
+  return (value, path) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new RpcResponseError(path, 'object', value);
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(shape)) {
+      result[key] = shape[key](source[key], `${path}.${key}`);
+    }
+    return result as { [K in keyof S]: ReturnType<S[K]> };
+  };
+}
+
+const uuid = str;
+const timestamp = str;
+
+const dishTag = oneOf<DishTag>(
+  'vegetarian',
+  'vegan',
+  'gluten_free',
+  'spicy_mild',
+  'spicy_medium',
+  'spicy_hot',
+  'contains_nuts',
+  'contains_seafood'
+);
+const voteType = oneOf<VoteType>('UP', 'DOWN');
+const moderationState = oneOf<ModerationState>('pending', 'approved', 'hidden');
+
+const dishRankingRow = row({
+  id: uuid,
+  user_id: uuid,
+  place_id: uuid,
+  platillo_id: nullable(uuid),
+  osm_id: str,
+  mapbox_id: nullable(str),
+  restaurant_name: str,
+  restaurant_lat: nullable(num),
+  restaurant_lng: nullable(num),
+  dish_name: str,
+  dish_key: nullable(str),
+  price_cents: nullable(num),
+  ingredients: nullable(str),
+  score: num,
+  image_url: nullable(str),
+  thumbnail_url: nullable(str),
+  client_request_id: nullable(uuid),
+  moderation_state: moderationState,
+  moderated_at: nullable(timestamp),
+  search_vector: json,
+  created_at: timestamp,
+  updated_at: timestamp,
+});
+
+// Leaderboard rows shared by get_top_picks and get_restaurant_leaderboard
+const leaderboardRow = row({
+  place_id: uuid,
+  place_ref: nullable(str),
+  restaurant_name: str,
+  avg_score: num,
+  review_count: num,
+  weighted_score: num,
+  confidence: num,
+  lat: nullable(num),
+  lng: nullable(num),
+});
+
+// Every column may come back null; a check must still cover every generated column
+type NullableColumns<T> = T extends object ? { [K in keyof T]: T[K] | null } : T | null;
+type NullableResult<T> = T extends Array<infer Row> ? Array<NullableColumns<Row>> : T | null;
+
+export const rpcResponses = {
+  consume_mapbox_proxy_quota: arrayOf(
+    row({ allowed: bool, minute_count: num, day_count: num, retry_after_seconds: num })
+  ),
+  dish_search_tsquery: nullable(json),
+  ensure_platillo: nullable(uuid),
+  get_best_rated: arrayOf(
+    row({
+      place_id: uuid,
+      place_ref: nullable(str),
+      restaurant_name: str,
+      avg_score: num,
+      total_reviews: num,
+      weighted_score: num,
+      confidence: num,
+    })
+  ),
+  get_dish_price_history: arrayOf(
+    row({
+      platillo_id: uuid,
+      dish_name: str,
+      period_start: str,
+      median_price_cents: num,
+      min_price_cents: num,
+      max_price_cents: num,
+      price_count: num,
+    })
+  ),
+  get_dish_ranking_for_restaurant: arrayOf(row({ platillo_id: uuid, name: str, net_score: num })),
+  get_my_ranking_for_dish: arrayOf(dishRankingRow),
+  get_place_dishes: arrayOf(
+    row({
+      platillo_id: uuid,
+      name: str,
+      avg_score: nullable(num),
+      ranking_count: num,
+      up_votes: num,
+      down_votes: num,
+      star_score: num,
+    })
+  ),
+  get_place_ids: arrayOf(row({ ref: str, place_id: uuid })),
+  get_place_rankings: arrayOf(row({ ref: str, place_id: uuid, ranking: num, review_count: num })),
+  get_place_star_dish: nullable(uuid),
+  get_platillo_vote_counts: arrayOf(
+    row({
+      platillo_id: uuid,
+      up_votes: num,
+      down_votes: num,
+      net_score: num,
+      my_vote: nullable(voteType),
+    })
+  ),
+  get_ranked_places_in_viewport: arrayOf(
+    row({
+      place_id: uuid,
+      place_ref: nullable(str),
+      name: str,
+      lat: num,
+      lng: num,
+      avg_score: num,
+      review_count: num,
+      weighted_score: num,
+      confidence: num,
+      star_dish_name: nullable(str),
+      star_dish_score: nullable(num),
+      dish_tags: nullable(arrayOf(dishTag)),
+      median_price_cents: nullable(num),
+      total_count: num,
+    })
+  ),
+  get_recently_viewed_restaurants: arrayOf(
+    row({ osm_id: str, restaurant_name: str, viewed_at: timestamp, view_count: num })
+  ),
+  get_restaurant_dish_leaderboard: arrayOf(
+    row({
+      platillo_id: uuid,
+      dish_name: str,
+      avg_score: num,
+      review_count: num,
+      weighted_score: num,
+      confidence: num,
+      tags: nullable(arrayOf(dishTag)),
+    })
+  ),
+  get_restaurant_leaderboard: arrayOf(leaderboardRow),
+  get_restaurant_ranking_from_dishes: num,
+  get_restaurant_rankings_batch: arrayOf(row({ osm_id: str, ranking: num })),
+  get_star_dish: nullable(uuid),
+  get_top_picks: arrayOf(leaderboardRow),
+  get_user_favorites: arrayOf(
+    row({
+      place_id: uuid,
+      place_ref: nullable(str),
+      restaurant_name: str,
+      lat: nullable(num),
+      lng: nullable(num),
+      avg_score: nullable(num),
+      review_count: num,
+      favorited_at: timestamp,
+    })
+  ),
+  immutable_unaccent: nullable(str),
+  link_place_ref: nullable(uuid),
+  merge_places: none,
+  normalize_dish_name: str,
+  normalize_place_ref: nullable(str),
+  purge_expired_geocode_cache: num,
+  ranking_prior_mean: num,
+  resolve_place: uuid,
+  score_confidence: num,
+  search_dishes: arrayOf(
+    row({
+      place_id: uuid,
+      place_ref: nullable(str),
+      restaurant_name: str,
+      lat: nullable(num),
+      lng: nullable(num),
+      platillo_id: uuid,
+      dish_name: str,
+      avg_score: num,
+      review_count: num,
+      weighted_score: num,
+      relevance: num,
+    })
+  ),
+  set_dish_ranking_tags: arrayOf(dishTag),
+  star_dish_score: num,
+  suggest_dish_names: arrayOf(
+    row({ platillo_id: uuid, name: str, ranking_count: num, similarity: num })
+  ),
+  toggle_platillo_vote: none,
+  upsert_restaurant_view: none,
+  viewport_place_cap: num,
+  weighted_score: num,
+} satisfies { [F in RpcName]: Check<NullableResult<Functions[F]['Returns']>> };
+
+export type RpcResult<F extends RpcName> = ReturnType<(typeof rpcResponses)[F]>;
@@ -0,0 +1,89 @@
+/**
+ * Country and language for Mapbox search and geocoding.
+ *
+ * Resolved in order: the user's choice in Settings, the country they are in (from their
+ * location), the region of the device locale, and finally Mexico, the app's original scope.
+ * The language follows the device locale unless overridden.
+ */
+
+export type SearchRegion = {
+  country: string | null; // ISO 3166 alpha-2, lowercase; null searches every country
+  language: string; // ISO 639-1, e.g. "es"
+};
+
+// 'auto' derives the value; 'any' (country only) turns the country filter off
+export type SearchCountrySetting = 'auto' | 'any' | string;
+export type SearchLanguageSetting = 'auto' | string;
+
+export const SEARCH_COUNTRIES: Array<{ code: string; label: string }> = [
+  { code: 'mx', label: 'Mexico' },
+  { code: 'us', label: 'United States' },
+  { code: 'es', label: 'Spain' },
+];
+
+export const SEARCH_LANGUAGES: Array<{ code: string; label: string }> = [
+  { code: 'es', label: 'Español' },
+  { code: 'en', label: 'English' },
+];
+
+const DEFAULT_REGION: SearchRegion = { country: 'mx', language: 'es' };
+
+let countrySetting: SearchCountrySetting = 'auto';
+let languageSetting: SearchLanguageSetting = 'auto';
+let locatedCountry: string | null = null;
+
+function deviceLocale(): { language: string | null; region: string | null } {
+  try {
+    const locale = Intl.DateTimeFormat().resolvedOptions().locale; // e.g. "es-MX", "en-US"
+    const [language, ...rest] = locale.split('-');
+    const region = rest.find((part) => /^[A-Za-z]{2}$/.test(part)) ?? null;
+    return { language: language ? language.toLowerCase() : null, region: region ? region.toLowerCase() : null };
+  } catch {
+    return { language: null, region: null };
+  }
+}
+
+function isCountryCode(value: string | null | undefined): value is string {
+  return !!value && /^[a-z]{2}$/i.test(value);
+}
+
+export function setSearchRegionSettings(country: SearchCountrySetting, language: SearchLanguageSetting) {
+  countrySetting = country;
+  languageSetting = language;
+}
+
+/**
+ * Record the country the user is in, e.g. from reverse geocoding their location.
+ */
+export function setLocatedCountry(code: string | null | undefined) {
+  locatedCountry = isCountryCode(code) ? code.toLowerCase() : null;
+}
+
+export function getSearchRegion(): SearchRegion {
+  const locale = deviceLocale();
+
+  let country: string | null;
+  if (countrySetting === 'any') {
+    country = null;
+  } else if (countrySetting !== 'auto' && isCountryCode(countrySetting)) {
+    country = countrySetting.toLowerCase();
+  } else {
+    country = locatedCountry ?? (isCountryCode(locale.region) ? locale.region : DEFAULT_REGION.country);
+  }
+
+  const language =
+    languageSetting !== 'auto' && languageSetting
+      ? languageSetting
+      : SEARCH_LANGUAGES.some((l) => l.code === locale.language)
+        ? locale.language!
+        : DEFAULT_REGION.language;
+
+  return { country, language };
+}
+
+/**
+ * Cache key fragment, so results for one region are never served in another.
+ */
+export function searchRegionKey(region: SearchRegion = getSearchRegion()): string {
+  return `${region.country ?? 'any'}:${region.language}`;
+}
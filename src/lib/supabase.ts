@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { Database } from '../types/supabase';
 
 // For MVP: configure via app config / env.
 // In Expo, you can use EXPO_PUBLIC_* env vars.
@@ -22,7 +23,8 @@ if (anonKey.startsWith('sb_publishable_')) {
   );
 }
 
-export const supabase = createClient(url, anonKey, {
+// Typed from the migrations (types/supabase.ts), so table and RPC names, columns and args are checked
+export const supabase = createClient<Database>(url, anonKey, {
   auth: {
     // Required for React Native to persist sessions between reloads.
     storage: AsyncStorage,
@@ -11,9 +11,10 @@ import { getUserLocationBestEffort } from '../lib/location';
 import { lightHaptic } from '../lib/haptics';
 import { useSearch } from '../state/SearchContext';
 import { useMapFocus } from '../state/MapFocusContext';
-import { getTopRankedRestaurants, trackRestaurantView, extractOsmId } from '../services/recommendationService';
+import { getTopRankedRestaurants, trackRestaurantView } from '../services/recommendationService';
+import { normalizeRestaurantRef } from '../utils/restaurantRef';
 import { theme } from '../theme';
-import type { ViewportBounds, MapboxFeature, RestaurantWithRanking } from '../types/database';
+import type { ViewportBounds, MapboxFeature, RestaurantWithRanking, DishSearchResult } from '../types/database';
 
 const HOME_IMAGES = {
   // Small, cache-friendly Unsplash images (CDN).
@@ -123,6 +124,21 @@ export function HomeScreen() {
     [navigation, setSearch, userCenter]
   );
 
+  // Dish hits open the restaurant where the dish was ranked
+  const onDishSearchSelect = useCallback(
+    (result: DishSearchResult) => {
+      if (!result.place_ref || result.lat == null || result.lng == null) return;
+      focusRestaurant({
+        restaurantId: result.place_ref,
+        name: result.restaurant_name,
+        lat: result.lat,
+        lng: result.lng,
+      });
+      (navigation as any).navigate('Map');
+    },
+    [focusRestaurant, navigation]
+  );
+
   // Fetch top-ranked restaurants
   useEffect(() => {
     let alive = true;
@@ -135,20 +151,16 @@ export function HomeScreen() {
         const restaurants = await getTopRankedRestaurants(6, proximity);
         if (!alive) return;
         
-        // Final deduplication by restaurant ID and name to prevent any duplicates
+        // Final deduplication by place to prevent any duplicates
         const uniqueRestaurants = new Map<string, RestaurantWithRanking>();
         for (const restaurant of restaurants) {
-          const osmId = extractOsmId(restaurant.id);
-          // Normalize OSM ID to handle leading zeros (e.g., "123" vs "0123")
-          const normalizedOsmId = osmId ? String(Number(osmId) || osmId) : null;
-          // Use normalized OSM ID if available, otherwise use restaurant ID
-          const key = normalizedOsmId || restaurant.id;
+          const key = restaurant.place_id ?? normalizeRestaurantRef(restaurant.id) ?? restaurant.id;
           
           // Only add if we haven't seen this restaurant before
           if (!uniqueRestaurants.has(key)) {
             uniqueRestaurants.set(key, restaurant);
           } else if (__DEV__) {
-            console.warn(`[HomeScreen] Duplicate restaurant detected: ${restaurant.name} (OSM ID: ${normalizedOsmId || 'N/A'})`);
+            console.warn(`[HomeScreen] Duplicate restaurant detected: ${restaurant.name} (place: ${key})`);
           }
         }
         
@@ -179,10 +191,7 @@ export function HomeScreen() {
       Keyboard.dismiss();
 
       // Track restaurant view
-      const osmId = extractOsmId(restaurant.id);
-      if (osmId) {
-        await trackRestaurantView(osmId, restaurant.name);
-      }
+      await trackRestaurantView(restaurant.id, restaurant.name);
 
       // If restaurant has valid coordinates (not 0,0), focus on it directly
       if (restaurant.lat !== 0 && restaurant.lng !== 0 && !isNaN(restaurant.lat) && !isNaN(restaurant.lng)) {
@@ -248,8 +257,9 @@ export function HomeScreen() {
 
         <View style={styles.searchWrapper}>
           <SearchHeader
-            placeholder="What restaurant are you at?"
+            placeholder="Search a restaurant or dish"
             onSelect={onMapboxSearchSelect}
+            onSelectDish={onDishSearchSelect}
             proximity={userCenter || undefined}
             autoFocus={false}
           />
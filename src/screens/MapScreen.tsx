@@ -25,22 +25,35 @@ import { Screen } from '../components/Screen';
 import { AuthErrorModal, SDButton, SDText, SkeletonBlock } from '../components/ui';
 import type { RootTabParamList } from '../navigation/RootTabs';
 import { useDebounce } from '../hooks/useDebounce';
+import { useDishNameSuggestions } from '../hooks/useDishNameSuggestions';
+import { useReportContent } from '../hooks/useReportContent';
 import { getUserLocationBestEffort } from '../lib/location';
 import { lightHaptic } from '../lib/haptics';
+import { isNetworkError } from '../lib/network';
 import { supabase } from '../lib/supabase';
 import { useMapFocus } from '../state/MapFocusContext';
+import { useRankingOutbox } from '../state/RankingOutboxContext';
 import { useSearch } from '../state/SearchContext';
 import { theme } from '../theme';
 import { fetchRestaurantsInViewport, searchRestaurantsInArea, findRestaurantByMapboxId, findRestaurantByCoordinates, enrichRestaurantsWithRankings } from '../services/mapService';
-import { trackRestaurantView, extractOsmId, getRecentlyViewedRestaurants, getTopPicks, getBestRated, fetchRestaurantsForRecommendations } from '../services/recommendationService';
+import { trackRestaurantView, getRecentlyViewedRestaurants, getTopPicks, getBestRated, fetchRestaurantsForRecommendations } from '../services/recommendationService';
+import { addFavorite, isFavoriteRestaurant, listFavorites, removeFavorite } from '../services/favoritesService';
 import { RecommendationsList } from '../components/RecommendationsList';
 import { SearchResultsList } from '../components/SearchResultsList';
 import { RestaurantCardList } from '../components/RestaurantCardList';
 import { SearchHeader } from '../components/SearchHeader';
 import { DishImageCarousel } from '../components/DishImageCarousel';
-import { submitDishRanking, getDishRankingsForRestaurant } from '../services/dishRankingService';
-import { uploadDishPhoto } from '../services/storageService';
-import type { RestaurantWithRanking, ViewportBounds, DishRanking, MapboxFeature } from '../types/database';
+import { DishNameSuggestions } from '../components/DishNameSuggestions';
+import { DishTagPicker } from '../components/DishTagPicker';
+import { PlaceDishList } from '../components/PlaceDishList';
+import { PlatilloDetailScreen } from './PlatilloDetailScreen';
+import { submitDishRanking, getDishRankingsForRestaurant, getMyRankingForDish, updateDishRanking, deleteDishRanking } from '../services/dishRankingService';
+import { getRestaurantDishPhotos } from '../services/dishPhotoService';
+import { lookupPlaceId } from '../services/placeService';
+import { getPlatillo } from '../services/platilloService';
+import { deleteUploadedDishPhoto, uploadDishPhoto, type UploadedDishPhoto } from '../services/storageService';
+import { createClientRequestId } from '../services/rankingOutboxService';
+import type { RestaurantWithRanking, ViewportBounds, DishRanking, DishRankingInput, DishPhoto, DishSearchResult, DishTag, MapboxFeature, PlaceDish, Platillo } from '../types/database';
 import {
   calculateZoomFromLatitudeDelta,
   createClusterer,
@@ -49,6 +62,9 @@ import {
   type ClusteredPoint,
 } from '../utils/markerClustering';
 import type { SuperClusterInstance } from '../utils/markerClustering';
+import { normalizeRestaurantRef } from '../utils/restaurantRef';
+import { DISH_TAG_FILTERS, dishTagLabel, matchesDishTagFilters } from '../utils/dishTags';
+import { DEFAULT_CURRENCY, PRICE_RANGES, formatPrice, matchesPriceRange } from '../utils/price';
 import { ClusterMarker } from '../components/ClusterMarker';
 
 // Conditional imports for web platform (react-map-gl)
@@ -345,9 +361,25 @@ const NativeMarkerComponent = React.memo(function NativeMarkerComponent({
 
 type NavigationProp = BottomTabNavigationProp<RootTabParamList>;
 
+// Ask before a second rating of the same dish replaces the first
+function confirmRerating(existing: DishRanking, score: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      'You already rated this dish',
+      `You gave "${existing.dish_name}" ${existing.score}/10. Update your rating to ${score}/10?`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Update', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
+
 export function MapScreen() {
   const navigation = useNavigation<NavigationProp>();
-  const { lastFocus } = useMapFocus();
+  const { lastFocus, focusRestaurant } = useMapFocus();
+  const { queueRanking, lastSynced } = useRankingOutbox();
   const { search, setSearch, clearSearch, recommendations, setRecommendations } = useSearch();
   const sheetRef = useRef<BottomSheet>(null);
   const filterSheetRef = useRef<BottomSheet>(null);
@@ -391,6 +423,8 @@ export function MapScreen() {
 
   const [allRestaurants, setAllRestaurants] = useState<RestaurantWithRanking[]>([]);
   const [selectedRestaurantId, setSelectedRestaurantId] = useState<string | null>(null);
+  const selectedRestaurantIdRef = useRef<string | null>(null);
+  selectedRestaurantIdRef.current = selectedRestaurantId;
   const [selectedRestaurantNameHint, setSelectedRestaurantNameHint] = useState<string | null>(null);
   const [sheetIndex, setSheetIndex] = useState<number>(-1);
   // Start with false to allow immediate rendering - data fetch will happen immediately
@@ -405,6 +439,8 @@ export function MapScreen() {
   const [filterSheetIndex, setFilterSheetIndex] = useState<number>(-1);
   const [userCenter, setUserCenter] = useState<{ lat: number; lng: number } | null>(null);
   const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null);
+  const [selectedDishTagFilters, setSelectedDishTagFilters] = useState<string[]>([]);
+  const [selectedPriceRangeId, setSelectedPriceRangeId] = useState<string | null>(null);
 
   const prevSelectedCuisineIdRef = useRef(selectedCuisineId);
 
@@ -413,19 +449,26 @@ export function MapScreen() {
   const [rankingDishName, setRankingDishName] = useState('');
   const [rankingPrice, setRankingPrice] = useState('');
   const [rankingIngredients, setRankingIngredients] = useState('');
+  const [rankingTags, setRankingTags] = useState<DishTag[]>([]);
   const [rankingScore, setRankingScore] = useState<number>(5);
   const [rankingImageUri, setRankingImageUri] = useState<string | null>(null);
   const [isSubmittingRanking, setIsSubmittingRanking] = useState(false);
   const [isMainSheetClosing, setIsMainSheetClosing] = useState(false);
   const [showAuthErrorModal, setShowAuthErrorModal] = useState(false);
   const [ratingRestaurantName, setRatingRestaurantName] = useState<string | null>(null);
+  const [editingRanking, setEditingRanking] = useState<DishRanking | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [authPromptMessage, setAuthPromptMessage] = useState<string | undefined>(undefined);
+  const [isSelectedFavorite, setIsSelectedFavorite] = useState(false);
+  const favoritePendingRef = useRef(false);
   
   // Dish rankings for selected restaurant
   const [dishRankings, setDishRankings] = useState<DishRanking[]>([]);
   const [isLoadingDishRankings, setIsLoadingDishRankings] = useState(false);
   const lastFetchedRestaurantIdRef = useRef<string | null>(null);
-  const lastFetchedMapboxIdRef = useRef<string | null>(null);
-  const lastFetchedOsmIdRef = useRef<string | null>(null);
+  const lastFetchedRestaurantRefRef = useRef<string | null>(null);
+  const [restaurantPhotos, setRestaurantPhotos] = useState<DishPhoto[]>([]);
+  const [openPlatillo, setOpenPlatillo] = useState<Platillo | null>(null);
 
   // Refs for bottom sheet scrollable content
   const listFlatListRef = useRef<any>(null);
@@ -447,8 +490,10 @@ export function MapScreen() {
     // Pre-compute distance filter if needed (only calculate once per restaurant)
     const needsDistanceFilter = maxDistanceKm != null && userCenter;
     
+    const needsTagFilter = selectedDishTagFilters.length > 0;
+
     // Fast path for 'all' cuisine (most common case)
-    if (selectedCuisineId === 'all' && !needsDistanceFilter) {
+    if (selectedCuisineId === 'all' && !needsDistanceFilter && !needsTagFilter && !selectedPriceRangeId) {
       // Just filter out invalid entries - fastest path
       return allRestaurants.filter((r) => r && typeof r === 'object' && typeof r.id === 'string');
     }
@@ -464,6 +509,12 @@ export function MapScreen() {
         if (d > maxDistanceKm!) return false;
       }
 
+      // Dish tag filter: tags agreed on for at least one of the place's dishes
+      if (needsTagFilter && !matchesDishTagFilters(r.dish_tags, selectedDishTagFilters)) return false;
+
+      // Price filter: median dish price
+      if (!matchesPriceRange(r, selectedPriceRangeId)) return false;
+
       // Cuisine filter (early return for 'all')
       if (selectedCuisineId === 'all') return true;
       if (selectedCuisineId === 'fast_food') return r.establishment_type === 'fast_food';
@@ -473,7 +524,7 @@ export function MapScreen() {
       if (selectedCuisineId === 'mexican') return hasCuisine(r, 'mexican') || hasCuisine(r, 'tacos');
       return true;
     });
-  }, [allRestaurants, maxDistanceKm, selectedCuisineId, userCenter]);
+  }, [allRestaurants, maxDistanceKm, selectedCuisineId, selectedDishTagFilters, selectedPriceRangeId, userCenter]);
 
   // Viewport-based marker filtering: only render markers visible in current viewport + 50% padding
   // Use viewport state directly (not viewStateRef) to avoid stale closures
@@ -535,6 +586,8 @@ export function MapScreen() {
     () => restaurants.find((r) => r.id === selectedRestaurantId) ?? null,
     [restaurants, selectedRestaurantId]
   );
+  // Places that were never ranked have no id yet; the first loaded ranking carries it
+  const selectedPlaceId = dishRankings[0]?.place_id ?? selectedRestaurant?.place_id ?? null;
 
   // Get restaurant for rating form - use selectedRestaurant if available, otherwise find from stored ID
   const ratingRestaurant = useMemo(() => {
@@ -551,8 +604,25 @@ export function MapScreen() {
     return ratingRestaurantName;
   }, [ratingRestaurant, ratingRestaurantName]);
 
+  // Existing dishes at this restaurant matching the typed dish name
+  const dishNameSuggestions = useDishNameSuggestions(ratingRestaurant, rankingDishName);
+  const openAuthModal = useCallback(() => setShowAuthErrorModal(true), []);
+  const removeHiddenRanking = useCallback((rankingId: string) => {
+    setDishRankings((prev) => prev.filter((r) => r.id !== rankingId));
+  }, []);
+  const promptReport = useReportContent({ onAuthRequired: openAuthModal, onHidden: removeHiddenRanking });
+
+  const openDish = useCallback(async (dish: PlaceDish) => {
+    try {
+      const platillo = await getPlatillo(dish.platillo_id);
+      if (platillo) setOpenPlatillo(platillo);
+    } catch (error) {
+      if (__DEV__) console.warn('[MapScreen] Failed to open dish:', error);
+    }
+  }, []);
+
   const snapPoints = useMemo(() => (viewMode === 'list' ? ['25%', '55%', '90%'] : ['75%', '95%']), [viewMode]);
-  const filterSnapPoints = useMemo(() => ['52%'], []);
+  const filterSnapPoints = useMemo(() => ['80%'], []);
 
   const isSearchMode = Boolean(search.active && search.viewport && search.query.trim().length > 0);
 
@@ -683,6 +753,17 @@ export function MapScreen() {
   }, []);
 
   // Handle Mapbox search selection
+  // Dish hits from search open the restaurant where the dish was ranked
+  const onDishSearchSelect = useCallback((result: DishSearchResult) => {
+    if (!result.place_ref || result.lat == null || result.lng == null) return;
+    focusRestaurant({
+      restaurantId: result.place_ref,
+      name: result.restaurant_name,
+      lat: result.lat,
+      lng: result.lng,
+    });
+  }, [focusRestaurant]);
+
   const onMapboxSearchSelect = useCallback(async (feature: MapboxFeature) => {
     await lightHaptic();
     Keyboard.dismiss();
@@ -772,18 +853,8 @@ export function MapScreen() {
       const currentViewport = viewStateToViewportBounds(viewStateRef.current);
       setSearch({ query: finalRestaurant.name, viewport: currentViewport });
       
-      // Track restaurant view if we have an OSM ID or mapbox_id
-      const osmId = extractOsmId(finalRestaurant.id);
-      if (osmId) {
-        await trackRestaurantView(osmId, finalRestaurant.name);
-      } else {
-        // For Mapbox restaurants, extract mapbox_id and use it for tracking
-        const mapboxMatch = finalRestaurant.id.match(/^mapbox:(.+)$/);
-        if (mapboxMatch) {
-          // Use mapbox_id as a fallback identifier for tracking
-          await trackRestaurantView(mapboxMatch[1], finalRestaurant.name);
-        }
-      }
+      // Track restaurant view (any provider id is stored as its canonical ref)
+      await trackRestaurantView(finalRestaurant.id, finalRestaurant.name);
 
       // Set the selected restaurant and show details modal
       setSelectedRestaurantId(finalRestaurant.id);
@@ -913,6 +984,8 @@ export function MapScreen() {
     await lightHaptic();
     setSelectedCuisineId('all');
     setMaxDistanceKm(null);
+    setSelectedDishTagFilters([]);
+    setSelectedPriceRangeId(null);
   }, []);
 
   const openExternalUrl = useCallback(async (url: string) => {
@@ -955,7 +1028,8 @@ export function MapScreen() {
       const currentViewport = viewStateToViewportBounds(viewStateRef.current);
       
       // Fetch recommendation data
-      const [recentlyViewedData, topPicksData, bestRatedData] = await Promise.all([
+      const [saved, recentlyViewedData, topPicksData, bestRatedData] = await Promise.all([
+        listFavorites(20),
         getRecentlyViewedRestaurants(10),
         getTopPicks(10),
         getBestRated(10),
@@ -971,6 +1045,7 @@ export function MapScreen() {
       // Use startTransition for non-urgent state updates
       startTransition(() => {
         setRecommendations({
+          saved,
           recentlyViewed,
           topPicks,
           bestRated,
@@ -1201,6 +1276,59 @@ export function MapScreen() {
     };
   }, [isSearchMode, search.query, search.viewport]);
 
+  // Browse mode: without a search query, show every ranked place in the visible area
+  useEffect(() => {
+    if (isSearchMode) {
+      lastFetchedViewportRef.current = null;
+      return;
+    }
+
+    const key = [
+      debouncedViewport.southWestLat,
+      debouncedViewport.southWestLng,
+      debouncedViewport.northEastLat,
+      debouncedViewport.northEastLng,
+    ].map((n) => n.toFixed(3)).join(',');
+    if (lastFetchedViewportRef.current === key) return;
+    lastFetchedViewportRef.current = key;
+
+    const controller = new AbortController();
+
+    (async () => {
+      try {
+        const data = await fetchRestaurantsInViewport(debouncedViewport, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+
+        startTransition(() => {
+          setAllRestaurants((prev) => {
+            // Keep the selected restaurant around even if it is not a ranked place in this area
+            const selected = prev.find((r) => r.id === selectedRestaurantIdRef.current);
+            if (selected && !data.some((r) => r.id === selected.id)) {
+              return [...data, selected];
+            }
+            return data;
+          });
+        });
+
+        if (__DEV__) {
+          console.log(`[MapScreen] Browse complete: ${data.length} ranked places in viewport`);
+        }
+      } catch (e) {
+        const isAbort = controller.signal.aborted || (e instanceof Error && e.name === 'AbortError');
+        if (isAbort) return;
+        // Allow a retry for the same viewport
+        lastFetchedViewportRef.current = null;
+        if (__DEV__) {
+          console.warn('[MapScreen] Browse fetch failed:', e);
+        }
+      }
+    })();
+
+    return () => {
+      controller.abort();
+    };
+  }, [debouncedViewport, isSearchMode]);
+
   useEffect(() => {
     if (!lastFocus) return;
     
@@ -1253,52 +1381,6 @@ export function MapScreen() {
         const enriched = await enrichRestaurantsWithRankings([newRestaurant]);
         const restaurantToAdd = enriched.length > 0 ? enriched[0] : newRestaurant;
         
-        // If enrichment didn't work, try direct query as fallback
-        if (restaurantToAdd.top_dish_net_score === 0) {
-          const osmId = extractOsmId(lastFocus.restaurantId);
-          let mapboxId: string | null = null;
-          const mapboxMatch = lastFocus.restaurantId.match(/^mapbox:(.+)$/);
-          if (mapboxMatch) {
-            mapboxId = mapboxMatch[1];
-          }
-          
-          try {
-            if (mapboxId) {
-              // Query by mapbox_id
-              const { data: mapboxRankings } = await supabase
-                .from('dish_rankings')
-                .select('score')
-                .eq('mapbox_id', mapboxId)
-                .not('mapbox_id', 'is', null);
-              
-              if (mapboxRankings && mapboxRankings.length > 0) {
-                const avgScore = mapboxRankings.reduce((sum, r) => sum + (r.score || 0), 0) / mapboxRankings.length;
-                restaurantToAdd.top_dish_net_score = Math.round(avgScore * 10) / 10;
-                
-                if (__DEV__) {
-                  console.log(`[MapScreen] Found ranking by mapbox_id: ${mapboxId}, score: ${restaurantToAdd.top_dish_net_score}`);
-                }
-              }
-            } else if (osmId) {
-              // Query by OSM ID
-              const { data: rankingsData } = await supabase.rpc('get_restaurant_rankings_batch', {
-                osm_ids: [osmId],
-              });
-              if (rankingsData && rankingsData.length > 0 && rankingsData[0].ranking) {
-                restaurantToAdd.top_dish_net_score = Number(rankingsData[0].ranking);
-                
-                if (__DEV__) {
-                  console.log(`[MapScreen] Found ranking by OSM ID: ${osmId}, score: ${restaurantToAdd.top_dish_net_score}`);
-                }
-              }
-            }
-          } catch (err) {
-            if (__DEV__) {
-              console.warn('Failed to fetch ranking directly:', err);
-            }
-          }
-        }
-        
         // Update restaurant with enriched data
         setAllRestaurants(prev => {
           const existing = prev.find(r => r.id === lastFocus.restaurantId);
@@ -1416,8 +1498,7 @@ export function MapScreen() {
     if (!selectedRestaurantId) {
       setDishRankings([]);
       lastFetchedRestaurantIdRef.current = null;
-      lastFetchedMapboxIdRef.current = null;
-      lastFetchedOsmIdRef.current = null;
+      lastFetchedRestaurantRefRef.current = null;
       return;
     }
 
@@ -1430,44 +1511,23 @@ export function MapScreen() {
       return;
     }
 
-    // Extract OSM ID from restaurant ID (handles osm:node:123, osm:way:123, osm:relation:123)
-    const osmMatch = restaurant.id.match(/^osm:(?:node|way|relation):(\d+)$/);
-    const osmId = osmMatch ? osmMatch[1] : null;
-    
-    // Extract mapbox_id from various formats:
-    // - "mapbox:poi.xxx" or "mapbox:xxx"
-    // - "osm:node:mapbox:xxx" (incorrect format but we handle it)
-    let mapboxId: string | null = null;
-    const mapboxIdMatch1 = restaurant.id.match(/^mapbox:(.+)$/);
-    if (mapboxIdMatch1) {
-      mapboxId = mapboxIdMatch1[1];
-    } else {
-      // Handle incorrect format: osm:node:mapbox:xxx
-      const mapboxIdMatch2 = restaurant.id.match(/^osm:(?:node|way|relation):mapbox:(.+)$/);
-      if (mapboxIdMatch2) {
-        mapboxId = mapboxIdMatch2[1];
-      }
-    }
-
-    // Prevent re-fetching if we already fetched for this restaurant
-    // Check by restaurant ID, mapbox_id, or osm_id to catch duplicates
-    if (lastFetchedRestaurantIdRef.current === selectedRestaurantId) {
+    // Any provider id (or legacy format) maps to one canonical ref, and from there to one place
+    const restaurantRef = normalizeRestaurantRef(restaurant.id);
+    if (!restaurantRef) {
       if (__DEV__) {
-        console.log('[MapScreen] Skipping fetch - already fetched for restaurant ID:', selectedRestaurantId);
-      }
-      return;
-    }
-    
-    if (mapboxId && lastFetchedMapboxIdRef.current === mapboxId) {
-      if (__DEV__) {
-        console.log('[MapScreen] Skipping fetch - already fetched for mapbox_id:', mapboxId);
+        console.warn('[MapScreen] Cannot fetch rankings: unrecognised restaurant id:', restaurant.id);
       }
+      setDishRankings([]);
       return;
     }
-    
-    if (osmId && lastFetchedOsmIdRef.current === osmId) {
+
+    // Prevent re-fetching if we already fetched for this restaurant
+    if (
+      lastFetchedRestaurantIdRef.current === selectedRestaurantId ||
+      lastFetchedRestaurantRefRef.current === restaurantRef
+    ) {
       if (__DEV__) {
-        console.log('[MapScreen] Skipping fetch - already fetched for osm_id:', osmId);
+        console.log('[MapScreen] Skipping fetch - already fetched for restaurant:', restaurantRef);
       }
       return;
     }
@@ -1475,36 +1535,22 @@ export function MapScreen() {
     if (__DEV__) {
       console.log('[MapScreen] Fetching dish rankings for restaurant:', { 
         restaurantId: restaurant.id, 
-        osmId, 
-        mapboxId 
+        restaurantRef,
+        placeId: restaurant.place_id ?? null,
       });
     }
 
     setIsLoadingDishRankings(true);
     lastFetchedRestaurantIdRef.current = selectedRestaurantId;
-    if (mapboxId) lastFetchedMapboxIdRef.current = mapboxId;
-    if (osmId) lastFetchedOsmIdRef.current = osmId;
-    
-    // For Mapbox restaurants, prioritize mapbox_id; for OSM restaurants, use osmId
-    // Pass null for osmId if it's a Mapbox restaurant (mapbox_id takes precedence)
-    const queryOsmId = mapboxId ? null : osmId;
-    
-    if (!mapboxId && !osmId) {
-      if (__DEV__) {
-        console.warn('[MapScreen] Cannot fetch rankings: no OSM ID or mapbox_id for restaurant:', restaurant.id);
-      }
-      setIsLoadingDishRankings(false);
-      return;
-    }
+    lastFetchedRestaurantRefRef.current = restaurantRef;
     
-    getDishRankingsForRestaurant(queryOsmId, mapboxId)
+    (restaurant.place_id ? Promise.resolve(restaurant.place_id) : lookupPlaceId(restaurantRef))
+      .then((placeId) => (placeId ? getDishRankingsForRestaurant(placeId) : []))
       .then((rankings) => {
         // Check if restaurant is still selected (prevent stale updates)
-        // Check by ID, mapbox_id, or osm_id
         const stillSelected = 
           lastFetchedRestaurantIdRef.current === selectedRestaurantId ||
-          (mapboxId && lastFetchedMapboxIdRef.current === mapboxId) ||
-          (osmId && lastFetchedOsmIdRef.current === osmId);
+          lastFetchedRestaurantRefRef.current === restaurantRef;
         
         if (!stillSelected) {
           if (__DEV__) {
@@ -1514,7 +1560,7 @@ export function MapScreen() {
         }
 
         if (__DEV__) {
-          console.log('[MapScreen] Fetched dish rankings:', rankings.length, 'rankings for', restaurant.name, { osmId, mapboxId, queryOsmId });
+          console.log('[MapScreen] Fetched dish rankings:', rankings.length, 'rankings for', restaurant.name, { restaurantRef });
         }
         setDishRankings(rankings);
         
@@ -1551,6 +1597,29 @@ export function MapScreen() {
       });
   }, [selectedRestaurantId]);
 
+  // Photo gallery follows the loaded rankings, so it also picks up new and edited photos
+  useEffect(() => {
+    const placeId = dishRankings[0]?.place_id;
+    if (!placeId || !dishRankings.some((r) => r.image_url)) {
+      setRestaurantPhotos([]);
+      return;
+    }
+
+    let cancelled = false;
+    getRestaurantDishPhotos(placeId)
+      .then((photos) => {
+        if (!cancelled) setRestaurantPhotos(photos);
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[MapScreen] Failed to load restaurant photos:', error);
+        if (!cancelled) setRestaurantPhotos([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dishRankings]);
+
   // Web map handler (react-map-gl)
   const onMoveEnd = useCallback((evt: any) => {
     // Update viewStateRef immediately for clustering
@@ -1632,10 +1701,7 @@ export function MapScreen() {
     const restaurant = allRestaurants.find(r => r.id === restaurantId);
     if (restaurant) {
       // Track restaurant view
-      const osmId = extractOsmId(restaurant.id);
-      if (osmId) {
-        await trackRestaurantView(osmId, restaurant.name);
-      }
+      await trackRestaurantView(restaurant.id, restaurant.name);
       
       // Animate map to restaurant
       const nextViewState: ViewState = {
@@ -1871,10 +1937,7 @@ export function MapScreen() {
       await lightHaptic();
       
       // Track restaurant view
-      const osmId = extractOsmId(r.id);
-      if (osmId) {
-        await trackRestaurantView(osmId, r.name);
-      }
+      await trackRestaurantView(r.id, r.name);
       
       // Animate map to restaurant
       const nextViewState: ViewState = {
@@ -1953,8 +2016,10 @@ export function MapScreen() {
     setRankingDishName('');
     setRankingPrice('');
     setRankingIngredients('');
+    setRankingTags([]);
     setRankingScore(5);
     setRankingImageUri(null);
+    setEditingRanking(null);
     setRankingSheetIndex(-1);
     rankingSheetRef.current?.close();
     isOpeningRankingFormRef.current = false;
@@ -1971,7 +2036,23 @@ export function MapScreen() {
     }
   }, [selectedRestaurant, rankingSheetIndex, resetRankingForm, isMainSheetClosing]);
 
-  const handleOpenRankingForm = useCallback(async () => {
+  // Current user, so their own rankings can be edited or deleted
+  useEffect(() => {
+    let alive = true;
+    supabase.auth.getUser().then(({ data }) => {
+      if (alive) setCurrentUserId(data.user?.id ?? null);
+    });
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setCurrentUserId(session?.user?.id ?? null);
+    });
+    return () => {
+      alive = false;
+      data.subscription.unsubscribe();
+    };
+  }, []);
+
+  // Opens the ranking form; pass an existing ranking to edit it instead of creating a new one
+  const handleOpenRankingForm = useCallback(async (ranking?: DishRanking) => {
     await lightHaptic();
     if (!selectedRestaurant) {
       return;
@@ -1981,6 +2062,15 @@ export function MapScreen() {
       setShowAuthErrorModal(true);
       return;
     }
+    if (ranking) {
+      setEditingRanking(ranking);
+      setRankingDishName(ranking.dish_name);
+      setRankingPrice(ranking.price_cents != null ? (ranking.price_cents / 100).toFixed(2) : '');
+      setRankingIngredients(ranking.ingredients ?? '');
+      setRankingTags(ranking.tags ?? []);
+      setRankingScore(ranking.score);
+      setRankingImageUri(ranking.image_url);
+    }
     // Store restaurant ID and name to preserve them during transition
     ratingRestaurantIdRef.current = selectedRestaurant.id;
     setRatingRestaurantName(selectedRestaurant.name);
@@ -2011,6 +2101,197 @@ export function MapScreen() {
     }
   }, []);
 
+  const applyRankingsChange = useCallback((restaurantId: string, nextRankings: DishRanking[]) => {
+    setDishRankings(nextRankings);
+    const roundedScore = nextRankings.length > 0
+      ? Math.round((nextRankings.reduce((sum, r) => sum + r.score, 0) / nextRankings.length) * 10) / 10
+      : 0;
+    setAllRestaurants((prev) =>
+      prev.map((r) => (r.id === restaurantId ? { ...r, top_dish_net_score: roundedScore } : r))
+    );
+  }, []);
+
+  const handleSaveRankingEdit = useCallback(async () => {
+    if (isSubmittingRanking || !editingRanking) return;
+
+    if (!rankingDishName.trim()) {
+      Alert.alert('Missing dish name', 'Please enter the name of the dish.');
+      return;
+    }
+
+    let priceCents: number | null = null;
+    if (rankingPrice.trim()) {
+      const parsed = parseFloat(rankingPrice);
+      if (isNaN(parsed) || parsed < 0) {
+        Alert.alert('Invalid price', 'Please enter a valid price (e.g., 12.50).');
+        return;
+      }
+      priceCents = Math.round(parsed * 100);
+    }
+
+    const restaurantId = ratingRestaurantIdRef.current ?? selectedRestaurant?.id ?? null;
+
+    let uploaded: UploadedDishPhoto | null = null;
+
+    setIsSubmittingRanking(true);
+    try {
+      // A new local image needs uploading; an unchanged remote URL is kept as-is
+      let imageUrl = rankingImageUri;
+      let thumbnailUrl = rankingImageUri ? editingRanking.thumbnail_url ?? null : null;
+      if (rankingImageUri && rankingImageUri !== editingRanking.image_url) {
+        uploaded = await uploadDishPhoto(rankingImageUri);
+        imageUrl = uploaded.url;
+        thumbnailUrl = uploaded.thumbnailUrl;
+      }
+
+      const updated = await updateDishRanking(editingRanking.id, {
+        dish_name: rankingDishName.trim(),
+        price_cents: priceCents,
+        ingredients: rankingIngredients.trim() || null,
+        tags: rankingTags,
+        score: rankingScore,
+        image_url: imageUrl,
+        thumbnail_url: thumbnailUrl,
+      });
+      await lightHaptic();
+      resetRankingForm();
+
+      if (restaurantId) {
+        applyRankingsChange(restaurantId, dishRankings.map((r) => (r.id === updated.id ? updated : r)));
+      }
+    } catch (err) {
+      console.error('Failed to update ranking:', err);
+      // The ranking still points at its old photo, so nothing references the new upload
+      if (uploaded) {
+        deleteUploadedDishPhoto(uploaded).catch((deleteErr) => console.warn('Failed to delete unused photo:', deleteErr));
+      }
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update ranking. Please try again.');
+    } finally {
+      setIsSubmittingRanking(false);
+    }
+  }, [isSubmittingRanking, editingRanking, rankingDishName, rankingPrice, rankingIngredients, rankingTags, rankingScore, rankingImageUri, selectedRestaurant, dishRankings, resetRankingForm, applyRankingsChange]);
+
+  const handleDeleteRanking = useCallback(() => {
+    if (!editingRanking) return;
+    const ranking = editingRanking;
+    const restaurantId = ratingRestaurantIdRef.current ?? selectedRestaurant?.id ?? null;
+
+    Alert.alert('Delete rating?', `Your rating for "${ranking.dish_name}" will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setIsSubmittingRanking(true);
+          try {
+            await deleteDishRanking(ranking.id);
+            await lightHaptic();
+            resetRankingForm();
+            if (restaurantId) {
+              applyRankingsChange(restaurantId, dishRankings.filter((r) => r.id !== ranking.id));
+            }
+          } catch (err) {
+            console.error('Failed to delete ranking:', err);
+            Alert.alert('Error', err instanceof Error ? err.message : 'Failed to delete ranking. Please try again.');
+          } finally {
+            setIsSubmittingRanking(false);
+          }
+        },
+      },
+    ]);
+  }, [editingRanking, selectedRestaurant, dishRankings, resetRankingForm, applyRankingsChange]);
+
+  // Heart state for the selected restaurant
+  useEffect(() => {
+    setIsSelectedFavorite(false);
+    if (!selectedRestaurant || !currentUserId) return;
+
+    let alive = true;
+    isFavoriteRestaurant(selectedRestaurant)
+      .then((favorite) => {
+        if (alive) setIsSelectedFavorite(favorite);
+      })
+      .catch((err) => {
+        if (__DEV__) console.warn('[MapScreen] Failed to load favorite state:', err);
+      });
+    return () => {
+      alive = false;
+    };
+    // Only re-check when the selection itself changes, not on every restaurants refresh
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedRestaurant?.id, selectedRestaurant?.place_id, currentUserId]);
+
+  // Flip the heart immediately and roll back if the request fails
+  const handleToggleFavorite = useCallback(async () => {
+    await lightHaptic();
+    const restaurant = selectedRestaurant;
+    if (!restaurant || favoritePendingRef.current) return;
+    if (!currentUserId) {
+      setAuthPromptMessage('You need to sign in to save restaurants. Please sign in to your account or create a new one.');
+      setShowAuthErrorModal(true);
+      return;
+    }
+
+    const next = !isSelectedFavorite;
+    favoritePendingRef.current = true;
+    setIsSelectedFavorite(next);
+    try {
+      if (next) {
+        const placeId = await addFavorite(restaurant);
+        setRecommendations({
+          ...recommendations,
+          saved: [{ ...restaurant, place_id: placeId }, ...recommendations.saved.filter((r) => r.place_id !== placeId)],
+        });
+      } else {
+        const placeId = restaurant.place_id ?? (await lookupPlaceId(restaurant.id));
+        if (placeId) {
+          await removeFavorite(placeId);
+          setRecommendations({
+            ...recommendations,
+            saved: recommendations.saved.filter((r) => r.place_id !== placeId),
+          });
+        }
+      }
+    } catch (err) {
+      setIsSelectedFavorite(!next);
+      console.error('Failed to update favorite:', err);
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update saved restaurants. Please try again.');
+    } finally {
+      favoritePendingRef.current = false;
+    }
+  }, [selectedRestaurant, currentUserId, isSelectedFavorite, recommendations, setRecommendations]);
+
+  // Network dropped mid-submit: park the ranking in the outbox instead of losing it
+  const queueOfflineRanking = useCallback(async (input: DishRankingInput, imageUri: string | null) => {
+    try {
+      await queueRanking(input, imageUri);
+      await lightHaptic();
+      Alert.alert('Saved offline', "You're offline. Your ranking will be submitted once you're back online.");
+      resetRankingForm();
+    } catch (queueErr) {
+      console.error('Failed to queue ranking:', queueErr);
+      Alert.alert('Error', 'Failed to submit ranking. Please try again.');
+    }
+  }, [queueRanking, resetRankingForm]);
+
+  // A queued ranking landed: refresh the open restaurant if that's the one it was for
+  const lastProcessedSyncRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!lastSynced || lastProcessedSyncRef.current === lastSynced.nonce) return;
+    lastProcessedSyncRef.current = lastSynced.nonce;
+
+    const restaurant = selectedRestaurant;
+    if (!restaurant) return;
+    const { ranking, entry } = lastSynced;
+    if (restaurant.place_id !== ranking.place_id && normalizeRestaurantRef(restaurant.id) !== entry.input.restaurant_ref) return;
+
+    getDishRankingsForRestaurant(ranking.place_id)
+      .then((rankings) => applyRankingsChange(restaurant.id, rankings))
+      .catch((error) => {
+        console.error('Failed to refresh dish rankings:', error);
+      });
+  }, [lastSynced, selectedRestaurant, applyRankingsChange]);
+
   const handleSubmitRanking = useCallback(async () => {
     if (isSubmittingRanking) return;
     
@@ -2075,46 +2356,54 @@ export function MapScreen() {
       priceCents = Math.round(parsed * 100);
     }
 
+    let rankingInput: DishRankingInput | null = null;
+    let photo: UploadedDishPhoto | null = null;
+
     setIsSubmittingRanking(true);
     try {
       const dishName = rankingDishName.trim();
       const ingredients = rankingIngredients.trim() || null;
       const score = rankingScore;
 
-      // Extract OSM ID from restaurant ID (handles osm:node:123, osm:way:123, osm:relation:123)
-      const osmMatch = restaurantIdForSubmission.match(/^osm:(?:node|way|relation):(\d+)$/);
-      const osmId = osmMatch ? osmMatch[1] : null;
-      
-      // Extract mapbox_id from various formats:
-      // - "mapbox:poi.xxx" or "mapbox:xxx"
-      // - "osm:node:mapbox:xxx" (incorrect format but we handle it)
-      let mapboxId: string | null = null;
-      const mapboxIdMatch1 = restaurantIdForSubmission.match(/^mapbox:(.+)$/);
-      if (mapboxIdMatch1) {
-        mapboxId = mapboxIdMatch1[1];
-      } else {
-        // Handle incorrect format: osm:node:mapbox:xxx
-        const mapboxIdMatch2 = restaurantIdForSubmission.match(/^osm:(?:node|way|relation):mapbox:(.+)$/);
-        if (mapboxIdMatch2) {
-          mapboxId = mapboxIdMatch2[1];
-        }
-      }
-      
-      // For submission, we need either an OSM ID or a mapbox_id
-      // If we have a mapbox_id but no OSM ID, use the mapbox_id as the identifier
-      const submissionOsmId = osmId || (mapboxId ? `mapbox:${mapboxId}` : null);
+      // Any provider id (or legacy format) is accepted; the service resolves it to a place
+      const restaurantRef = normalizeRestaurantRef(restaurantIdForSubmission);
       
-      if (!submissionOsmId) {
+      if (!restaurantRef) {
         Alert.alert('Error', 'Could not determine restaurant identifier for submission.');
         return;
       }
 
-      let imageUrl: string | null = null;
+      // One ranking per dish: re-rating updates the earlier ranking, so confirm first.
+      // Offline, the check fails and the submission is queued as usual.
+      const existing = await getMyRankingForDish(restaurantRef, dishName).catch(() => null);
+      if (existing && !(await confirmRerating(existing, score))) return;
+      const successMessage = existing ? 'Your rating has been updated!' : 'Your dish ranking has been submitted!';
+
+      // One idempotency key per submission, kept if the ranking has to be queued and retried
+      const input: DishRankingInput = {
+        restaurant_ref: restaurantRef,
+        restaurant_name: restaurant.name,
+        restaurant_lat: restaurant.lat || null,
+        restaurant_lng: restaurant.lng || null,
+        dish_name: dishName,
+        price_cents: priceCents,
+        ingredients: ingredients,
+        tags: rankingTags,
+        score: score,
+        image_url: null,
+        client_request_id: createClientRequestId(),
+      };
+      rankingInput = input;
+
       if (rankingImageUri) {
         try {
-          imageUrl = await uploadDishPhoto(rankingImageUri);
+          photo = await uploadDishPhoto(rankingImageUri);
         } catch (uploadErr) {
           console.error('Failed to upload image:', uploadErr);
+          if (isNetworkError(uploadErr)) {
+            await queueOfflineRanking(input, rankingImageUri);
+            return;
+          }
           Alert.alert(
             'Image upload failed',
             'The image could not be uploaded. Would you like to submit without the photo?',
@@ -2128,25 +2417,16 @@ export function MapScreen() {
                 text: 'Submit without photo',
                 onPress: async () => {
                   try {
-                    await submitDishRanking({
-                      osm_id: submissionOsmId,
-                      restaurant_name: restaurant.name,
-                      dish_name: dishName,
-                      price_cents: priceCents,
-                      ingredients: ingredients,
-                      score: score,
-                      image_url: null,
-                      mapbox_id: mapboxId,
-                    });
+                    const submitted = await submitDishRanking(input);
                     await lightHaptic();
-                    Alert.alert('Success', 'Your dish ranking has been submitted!');
+                    Alert.alert('Success', successMessage);
                     resetRankingForm();
                     
                     // Always refresh rankings after submission
                     if (__DEV__) {
-                      console.log('[MapScreen] Refreshing rankings after submission (no photo):', { osmId: submissionOsmId, mapboxId });
+                      console.log('[MapScreen] Refreshing rankings after submission (no photo):', { restaurantRef, placeId: submitted.place_id });
                     }
-                    getDishRankingsForRestaurant(submissionOsmId, mapboxId)
+                    getDishRankingsForRestaurant(submitted.place_id)
                       .then((rankings) => {
                         if (__DEV__) {
                           console.log('[MapScreen] Refreshed rankings (no photo):', rankings.length, 'rankings found');
@@ -2163,7 +2443,7 @@ export function MapScreen() {
                           setAllRestaurants((prev) =>
                             prev.map((r) =>
                               r.id === restaurant.id
-                                ? { ...r, top_dish_net_score: roundedScore }
+                                ? { ...r, place_id: submitted.place_id, top_dish_net_score: roundedScore }
                                 : r
                             )
                           );
@@ -2176,7 +2456,11 @@ export function MapScreen() {
                       });
                   } catch (submitErr) {
                     console.error('Failed to submit ranking:', submitErr);
-                    Alert.alert('Error', 'Failed to submit ranking. Please try again.');
+                    if (isNetworkError(submitErr)) {
+                      await queueOfflineRanking(input, null);
+                    } else {
+                      Alert.alert('Error', 'Failed to submit ranking. Please try again.');
+                    }
                   } finally {
                     setIsSubmittingRanking(false);
                   }
@@ -2188,25 +2472,20 @@ export function MapScreen() {
         }
       }
 
-      await submitDishRanking({
-        osm_id: submissionOsmId, // Use the identifier we determined (OSM ID or mapbox:xxx format)
-        restaurant_name: restaurant.name,
-        dish_name: dishName,
-        price_cents: priceCents,
-        ingredients: ingredients,
-        score: score,
-        image_url: imageUrl,
-        mapbox_id: mapboxId, // Store the actual mapbox_id for querying
+      const submitted = await submitDishRanking({
+        ...input,
+        image_url: photo?.url ?? null,
+        thumbnail_url: photo?.thumbnailUrl ?? null,
       });
       await lightHaptic();
-      Alert.alert('Success', 'Your dish ranking has been submitted!');
+      Alert.alert('Success', successMessage);
       resetRankingForm();
       
-      // Always refresh rankings after submission, using the OSM ID and mapbox_id we just submitted
+      // Always refresh rankings after submission, using the place the ranking was stored under
       if (__DEV__) {
-        console.log('[MapScreen] Refreshing rankings after submission:', { osmId: submissionOsmId, mapboxId });
+        console.log('[MapScreen] Refreshing rankings after submission:', { restaurantRef, placeId: submitted.place_id });
       }
-      getDishRankingsForRestaurant(submissionOsmId, mapboxId)
+      getDishRankingsForRestaurant(submitted.place_id)
         .then((rankings) => {
           if (__DEV__) {
             console.log('[MapScreen] Refreshed rankings:', rankings.length, 'rankings found');
@@ -2223,7 +2502,7 @@ export function MapScreen() {
             setAllRestaurants((prev) =>
               prev.map((r) =>
                 r.id === restaurant.id
-                  ? { ...r, top_dish_net_score: roundedScore }
+                  ? { ...r, place_id: submitted.place_id, top_dish_net_score: roundedScore }
                   : r
               )
             );
@@ -2239,7 +2518,13 @@ export function MapScreen() {
     } catch (err) {
       console.error('Failed to submit ranking:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to submit ranking. Please try again.';
-      if (errorMessage === 'Not authenticated' || errorMessage.includes('authenticated')) {
+      if (rankingInput && isNetworkError(err)) {
+        // The photo may already be uploaded; otherwise the outbox uploads it later
+        await queueOfflineRanking(
+          { ...rankingInput, image_url: photo?.url ?? null, thumbnail_url: photo?.thumbnailUrl ?? null },
+          photo ? null : rankingImageUri
+        );
+      } else if (errorMessage === 'Not authenticated' || errorMessage.includes('authenticated')) {
         // Close the ranking sheet first to avoid BottomSheetTextInput cleanup errors
         setRankingSheetIndex(-1);
         rankingSheetRef.current?.close();
@@ -2254,7 +2539,7 @@ export function MapScreen() {
     } finally {
       setIsSubmittingRanking(false);
     }
-  }, [selectedRestaurant, restaurants, rankingDishName, rankingPrice, rankingIngredients, rankingScore, rankingImageUri, isSubmittingRanking, resetRankingForm]);
+  }, [selectedRestaurant, restaurants, rankingDishName, rankingPrice, rankingIngredients, rankingTags, rankingScore, rankingImageUri, isSubmittingRanking, resetRankingForm, queueOfflineRanking]);
 
   if (!MAPBOX_TOKEN) {
     return (
@@ -2436,8 +2721,9 @@ export function MapScreen() {
 
             <View style={styles.searchPill}>
               <SearchHeader
-                placeholder={isSearchMode ? `Searching "${search.query}"` : 'What restaurant are you at?'}
+                placeholder={isSearchMode ? `Searching "${search.query}"` : 'Search a restaurant or dish'}
                 onSelect={onMapboxSearchSelect}
+                onSelectDish={onDishSearchSelect}
                 proximity={userCenter ? { latitude: userCenter.lat, longitude: userCenter.lng } : undefined}
               />
             </View>
@@ -2662,13 +2948,13 @@ export function MapScreen() {
 
                 {/* Image Carousel */}
                 <DishImageCarousel
-                  images={dishRankings.filter((r) => r.image_url).map((r) => r.image_url!)}
-                  restaurantId={selectedRestaurant.id}
+                  photos={restaurantPhotos}
                   restaurantName={selectedRestaurant.name}
-                  onFavorite={async () => {
-                    await lightHaptic();
-                    // TODO: Implement favorite functionality
-                  }}
+                  onAddPhoto={() => void handleOpenRankingForm()}
+                  onReportPhoto={(photo) => void promptReport(photo, 'photo')}
+                  currentUserId={currentUserId}
+                  onFavorite={() => void handleToggleFavorite()}
+                  isFavorite={isSelectedFavorite}
                   onClose={() => {
                     setSheetIndex(-1);
                     sheetRef.current?.close();
@@ -2688,6 +2974,14 @@ export function MapScreen() {
                             : '0.00'} ({dishRankings.length} {dishRankings.length === 1 ? 'rating' : 'ratings'})
                         </SDText>
                       </View>
+                      {selectedRestaurant.star_dish_name ? (
+                        <SDText variant="caption" style={styles.restaurantDescription}>
+                          Star dish: {selectedRestaurant.star_dish_name}
+                          {selectedRestaurant.star_dish_score != null
+                            ? ` (${selectedRestaurant.star_dish_score.toFixed(1)})`
+                            : ''}
+                        </SDText>
+                      ) : null}
                       {(selectedRestaurant.establishment_type || selectedRestaurant.cuisine || selectedRestaurant.address) && (
                         <SDText color="textMuted" variant="caption" style={styles.restaurantDescription}>
                           {[
@@ -2710,6 +3004,20 @@ export function MapScreen() {
                   />
                 </View>
 
+                {/* Dishes, star dish first; each opens its detail screen for voting */}
+                {selectedPlaceId ? (
+                  <View style={styles.dishRankingsSection}>
+                    <SDText weight="bold" variant="subtitle" style={styles.dishRankingsTitle}>
+                      Dishes
+                    </SDText>
+                    <PlaceDishList
+                      placeId={selectedPlaceId}
+                      rankings={dishRankings}
+                      onSelect={(dish) => void openDish(dish)}
+                    />
+                  </View>
+                ) : null}
+
                 {/* Dish Rankings Section */}
                 <View style={styles.dishRankingsSection}>
                   <SDText weight="bold" variant="subtitle" style={styles.dishRankingsTitle}>
@@ -2734,7 +3042,7 @@ export function MapScreen() {
                           <View key={ranking.id} style={styles.dishRankingItem}>
                             {ranking.image_url ? (
                               <Image
-                                source={{ uri: ranking.image_url }}
+                                source={{ uri: ranking.thumbnail_url ?? ranking.image_url }}
                                 style={styles.dishRankingImage}
                                 resizeMode="cover"
                               />
@@ -2755,7 +3063,7 @@ export function MapScreen() {
                                 </View>
                                 {ranking.price_cents != null ? (
                                   <SDText color="textMuted" variant="caption">
-                                    ${(ranking.price_cents / 100).toFixed(2)}
+                                    {formatPrice(ranking.price_cents)}
                                   </SDText>
                                 ) : null}
                               </View>
@@ -2764,7 +3072,31 @@ export function MapScreen() {
                                   {ranking.ingredients}
                                 </SDText>
                               ) : null}
+                              {ranking.tags && ranking.tags.length > 0 ? (
+                                <SDText color="textMuted" variant="caption" numberOfLines={1}>
+                                  {ranking.tags.map(dishTagLabel).join(' · ')}
+                                </SDText>
+                              ) : null}
                             </View>
+                            {currentUserId && ranking.user_id === currentUserId ? (
+                              <Pressable
+                                accessibilityRole="button"
+                                accessibilityLabel={`Edit your rating for ${ranking.dish_name}`}
+                                onPress={() => void handleOpenRankingForm(ranking)}
+                                style={({ pressed }) => [styles.dishRankingEditBtn, { opacity: pressed ? 0.7 : 1 }]}
+                              >
+                                <Ionicons name="create-outline" size={20} color={theme.colors.textMuted} />
+                              </Pressable>
+                            ) : (
+                              <Pressable
+                                accessibilityRole="button"
+                                accessibilityLabel={`Report rating for ${ranking.dish_name}`}
+                                onPress={() => void promptReport(ranking, 'ranking')}
+                                style={({ pressed }) => [styles.dishRankingEditBtn, { opacity: pressed ? 0.7 : 1 }]}
+                              >
+                                <Ionicons name="flag-outline" size={18} color={theme.colors.textMuted} />
+                              </Pressable>
+                            )}
                           </View>
                         ))}
                     </View>
@@ -2808,7 +3140,9 @@ export function MapScreen() {
           <View style={styles.rankingFormContent}>
             <View style={styles.rankingFormHeader}>
               <SDText variant="subtitle" weight="bold" style={styles.rankingFormTitle}>
-                {ratingRestaurantNameForTitle ? `Rate a dish at ${ratingRestaurantNameForTitle}` : 'Rate a Dish'}
+                {editingRanking
+                  ? 'Edit your rating'
+                  : ratingRestaurantNameForTitle ? `Rate a dish at ${ratingRestaurantNameForTitle}` : 'Rate a Dish'}
               </SDText>
               <Pressable
                 accessibilityRole="button"
@@ -2846,9 +3180,10 @@ export function MapScreen() {
                   placeholderTextColor={theme.colors.textMuted}
                 />
               )}
+              <DishNameSuggestions suggestions={dishNameSuggestions} onSelect={setRankingDishName} />
 
               <SDText weight="semibold" style={styles.rankingLabel}>
-                Price (optional)
+                Price in {DEFAULT_CURRENCY} (optional)
               </SDText>
               {rankingSheetIndex >= 0 && rankingScrollViewRef.current ? (
                 <BottomSheetTextInput
@@ -2856,7 +3191,7 @@ export function MapScreen() {
                   style={styles.rankingInput}
                   value={rankingPrice}
                   onChangeText={setRankingPrice}
-                  placeholder="e.g. 12.50"
+                  placeholder="e.g. 85"
                   placeholderTextColor={theme.colors.textMuted}
                   keyboardType="decimal-pad"
                 />
@@ -2865,7 +3200,7 @@ export function MapScreen() {
                   style={styles.rankingInput}
                   value={rankingPrice}
                   onChangeText={setRankingPrice}
-                  placeholder="e.g. 12.50"
+                  placeholder="e.g. 85"
                   placeholderTextColor={theme.colors.textMuted}
                   keyboardType="decimal-pad"
                 />
@@ -2893,6 +3228,11 @@ export function MapScreen() {
                 />
               )}
 
+              <SDText weight="semibold" style={styles.rankingLabel}>
+                Dietary tags (optional)
+              </SDText>
+              <DishTagPicker tags={rankingTags} onChange={setRankingTags} />
+
               <SDText weight="semibold" style={styles.rankingLabel}>
                 Score (0–10) *
               </SDText>
@@ -2946,12 +3286,30 @@ export function MapScreen() {
                 </Pressable>
               )}
 
-              <SDButton
-                title={isSubmittingRanking ? 'Submitting...' : 'Submit Rating'}
-                onPress={() => void handleSubmitRanking()}
-                disabled={isSubmittingRanking || !rankingDishName.trim()}
-                style={styles.submitRankingBtn}
-              />
+              {editingRanking ? (
+                <>
+                  <SDButton
+                    title={isSubmittingRanking ? 'Saving...' : 'Save Changes'}
+                    onPress={() => void handleSaveRankingEdit()}
+                    disabled={isSubmittingRanking || !rankingDishName.trim()}
+                    style={styles.saveRankingBtn}
+                  />
+                  <SDButton
+                    title="Delete Rating"
+                    tone="surface"
+                    onPress={handleDeleteRanking}
+                    disabled={isSubmittingRanking}
+                    style={styles.deleteRankingBtn}
+                  />
+                </>
+              ) : (
+                <SDButton
+                  title={isSubmittingRanking ? 'Submitting...' : 'Submit Rating'}
+                  onPress={() => void handleSubmitRanking()}
+                  disabled={isSubmittingRanking || !rankingDishName.trim()}
+                  style={styles.submitRankingBtn}
+                />
+              )}
             </BottomSheetScrollView>
           </View>
         </BottomSheet>
@@ -3050,15 +3408,89 @@ export function MapScreen() {
               </SDText>
             )}
 
+            <SDText weight="semibold">Dietary</SDText>
+            <View style={styles.filterCategoriesWrap}>
+              {DISH_TAG_FILTERS.map((f) => {
+                const selected = selectedDishTagFilters.includes(f.id);
+                return (
+                  <Pressable
+                    key={`filter-tag-${f.id}`}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Filter dishes ${f.label}`}
+                    accessibilityState={{ selected }}
+                    onPress={async () => {
+                      await lightHaptic();
+                      setSelectedDishTagFilters((prev) =>
+                        prev.includes(f.id) ? prev.filter((id) => id !== f.id) : [...prev, f.id]
+                      );
+                    }}
+                    style={({ pressed }) => [
+                      styles.filterChip,
+                      selected ? styles.filterChipSelected : null,
+                      { opacity: pressed ? 0.85 : 1 },
+                    ]}
+                  >
+                    <SDText variant="caption" weight={selected ? 'bold' : 'semibold'} color={selected ? 'black' : 'text'}>
+                      {f.label}
+                    </SDText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <SDText weight="semibold">Typical dish price</SDText>
+            <View style={styles.filterCategoriesWrap}>
+              {PRICE_RANGES.map((range) => {
+                const selected = range.id === selectedPriceRangeId;
+                return (
+                  <Pressable
+                    key={`filter-price-${range.id}`}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Filter price ${range.label}`}
+                    accessibilityState={{ selected }}
+                    onPress={async () => {
+                      await lightHaptic();
+                      setSelectedPriceRangeId((prev) => (prev === range.id ? null : range.id));
+                    }}
+                    style={({ pressed }) => [
+                      styles.filterChip,
+                      selected ? styles.filterChipSelected : null,
+                      { opacity: pressed ? 0.85 : 1 },
+                    ]}
+                  >
+                    <SDText variant="caption" weight={selected ? 'bold' : 'semibold'} color={selected ? 'black' : 'text'}>
+                      {range.label}
+                    </SDText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
             <SDButton title="Show results" onPress={() => setFilterSheetIndex(-1)} />
           </View>
         </BottomSheet>
 
+        <Modal visible={!!openPlatillo} animationType="slide" onRequestClose={() => setOpenPlatillo(null)}>
+          {openPlatillo ? (
+            <PlatilloDetailScreen
+              userId={currentUserId}
+              platillo={openPlatillo}
+              restaurantName={selectedRestaurant?.name ?? ''}
+              onClose={() => setOpenPlatillo(null)}
+            />
+          ) : null}
+        </Modal>
+
         <AuthErrorModal
           visible={showAuthErrorModal}
-          onClose={() => setShowAuthErrorModal(false)}
+          message={authPromptMessage}
+          onClose={() => {
+            setShowAuthErrorModal(false);
+            setAuthPromptMessage(undefined);
+          }}
           onSignIn={() => {
             setShowAuthErrorModal(false);
+            setAuthPromptMessage(undefined);
             navigation.navigate('Profile');
           }}
         />
@@ -3522,6 +3954,17 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing.lg,
     marginBottom: theme.spacing.xl,
   },
+  saveRankingBtn: {
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  deleteRankingBtn: {
+    marginBottom: theme.spacing.xl,
+  },
+  dishRankingEditBtn: {
+    alignSelf: 'flex-start',
+    padding: theme.spacing.xs,
+  },
   dishRankingsSection: {
     marginTop: theme.spacing.md,
     paddingHorizontal: theme.spacing.md,
@@ -28,21 +28,33 @@ import { Screen } from '../components/Screen';
 import { AuthErrorModal, SDButton, SDText, SkeletonBlock } from '../components/ui';
 import type { RootTabParamList } from '../navigation/RootTabs';
 import { useDebounce } from '../hooks/useDebounce';
+import { useDishNameSuggestions } from '../hooks/useDishNameSuggestions';
+import { useReportContent } from '../hooks/useReportContent';
 import { getUserLocationBestEffort } from '../lib/location';
 import { lightHaptic } from '../lib/haptics';
+import { isNetworkError } from '../lib/network';
 import { supabase } from '../lib/supabase';
 import { useMapFocus } from '../state/MapFocusContext';
+import { useRankingOutbox } from '../state/RankingOutboxContext';
 import { useSearch } from '../state/SearchContext';
 import { theme } from '../theme';
 import { fetchRestaurantsInViewport, searchRestaurantsInArea, findRestaurantByMapboxId, findRestaurantByCoordinates } from '../services/mapService';
-import { trackRestaurantView, extractOsmId, getRecentlyViewedRestaurants, getTopPicks, getBestRated, fetchRestaurantsForRecommendations } from '../services/recommendationService';
+import { trackRestaurantView, getRecentlyViewedRestaurants, getTopPicks, getBestRated, fetchRestaurantsForRecommendations } from '../services/recommendationService';
+import { listFavorites } from '../services/favoritesService';
 import { RecommendationsList } from '../components/RecommendationsList';
 import { SearchResultsList } from '../components/SearchResultsList';
 import { RestaurantCardList } from '../components/RestaurantCardList';
 import { SearchHeader } from '../components/SearchHeader';
-import { submitDishRanking, getDishRankingsForRestaurant } from '../services/dishRankingService';
-import { uploadDishPhoto } from '../services/storageService';
-import type { RestaurantWithRanking, ViewportBounds, DishRanking, MapboxFeature } from '../types/database';
+import { DishNameSuggestions } from '../components/DishNameSuggestions';
+import { DishTagPicker } from '../components/DishTagPicker';
+import { PlaceDishList } from '../components/PlaceDishList';
+import { PlatilloDetailScreen } from './PlatilloDetailScreen';
+import { submitDishRanking, getDishRankingsForRestaurant, getMyRankingForDish, updateDishRanking, deleteDishRanking } from '../services/dishRankingService';
+import { lookupPlaceId } from '../services/placeService';
+import { getPlatillo } from '../services/platilloService';
+import { deleteUploadedDishPhoto, uploadDishPhoto, type UploadedDishPhoto } from '../services/storageService';
+import { createClientRequestId } from '../services/rankingOutboxService';
+import type { RestaurantWithRanking, ViewportBounds, DishRanking, DishRankingInput, MapboxFeature, DishSearchResult, DishTag, PlaceDish, Platillo } from '../types/database';
 import {
   calculateZoomFromLatitudeDelta,
   createClusterer,
@@ -51,6 +63,9 @@ import {
   type ClusteredPoint,
 } from '../utils/markerClustering';
 import type { SuperClusterInstance } from '../utils/markerClustering';
+import { normalizeRestaurantRef } from '../utils/restaurantRef';
+import { DISH_TAG_FILTERS, dishTagLabel, matchesDishTagFilters } from '../utils/dishTags';
+import { DEFAULT_CURRENCY, PRICE_RANGES, formatPrice, matchesPriceRange } from '../utils/price';
 
 const MAPBOX_TOKEN = process.env.EXPO_PUBLIC_MAPBOX_TOKEN;
 
@@ -289,9 +304,25 @@ const WebClusterMarker = React.memo(function WebClusterMarker({
 
 type NavigationProp = BottomTabNavigationProp<RootTabParamList>;
 
+// Ask before a second rating of the same dish replaces the first
+function confirmRerating(existing: DishRanking, score: number): Promise<boolean> {
+  return new Promise((resolve) => {
+    Alert.alert(
+      'You already rated this dish',
+      `You gave "${existing.dish_name}" ${existing.score}/10. Update your rating to ${score}/10?`,
+      [
+        { text: 'Cancel', style: 'cancel', onPress: () => resolve(false) },
+        { text: 'Update', onPress: () => resolve(true) },
+      ],
+      { cancelable: true, onDismiss: () => resolve(false) }
+    );
+  });
+}
+
 export function MapScreen() {
   const navigation = useNavigation<NavigationProp>();
-  const { lastFocus } = useMapFocus();
+  const { lastFocus, focusRestaurant } = useMapFocus();
+  const { queueRanking, lastSynced } = useRankingOutbox();
   const { search, setSearch, clearSearch, recommendations, setRecommendations } = useSearch();
   const sheetRef = useRef<BottomSheet>(null);
   const filterSheetRef = useRef<BottomSheet>(null);
@@ -333,6 +364,8 @@ export function MapScreen() {
 
   const [allRestaurants, setAllRestaurants] = useState<RestaurantWithRanking[]>([]);
   const [selectedRestaurantId, setSelectedRestaurantId] = useState<string | null>(null);
+  const selectedRestaurantIdRef = useRef<string | null>(null);
+  selectedRestaurantIdRef.current = selectedRestaurantId;
   const [selectedRestaurantNameHint, setSelectedRestaurantNameHint] = useState<string | null>(null);
   const [sheetIndex, setSheetIndex] = useState<number>(-1);
   // Start with false to allow immediate rendering - data fetch will happen immediately
@@ -347,6 +380,8 @@ export function MapScreen() {
   const [filterSheetIndex, setFilterSheetIndex] = useState<number>(-1);
   const [userCenter, setUserCenter] = useState<{ lat: number; lng: number } | null>(null);
   const [maxDistanceKm, setMaxDistanceKm] = useState<number | null>(null);
+  const [selectedDishTagFilters, setSelectedDishTagFilters] = useState<string[]>([]);
+  const [selectedPriceRangeId, setSelectedPriceRangeId] = useState<string | null>(null);
 
   const prevSelectedCuisineIdRef = useRef(selectedCuisineId);
 
@@ -355,15 +390,19 @@ export function MapScreen() {
   const [rankingDishName, setRankingDishName] = useState('');
   const [rankingPrice, setRankingPrice] = useState('');
   const [rankingIngredients, setRankingIngredients] = useState('');
+  const [rankingTags, setRankingTags] = useState<DishTag[]>([]);
   const [rankingScore, setRankingScore] = useState<number>(5);
   const [rankingImageUri, setRankingImageUri] = useState<string | null>(null);
   const [isSubmittingRanking, setIsSubmittingRanking] = useState(false);
+  const [editingRanking, setEditingRanking] = useState<DishRanking | null>(null);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
   const [isMainSheetClosing, setIsMainSheetClosing] = useState(false);
   const [showAuthErrorModal, setShowAuthErrorModal] = useState(false);
   
   // Dish rankings for selected restaurant
   const [dishRankings, setDishRankings] = useState<DishRanking[]>([]);
   const [isLoadingDishRankings, setIsLoadingDishRankings] = useState(false);
+  const [openPlatillo, setOpenPlatillo] = useState<Platillo | null>(null);
 
   // Refs for bottom sheet scrollable content
   const listFlatListRef = useRef<any>(null);
@@ -384,8 +423,10 @@ export function MapScreen() {
     // Pre-compute distance filter if needed (only calculate once per restaurant)
     const needsDistanceFilter = maxDistanceKm != null && userCenter;
     
+    const needsTagFilter = selectedDishTagFilters.length > 0;
+
     // Fast path for 'all' cuisine (most common case)
-    if (selectedCuisineId === 'all' && !needsDistanceFilter) {
+    if (selectedCuisineId === 'all' && !needsDistanceFilter && !needsTagFilter && !selectedPriceRangeId) {
       // Just filter out invalid entries - fastest path
       return allRestaurants.filter((r) => r && typeof r === 'object' && typeof r.id === 'string');
     }
@@ -401,6 +442,12 @@ export function MapScreen() {
         if (d > maxDistanceKm!) return false;
       }
 
+      // Dish tag filter: tags agreed on for at least one of the place's dishes
+      if (needsTagFilter && !matchesDishTagFilters(r.dish_tags, selectedDishTagFilters)) return false;
+
+      // Price filter: median dish price
+      if (!matchesPriceRange(r, selectedPriceRangeId)) return false;
+
       // Cuisine filter (early return for 'all')
       if (selectedCuisineId === 'all') return true;
       if (selectedCuisineId === 'fast_food') return r.establishment_type === 'fast_food';
@@ -410,7 +457,7 @@ export function MapScreen() {
       if (selectedCuisineId === 'mexican') return hasCuisine(r, 'mexican') || hasCuisine(r, 'tacos');
       return true;
     });
-  }, [allRestaurants, maxDistanceKm, selectedCuisineId, userCenter]);
+  }, [allRestaurants, maxDistanceKm, selectedCuisineId, selectedDishTagFilters, selectedPriceRangeId, userCenter]);
 
   // Viewport-based marker filtering: only render markers visible in current viewport + 50% padding
   // Use viewport state directly (not viewStateRef) to avoid stale closures
@@ -472,9 +519,28 @@ export function MapScreen() {
     () => restaurants.find((r) => r.id === selectedRestaurantId) ?? null,
     [restaurants, selectedRestaurantId]
   );
+  // Places that were never ranked have no id yet; the first loaded ranking carries it
+  const selectedPlaceId = dishRankings[0]?.place_id ?? selectedRestaurant?.place_id ?? null;
+
+  // Existing dishes at this restaurant matching the typed dish name
+  const dishNameSuggestions = useDishNameSuggestions(selectedRestaurant, rankingDishName);
+  const openAuthModal = useCallback(() => setShowAuthErrorModal(true), []);
+  const removeHiddenRanking = useCallback((rankingId: string) => {
+    setDishRankings((prev) => prev.filter((r) => r.id !== rankingId));
+  }, []);
+  const promptReport = useReportContent({ onAuthRequired: openAuthModal, onHidden: removeHiddenRanking });
+
+  const openDish = useCallback(async (dish: PlaceDish) => {
+    try {
+      const platillo = await getPlatillo(dish.platillo_id);
+      if (platillo) setOpenPlatillo(platillo);
+    } catch (error) {
+      if (__DEV__) console.warn('[MapScreen.web] Failed to open dish:', error);
+    }
+  }, []);
 
   const snapPoints = useMemo(() => (viewMode === 'list' ? ['25%', '55%', '90%'] : ['45%', '52%']), [viewMode]);
-  const filterSnapPoints = useMemo(() => ['52%'], []);
+  const filterSnapPoints = useMemo(() => ['80%'], []);
 
   const isSearchMode = Boolean(search.active && search.viewport && search.query.trim().length > 0);
 
@@ -605,6 +671,17 @@ export function MapScreen() {
   }, []);
 
   // Handle Mapbox search selection
+  // Dish hits from search open the restaurant where the dish was ranked
+  const onDishSearchSelect = useCallback((result: DishSearchResult) => {
+    if (!result.place_ref || result.lat == null || result.lng == null) return;
+    focusRestaurant({
+      restaurantId: result.place_ref,
+      name: result.restaurant_name,
+      lat: result.lat,
+      lng: result.lng,
+    });
+  }, [focusRestaurant]);
+
   const onMapboxSearchSelect = useCallback(async (feature: MapboxFeature) => {
     await lightHaptic();
     Keyboard.dismiss();
@@ -678,10 +755,7 @@ export function MapScreen() {
       setSearch({ query: finalRestaurant.name, viewport: currentViewport });
       
       // Track restaurant view if we have an OSM ID
-      const osmId = extractOsmId(finalRestaurant.id);
-      if (osmId) {
-        await trackRestaurantView(osmId, finalRestaurant.name);
-      }
+      await trackRestaurantView(finalRestaurant.id, finalRestaurant.name);
 
       // Set the selected restaurant and show details modal
       setSelectedRestaurantId(finalRestaurant.id);
@@ -797,6 +871,8 @@ export function MapScreen() {
     await lightHaptic();
     setSelectedCuisineId('all');
     setMaxDistanceKm(null);
+    setSelectedDishTagFilters([]);
+    setSelectedPriceRangeId(null);
   }, []);
 
   const openExternalUrl = useCallback(async (url: string) => {
@@ -839,7 +915,8 @@ export function MapScreen() {
       const currentViewport = viewStateToViewportBounds(viewStateRef.current);
       
       // Fetch recommendation data
-      const [recentlyViewedData, topPicksData, bestRatedData] = await Promise.all([
+      const [saved, recentlyViewedData, topPicksData, bestRatedData] = await Promise.all([
+        listFavorites(20),
         getRecentlyViewedRestaurants(10),
         getTopPicks(10),
         getBestRated(10),
@@ -855,6 +932,7 @@ export function MapScreen() {
       // Use startTransition for non-urgent state updates
       startTransition(() => {
         setRecommendations({
+          saved,
           recentlyViewed,
           topPicks,
           bestRated,
@@ -1083,6 +1161,59 @@ export function MapScreen() {
     };
   }, [isSearchMode, search.query, search.viewport]);
 
+  // Browse mode: without a search query, show every ranked place in the visible area
+  useEffect(() => {
+    if (isSearchMode) {
+      lastFetchedViewportRef.current = null;
+      return;
+    }
+
+    const key = [
+      debouncedViewport.southWestLat,
+      debouncedViewport.southWestLng,
+      debouncedViewport.northEastLat,
+      debouncedViewport.northEastLng,
+    ].map((n) => n.toFixed(3)).join(',');
+    if (lastFetchedViewportRef.current === key) return;
+    lastFetchedViewportRef.current = key;
+
+    const controller = new AbortController();
+
+    (async () => {
+      try {
+        const data = await fetchRestaurantsInViewport(debouncedViewport, { signal: controller.signal });
+        if (controller.signal.aborted) return;
+
+        startTransition(() => {
+          setAllRestaurants((prev) => {
+            // Keep the selected restaurant around even if it is not a ranked place in this area
+            const selected = prev.find((r) => r.id === selectedRestaurantIdRef.current);
+            if (selected && !data.some((r) => r.id === selected.id)) {
+              return [...data, selected];
+            }
+            return data;
+          });
+        });
+
+        if (__DEV__) {
+          console.log(`[MapScreen.web] Browse complete: ${data.length} ranked places in viewport`);
+        }
+      } catch (e) {
+        const isAbort = controller.signal.aborted || (e instanceof Error && e.name === 'AbortError');
+        if (isAbort) return;
+        // Allow a retry for the same viewport
+        lastFetchedViewportRef.current = null;
+        if (__DEV__) {
+          console.warn('[MapScreen.web] Browse fetch failed:', e);
+        }
+      }
+    })();
+
+    return () => {
+      controller.abort();
+    };
+  }, [debouncedViewport, isSearchMode]);
+
   useEffect(() => {
     if (!lastFocus) return;
 
@@ -1123,16 +1254,16 @@ export function MapScreen() {
       return;
     }
 
-    const match = selectedRestaurant.id.match(/^osm:(?:node|way|relation):(\d+)$/);
-    const osmId = match ? match[1] : null;
+    const restaurantRef = normalizeRestaurantRef(selectedRestaurant.id);
 
-    if (!osmId) {
+    if (!restaurantRef) {
       setDishRankings([]);
       return;
     }
 
     setIsLoadingDishRankings(true);
-    getDishRankingsForRestaurant(osmId)
+    (selectedRestaurant.place_id ? Promise.resolve(selectedRestaurant.place_id) : lookupPlaceId(restaurantRef))
+      .then((placeId) => (placeId ? getDishRankingsForRestaurant(placeId) : []))
       .then((rankings) => {
         setDishRankings(rankings);
       })
@@ -1188,10 +1319,7 @@ export function MapScreen() {
     const restaurant = allRestaurants.find(r => r.id === restaurantId);
     if (restaurant) {
       // Track restaurant view
-      const osmId = extractOsmId(restaurant.id);
-      if (osmId) {
-        await trackRestaurantView(osmId, restaurant.name);
-      }
+      await trackRestaurantView(restaurant.id, restaurant.name);
       
       // Animate map to restaurant
       const nextViewState: ViewState = {
@@ -1392,10 +1520,7 @@ export function MapScreen() {
       await lightHaptic();
       
       // Track restaurant view
-      const osmId = extractOsmId(r.id);
-      if (osmId) {
-        await trackRestaurantView(osmId, r.name);
-      }
+      await trackRestaurantView(r.id, r.name);
       
       // Animate map to restaurant
       const nextViewState: ViewState = {
@@ -1460,8 +1585,10 @@ export function MapScreen() {
     setRankingDishName('');
     setRankingPrice('');
     setRankingIngredients('');
+    setRankingTags([]);
     setRankingScore(5);
     setRankingImageUri(null);
+    setEditingRanking(null);
     setRankingSheetIndex(-1);
     rankingSheetRef.current?.close();
   }, []);
@@ -1472,7 +1599,23 @@ export function MapScreen() {
     }
   }, [selectedRestaurant, rankingSheetIndex, resetRankingForm]);
 
-  const handleOpenRankingForm = useCallback(async () => {
+  // Current user, so their own rankings can be edited or deleted
+  useEffect(() => {
+    let alive = true;
+    supabase.auth.getUser().then(({ data }) => {
+      if (alive) setCurrentUserId(data.user?.id ?? null);
+    });
+    const { data } = supabase.auth.onAuthStateChange((_event, session) => {
+      setCurrentUserId(session?.user?.id ?? null);
+    });
+    return () => {
+      alive = false;
+      data.subscription.unsubscribe();
+    };
+  }, []);
+
+  // Opens the ranking form; pass an existing ranking to edit it instead of creating a new one
+  const handleOpenRankingForm = useCallback(async (ranking?: DishRanking) => {
     await lightHaptic();
     if (!selectedRestaurant) {
       return;
@@ -1482,6 +1625,15 @@ export function MapScreen() {
       setShowAuthErrorModal(true);
       return;
     }
+    if (ranking) {
+      setEditingRanking(ranking);
+      setRankingDishName(ranking.dish_name);
+      setRankingPrice(ranking.price_cents != null ? (ranking.price_cents / 100).toFixed(2) : '');
+      setRankingIngredients(ranking.ingredients ?? '');
+      setRankingTags(ranking.tags ?? []);
+      setRankingScore(ranking.score);
+      setRankingImageUri(ranking.image_url);
+    }
     setIsMainSheetClosing(true);
     setSheetIndex(-1);
     sheetRef.current?.close();
@@ -1507,6 +1659,132 @@ export function MapScreen() {
     }
   }, []);
 
+  const applyRankingsChange = useCallback((restaurantId: string, nextRankings: DishRanking[]) => {
+    setDishRankings(nextRankings);
+    const roundedScore = nextRankings.length > 0
+      ? Math.round((nextRankings.reduce((sum, r) => sum + r.score, 0) / nextRankings.length) * 10) / 10
+      : 0;
+    setAllRestaurants((prev) =>
+      prev.map((r) => (r.id === restaurantId ? { ...r, top_dish_net_score: roundedScore } : r))
+    );
+  }, []);
+
+  const handleSaveRankingEdit = useCallback(async () => {
+    if (isSubmittingRanking || !editingRanking || !selectedRestaurant) return;
+
+    if (!rankingDishName.trim()) {
+      Alert.alert('Missing dish name', 'Please enter the name of the dish.');
+      return;
+    }
+
+    let priceCents: number | null = null;
+    if (rankingPrice.trim()) {
+      const parsed = parseFloat(rankingPrice);
+      if (isNaN(parsed) || parsed < 0) {
+        Alert.alert('Invalid price', 'Please enter a valid price (e.g., 12.50).');
+        return;
+      }
+      priceCents = Math.round(parsed * 100);
+    }
+
+    const restaurantId = selectedRestaurant.id;
+
+    let uploaded: UploadedDishPhoto | null = null;
+
+    setIsSubmittingRanking(true);
+    try {
+      // A new local image needs uploading; an unchanged remote URL is kept as-is
+      let imageUrl = rankingImageUri;
+      let thumbnailUrl = rankingImageUri ? editingRanking.thumbnail_url ?? null : null;
+      if (rankingImageUri && rankingImageUri !== editingRanking.image_url) {
+        uploaded = await uploadDishPhoto(rankingImageUri);
+        imageUrl = uploaded.url;
+        thumbnailUrl = uploaded.thumbnailUrl;
+      }
+
+      const updated = await updateDishRanking(editingRanking.id, {
+        dish_name: rankingDishName.trim(),
+        price_cents: priceCents,
+        ingredients: rankingIngredients.trim() || null,
+        tags: rankingTags,
+        score: rankingScore,
+        image_url: imageUrl,
+        thumbnail_url: thumbnailUrl,
+      });
+      await lightHaptic();
+      resetRankingForm();
+      applyRankingsChange(restaurantId, dishRankings.map((r) => (r.id === updated.id ? updated : r)));
+    } catch (err) {
+      console.error('Failed to update ranking:', err);
+      // The ranking still points at its old photo, so nothing references the new upload
+      if (uploaded) {
+        deleteUploadedDishPhoto(uploaded).catch((deleteErr) => console.warn('Failed to delete unused photo:', deleteErr));
+      }
+      Alert.alert('Error', err instanceof Error ? err.message : 'Failed to update ranking. Please try again.');
+    } finally {
+      setIsSubmittingRanking(false);
+    }
+  }, [isSubmittingRanking, editingRanking, selectedRestaurant, rankingDishName, rankingPrice, rankingIngredients, rankingTags, rankingScore, rankingImageUri, dishRankings, resetRankingForm, applyRankingsChange]);
+
+  const handleDeleteRanking = useCallback(() => {
+    if (!editingRanking || !selectedRestaurant) return;
+    const ranking = editingRanking;
+    const restaurantId = selectedRestaurant.id;
+
+    Alert.alert('Delete rating?', `Your rating for "${ranking.dish_name}" will be removed.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          setIsSubmittingRanking(true);
+          try {
+            await deleteDishRanking(ranking.id);
+            await lightHaptic();
+            resetRankingForm();
+            applyRankingsChange(restaurantId, dishRankings.filter((r) => r.id !== ranking.id));
+          } catch (err) {
+            console.error('Failed to delete ranking:', err);
+            Alert.alert('Error', err instanceof Error ? err.message : 'Failed to delete ranking. Please try again.');
+          } finally {
+            setIsSubmittingRanking(false);
+          }
+        },
+      },
+    ]);
+  }, [editingRanking, selectedRestaurant, dishRankings, resetRankingForm, applyRankingsChange]);
+
+  // Network dropped mid-submit: park the ranking in the outbox instead of losing it
+  const queueOfflineRanking = useCallback(async (input: DishRankingInput, imageUri: string | null) => {
+    try {
+      await queueRanking(input, imageUri);
+      await lightHaptic();
+      Alert.alert('Saved offline', "You're offline. Your ranking will be submitted once you're back online.");
+      resetRankingForm();
+    } catch (queueErr) {
+      console.error('Failed to queue ranking:', queueErr);
+      Alert.alert('Error', 'Failed to submit ranking. Please try again.');
+    }
+  }, [queueRanking, resetRankingForm]);
+
+  // A queued ranking landed: refresh the open restaurant if that's the one it was for
+  const lastProcessedSyncRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!lastSynced || lastProcessedSyncRef.current === lastSynced.nonce) return;
+    lastProcessedSyncRef.current = lastSynced.nonce;
+
+    const restaurant = selectedRestaurant;
+    if (!restaurant) return;
+    const { ranking, entry } = lastSynced;
+    if (restaurant.place_id !== ranking.place_id && normalizeRestaurantRef(restaurant.id) !== entry.input.restaurant_ref) return;
+
+    getDishRankingsForRestaurant(ranking.place_id)
+      .then((rankings) => applyRankingsChange(restaurant.id, rankings))
+      .catch((error) => {
+        console.error('Failed to refresh dish rankings:', error);
+      });
+  }, [lastSynced, selectedRestaurant, applyRankingsChange]);
+
   const handleSubmitRanking = useCallback(async () => {
     if (isSubmittingRanking) return;
     
@@ -1533,6 +1811,9 @@ export function MapScreen() {
       priceCents = Math.round(parsed * 100);
     }
 
+    let rankingInput: DishRankingInput | null = null;
+    let photo: UploadedDishPhoto | null = null;
+
     setIsSubmittingRanking(true);
     try {
       const restaurant = selectedRestaurant;
@@ -1540,15 +1821,43 @@ export function MapScreen() {
       const ingredients = rankingIngredients.trim() || null;
       const score = rankingScore;
 
-      const match = restaurant.id.match(/^osm:(?:node|way|relation):(\d+)$/);
-      const osmId = match ? match[1] : restaurant.id;
+      const restaurantRef = normalizeRestaurantRef(restaurant.id);
+      if (!restaurantRef) {
+        Alert.alert('Error', 'Could not determine restaurant identifier for submission.');
+        return;
+      }
+
+      // One ranking per dish: re-rating updates the earlier ranking, so confirm first.
+      // Offline, the check fails and the submission is queued as usual.
+      const existing = await getMyRankingForDish(restaurantRef, dishName).catch(() => null);
+      if (existing && !(await confirmRerating(existing, score))) return;
+      const successMessage = existing ? 'Your rating has been updated!' : 'Your dish ranking has been submitted!';
+
+      // One idempotency key per submission, kept if the ranking has to be queued and retried
+      const input: DishRankingInput = {
+        restaurant_ref: restaurantRef,
+        restaurant_name: restaurant.name,
+        restaurant_lat: restaurant.lat || null,
+        restaurant_lng: restaurant.lng || null,
+        dish_name: dishName,
+        price_cents: priceCents,
+        ingredients: ingredients,
+        tags: rankingTags,
+        score: score,
+        image_url: null,
+        client_request_id: createClientRequestId(),
+      };
+      rankingInput = input;
 
-      let imageUrl: string | null = null;
       if (rankingImageUri) {
         try {
-          imageUrl = await uploadDishPhoto(rankingImageUri);
+          photo = await uploadDishPhoto(rankingImageUri);
         } catch (uploadErr) {
           console.error('Failed to upload image:', uploadErr);
+          if (isNetworkError(uploadErr)) {
+            await queueOfflineRanking(input, rankingImageUri);
+            return;
+          }
           Alert.alert(
             'Image upload failed',
             'The image could not be uploaded. Would you like to submit without the photo?',
@@ -1562,40 +1871,34 @@ export function MapScreen() {
                 text: 'Submit without photo',
                 onPress: async () => {
                   try {
-                    await submitDishRanking({
-                      osm_id: osmId,
-                      restaurant_name: restaurant.name,
-                      dish_name: dishName,
-                      price_cents: priceCents,
-                      ingredients: ingredients,
-                      score: score,
-                      image_url: null,
-                    });
+                    const submitted = await submitDishRanking(input);
                     await lightHaptic();
-                    Alert.alert('Success', 'Your dish ranking has been submitted!');
+                    Alert.alert('Success', successMessage);
                     resetRankingForm();
-                    if (match) {
-                      getDishRankingsForRestaurant(osmId)
-                        .then((rankings) => {
-                          setDishRankings(rankings);
-                          if (rankings.length > 0) {
-                            const avgScore = rankings.reduce((sum, r) => sum + r.score, 0) / rankings.length;
-                            setAllRestaurants((prev) =>
-                              prev.map((r) =>
-                                r.id === restaurant.id
-                                  ? { ...r, top_dish_net_score: Math.round(avgScore * 10) / 10 }
-                                  : r
-                              )
-                            );
-                          }
-                        })
-                        .catch((error) => {
-                          console.error('Failed to refresh dish rankings:', error);
-                        });
-                    }
+                    getDishRankingsForRestaurant(submitted.place_id)
+                      .then((rankings) => {
+                        setDishRankings(rankings);
+                        if (rankings.length > 0) {
+                          const avgScore = rankings.reduce((sum, r) => sum + r.score, 0) / rankings.length;
+                          setAllRestaurants((prev) =>
+                            prev.map((r) =>
+                              r.id === restaurant.id
+                                ? { ...r, place_id: submitted.place_id, top_dish_net_score: Math.round(avgScore * 10) / 10 }
+                                : r
+                            )
+                          );
+                        }
+                      })
+                      .catch((error) => {
+                        console.error('Failed to refresh dish rankings:', error);
+                      });
                   } catch (submitErr) {
                     console.error('Failed to submit ranking:', submitErr);
-                    Alert.alert('Error', 'Failed to submit ranking. Please try again.');
+                    if (isNetworkError(submitErr)) {
+                      await queueOfflineRanking(input, null);
+                    } else {
+                      Alert.alert('Error', 'Failed to submit ranking. Please try again.');
+                    }
                   } finally {
                     setIsSubmittingRanking(false);
                   }
@@ -1607,41 +1910,41 @@ export function MapScreen() {
         }
       }
 
-      await submitDishRanking({
-        osm_id: osmId,
-        restaurant_name: restaurant.name,
-        dish_name: dishName,
-        price_cents: priceCents,
-        ingredients: ingredients,
-        score: score,
-        image_url: imageUrl,
+      const submitted = await submitDishRanking({
+        ...input,
+        image_url: photo?.url ?? null,
+        thumbnail_url: photo?.thumbnailUrl ?? null,
       });
       await lightHaptic();
-      Alert.alert('Success', 'Your dish ranking has been submitted!');
+      Alert.alert('Success', successMessage);
       resetRankingForm();
-      if (match) {
-        getDishRankingsForRestaurant(osmId)
-          .then((rankings) => {
-            setDishRankings(rankings);
-            if (rankings.length > 0) {
-              const avgScore = rankings.reduce((sum, r) => sum + r.score, 0) / rankings.length;
-              setAllRestaurants((prev) =>
-                prev.map((r) =>
-                  r.id === restaurant.id
-                    ? { ...r, top_dish_net_score: Math.round(avgScore * 10) / 10 }
-                    : r
-                )
-              );
-            }
-          })
-          .catch((error) => {
-            console.error('Failed to refresh dish rankings:', error);
-          });
-      }
+      getDishRankingsForRestaurant(submitted.place_id)
+        .then((rankings) => {
+          setDishRankings(rankings);
+          if (rankings.length > 0) {
+            const avgScore = rankings.reduce((sum, r) => sum + r.score, 0) / rankings.length;
+            setAllRestaurants((prev) =>
+              prev.map((r) =>
+                r.id === restaurant.id
+                  ? { ...r, place_id: submitted.place_id, top_dish_net_score: Math.round(avgScore * 10) / 10 }
+                  : r
+              )
+            );
+          }
+        })
+        .catch((error) => {
+          console.error('Failed to refresh dish rankings:', error);
+        });
     } catch (err) {
       console.error('Failed to submit ranking:', err);
       const errorMessage = err instanceof Error ? err.message : 'Failed to submit ranking. Please try again.';
-      if (errorMessage === 'Not authenticated' || errorMessage.includes('authenticated')) {
+      if (rankingInput && isNetworkError(err)) {
+        // The photo may already be uploaded; otherwise the outbox uploads it later
+        await queueOfflineRanking(
+          { ...rankingInput, image_url: photo?.url ?? null, thumbnail_url: photo?.thumbnailUrl ?? null },
+          photo ? null : rankingImageUri
+        );
+      } else if (errorMessage === 'Not authenticated' || errorMessage.includes('authenticated')) {
         // Close the ranking sheet first to avoid BottomSheetTextInput cleanup errors
         setRankingSheetIndex(-1);
         rankingSheetRef.current?.close();
@@ -1656,7 +1959,7 @@ export function MapScreen() {
     } finally {
       setIsSubmittingRanking(false);
     }
-  }, [selectedRestaurant, rankingDishName, rankingPrice, rankingIngredients, rankingScore, rankingImageUri, isSubmittingRanking, resetRankingForm]);
+  }, [selectedRestaurant, rankingDishName, rankingPrice, rankingIngredients, rankingTags, rankingScore, rankingImageUri, isSubmittingRanking, resetRankingForm, queueOfflineRanking]);
 
   if (!MAPBOX_TOKEN) {
     return (
@@ -1780,8 +2083,9 @@ export function MapScreen() {
 
             <View style={styles.searchPill}>
               <SearchHeader
-                placeholder={isSearchMode ? `Searching "${search.query}"` : 'What restaurant are you at?'}
+                placeholder={isSearchMode ? `Searching "${search.query}"` : 'Search a restaurant or dish'}
                 onSelect={onMapboxSearchSelect}
+                onSelectDish={onDishSearchSelect}
                 proximity={userCenter ? { latitude: userCenter.lat, longitude: userCenter.lng } : undefined}
               />
               <Pressable
@@ -1999,6 +2303,14 @@ export function MapScreen() {
                       {selectedRestaurant.name}
                     </SDText>
                     <SDText color="textMuted">{selectedRestaurant.address ?? 'Nearby'}</SDText>
+                    {selectedRestaurant.star_dish_name ? (
+                      <SDText variant="caption">
+                        Star dish: {selectedRestaurant.star_dish_name}
+                        {selectedRestaurant.star_dish_score != null
+                          ? ` (${selectedRestaurant.star_dish_score.toFixed(1)})`
+                          : ''}
+                      </SDText>
+                    ) : null}
                   </View>
                   <View style={styles.scorePillCompact}>
                     <SDText weight="bold" color="black" variant="caption">
@@ -2071,6 +2383,19 @@ export function MapScreen() {
                   />
                 </View>
 
+                {selectedPlaceId ? (
+                  <View style={styles.dishRankingsSection}>
+                    <SDText weight="bold" variant="subtitle" style={styles.dishRankingsTitle}>
+                      Dishes
+                    </SDText>
+                    <PlaceDishList
+                      placeId={selectedPlaceId}
+                      rankings={dishRankings}
+                      onSelect={(dish) => void openDish(dish)}
+                    />
+                  </View>
+                ) : null}
+
                 <View style={styles.dishRankingsSection}>
                   <SDText weight="bold" variant="subtitle" style={styles.dishRankingsTitle}>
                     Dish Rankings
@@ -2097,7 +2422,7 @@ export function MapScreen() {
                       {dishRankings.map((ranking) => (
                         <View key={ranking.id} style={styles.dishRankingCard}>
                           {ranking.image_url ? (
-                            <Image source={{ uri: ranking.image_url }} style={styles.dishRankingImage} />
+                            <Image source={{ uri: ranking.thumbnail_url ?? ranking.image_url }} style={styles.dishRankingImage} />
                           ) : (
                             <View style={styles.dishRankingImagePlaceholder}>
                               <Ionicons name="restaurant-outline" size={32} color={theme.colors.textMuted} />
@@ -2115,7 +2440,7 @@ export function MapScreen() {
                               </View>
                               {ranking.price_cents != null ? (
                                 <SDText color="textMuted" variant="caption">
-                                  ${(ranking.price_cents / 100).toFixed(2)}
+                                  {formatPrice(ranking.price_cents)}
                                 </SDText>
                               ) : null}
                             </View>
@@ -2124,7 +2449,31 @@ export function MapScreen() {
                                 {ranking.ingredients}
                               </SDText>
                             ) : null}
+                            {ranking.tags && ranking.tags.length > 0 ? (
+                              <SDText color="textMuted" variant="caption" numberOfLines={1}>
+                                {ranking.tags.map(dishTagLabel).join(' · ')}
+                              </SDText>
+                            ) : null}
                           </View>
+                          {currentUserId && ranking.user_id === currentUserId ? (
+                            <Pressable
+                              accessibilityRole="button"
+                              accessibilityLabel={`Edit your rating for ${ranking.dish_name}`}
+                              onPress={() => void handleOpenRankingForm(ranking)}
+                              style={({ pressed }) => [styles.dishRankingEditBtn, { opacity: pressed ? 0.7 : 1 }]}
+                            >
+                              <Ionicons name="create-outline" size={18} color={theme.colors.text} />
+                            </Pressable>
+                          ) : (
+                            <Pressable
+                              accessibilityRole="button"
+                              accessibilityLabel={`Report rating for ${ranking.dish_name}`}
+                              onPress={() => void promptReport(ranking, 'ranking')}
+                              style={({ pressed }) => [styles.dishRankingEditBtn, { opacity: pressed ? 0.7 : 1 }]}
+                            >
+                              <Ionicons name="flag-outline" size={18} color={theme.colors.textMuted} />
+                            </Pressable>
+                          )}
                         </View>
                       ))}
                     </ScrollView>
@@ -2167,7 +2516,9 @@ export function MapScreen() {
           <View style={styles.rankingFormContent}>
             <View style={styles.rankingFormHeader}>
               <SDText variant="subtitle" weight="bold" style={styles.rankingFormTitle}>
-                {selectedRestaurant ? `Rate a dish at ${selectedRestaurant.name}` : 'Rate a Dish'}
+                {editingRanking
+                  ? 'Edit your rating'
+                  : selectedRestaurant ? `Rate a dish at ${selectedRestaurant.name}` : 'Rate a Dish'}
               </SDText>
               <Pressable
                 accessibilityRole="button"
@@ -2206,9 +2557,10 @@ export function MapScreen() {
                   placeholderTextColor={theme.colors.textMuted}
                 />
               )}
+              <DishNameSuggestions suggestions={dishNameSuggestions} onSelect={setRankingDishName} />
 
               <SDText weight="semibold" style={styles.rankingLabel}>
-                Price (optional)
+                Price in {DEFAULT_CURRENCY} (optional)
               </SDText>
               {rankingSheetIndex >= 0 && rankingScrollViewRef.current ? (
                 <BottomSheetTextInput
@@ -2217,7 +2569,7 @@ export function MapScreen() {
                   style={styles.rankingInput}
                   value={rankingPrice}
                   onChangeText={setRankingPrice}
-                  placeholder="e.g. 12.50"
+                  placeholder="e.g. 85"
                   placeholderTextColor={theme.colors.textMuted}
                   keyboardType="decimal-pad"
                 />
@@ -2226,7 +2578,7 @@ export function MapScreen() {
                   style={styles.rankingInput}
                   value={rankingPrice}
                   onChangeText={setRankingPrice}
-                  placeholder="e.g. 12.50"
+                  placeholder="e.g. 85"
                   placeholderTextColor={theme.colors.textMuted}
                   keyboardType="decimal-pad"
                 />
@@ -2255,6 +2607,11 @@ export function MapScreen() {
                 />
               )}
 
+              <SDText weight="semibold" style={styles.rankingLabel}>
+                Dietary tags (optional)
+              </SDText>
+              <DishTagPicker tags={rankingTags} onChange={setRankingTags} />
+
               <SDText weight="semibold" style={styles.rankingLabel}>
                 Score (0–10) *
               </SDText>
@@ -2308,12 +2665,30 @@ export function MapScreen() {
                 </Pressable>
               )}
 
-              <SDButton
-                title={isSubmittingRanking ? 'Submitting...' : 'Submit Rating'}
-                onPress={() => void handleSubmitRanking()}
-                disabled={isSubmittingRanking || !rankingDishName.trim()}
-                style={styles.submitRankingBtn}
-              />
+              {editingRanking ? (
+                <>
+                  <SDButton
+                    title={isSubmittingRanking ? 'Saving...' : 'Save Changes'}
+                    onPress={() => void handleSaveRankingEdit()}
+                    disabled={isSubmittingRanking || !rankingDishName.trim()}
+                    style={styles.saveRankingBtn}
+                  />
+                  <SDButton
+                    title="Delete Rating"
+                    tone="surface"
+                    onPress={handleDeleteRanking}
+                    disabled={isSubmittingRanking}
+                    style={styles.deleteRankingBtn}
+                  />
+                </>
+              ) : (
+                <SDButton
+                  title={isSubmittingRanking ? 'Submitting...' : 'Submit Rating'}
+                  onPress={() => void handleSubmitRanking()}
+                  disabled={isSubmittingRanking || !rankingDishName.trim()}
+                  style={styles.submitRankingBtn}
+                />
+              )}
             </BottomSheetScrollView>
           </View>
         </BottomSheet>
@@ -2412,10 +2787,79 @@ export function MapScreen() {
               </SDText>
             )}
 
+            <SDText weight="semibold">Dietary</SDText>
+            <View style={styles.filterCategoriesWrap}>
+              {DISH_TAG_FILTERS.map((f) => {
+                const selected = selectedDishTagFilters.includes(f.id);
+                return (
+                  <Pressable
+                    key={`filter-tag-${f.id}`}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Filter dishes ${f.label}`}
+                    accessibilityState={{ selected }}
+                    onPress={async () => {
+                      await lightHaptic();
+                      setSelectedDishTagFilters((prev) =>
+                        prev.includes(f.id) ? prev.filter((id) => id !== f.id) : [...prev, f.id]
+                      );
+                    }}
+                    style={({ pressed }) => [
+                      styles.filterChip,
+                      selected ? styles.filterChipSelected : null,
+                      { opacity: pressed ? 0.85 : 1 },
+                    ]}
+                  >
+                    <SDText variant="caption" weight={selected ? 'bold' : 'semibold'} color={selected ? 'black' : 'text'}>
+                      {f.label}
+                    </SDText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <SDText weight="semibold">Typical dish price</SDText>
+            <View style={styles.filterCategoriesWrap}>
+              {PRICE_RANGES.map((range) => {
+                const selected = range.id === selectedPriceRangeId;
+                return (
+                  <Pressable
+                    key={`filter-price-${range.id}`}
+                    accessibilityRole="button"
+                    accessibilityLabel={`Filter price ${range.label}`}
+                    accessibilityState={{ selected }}
+                    onPress={async () => {
+                      await lightHaptic();
+                      setSelectedPriceRangeId((prev) => (prev === range.id ? null : range.id));
+                    }}
+                    style={({ pressed }) => [
+                      styles.filterChip,
+                      selected ? styles.filterChipSelected : null,
+                      { opacity: pressed ? 0.85 : 1 },
+                    ]}
+                  >
+                    <SDText variant="caption" weight={selected ? 'bold' : 'semibold'} color={selected ? 'black' : 'text'}>
+                      {range.label}
+                    </SDText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
             <SDButton title="Show results" onPress={() => setFilterSheetIndex(-1)} />
           </View>
         </BottomSheet>
 
+        <Modal visible={!!openPlatillo} animationType="slide" onRequestClose={() => setOpenPlatillo(null)}>
+          {openPlatillo ? (
+            <PlatilloDetailScreen
+              userId={currentUserId}
+              platillo={openPlatillo}
+              restaurantName={selectedRestaurant?.name ?? ''}
+              onClose={() => setOpenPlatillo(null)}
+            />
+          ) : null}
+        </Modal>
+
         <AuthErrorModal
           visible={showAuthErrorModal}
           onClose={() => setShowAuthErrorModal(false)}
@@ -2856,6 +3300,21 @@ const styles = StyleSheet.create({
     marginTop: theme.spacing.lg,
     marginBottom: theme.spacing.xl,
   },
+  saveRankingBtn: {
+    marginTop: theme.spacing.lg,
+    marginBottom: theme.spacing.sm,
+  },
+  deleteRankingBtn: {
+    marginBottom: theme.spacing.xl,
+  },
+  dishRankingEditBtn: {
+    position: 'absolute',
+    top: theme.spacing.sm,
+    right: theme.spacing.sm,
+    padding: theme.spacing.xs,
+    backgroundColor: theme.colors.bg,
+    borderRadius: theme.radii.pill,
+  },
   dishRankingsSection: {
     marginTop: theme.spacing.md,
     gap: theme.spacing.sm,
@@ -1,39 +1,99 @@
-import { useCallback } from 'react';
-import { StyleSheet, View } from 'react-native';
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Pressable, StyleSheet, View } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
 
 import { Screen } from '../components/Screen';
-import { SDButton, SDText } from '../components/ui';
+import { SDButton, SDText, Toast } from '../components/ui';
 import { usePlatilloVotes } from '../hooks/usePlatilloVotes';
-import { togglePlatilloVote } from '../services/voteService';
+import { getDishPriceHistory } from '../services/platilloService';
+import { nextVoteState, togglePlatilloVote } from '../services/voteService';
 import { theme } from '../theme';
-import type { Platillo, Restaurant } from '../types/database';
+import type { DishPriceHistoryEntry, Platillo, VoteType } from '../types/database';
+import { formatPrice, formatPriceRange } from '../utils/price';
+
+const PRICE_HISTORY_MONTHS = 6;
+
+function formatPeriod(periodStart: string): string {
+  return new Date(`${periodStart}T00:00:00`).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+}
 
 type Props = {
-  userId: string;
+  userId: string | null; // Null while signed out; votes then ask the user to sign in
   platillo: Platillo;
-  restaurant: Restaurant;
+  restaurantName: string;
+  onClose: () => void;
 };
 
-export function PlatilloDetailScreen({ userId, platillo, restaurant }: Props) {
-  const { counts, loading } = usePlatilloVotes(platillo.id);
+// Opened from the restaurant sheet on the map, in a modal over it
+export function PlatilloDetailScreen({ userId, platillo, restaurantName, onClose }: Props) {
+  const { counts, myVote, loading, setMyVote } = usePlatilloVotes(platillo.id);
+  const [toast, setToast] = useState<string | null>(null);
+  const votePendingRef = useRef(false);
+  const [priceHistory, setPriceHistory] = useState<DishPriceHistoryEntry[]>([]);
+
+  useEffect(() => {
+    if (!platillo.place_id) return;
+    let cancelled = false;
+    getDishPriceHistory(platillo.place_id, { platilloId: platillo.id })
+      .then((rows) => {
+        if (!cancelled) setPriceHistory(rows.slice(0, PRICE_HISTORY_MONTHS));
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[PlatilloDetailScreen] Failed to load price history:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [platillo.id, platillo.place_id]);
 
-  const onUp = useCallback(async () => {
-    await togglePlatilloVote(userId, platillo.id, 'UP');
-  }, [platillo.id, userId]);
+  // Show the result of the toggle right away; put the previous vote back if the RPC rejects it
+  const vote = useCallback(
+    async (pressed: VoteType) => {
+      if (votePendingRef.current) return;
+      if (!userId) {
+        setToast('Sign in to vote on dishes.');
+        return;
+      }
+      votePendingRef.current = true;
 
-  const onDown = useCallback(async () => {
-    await togglePlatilloVote(userId, platillo.id, 'DOWN');
-  }, [platillo.id, userId]);
+      const previous = myVote;
+      setMyVote(nextVoteState(previous, pressed));
+      try {
+        await togglePlatilloVote(userId, platillo.id, pressed);
+      } catch (e) {
+        setMyVote(previous);
+        const signedOut = e instanceof Error && e.message === 'Not authenticated';
+        setToast(signedOut ? 'Sign in to vote on dishes.' : 'Your vote could not be saved. Please try again.');
+      } finally {
+        votePendingRef.current = false;
+      }
+    },
+    [myVote, platillo.id, setMyVote, userId]
+  );
+
+  const onUp = useCallback(() => void vote('UP'), [vote]);
+  const onDown = useCallback(() => void vote('DOWN'), [vote]);
+  const hideToast = useCallback(() => setToast(null), []);
 
   return (
     <Screen edges={['top', 'bottom']}>
       <View style={styles.container}>
         <View style={styles.header}>
-          <SDText variant="title" weight="bold">
-            {platillo.name}
-          </SDText>
-          <SDText color="textMuted">{restaurant.name}</SDText>
-          {platillo.description ? <SDText color="textMuted">{platillo.description}</SDText> : null}
+          <View style={styles.headerText}>
+            <SDText variant="title" weight="bold">
+              {platillo.name}
+            </SDText>
+            <SDText color="textMuted">{restaurantName}</SDText>
+            {platillo.description ? <SDText color="textMuted">{platillo.description}</SDText> : null}
+          </View>
+          <Pressable
+            accessibilityRole="button"
+            accessibilityLabel="Close"
+            onPress={onClose}
+            style={({ pressed }) => ({ opacity: pressed ? 0.7 : 1 })}
+          >
+            <Ionicons name="close" size={24} color={theme.colors.text} />
+          </Pressable>
         </View>
 
         <View style={styles.card}>
@@ -43,11 +103,53 @@ export function PlatilloDetailScreen({ userId, platillo, restaurant }: Props) {
           </SDText>
 
           <View style={styles.row}>
-            <SDButton title="Upvote" onPress={onUp} />
-            <SDButton title="Downvote" onPress={onDown} tone="surface" />
+            <SDButton
+              title={myVote === 'UP' ? 'Upvoted' : 'Upvote'}
+              onPress={onUp}
+              tone={myVote === 'UP' ? 'brand' : 'surface'}
+            >
+              <Ionicons
+                name={myVote === 'UP' ? 'thumbs-up' : 'thumbs-up-outline'}
+                size={16}
+                color={myVote === 'UP' ? theme.colors.black : theme.colors.text}
+              />
+            </SDButton>
+            <SDButton
+              title={myVote === 'DOWN' ? 'Downvoted' : 'Downvote'}
+              onPress={onDown}
+              tone={myVote === 'DOWN' ? 'brand' : 'surface'}
+            >
+              <Ionicons
+                name={myVote === 'DOWN' ? 'thumbs-down' : 'thumbs-down-outline'}
+                size={16}
+                color={myVote === 'DOWN' ? theme.colors.black : theme.colors.text}
+              />
+            </SDButton>
           </View>
         </View>
+
+        {priceHistory.length > 0 ? (
+          <View style={styles.card}>
+            <SDText weight="semibold">Price</SDText>
+            <SDText variant="subtitle" weight="bold">
+              {formatPrice(priceHistory[0].median_price_cents)}
+            </SDText>
+            <SDText color="textMuted" variant="caption">
+              Typical price in {formatPeriod(priceHistory[0].period_start)}, from {priceHistory[0].price_count}{' '}
+              {priceHistory[0].price_count === 1 ? 'rating' : 'ratings'}
+            </SDText>
+            {priceHistory.map((entry) => (
+              <View key={entry.period_start} style={styles.priceRow}>
+                <SDText variant="caption">{formatPeriod(entry.period_start)}</SDText>
+                <SDText variant="caption" color="textMuted">
+                  {formatPriceRange(entry.min_price_cents, entry.max_price_cents)}
+                </SDText>
+              </View>
+            ))}
+          </View>
+        ) : null}
       </View>
+      <Toast message={toast} onHide={hideToast} />
     </Screen>
   );
 }
@@ -60,6 +162,12 @@ const styles = StyleSheet.create({
     backgroundColor: theme.colors.bg,
   },
   header: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: theme.spacing.md,
+  },
+  headerText: {
+    flex: 1,
     gap: 6,
   },
   card: {
@@ -79,6 +187,10 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     gap: theme.spacing.sm,
   },
+  priceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
 });
 
 
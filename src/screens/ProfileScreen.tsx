@@ -1,15 +1,21 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
-import { ActivityIndicator, Keyboard, Pressable, StyleSheet, TextInput, View } from 'react-native';
+import { ActivityIndicator, Keyboard, Pressable, ScrollView, StyleSheet, TextInput, View } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 
+import { MyRankingsList, type MyRankingsGroup } from '../components/MyRankingsList';
 import { Screen } from '../components/Screen';
 import { SDText } from '../components/ui';
+import { clearAllCaches } from '../lib/cache';
 import { lightHaptic } from '../lib/haptics';
 import { supabase } from '../lib/supabase';
+import { useMapFocus } from '../state/MapFocusContext';
 import { theme } from '../theme';
 
 type AuthUser = Awaited<ReturnType<typeof supabase.auth.getUser>>['data']['user'];
 
 export function ProfileScreen() {
+  const navigation = useNavigation();
+  const { focusRestaurant } = useMapFocus();
   const [user, setUser] = useState<AuthUser>(null);
   const [loading, setLoading] = useState(true);
   const [actionLoading, setActionLoading] = useState(false);
@@ -130,6 +136,8 @@ export function ProfileScreen() {
     try {
       const { error: signOutError } = await supabase.auth.signOut();
       if (signOutError) throw signOutError;
+      // Cached results may include what this user saw while signed in
+      await clearAllCaches();
     } catch (e) {
       setError(e instanceof Error ? e.message : 'Failed to sign out.');
     } finally {
@@ -137,9 +145,27 @@ export function ProfileScreen() {
     }
   }, []);
 
+  const openRankedRestaurant = useCallback(
+    (group: MyRankingsGroup) => {
+      if (!group.restaurantId || group.lat == null || group.lng == null) return;
+      focusRestaurant({
+        restaurantId: group.restaurantId,
+        name: group.restaurantName,
+        lat: group.lat,
+        lng: group.lng,
+      });
+      (navigation as any).navigate('Map');
+    },
+    [focusRestaurant, navigation]
+  );
+
   return (
     <Screen edges={['top', 'bottom']}>
-      <View style={styles.container}>
+      <ScrollView
+        style={styles.scroll}
+        contentContainerStyle={styles.container}
+        keyboardShouldPersistTaps="handled"
+      >
         <View style={styles.header}>
           <SDText variant="title" weight="bold">
             Profile
@@ -290,14 +316,23 @@ export function ProfileScreen() {
           </View>
         ) : null}
 
-      </View>
+        {user ? (
+          <View style={styles.card}>
+            <MyRankingsList key={user.id} onSelect={openRankedRestaurant} />
+          </View>
+        ) : null}
+      </ScrollView>
     </Screen>
   );
 }
 
 const styles = StyleSheet.create({
-  container: {
+  scroll: {
     flex: 1,
+    backgroundColor: theme.colors.bg,
+  },
+  container: {
+    flexGrow: 1,
     padding: theme.spacing.lg,
     paddingBottom: 110,
     gap: theme.spacing.lg,
@@ -1,12 +1,64 @@
-import { StyleSheet, Switch, View } from 'react-native';
+import { Pressable, StyleSheet, Switch, View } from 'react-native';
 
 import { Screen } from '../components/Screen';
 import { SDText } from '../components/ui';
+import { lightHaptic } from '../lib/haptics';
+import { SEARCH_COUNTRIES, SEARCH_LANGUAGES } from '../lib/searchRegion';
 import { useSettings } from '../state/SettingsContext';
 import { theme } from '../theme';
 
+const COUNTRY_OPTIONS = [
+  { value: 'auto', label: 'Auto' },
+  ...SEARCH_COUNTRIES.map((c) => ({ value: c.code, label: c.label })),
+  { value: 'any', label: 'Anywhere' },
+];
+
+const LANGUAGE_OPTIONS = [
+  { value: 'auto', label: 'Auto' },
+  ...SEARCH_LANGUAGES.map((l) => ({ value: l.code, label: l.label })),
+];
+
+function OptionChips({
+  options,
+  value,
+  onChange,
+  label,
+}: {
+  options: Array<{ value: string; label: string }>;
+  value: string;
+  onChange: (value: string) => void;
+  label: string;
+}) {
+  return (
+    <View style={styles.chips}>
+      {options.map((option) => {
+        const selected = option.value === value;
+        return (
+          <Pressable
+            key={option.value}
+            accessibilityRole="button"
+            accessibilityState={{ selected }}
+            accessibilityLabel={`${label} ${option.label}`}
+            onPress={async () => {
+              if (selected) return;
+              await lightHaptic();
+              onChange(option.value);
+            }}
+            style={({ pressed }) => [styles.chip, selected && styles.chipSelected, { opacity: pressed ? 0.85 : 1 }]}
+          >
+            <SDText variant="caption" weight="semibold" color={selected ? 'black' : 'textMuted'}>
+              {option.label}
+            </SDText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+}
+
 export function SettingsScreen() {
-  const { hapticsEnabled, setHapticsEnabled } = useSettings();
+  const { hapticsEnabled, setHapticsEnabled, searchCountry, setSearchCountry, searchLanguage, setSearchLanguage } =
+    useSettings();
 
   return (
     <Screen edges={['top', 'bottom']}>
@@ -35,6 +87,29 @@ export function SettingsScreen() {
           </View>
         </View>
 
+        <View style={styles.card}>
+          <View style={styles.sectionHeader}>
+            <SDText weight="semibold">Search region</SDText>
+            <SDText color="textMuted" variant="caption">
+              Where restaurant search looks. Auto uses the country you are in, or your device's region.
+            </SDText>
+          </View>
+          <OptionChips options={COUNTRY_OPTIONS} value={searchCountry} onChange={setSearchCountry} label="Search in" />
+
+          <View style={styles.sectionHeader}>
+            <SDText weight="semibold">Search language</SDText>
+            <SDText color="textMuted" variant="caption">
+              Language of place names and addresses. Auto follows your device.
+            </SDText>
+          </View>
+          <OptionChips
+            options={LANGUAGE_OPTIONS}
+            value={searchLanguage}
+            onChange={setSearchLanguage}
+            label="Search language"
+          />
+        </View>
+
         <View style={styles.card}>
           <SDText weight="semibold">About</SDText>
           <SDText color="textMuted" variant="caption">
@@ -80,6 +155,26 @@ const styles = StyleSheet.create({
     flex: 1,
     gap: theme.spacing.xs,
   },
+  sectionHeader: {
+    gap: theme.spacing.xs,
+  },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: theme.spacing.xs,
+  },
+  chip: {
+    borderRadius: theme.radii.pill,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    backgroundColor: theme.colors.surface2,
+    paddingVertical: 6,
+    paddingHorizontal: theme.spacing.sm,
+  },
+  chipSelected: {
+    backgroundColor: theme.colors.brand,
+    borderColor: theme.colors.brand,
+  },
 });
 
 
@@ -0,0 +1,307 @@
+import { clearAllCaches } from '../../lib/cache';
+import { supabase } from '../../lib/supabase';
+import type { RestaurantWithRanking, ViewportBounds } from '../../types/database';
+import {
+  enrichRestaurantsWithRankings,
+  fetchRestaurantsInViewport,
+  invalidateRankedPlaces,
+  searchRestaurantsInArea,
+} from '../mapService';
+
+jest.mock('../../lib/supabase', () => ({
+  supabase: { rpc: jest.fn() },
+}));
+
+type RpcResponse = { data: unknown; error: unknown };
+
+const rpc = supabase.rpc as unknown as jest.Mock;
+
+// supabase.rpc() returns a thenable builder; fetchRankedPlaces also calls abortSignal() on it
+type RpcBuilder = {
+  abortSignal: jest.Mock;
+  then: (resolve: (value: RpcResponse) => unknown, reject?: (reason: unknown) => unknown) => Promise<unknown>;
+};
+
+function rpcReturning(response: RpcResponse | Promise<RpcResponse>): RpcBuilder {
+  const builder: RpcBuilder = {
+    abortSignal: jest.fn(() => builder),
+    then: (resolve: (value: RpcResponse) => unknown, reject?: (reason: unknown) => unknown) =>
+      Promise.resolve(response).then(resolve, reject),
+  };
+  return builder;
+}
+
+function restaurant(id: string, overrides: Partial<RestaurantWithRanking> = {}): RestaurantWithRanking {
+  return {
+    id,
+    name: id,
+    address: null,
+    lat: 19.43,
+    lng: -99.13,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    top_dish_net_score: 0,
+    ...overrides,
+  };
+}
+
+function rankedPlaceRow(placeId: string, totalCount: number, overrides: Record<string, unknown> = {}) {
+  return {
+    place_id: placeId,
+    place_ref: `osm:node:${placeId.slice(1)}`,
+    name: `Place ${placeId}`,
+    lat: 19.43,
+    lng: -99.13,
+    avg_score: 8.5,
+    review_count: 4,
+    weighted_score: 7.9,
+    confidence: 0.8,
+    star_dish_name: 'Tacos al pastor',
+    star_dish_score: 9,
+    dish_tags: null,
+    median_price_cents: null,
+    total_count: totalCount,
+    ...overrides,
+  };
+}
+
+const VIEWPORT: ViewportBounds = { southWestLat: 19.4, northEastLat: 19.45, southWestLng: -99.15, northEastLng: -99.1 };
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  rpc.mockReset();
+  await clearAllCaches();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('enrichRestaurantsWithRankings', () => {
+  it('sends every id as a canonical, de-duplicated ref', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [], error: null }));
+
+    await enrichRestaurantsWithRankings([
+      restaurant('osm:node:00123'),
+      restaurant('123'), // Legacy bare OSM id, same node
+      restaurant('osm:way:77'),
+      restaurant('mapbox:poi.abc'),
+      restaurant('osm:node:mapbox:poi.abc'), // Legacy broken form of the same POI
+      restaurant('dXJuOm1ieHBvaTpiYXJl'), // Bare Mapbox id
+    ]);
+
+    expect(rpc).toHaveBeenCalledTimes(1);
+    expect(rpc).toHaveBeenCalledWith('get_place_rankings', {
+      refs: ['osm:node:123', 'osm:way:77', 'mapbox:poi.abc', 'mapbox:dXJuOm1ieHBvaTpiYXJl'],
+    });
+  });
+
+  it('skips the RPC when no id is a restaurant ref', async () => {
+    const input = [restaurant(''), restaurant('place:not-a-ref'), restaurant('   ')];
+
+    const result = await enrichRestaurantsWithRankings(input);
+
+    expect(rpc).not.toHaveBeenCalled();
+    expect(result).toBe(input);
+  });
+
+  it('returns an empty list without calling the RPC', async () => {
+    expect(await enrichRestaurantsWithRankings([])).toEqual([]);
+    expect(rpc).not.toHaveBeenCalled();
+  });
+
+  it('attaches place id and ranking to every id form of a ranked place', async () => {
+    rpc.mockReturnValue(
+      rpcReturning({
+        data: [{ ref: 'osm:node:123', place_id: 'place-1', ranking: 8.25, review_count: 2 }],
+        error: null,
+      })
+    );
+
+    const [canonical, legacy, unranked] = await enrichRestaurantsWithRankings([
+      restaurant('osm:node:123'),
+      restaurant('0123'),
+      restaurant('mapbox:poi.unranked', { top_dish_net_score: 3 }),
+    ]);
+
+    expect(canonical).toMatchObject({ id: 'osm:node:123', place_id: 'place-1', top_dish_net_score: 8.25 });
+    expect(legacy).toMatchObject({ id: '0123', place_id: 'place-1', top_dish_net_score: 8.25 });
+    // Never ranked: keeps what it had
+    expect(unranked).toMatchObject({ id: 'mapbox:poi.unranked', top_dish_net_score: 3 });
+    expect(unranked.place_id).toBeUndefined();
+  });
+
+  it('returns the input unchanged when the RPC fails', async () => {
+    const input = [restaurant('osm:node:1')];
+    rpc.mockReturnValue(rpcReturning({ data: null, error: { message: 'boom' } }));
+
+    expect(await enrichRestaurantsWithRankings(input)).toBe(input);
+  });
+
+  it('returns the input unchanged when the response does not match the schema', async () => {
+    const input = [restaurant('osm:node:123')];
+    rpc.mockReturnValue(rpcReturning({ data: [{ ref: 'osm:node:123', place_id: 'place-1', ranking: '8.25' }], error: null }));
+
+    expect(await enrichRestaurantsWithRankings(input)).toBe(input);
+  });
+
+  it('returns the input unchanged when the RPC throws', async () => {
+    const input = [restaurant('osm:node:1')];
+    rpc.mockReturnValue(rpcReturning(Promise.reject(new Error('Network request failed'))));
+
+    expect(await enrichRestaurantsWithRankings(input)).toBe(input);
+  });
+});
+
+describe('fetchRestaurantsInViewport', () => {
+  it('maps RPC rows to restaurants', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }));
+
+    const [place] = await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+
+    expect(place).toMatchObject({
+      id: 'osm:node:1',
+      place_id: 'p1',
+      lat: 19.43,
+      lng: -99.13,
+      top_dish_net_score: 8.5,
+      review_count: 4,
+      weighted_score: 7.9,
+      star_dish_score: 9,
+      dish_tags: [],
+      median_price_cents: null,
+    });
+  });
+
+  it('pages until total_count places are loaded', async () => {
+    rpc
+      .mockReturnValueOnce(rpcReturning({ data: [rankedPlaceRow('p1', 3), rankedPlaceRow('p2', 3)], error: null }))
+      .mockReturnValueOnce(rpcReturning({ data: [rankedPlaceRow('p3', 3)], error: null }));
+
+    const places = await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+
+    expect(places.map((p) => p.place_id)).toEqual(['p1', 'p2', 'p3']);
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(rpc.mock.calls[1][1]).toMatchObject({ page_offset: 2, zoom_level: 14, name_query: null });
+  });
+
+  it('serves repeated viewports from the cache', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }));
+
+    const first = await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    // Within ~100m rounding: same key
+    const second = await fetchRestaurantsInViewport(
+      { ...VIEWPORT, southWestLat: VIEWPORT.southWestLat + 0.0001 },
+      { zoom: 14 }
+    );
+
+    expect(second).toEqual(first);
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('keys the cache by zoom level', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }));
+
+    await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    await fetchRestaurantsInViewport(VIEWPORT, { zoom: 16 });
+
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    let resolve!: (value: RpcResponse) => void;
+    rpc.mockReturnValue(rpcReturning(new Promise<RpcResponse>((r) => (resolve = r))));
+
+    const a = fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    const b = fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    // Let both reach the cache before the RPC answers
+    await new Promise((r) => setTimeout(r, 0));
+    resolve({ data: [rankedPlaceRow('p1', 1)], error: null });
+
+    const [resultA, resultB] = await Promise.all([a, b]);
+    expect(resultA).toEqual(resultB);
+    expect(rpc).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads again after ranked places are invalidated', async () => {
+    rpc
+      .mockReturnValueOnce(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }))
+      .mockReturnValueOnce(rpcReturning({ data: [rankedPlaceRow('p1', 1, { avg_score: 9 })], error: null }));
+
+    await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    await invalidateRankedPlaces();
+    const [place] = await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+
+    expect(place.top_dish_net_score).toBe(9);
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache a load that was in flight when ranked places were invalidated', async () => {
+    let resolve!: (value: RpcResponse) => void;
+    rpc
+      .mockReturnValueOnce(rpcReturning(new Promise<RpcResponse>((r) => (resolve = r))))
+      .mockReturnValueOnce(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }));
+
+    const stale = fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    await new Promise((r) => setTimeout(r, 0));
+    await invalidateRankedPlaces();
+    resolve({ data: [rankedPlaceRow('p1', 1)], error: null });
+    await stale;
+
+    await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not cache failures', async () => {
+    rpc
+      .mockReturnValueOnce(rpcReturning({ data: null, error: new Error('timeout') }))
+      .mockReturnValueOnce(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }));
+
+    await expect(fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 })).rejects.toThrow('timeout');
+    await expect(fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 })).resolves.toHaveLength(1);
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects rows that no longer match the RPC schema', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [rankedPlaceRow('p1', 1, { avg_score: undefined })], error: null }));
+
+    await expect(fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 })).rejects.toThrow(
+      'get_ranked_places_in_viewport[0].avg_score'
+    );
+  });
+
+  it('passes the abort signal to the RPC', async () => {
+    const builder = rpcReturning({ data: [], error: null });
+    rpc.mockReturnValue(builder);
+    const controller = new AbortController();
+
+    await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14, signal: controller.signal });
+
+    expect(builder.abortSignal).toHaveBeenCalledWith(controller.signal);
+  });
+});
+
+describe('searchRestaurantsInArea', () => {
+  it('sends the trimmed, lowercased query and caches per query', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }));
+
+    await searchRestaurantsInArea(VIEWPORT, '  Tacos ', { zoom: 14 });
+    await searchRestaurantsInArea(VIEWPORT, 'tacos', { zoom: 14 });
+    await searchRestaurantsInArea(VIEWPORT, 'birria', { zoom: 14 });
+
+    expect(rpc).toHaveBeenCalledTimes(2);
+    expect(rpc.mock.calls[0][1]).toMatchObject({ name_query: 'tacos' });
+    expect(rpc.mock.calls[1][1]).toMatchObject({ name_query: 'birria' });
+  });
+
+  it('does not share cache entries with browsing', async () => {
+    rpc.mockReturnValue(rpcReturning({ data: [rankedPlaceRow('p1', 1)], error: null }));
+
+    await fetchRestaurantsInViewport(VIEWPORT, { zoom: 14 });
+    await searchRestaurantsInArea(VIEWPORT, 'tacos', { zoom: 14 });
+
+    expect(rpc).toHaveBeenCalledTimes(2);
+  });
+});
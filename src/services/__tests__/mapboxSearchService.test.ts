@@ -0,0 +1,202 @@
+import { SessionToken } from '@mapbox/search-js-core';
+import { clearAllCaches } from '../../lib/cache';
+import { setSearchRegionSettings } from '../../lib/searchRegion';
+import { createFixtureMapboxProvider } from '../fixtureMapboxProvider';
+import { setMapboxProvider, type MapboxSearchProvider } from '../mapboxProvider';
+import {
+  forwardGeocode,
+  geocodeCandidates,
+  retrieveFeature,
+  reverseGeocode,
+  searchAutocomplete,
+} from '../mapboxSearchService';
+
+// The proxy provider imports the Supabase client; these tests never reach it
+jest.mock('../../lib/supabase', () => ({ supabase: {} }));
+
+// Fixture provider with every method wrapped in a spy
+function spiedFixtureProvider(): jest.Mocked<MapboxSearchProvider> {
+  const fixtures = createFixtureMapboxProvider();
+  return {
+    name: fixtures.name,
+    suggest: jest.fn(fixtures.suggest),
+    retrieve: jest.fn(fixtures.retrieve),
+    forwardGeocode: jest.fn(fixtures.forwardGeocode),
+    reverseGeocode: jest.fn(fixtures.reverseGeocode),
+  };
+}
+
+let provider: jest.Mocked<MapboxSearchProvider>;
+
+beforeEach(async () => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  setSearchRegionSettings('mx', 'es');
+  provider = spiedFixtureProvider();
+  setMapboxProvider(provider);
+  await clearAllCaches();
+});
+
+afterEach(() => {
+  setMapboxProvider(null);
+  setSearchRegionSettings('auto', 'auto');
+  jest.restoreAllMocks();
+});
+
+describe('searchAutocomplete', () => {
+  it('transforms suggestions and keeps the originals for retrieve()', async () => {
+    const { results } = await searchAutocomplete('contramar');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].suggestion).toMatchObject({
+      mapbox_id: 'fixture.cdmx.contramar',
+      name: 'Contramar',
+      context: expect.arrayContaining([
+        { id: 'neighborhood', text: 'Roma Norte' },
+        { id: 'place', text: 'Ciudad de México' },
+        { id: 'country', text: 'México', short_code: 'MX' },
+      ]),
+    });
+    expect(results[0].original.mapbox_id).toBe('fixture.cdmx.contramar');
+  });
+
+  it('passes region, proximity and limit to the provider', async () => {
+    const token = new SessionToken();
+    await searchAutocomplete('tacos', { proximity: { latitude: 25.67, longitude: -100.33 }, limit: 3 }, token);
+
+    expect(provider.suggest).toHaveBeenCalledWith({
+      q: 'tacos',
+      sessionToken: token,
+      region: { country: 'mx', language: 'es' },
+      proximity: { lat: 25.67, lng: -100.33 },
+      limit: 3,
+    });
+  });
+
+  it('ignores queries shorter than two characters', async () => {
+    const { results } = await searchAutocomplete(' t ');
+
+    expect(results).toEqual([]);
+    expect(provider.suggest).not.toHaveBeenCalled();
+  });
+
+  it('caches by normalized query', async () => {
+    await searchAutocomplete('Tacos');
+    await searchAutocomplete('  tacos ');
+
+    expect(provider.suggest).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches per rounded proximity', async () => {
+    await searchAutocomplete('tacos', { proximity: { latitude: 19.4326, longitude: -99.1332 } });
+    await searchAutocomplete('tacos', { proximity: { latitude: 19.43261, longitude: -99.13321 } }); // Same ~100m cell
+    await searchAutocomplete('tacos', { proximity: { latitude: 20.6767, longitude: -103.3475 } });
+
+    expect(provider.suggest).toHaveBeenCalledTimes(2);
+  });
+
+  it('caches per search region', async () => {
+    await searchAutocomplete('tacos');
+    setSearchRegionSettings('any', 'es');
+    await searchAutocomplete('tacos');
+
+    expect(provider.suggest).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent callers', async () => {
+    const [a, b] = await Promise.all([searchAutocomplete('birria'), searchAutocomplete('birria')]);
+
+    expect(a.results).toEqual(b.results);
+    expect(provider.suggest).toHaveBeenCalledTimes(1);
+  });
+
+  it('never serves one provider its answers to another', async () => {
+    await searchAutocomplete('tacos');
+    const other = spiedFixtureProvider();
+    setMapboxProvider({ ...other, name: 'proxy' });
+    await searchAutocomplete('tacos');
+
+    expect(provider.suggest).toHaveBeenCalledTimes(1);
+    expect(other.suggest).toHaveBeenCalledTimes(1);
+  });
+
+  it('rethrows provider errors and does not cache them', async () => {
+    provider.suggest.mockRejectedValueOnce(new Error('Too many searches. Please try again later.'));
+
+    await expect(searchAutocomplete('tacos')).rejects.toThrow('Too many searches');
+    await expect(searchAutocomplete('tacos')).resolves.toMatchObject({ results: expect.any(Array) });
+    expect(provider.suggest).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('retrieveFeature', () => {
+  it('returns coordinates and properties for a suggestion', async () => {
+    const { results, sessionToken } = await searchAutocomplete('karne garibaldi');
+    const feature = await retrieveFeature(results[0].original, sessionToken);
+
+    expect(provider.retrieve).toHaveBeenCalledWith(results[0].original, sessionToken, 'es');
+    expect(feature).toMatchObject({
+      mapbox_id: 'fixture.guadalajara.karne-garibaldi',
+      geometry: { type: 'Point', coordinates: [-103.3701, 20.6805] },
+      properties: { name: 'Karne Garibaldi', category: 'mexican restaurant' },
+    });
+  });
+
+  it('returns null when the provider has no feature', async () => {
+    const { results } = await searchAutocomplete('contramar');
+    provider.retrieve.mockResolvedValueOnce(null);
+
+    expect(await retrieveFeature(results[0].original)).toBeNull();
+  });
+});
+
+describe('geocoding', () => {
+  it('forward geocodes a city to its bounding box', async () => {
+    const result = await forwardGeocode('Guadalajara');
+
+    expect(result).toEqual({
+      displayName: 'Guadalajara, Jalisco, México',
+      bbox: { southWestLat: 20.5903, northEastLat: 20.7532, southWestLng: -103.4326, northEastLng: -103.2608 },
+    });
+    expect(provider.forwardGeocode).toHaveBeenCalledWith({
+      mode: 'forward',
+      q: 'Guadalajara',
+      language: 'es',
+      country: 'mx',
+      limit: 1,
+    });
+  });
+
+  it('returns null when nothing matches', async () => {
+    expect(await forwardGeocode('Atlantis')).toBeNull();
+  });
+
+  it('caches candidates per query and limit', async () => {
+    await geocodeCandidates('oaxaca');
+    await geocodeCandidates('OAXACA ');
+    await geocodeCandidates('oaxaca', 1);
+
+    expect(provider.forwardGeocode).toHaveBeenCalledTimes(2);
+  });
+
+  it('remembers errors briefly as "no result"', async () => {
+    provider.forwardGeocode.mockRejectedValueOnce(new Error('Mapbox proxy failed: 502'));
+
+    expect(await geocodeCandidates('monterrey')).toEqual([]);
+    expect(await geocodeCandidates('monterrey')).toEqual([]);
+    expect(provider.forwardGeocode).toHaveBeenCalledTimes(1);
+  });
+
+  it('reverse geocodes coordinates to "City, State"', async () => {
+    expect(await reverseGeocode(17.0655, -96.7233)).toBe('Oaxaca de Juárez, Oaxaca');
+    expect(await reverseGeocode(0, 0)).toBeNull();
+  });
+
+  it('caches reverse geocoding per ~100m cell', async () => {
+    await reverseGeocode(19.4326, -99.1332);
+    await reverseGeocode(19.43262, -99.13318);
+
+    expect(provider.reverseGeocode).toHaveBeenCalledTimes(1);
+  });
+});
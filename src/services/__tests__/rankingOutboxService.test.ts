@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import type { DishRanking, DishRankingInput } from '../../types/database';
+
+jest.mock('../dishRankingService', () => ({ submitDishRanking: jest.fn() }));
+jest.mock('../storageService', () => ({ uploadDishPhoto: jest.fn() }));
+
+type Outbox = typeof import('../rankingOutboxService');
+
+// The outbox keeps its queue in module state; every test gets a fresh copy
+let outbox: Outbox;
+let submitDishRanking: jest.Mock;
+
+const input: DishRankingInput = {
+  restaurant_ref: 'osm:node:990001',
+  restaurant_name: 'Taquería Prueba',
+  dish_name: 'Tacos al pastor',
+  score: 9,
+};
+
+const ranking = { id: 'r1', dish_name: 'Tacos al pastor' } as DishRanking;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  jest.isolateModules(() => {
+    outbox = require('../rankingOutboxService');
+    submitDishRanking = require('../dishRankingService').submitDishRanking;
+  });
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('flushRankingOutbox', () => {
+  it('submits queued rankings and tells listeners', async () => {
+    submitDishRanking.mockResolvedValue(ranking);
+    const synced = jest.fn();
+    outbox.subscribeToSyncedRankings(synced);
+
+    const entry = await outbox.enqueueRanking(input, null);
+    await outbox.flushRankingOutbox(true);
+
+    expect(submitDishRanking).toHaveBeenCalledWith({ ...input, client_request_id: entry.clientRequestId });
+    expect(synced).toHaveBeenCalledWith(ranking, expect.objectContaining({ clientRequestId: entry.clientRequestId }));
+    expect(await outbox.getPendingRankings()).toEqual([]);
+  });
+
+  it('keeps retrying while offline', async () => {
+    submitDishRanking.mockRejectedValue(new TypeError('Network request failed'));
+
+    await outbox.enqueueRanking(input, null);
+    await outbox.flushRankingOutbox(true);
+
+    const [entry] = await outbox.getPendingRankings();
+    expect(entry).toMatchObject({ status: 'pending', attempts: 1, lastError: 'Network request failed' });
+    expect(outbox.getNextRetryDelay([entry])).not.toBeNull();
+  });
+
+  it('keeps retrying server errors', async () => {
+    submitDishRanking.mockRejectedValue({ code: 'PGRST001', message: 'Database client error' });
+
+    await outbox.enqueueRanking(input, null);
+    await outbox.flushRankingOutbox(true);
+
+    const [entry] = await outbox.getPendingRankings();
+    expect(entry.status).toBe('pending');
+  });
+
+  it('marks rankings the server rejected as failed and stops sending them', async () => {
+    submitDishRanking.mockRejectedValue(new Error("You're rating dishes too quickly. Please try again later."));
+
+    await outbox.enqueueRanking(input, null);
+    await outbox.flushRankingOutbox(true);
+    await outbox.flushRankingOutbox(true);
+
+    const pending = await outbox.getPendingRankings();
+    expect(submitDishRanking).toHaveBeenCalledTimes(1);
+    expect(pending[0]).toMatchObject({ status: 'failed', attempts: 1 });
+    expect(outbox.getNextRetryDelay(pending)).toBeNull();
+  });
+
+  it('submits a failed ranking again when the user retries it', async () => {
+    submitDishRanking.mockRejectedValueOnce({ code: '42501', message: 'permission denied for table dish_rankings' });
+    submitDishRanking.mockResolvedValueOnce(ranking);
+
+    const entry = await outbox.enqueueRanking(input, null);
+    await outbox.flushRankingOutbox(true);
+    await outbox.retryPendingRanking(entry.clientRequestId);
+
+    expect(submitDishRanking).toHaveBeenCalledTimes(2);
+    expect(await outbox.getPendingRankings()).toEqual([]);
+  });
+
+  it('leaves everything queued while signed out', async () => {
+    submitDishRanking.mockRejectedValue(new Error('Not authenticated'));
+
+    await outbox.enqueueRanking(input, null);
+    await outbox.flushRankingOutbox(true);
+
+    const [entry] = await outbox.getPendingRankings();
+    expect(entry).toMatchObject({ status: 'pending', attempts: 0 });
+  });
+});
@@ -0,0 +1,69 @@
+import { SessionToken } from '@mapbox/search-js-core';
+import { sessionTokenManager } from '../sessionTokenManager';
+
+const INACTIVITY_TIMEOUT_MS = 300_000;
+
+beforeEach(() => {
+  jest.useFakeTimers();
+  jest.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  sessionTokenManager.clearToken();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('sessionTokenManager', () => {
+  it('starts without a token', () => {
+    expect(sessionTokenManager.hasToken()).toBe(false);
+  });
+
+  it('creates a token on demand and reuses it while active', () => {
+    const token = sessionTokenManager.getToken();
+
+    expect(token).toBeInstanceOf(SessionToken);
+    expect(sessionTokenManager.hasToken()).toBe(true);
+
+    jest.advanceTimersByTime(INACTIVITY_TIMEOUT_MS - 1);
+    expect(sessionTokenManager.getToken()).toBe(token);
+  });
+
+  it('each use extends the inactivity window', () => {
+    const token = sessionTokenManager.getToken();
+
+    jest.advanceTimersByTime(INACTIVITY_TIMEOUT_MS - 1_000);
+    sessionTokenManager.getToken();
+    jest.advanceTimersByTime(INACTIVITY_TIMEOUT_MS - 1_000);
+
+    expect(sessionTokenManager.getToken()).toBe(token);
+  });
+
+  it('starts a new session after 5 minutes of inactivity', () => {
+    const token = sessionTokenManager.getToken();
+
+    jest.advanceTimersByTime(INACTIVITY_TIMEOUT_MS);
+    expect(sessionTokenManager.hasToken()).toBe(false);
+
+    const next = sessionTokenManager.getToken();
+    expect(next).not.toBe(token);
+    expect(next.id).not.toBe(token.id);
+  });
+
+  it('adopts a token returned by suggest()', () => {
+    const returned = new SessionToken();
+    sessionTokenManager.updateToken(returned);
+
+    expect(sessionTokenManager.hasToken()).toBe(true);
+    expect(sessionTokenManager.getToken()).toBe(returned);
+  });
+
+  it('clears the token after retrieve()', () => {
+    const token = sessionTokenManager.getToken();
+    sessionTokenManager.clearToken();
+
+    expect(sessionTokenManager.hasToken()).toBe(false);
+    expect(sessionTokenManager.getToken()).not.toBe(token);
+  });
+});
@@ -0,0 +1,19 @@
+import { supabase } from '../lib/supabase';
+import type { DishPhoto, UUID } from '../types/database';
+
+/**
+ * Every photo ranked at a restaurant, best-scored first and newest first within a score.
+ * Use lookupPlaceId() from placeService to get the place id from an external ref.
+ */
+export async function getRestaurantDishPhotos(placeId: UUID): Promise<DishPhoto[]> {
+  const { data, error } = await supabase
+    .from('dish_rankings')
+    .select('id, user_id, dish_name, score, image_url, thumbnail_url, created_at')
+    .eq('place_id', placeId)
+    .not('image_url', 'is', null)
+    .order('score', { ascending: false })
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as DishPhoto[];
+}
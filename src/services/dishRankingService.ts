@@ -1,15 +1,50 @@
+import { isNetworkError } from '../lib/network';
+import { callRpc } from '../lib/rpc';
 import { supabase } from '../lib/supabase';
-import type { DishRanking, DishRankingInput } from '../types/database';
+import type { DishRanking, DishRankingInput, DishRankingUpdate, DishTag, UUID } from '../types/database';
+import { formatRestaurantRef, legacyOsmIdForRef, mapboxIdForRef, parseRestaurantRef } from '../utils/restaurantRef';
+import { invalidateRankedPlaces } from './mapService';
+import { lookupPlaceId, resolvePlaceId } from './placeService';
+import { deleteDishPhoto } from './storageService';
+
+// SQLSTATE raised by the dish_rankings rate-limit trigger (PostgREST answers with HTTP 429)
+const RATE_LIMIT_ERROR_CODE = 'PT429';
+
+// Ranking columns plus its tags, embedded from dish_ranking_tags
+const RANKING_SELECT = '*, tags:dish_ranking_tags(tag)';
+
+type RankingRow = Omit<DishRanking, 'tags'> & { tags?: Array<{ tag: DishTag }> };
+
+function toDishRanking(row: RankingRow): DishRanking {
+  return { ...row, tags: (row.tags ?? []).map((t) => t.tag) };
+}
+
+// Replace the ranking's tags when the input carries them (undefined leaves them alone)
+async function saveRankingTags(ranking: DishRanking, tags: DishTag[] | undefined): Promise<DishRanking> {
+  if (tags === undefined) return ranking;
+
+  const saved = await callRpc('set_dish_ranking_tags', {
+    ranking_id_param: ranking.id,
+    tags,
+  });
+  return { ...ranking, tags: saved };
+}
 
 /**
- * Submit a new dish ranking for a restaurant.
+ * Submit a dish ranking for a restaurant.
  * Requires the user to be authenticated; throws if not.
+ * A user has one ranking per dish per restaurant: if they already rated this dish, that
+ * ranking is updated instead (use getMyRankingForDish() to ask first).
+ * With a client_request_id, submitting again returns the ranking that already landed.
  */
 export async function submitDishRanking(input: DishRankingInput): Promise<DishRanking> {
   const {
     data: { user },
+    error: authError,
   } = await supabase.auth.getUser();
 
+  // Offline: surface the network failure instead of reporting a missing session
+  if (authError && isNetworkError(authError)) throw authError;
   if (!user) {
     throw new Error('Not authenticated');
   }
@@ -32,73 +67,209 @@ export async function submitDishRanking(input: DishRankingInput): Promise<DishRa
     }
   }
 
+  const ref = parseRestaurantRef(input.restaurant_ref);
+  if (!ref) {
+    throw new Error(`Invalid restaurant reference: ${input.restaurant_ref}`);
+  }
+
+  const placeId = await resolvePlaceId(formatRestaurantRef(ref), {
+    name: input.restaurant_name,
+    lat: input.restaurant_lat,
+    lng: input.restaurant_lng,
+  });
+
+  // Re-rating a dish updates the existing ranking
+  const existing = await findOwnRanking(placeId, input.dish_name);
+  if (existing) return rerankDish(existing, input);
+
   const { data, error } = await supabase
     .from('dish_rankings')
     .insert({
       user_id: user.id,
-      osm_id: input.osm_id,
+      place_id: placeId,
+      osm_id: legacyOsmIdForRef(ref),
+      mapbox_id: mapboxIdForRef(ref),
       restaurant_name: input.restaurant_name,
+      restaurant_lat: input.restaurant_lat ?? null,
+      restaurant_lng: input.restaurant_lng ?? null,
       dish_name: input.dish_name,
       price_cents: input.price_cents ?? null,
       ingredients: input.ingredients ?? null,
       score: input.score,
       image_url: input.image_url ?? null,
-      mapbox_id: input.mapbox_id ?? null,
+      thumbnail_url: input.thumbnail_url ?? null,
+      client_request_id: input.client_request_id ?? null,
     })
-    .select()
+    .select(RANKING_SELECT)
     .single();
 
+  // Unique violation on the idempotency key: an earlier attempt already landed
+  if (error?.code === '23505' && input.client_request_id) {
+    const { data: existing, error: existingError } = await supabase
+      .from('dish_rankings')
+      .select(RANKING_SELECT)
+      .eq('user_id', user.id)
+      .eq('client_request_id', input.client_request_id)
+      .single();
+
+    if (existingError) throw existingError;
+    await invalidateRankedPlaces();
+    // The earlier attempt may have failed between the insert and saving its tags
+    return saveRankingTags(toDishRanking(existing as RankingRow), input.tags);
+  }
+
+  // Unique violation on the dish: a concurrent submission of the same dish got there first
+  if (error?.code === '23505') {
+    const current = await findOwnRanking(placeId, input.dish_name);
+    if (current) return rerankDish(current, input);
+  }
+
+  if (error?.code === RATE_LIMIT_ERROR_CODE) throw new Error(error.message);
   if (error) throw error;
-  return data as DishRanking;
+  await invalidateRankedPlaces();
+  return saveRankingTags(toDishRanking(data as RankingRow), input.tags);
+}
+
+async function findOwnRanking(placeId: UUID, dishName: string): Promise<DishRanking | null> {
+  const rows = await callRpc('get_my_ranking_for_dish', {
+    place_id_param: placeId,
+    dish_name_param: dishName,
+  });
+  return rows[0] ?? null;
+}
+
+// A re-rating without a photo keeps the photo of the existing ranking
+function rerankDish(existing: DishRanking, input: DishRankingInput): Promise<DishRanking> {
+  return updateDishRanking(existing.id, {
+    dish_name: input.dish_name,
+    price_cents: input.price_cents ?? null,
+    ingredients: input.ingredients ?? null,
+    tags: input.tags,
+    score: input.score,
+    ...(input.image_url ? { image_url: input.image_url, thumbnail_url: input.thumbnail_url ?? null } : {}),
+  });
+}
+
+/**
+ * The current user's ranking of `dishName` at a restaurant, or null if they haven't rated
+ * it (or aren't signed in). Dish names are matched after normalization, so "Tacos al
+ * pastor" finds an earlier "taco al pastor".
+ */
+export async function getMyRankingForDish(restaurantRef: string, dishName: string): Promise<DishRanking | null> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const placeId = await lookupPlaceId(restaurantRef);
+  if (!placeId) return null;
+
+  return findOwnRanking(placeId, dishName);
 }
 
 /**
- * Fetch all dish rankings for a given OSM restaurant ID.
- * Also supports querying by mapbox_id if provided.
- * 
- * @param osmId - OSM ID string (can be numeric OSM ID or mapbox:xxx format for Mapbox restaurants)
- * @param mapboxId - Optional mapbox_id for more specific querying
+ * Update one of the current user's rankings.
+ * If the photo was replaced or removed, the old file is deleted from storage.
+ * Tags, when given, replace the ranking's current tags.
  */
-export async function getDishRankingsForRestaurant(osmId: string | null, mapboxId?: string | null): Promise<DishRanking[]> {
-  let query = supabase
+export async function updateDishRanking(id: UUID, changes: DishRankingUpdate): Promise<DishRanking> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const { data: existing, error: existingError } = await supabase
     .from('dish_rankings')
-    .select('*');
-  
-  // If we have a mapbox_id, try querying by that first (more specific and accurate)
-  if (mapboxId) {
-    query = query.eq('mapbox_id', mapboxId);
-    
-    if (__DEV__) {
-      console.log(`[getDishRankingsForRestaurant] Querying by mapbox_id: ${mapboxId}`);
-    }
-  } else if (osmId) {
-    // Query by osm_id
-    // Handle both numeric OSM IDs and mapbox:xxx format
-    if (osmId.startsWith('mapbox:')) {
-      // If osmId is in mapbox:xxx format, extract the mapbox_id part
-      const extractedMapboxId = osmId.replace(/^mapbox:/, '');
-      query = query.eq('mapbox_id', extractedMapboxId);
-      
-      if (__DEV__) {
-        console.log(`[getDishRankingsForRestaurant] Extracted mapbox_id from osmId: ${extractedMapboxId}`);
-      }
-    } else {
-      // Regular numeric OSM ID
-      query = query.eq('osm_id', osmId);
-      
-      if (__DEV__) {
-        console.log(`[getDishRankingsForRestaurant] Querying by osm_id: ${osmId}`);
-      }
-    }
-  } else {
-    // No valid identifier
+    .select('image_url, thumbnail_url')
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .single();
+
+  if (existingError) throw existingError;
+
+  const { tags, ...columns } = changes;
+  const { data, error } = await supabase
+    .from('dish_rankings')
+    .update(columns)
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select(RANKING_SELECT)
+    .single();
+
+  // Renamed to a dish the user has already rated here
+  if (error?.code === '23505') {
+    throw new Error('You already rated this dish at this restaurant.');
+  }
+  if (error) throw error;
+  await invalidateRankedPlaces();
+
+  const previous = existing as Pick<DishRanking, 'image_url' | 'thumbnail_url'>;
+  if (previous.image_url && changes.image_url !== undefined && changes.image_url !== previous.image_url) {
+    await removeOrphanedPhoto(previous.image_url);
+    if (previous.thumbnail_url) await removeOrphanedPhoto(previous.thumbnail_url);
+  }
+
+  return saveRankingTags(toDishRanking(data as RankingRow), tags);
+}
+
+/**
+ * Delete one of the current user's rankings, along with its photo and thumbnail.
+ */
+export async function deleteDishRanking(id: UUID): Promise<void> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const { data, error } = await supabase
+    .from('dish_rankings')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', user.id)
+    .select('image_url, thumbnail_url');
+
+  if (error) throw error;
+  if (!data || data.length === 0) {
+    throw new Error('Ranking not found');
+  }
+  await invalidateRankedPlaces();
+
+  const { image_url: imageUrl, thumbnail_url: thumbnailUrl } = data[0] as Pick<DishRanking, 'image_url' | 'thumbnail_url'>;
+  if (imageUrl) {
+    await removeOrphanedPhoto(imageUrl);
+  }
+  if (thumbnailUrl) {
+    await removeOrphanedPhoto(thumbnailUrl);
+  }
+}
+
+// The ranking change already succeeded; a leftover file is not worth failing the request for
+async function removeOrphanedPhoto(imageUrl: string): Promise<void> {
+  try {
+    await deleteDishPhoto(imageUrl);
+  } catch (error) {
     if (__DEV__) {
-      console.warn('[getDishRankingsForRestaurant] No valid osmId or mapboxId provided');
+      console.warn('[dishRankingService] Failed to delete orphaned photo:', imageUrl, error);
     }
-    return [];
   }
-  
-  const { data, error } = await query.order('created_at', { ascending: false });
+}
+
+/**
+ * Fetch all dish rankings for a restaurant by its canonical place id.
+ * Use lookupPlaceId() from placeService to get there from an external ref.
+ */
+export async function getDishRankingsForRestaurant(placeId: UUID): Promise<DishRanking[]> {
+  const { data, error } = await supabase
+    .from('dish_rankings')
+    .select(RANKING_SELECT)
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: false });
 
   if (error) {
     if (__DEV__) {
@@ -108,9 +279,54 @@ export async function getDishRankingsForRestaurant(osmId: string | null, mapboxI
   }
   
   if (__DEV__) {
-    console.log(`[getDishRankingsForRestaurant] Found ${data?.length || 0} rankings`);
+    console.log(`[getDishRankingsForRestaurant] Found ${data?.length || 0} rankings for place ${placeId}`);
   }
   
-  return (data ?? []) as DishRanking[];
+  return ((data ?? []) as RankingRow[]).map(toDishRanking);
 }
 
+export type MyDishRankingsSort = 'date' | 'score';
+
+export type MyDishRankingsPage = {
+  rankings: DishRanking[];
+  hasMore: boolean;
+};
+
+/**
+ * Fetch one page of the current user's rankings, newest first or best first.
+ * Pages are zero-based; hasMore tells the caller whether another page exists.
+ */
+export async function getMyDishRankings(
+  options: { sort?: MyDishRankingsSort; page?: number; pageSize?: number } = {}
+): Promise<MyDishRankingsPage> {
+  const { sort = 'date', page = 0, pageSize = 20 } = options;
+
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  let query = supabase.from('dish_rankings').select(RANKING_SELECT).eq('user_id', user.id);
+
+  if (sort === 'score') {
+    query = query.order('score', { ascending: false });
+  }
+
+  // One extra row tells us whether there is another page without a separate count query
+  const from = page * pageSize;
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: true })
+    .range(from, from + pageSize);
+
+  if (error) throw error;
+
+  const rows = ((data ?? []) as RankingRow[]).map(toDishRanking);
+  return {
+    rankings: rows.slice(0, pageSize),
+    hasMore: rows.length > pageSize,
+  };
+}
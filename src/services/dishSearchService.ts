@@ -0,0 +1,42 @@
+import { createCache } from '../lib/cache';
+import { callRpc } from '../lib/rpc';
+import type { DishSearchResult } from '../types/database';
+
+export type DishSearchOptions = {
+  proximity?: { latitude: number; longitude: number };
+  radiusKm?: number;
+  limit?: number;
+};
+
+// Typeahead results: short-lived and not worth persisting
+const dishSearchCache = createCache<DishSearchResult[]>({
+  namespace: 'dish-search',
+  ttlMs: 120_000,
+  maxEntries: 50,
+  persist: false,
+});
+
+/**
+ * Full-text search over ranked dishes (dish name, ingredients, restaurant name) in Spanish
+ * and English. Returns one result per dish per restaurant, dish-name matches first and then
+ * by weighted score, so "birria" lists the places where birria is rated best.
+ */
+export async function searchDishes(query: string, options: DishSearchOptions = {}): Promise<DishSearchResult[]> {
+  const q = query.trim().toLowerCase();
+  if (q.length < 2) return [];
+
+  const { proximity, radiusKm = 50, limit = 5 } = options;
+  // ~1km buckets so small location changes still hit the cache
+  const near = proximity ? `${proximity.latitude.toFixed(2)},${proximity.longitude.toFixed(2)}` : 'any';
+  const key = `${near}:${radiusKm}:${limit}:${q.slice(0, 80)}`;
+
+  return dishSearchCache.getOrLoad(key, () =>
+    callRpc('search_dishes', {
+      query: q,
+      near_lat: proximity?.latitude ?? null,
+      near_lng: proximity?.longitude ?? null,
+      radius_km: radiusKm,
+      limit_count: limit,
+    })
+  );
+}
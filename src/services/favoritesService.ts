@@ -0,0 +1,118 @@
+import { callRpc } from '../lib/rpc';
+import { supabase } from '../lib/supabase';
+import type { RestaurantWithRanking, UUID } from '../types/database';
+import { lookupPlaceId, resolvePlaceId } from './placeService';
+
+/**
+ * Saved restaurants (user_favorites). Favorites are keyed by place id, so saving a
+ * restaurant nobody has ranked yet registers it in the place registry first.
+ */
+
+// Favorite place ids for the signed-in user, loaded once per user and kept in sync by add/remove
+let favoritePlaceIds: { userId: string; ids: Set<UUID> } | null = null;
+
+async function getFavoritePlaceIds(userId: string): Promise<Set<UUID>> {
+  if (favoritePlaceIds?.userId === userId) return favoritePlaceIds.ids;
+
+  const { data, error } = await supabase.from('user_favorites').select('place_id').eq('user_id', userId);
+  if (error) throw error;
+
+  const ids = new Set((data ?? []).map((row) => row.place_id));
+  favoritePlaceIds = { userId, ids };
+  return ids;
+}
+
+/**
+ * Whether the current user has saved this restaurant. Signed-out users have no favorites.
+ */
+export async function isFavoriteRestaurant(restaurant: Pick<RestaurantWithRanking, 'id' | 'place_id'>): Promise<boolean> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return false;
+
+  const placeId = restaurant.place_id ?? (await lookupPlaceId(restaurant.id));
+  if (!placeId) return false;
+
+  const ids = await getFavoritePlaceIds(user.id);
+  return ids.has(placeId);
+}
+
+/**
+ * Save a restaurant for the current user. Returns its place id.
+ * Requires the user to be authenticated; throws if not.
+ */
+export async function addFavorite(
+  restaurant: Pick<RestaurantWithRanking, 'id' | 'name' | 'lat' | 'lng' | 'place_id'>
+): Promise<UUID> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const placeId =
+    restaurant.place_id ??
+    (await resolvePlaceId(restaurant.id, { name: restaurant.name, lat: restaurant.lat, lng: restaurant.lng }));
+
+  const { error } = await supabase
+    .from('user_favorites')
+    .upsert({ user_id: user.id, place_id: placeId }, { onConflict: 'user_id,place_id', ignoreDuplicates: true });
+
+  if (error) throw error;
+
+  if (favoritePlaceIds?.userId === user.id) favoritePlaceIds.ids.add(placeId);
+  return placeId;
+}
+
+/**
+ * Remove a saved restaurant for the current user.
+ */
+export async function removeFavorite(placeId: UUID): Promise<void> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const { error } = await supabase.from('user_favorites').delete().eq('user_id', user.id).eq('place_id', placeId);
+
+  if (error) throw error;
+
+  if (favoritePlaceIds?.userId === user.id) favoritePlaceIds.ids.delete(placeId);
+}
+
+/**
+ * The current user's saved restaurants, most recently saved first.
+ */
+export async function listFavorites(limit = 20): Promise<RestaurantWithRanking[]> {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+  if (!user) return [];
+
+  let rows;
+  try {
+    rows = await callRpc('get_user_favorites', { limit_count: limit });
+  } catch (error) {
+    if (__DEV__) console.warn('Failed to get favorites:', error);
+    return [];
+  }
+
+  return rows.map((row) => ({
+    id: row.place_ref ?? `place:${row.place_id}`,
+    place_id: row.place_id,
+    name: row.restaurant_name,
+    address: null,
+    lat: row.lat ?? 0,
+    lng: row.lng ?? 0,
+    created_at: row.favorited_at,
+    updated_at: row.favorited_at,
+    top_dish_net_score: row.avg_score ?? 0,
+    review_count: row.review_count,
+  }));
+}
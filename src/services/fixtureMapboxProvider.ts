@@ -0,0 +1,191 @@
+import type { SearchBoxFeatureSuggestion, SearchBoxSuggestion } from '@mapbox/search-js-core';
+import type { GeocodeBBox, GeocodeCandidate } from '../../supabase/functions/_shared/geocodeTypes';
+import cdmx from '../fixtures/mapbox/cdmx.json';
+import guadalajara from '../fixtures/mapbox/guadalajara.json';
+import monterrey from '../fixtures/mapbox/monterrey.json';
+import oaxaca from '../fixtures/mapbox/oaxaca.json';
+import type { MapboxSearchProvider } from './mapboxProvider';
+
+/**
+ * One city in src/fixtures/mapbox: its geocoding answer and the restaurants search can find there.
+ */
+export type MapboxFixtureCity = {
+  id: string;
+  name: string;
+  aliases: string[]; // Other names forward geocoding accepts, e.g. "cdmx"
+  state: string;
+  stateCode: string; // ISO 3166-2, e.g. "MX-JAL"
+  country: string;
+  countryCode: string; // Lowercase ISO 3166 alpha-2
+  countryCodeAlpha3: string;
+  center: { lat: number; lng: number };
+  bbox: GeocodeBBox;
+  places: Array<{
+    id: string; // Used as mapbox_id
+    name: string;
+    category: string;
+    maki: string;
+    address: string;
+    neighborhood: string;
+    lat: number;
+    lng: number;
+  }>;
+};
+
+type FixturePlace = MapboxFixtureCity['places'][number];
+
+export const MAPBOX_FIXTURE_CITIES: MapboxFixtureCity[] = [cdmx, guadalajara, monterrey, oaxaca];
+
+// Lowercase without accents, so "Güero" matches "guero"
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim();
+}
+
+function distanceMeters(a: { lat: number; lng: number }, b: { lat: number; lng: number }): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * 6_371_000 * Math.asin(Math.sqrt(h));
+}
+
+function toSuggestion(
+  city: MapboxFixtureCity,
+  place: FixturePlace,
+  proximity: { lat: number; lng: number } | null
+): SearchBoxSuggestion {
+  const placeFormatted = `${place.address}, ${place.neighborhood}, ${city.name}, ${city.state}, ${city.country}`;
+  return {
+    name: place.name,
+    name_preferred: place.name,
+    mapbox_id: place.id,
+    feature_type: 'poi',
+    address: place.address,
+    full_address: placeFormatted,
+    place_formatted: placeFormatted,
+    context: {
+      country: {
+        id: `country.${city.countryCode}`,
+        name: city.country,
+        country_code: city.countryCode.toUpperCase(),
+        country_code_alpha_3: city.countryCodeAlpha3,
+      },
+      region: {
+        id: `region.${city.id}`,
+        name: city.state,
+        region_code: city.stateCode.split('-')[1] ?? city.stateCode,
+        region_code_full: city.stateCode,
+      },
+      place: { id: `place.${city.id}`, name: city.name },
+      neighborhood: { id: `neighborhood.${normalize(place.neighborhood)}`, name: place.neighborhood },
+    },
+    language: 'es',
+    maki: place.maki,
+    poi_category: [place.category],
+    brand: '',
+    brand_id: '',
+    external_ids: {},
+    metadata: {},
+    distance: proximity ? Math.round(distanceMeters(proximity, place)) : 0,
+    eta: 0,
+    added_distance: 0,
+    added_time: 0,
+  };
+}
+
+function toCandidate(city: MapboxFixtureCity, relevance: number): GeocodeCandidate {
+  return {
+    name: city.name,
+    displayName: `${city.name}, ${city.state}, ${city.country}`,
+    placeType: 'place',
+    center: city.center,
+    bbox: city.bbox,
+    countryCode: city.countryCode,
+    relevance,
+  };
+}
+
+function inBBox(bbox: GeocodeBBox, lat: number, lng: number): boolean {
+  return (
+    lat >= bbox.southWestLat && lat <= bbox.northEastLat && lng >= bbox.southWestLng && lng <= bbox.northEastLng
+  );
+}
+
+/**
+ * Provider that answers from fixtures only: no token, no network. Suggest matches every word of
+ * the query against name, category, neighborhood and city; answers ignore the language.
+ */
+export function createFixtureMapboxProvider(cities: MapboxFixtureCity[] = MAPBOX_FIXTURE_CITIES): MapboxSearchProvider {
+  const findPlace = (mapboxId: string) => {
+    for (const city of cities) {
+      const place = city.places.find((p) => p.id === mapboxId);
+      if (place) return { city, place };
+    }
+    return null;
+  };
+
+  return {
+    name: 'fixtures',
+
+    async suggest({ q, region, proximity, limit }) {
+      const words = normalize(q).split(/\s+/).filter(Boolean);
+      const matches = cities
+        .filter((city) => !region.country || city.countryCode === region.country)
+        .flatMap((city) =>
+          city.places
+            .filter((place) => {
+              const haystack = normalize(`${place.name} ${place.category} ${place.neighborhood} ${city.name}`);
+              return words.every((word) => haystack.includes(word));
+            })
+            .map((place) => toSuggestion(city, place, proximity))
+        );
+
+      // Nearest first when there's a proximity, like the real API's bias
+      if (proximity) matches.sort((a, b) => a.distance - b.distance);
+      return matches.slice(0, limit);
+    },
+
+    async retrieve(suggestion) {
+      const found = findPlace(suggestion.mapbox_id);
+      if (!found) return null;
+
+      const { city, place } = found;
+      const { distance, eta, added_distance, added_time, ...properties } = toSuggestion(city, place, null);
+      const feature: SearchBoxFeatureSuggestion = {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: [place.lng, place.lat] },
+        properties: {
+          ...properties,
+          coordinates: { latitude: place.lat, longitude: place.lng },
+        },
+      };
+      return feature;
+    },
+
+    async forwardGeocode({ q, country, limit = 5 }) {
+      const query = normalize(q);
+      if (!query) return { candidates: [] };
+
+      const candidates = cities
+        .filter((city) => !country || city.countryCode === country.toLowerCase())
+        .map((city) => {
+          const names = [city.name, ...city.aliases].map(normalize);
+          if (names.includes(query)) return toCandidate(city, 1);
+          if (names.some((name) => name.startsWith(query) || query.startsWith(name))) return toCandidate(city, 0.9);
+          if (names.some((name) => query.includes(name))) return toCandidate(city, 0.8);
+          return null;
+        })
+        .filter((candidate): candidate is GeocodeCandidate => candidate !== null)
+        .sort((a, b) => b.relevance - a.relevance);
+      return { candidates: candidates.slice(0, limit) };
+    },
+
+    async reverseGeocode({ lat, lng }) {
+      const city = cities
+        .filter((c) => inBBox(c.bbox, lat, lng))
+        .sort((a, b) => distanceMeters(a.center, { lat, lng }) - distanceMeters(b.center, { lat, lng }))[0];
+      if (!city) return { label: null, candidate: null };
+      return { label: `${city.name}, ${city.state}`, candidate: toCandidate(city, 1) };
+    },
+  };
+}
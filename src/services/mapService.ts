@@ -1,9 +1,15 @@
+import { createCache } from '../lib/cache';
+import { callRpc, type RpcResult } from '../lib/rpc';
 import { supabase } from '../lib/supabase';
-import type { RestaurantWithRanking, ViewportBounds } from '../types/database';
+import type { RestaurantWithRanking, UUID, ViewportBounds } from '../types/database';
+import { normalizeRestaurantRef } from '../utils/restaurantRef';
+import { calculateZoomFromViewport } from '../utils/grid';
+import { lookupPlaceId } from './placeService';
 
 /**
  * Enrich restaurants with rankings calculated from dish_rankings.
- * Fetches rankings in batch for efficiency.
+ * Restaurant ids of every provider are resolved to their place in a single RPC,
+ * so an OSM node and the matching Mapbox POI share one ranking.
  */
 export async function enrichRestaurantsWithRankings(
   restaurants: RestaurantWithRanking[]
@@ -11,183 +17,46 @@ export async function enrichRestaurantsWithRankings(
   const perfStart = performance.now();
   if (restaurants.length === 0) return restaurants;
 
-  // Separate restaurants into OSM and Mapbox restaurants
-  const extractStart = performance.now();
-  const osmRestaurants: Array<{ restaurant: RestaurantWithRanking; osmId: string }> = [];
-  const mapboxRestaurants: Array<{ restaurant: RestaurantWithRanking; mapboxId: string }> = [];
-  
-  for (const r of restaurants) {
-    // Extract OSM ID from restaurant ID (format: "osm:node:123" or "osm:way:456")
-    const osmMatch = r.id.match(/^osm:(?:node|way|relation):(\d+)$/);
-    if (osmMatch) {
-      osmRestaurants.push({ restaurant: r, osmId: osmMatch[1] });
-      continue;
-    }
-    
-    // Extract mapbox_id from various formats
-    let mapboxId: string | null = null;
-    const mapboxMatch1 = r.id.match(/^mapbox:(.+)$/);
-    if (mapboxMatch1) {
-      mapboxId = mapboxMatch1[1];
-    } else {
-      // Handle incorrect format: osm:node:mapbox:xxx
-      const mapboxMatch2 = r.id.match(/^osm:(?:node|way|relation):mapbox:(.+)$/);
-      if (mapboxMatch2) {
-        mapboxId = mapboxMatch2[1];
-      }
-    }
-    
-    if (mapboxId) {
-      mapboxRestaurants.push({ restaurant: r, mapboxId });
-    } else if (__DEV__) {
-      console.log(`[enrichRestaurantsWithRankings] Could not extract OSM ID or mapbox_id from restaurant ID: ${r.id}`);
-    }
-  }
-  
-  const osmIds = osmRestaurants.map(item => item.osmId);
-  const mapboxIds = mapboxRestaurants.map(item => item.mapboxId);
-  const extractTime = performance.now() - extractStart;
+  const refs = Array.from(
+    new Set(restaurants.map((r) => normalizeRestaurantRef(r.id)).filter((ref): ref is string => !!ref))
+  );
 
-  if (__DEV__) {
-    console.log(`[PERF] enrichRestaurantsWithRankings: Extracted ${osmIds.length} OSM IDs in ${extractTime.toFixed(2)}ms from ${restaurants.length} restaurants`);
-  }
-
-  if (osmIds.length === 0 && mapboxIds.length === 0) {
+  if (refs.length === 0) {
     if (__DEV__) {
-      console.log(`[PERF] enrichRestaurantsWithRankings: No OSM IDs or mapbox_ids to enrich, returning early`);
+      console.log(`[PERF] enrichRestaurantsWithRankings: No restaurant refs to enrich, returning early`);
     }
     return restaurants;
   }
 
   try {
-    // Fetch rankings for OSM restaurants
-    const osmRankingMap = new Map<string, number>();
-    let rpcTime = 0; // Initialize to avoid reference error
-    if (osmIds.length > 0) {
-      const rpcStart = performance.now();
-      const { data: rankingsData, error } = await supabase.rpc('get_restaurant_rankings_batch', {
-        osm_ids: osmIds,
-      });
-      rpcTime = performance.now() - rpcStart;
-      
-      if (__DEV__) {
-        console.log(`[PERF] enrichRestaurantsWithRankings: OSM RPC call took ${rpcTime.toFixed(2)}ms, returned ${rankingsData?.length || 0} rankings`);
-      }
+    const rpcStart = performance.now();
+    const rankingsData = await callRpc('get_place_rankings', { refs });
+    const rpcTime = performance.now() - rpcStart;
 
-      if (error && error.code !== 'PGRST202') {
-        // Function might not exist if migration hasn't been applied yet
-        if (__DEV__) {
-          console.warn('Failed to fetch OSM restaurant rankings:', error);
-        }
-      } else if (rankingsData && Array.isArray(rankingsData)) {
-        for (const row of rankingsData) {
-          if (row && typeof row.osm_id === 'string' && typeof row.ranking === 'number') {
-            const normalizedOsmId = String(row.osm_id).trim();
-            osmRankingMap.set(normalizedOsmId, Number(row.ranking));
-            
-            if (__DEV__) {
-              console.log(`[enrichRestaurantsWithRankings] Found ranking for OSM ID: ${normalizedOsmId}, ranking: ${row.ranking}`);
-            }
-          }
-        }
-      }
+    if (__DEV__) {
+      console.log(`[PERF] enrichRestaurantsWithRankings: RPC call took ${rpcTime.toFixed(2)}ms, returned ${rankingsData.length} rankings for ${refs.length} refs`);
     }
 
-    // Fetch rankings for Mapbox restaurants
-    const mapboxRankingMap = new Map<string, number>();
-    if (mapboxIds.length > 0) {
-      const mapboxStart = performance.now();
-      try {
-        // Query dish_rankings by mapbox_id
-        const { data: mapboxRankingsData, error: mapboxError } = await supabase
-          .from('dish_rankings')
-          .select('mapbox_id, score')
-          .in('mapbox_id', mapboxIds)
-          .not('mapbox_id', 'is', null);
-        
-        const mapboxTime = performance.now() - mapboxStart;
-        
-        if (__DEV__) {
-          console.log(`[PERF] enrichRestaurantsWithRankings: Mapbox query took ${mapboxTime.toFixed(2)}ms, returned ${mapboxRankingsData?.length || 0} rankings`);
-        }
-
-        if (mapboxError) {
-          if (__DEV__) {
-            console.warn('Failed to fetch Mapbox restaurant rankings:', mapboxError);
-          }
-        } else if (mapboxRankingsData && Array.isArray(mapboxRankingsData)) {
-          // Group by mapbox_id and calculate average score
-          const scoreMap = new Map<string, number[]>();
-          for (const row of mapboxRankingsData) {
-            if (row && row.mapbox_id && typeof row.score === 'number') {
-              const mapboxId = String(row.mapbox_id).trim();
-              if (!scoreMap.has(mapboxId)) {
-                scoreMap.set(mapboxId, []);
-              }
-              scoreMap.get(mapboxId)!.push(row.score);
-            }
-          }
-          
-          // Calculate average for each mapbox_id
-          for (const [mapboxId, scores] of scoreMap.entries()) {
-            const avgScore = scores.reduce((sum, s) => sum + s, 0) / scores.length;
-            mapboxRankingMap.set(mapboxId, Math.round(avgScore * 10) / 10);
-            
-            if (__DEV__) {
-              console.log(`[enrichRestaurantsWithRankings] Found ranking for mapbox_id: ${mapboxId}, ranking: ${avgScore.toFixed(1)}`);
-            }
-          }
-        }
-      } catch (err) {
-        if (__DEV__) {
-          console.warn('Error fetching Mapbox rankings:', err);
-        }
-      }
+    const rankingByRef = new Map<string, { placeId: UUID; ranking: number }>();
+    for (const row of rankingsData) {
+      rankingByRef.set(row.ref, { placeId: row.place_id, ranking: row.ranking });
     }
 
-    // Merge rankings into restaurants
-    const mergeStart = performance.now();
     const enriched = restaurants.map((r) => {
-      // Try to find in OSM restaurants
-      const osmItem = osmRestaurants.find(item => item.restaurant.id === r.id);
-      if (osmItem) {
-        const normalizedOsmId = String(osmItem.osmId).trim();
-        const fetchedRanking = osmRankingMap.get(normalizedOsmId);
-        const ranking = fetchedRanking !== undefined ? fetchedRanking : (r.top_dish_net_score || 0);
-        
-        if (__DEV__ && fetchedRanking !== undefined) {
-          console.log(`[enrichRestaurantsWithRankings] Found OSM ranking ${fetchedRanking} for ${r.name}`);
-        }
-        
-        return { ...r, top_dish_net_score: ranking };
-      }
-      
-      // Try to find in Mapbox restaurants
-      const mapboxItem = mapboxRestaurants.find(item => item.restaurant.id === r.id);
-      if (mapboxItem) {
-        const normalizedMapboxId = String(mapboxItem.mapboxId).trim();
-        const fetchedRanking = mapboxRankingMap.get(normalizedMapboxId);
-        const ranking = fetchedRanking !== undefined ? fetchedRanking : (r.top_dish_net_score || 0);
-        
-        if (__DEV__ && fetchedRanking !== undefined) {
-          console.log(`[enrichRestaurantsWithRankings] Found Mapbox ranking ${fetchedRanking} for ${r.name} (mapbox_id: ${normalizedMapboxId})`);
-        } else if (__DEV__ && ranking === 0) {
-          console.log(`[enrichRestaurantsWithRankings] No ranking found for mapbox_id: ${normalizedMapboxId}, restaurant: ${r.name}`);
-        }
-        
-        return { ...r, top_dish_net_score: ranking };
+      const ref = normalizeRestaurantRef(r.id);
+      const hit = ref ? rankingByRef.get(ref) : undefined;
+      if (!hit) {
+        // Preserve existing ranking if the restaurant has never been ranked
+        return { ...r, top_dish_net_score: r.top_dish_net_score || 0 };
       }
-      
-      // Preserve existing ranking if restaurant wasn't in either list
-      return { ...r, top_dish_net_score: r.top_dish_net_score || 0 };
+      return { ...r, place_id: hit.placeId, top_dish_net_score: hit.ranking };
     });
-    const mergeTime = performance.now() - mergeStart;
-    const totalTime = performance.now() - perfStart;
-    
+
     if (__DEV__) {
-      console.log(`[PERF] enrichRestaurantsWithRankings: Total ${totalTime.toFixed(2)}ms (Extract: ${extractTime.toFixed(2)}ms, RPC: ${rpcTime.toFixed(2)}ms, Merge: ${mergeTime.toFixed(2)}ms)`);
+      const totalTime = performance.now() - perfStart;
+      console.log(`[PERF] enrichRestaurantsWithRankings: Total ${totalTime.toFixed(2)}ms (RPC: ${rpcTime.toFixed(2)}ms), ranked: ${rankingByRef.size}/${refs.length}`);
     }
-    
+
     return enriched;
   } catch (error) {
     const totalTime = performance.now() - perfStart;
@@ -200,59 +69,105 @@ export async function enrichRestaurantsWithRankings(
 
 type FetchOptions = {
   signal?: AbortSignal;
+  zoom?: number; // Defaults to the zoom implied by the viewport's latitude span
 };
 
+type RankedPlaceRow = RpcResult<'get_ranked_places_in_viewport'>[number];
+
+const VIEWPORT_PAGE_SIZE = 100;
+
+function rankedPlaceToRestaurant(row: RankedPlaceRow): RestaurantWithRanking {
+  return {
+    id: row.place_ref ?? `place:${row.place_id}`,
+    place_id: row.place_id,
+    name: row.name,
+    address: null,
+    lat: row.lat,
+    lng: row.lng,
+    created_at: new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    top_dish_net_score: row.avg_score,
+    review_count: row.review_count,
+    weighted_score: row.weighted_score,
+    confidence: row.confidence,
+    star_dish_name: row.star_dish_name,
+    star_dish_score: row.star_dish_score,
+    dish_tags: row.dish_tags ?? [],
+    median_price_cents: row.median_price_cents,
+  };
+}
+
 /**
- * Minimal client-side in-memory cache for search results.
- * Optimized for search-first architecture - small cache, short TTL.
+ * Page through get_ranked_places_in_viewport until every place for this viewport is loaded.
+ * The RPC caps the total per zoom level, so this is bounded even for city-wide views.
  */
-const cache = new Map<string, { expiresAt: number; payload: RestaurantWithRanking[] }>();
-const inFlight = new Map<string, Promise<RestaurantWithRanking[]>>();
-const CLIENT_CACHE_TTL_MS = 600_000; // 10 minutes - short-lived for instant search results
-const CLIENT_CACHE_MAX_ENTRIES = 25; // Small cache - just for recent searches
-
-function stableViewportKey(viewport: ViewportBounds) {
-  // Round to ~100m precision for cache hits
-  const round = (n: number) => Math.round(n * 1000) / 1000;
-  return `${round(viewport.southWestLat)},${round(viewport.southWestLng)},${round(viewport.northEastLat)},${round(viewport.northEastLng)}`;
-}
+async function fetchRankedPlaces(
+  viewport: ViewportBounds,
+  nameQuery: string | null,
+  options?: FetchOptions
+): Promise<RestaurantWithRanking[]> {
+  const zoom = options?.zoom ?? calculateZoomFromViewport(viewport);
+  const results: RestaurantWithRanking[] = [];
+  let total = Infinity;
+
+  while (results.length < total) {
+    const rows = await callRpc(
+      'get_ranked_places_in_viewport',
+      {
+        sw_lat: viewport.southWestLat,
+        sw_lng: viewport.southWestLng,
+        ne_lat: viewport.northEastLat,
+        ne_lng: viewport.northEastLng,
+        zoom_level: Math.round(zoom),
+        name_query: nameQuery,
+        page_size: VIEWPORT_PAGE_SIZE,
+        page_offset: results.length,
+      },
+      { signal: options?.signal }
+    );
+    if (rows.length === 0) break;
 
-function takeFromCache(key: string): RestaurantWithRanking[] | null {
-  const hit = cache.get(key);
-  const now = Date.now();
-  if (!hit) return null;
-  // Only return if not expired
-  if (hit.expiresAt <= now) {
-    cache.delete(key);
-    return null;
+    total = rows[0].total_count;
+    results.push(...rows.map(rankedPlaceToRestaurant));
   }
-  // LRU bump
-  cache.delete(key);
-  cache.set(key, hit);
-  return hit.payload;
+
+  return results;
 }
 
-function putInCache(key: string, payload: RestaurantWithRanking[]) {
-  cache.set(key, { expiresAt: Date.now() + CLIENT_CACHE_TTL_MS, payload });
-  // Simple LRU eviction - keep memory cache small
-  while (cache.size > CLIENT_CACHE_MAX_ENTRIES) {
-    const firstKey = cache.keys().next().value as string | undefined;
-    if (!firstKey) break;
-    cache.delete(firstKey);
-  }
+/**
+ * Ranked places per viewport (and search query), persisted across restarts. Fresh for 10 minutes,
+ * then served stale for a day while refreshing, so reopening the app in a known area is instant.
+ */
+const rankedPlacesCache = createCache<RestaurantWithRanking[]>({
+  namespace: 'ranked-places',
+  ttlMs: 600_000,
+  staleMs: 24 * 60 * 60_000,
+  maxEntries: 25,
+});
+
+/**
+ * Forget cached ranked places, in memory and on disk. Call after the user's rankings change,
+ * otherwise scores and star dishes stay out of date until the entries expire.
+ */
+export function invalidateRankedPlaces(): Promise<void> {
+  return rankedPlacesCache.clear();
 }
 
+function stableViewportKey(viewport: ViewportBounds) {
+  // Round to ~100m precision for cache hits
+  const round = (n: number) => Math.round(n * 1000) / 1000;
+  return `${round(viewport.southWestLat)},${round(viewport.southWestLng)},${round(viewport.northEastLat)},${round(viewport.northEastLng)}`;
+}
 
 /**
- * Search for restaurants by name in a given area.
+ * Search for ranked restaurants by name in a given area.
  * This is the primary function for the search-first architecture.
  * 
  * Flow:
- * 1. Check client cache → return instantly if hit
- * 2. Check in-flight requests → return existing promise if found
- * 3. Call Edge Function (which checks server cache)
- * 4. Store result in client cache
- * 5. Enrich with rankings in background
+ * 1. Check the shared cache (memory, then on-device) → return instantly if fresh or stale
+ * 2. Stale hits are refreshed in the background; concurrent misses share one request
+ * 3. Call get_ranked_places_in_viewport with the name filter (already includes rankings)
+ * 4. Store result in the cache
  */
 export async function searchRestaurantsInArea(
   viewport: ViewportBounds,
@@ -263,63 +178,31 @@ export async function searchRestaurantsInArea(
   const q = nameQuery.trim().toLowerCase();
   const key = `search:${stableViewportKey(viewport)}:${q.slice(0, 80)}`;
   
-  // Check cache first for instant results
-  const cacheCheckStart = performance.now();
-  const cached = takeFromCache(key);
-  const cacheCheckTime = performance.now() - cacheCheckStart;
-  if (cached) {
-    const totalTime = performance.now() - perfStart;
-    if (__DEV__) {
-      console.log(`[PERF] searchRestaurantsInArea: CACHE HIT in ${cacheCheckTime.toFixed(2)}ms (total: ${totalTime.toFixed(2)}ms), query: "${q}"`);
-    }
-    return cached;
-  }
+  try {
+    const result = await rankedPlacesCache.getOrLoad(key, ({ background }) =>
+      // A background refresh outlives the caller, so it must not share its abort signal
+      fetchRankedPlaces(viewport, q, background ? { zoom: options?.zoom } : options)
+    );
 
-  // Check for in-flight request (deduplication)
-  const existing = inFlight.get(key);
-  if (existing) {
     if (__DEV__) {
-      console.log(`[PERF] searchRestaurantsInArea: IN-FLIGHT REQUEST (cache check: ${cacheCheckTime.toFixed(2)}ms), query: "${q}"`);
-    }
-    return existing;
-  }
-
-  const promise = (async () => {
-    try {
-      // Overpass has been removed - return empty array
-      const result: RestaurantWithRanking[] = [];
-      
-      // Cache result
-      const cacheStart = performance.now();
-      putInCache(key, result);
-      const cacheTime = performance.now() - cacheStart;
-      
       const totalTime = performance.now() - perfStart;
-      
-      if (__DEV__) {
-        console.log(`[PERF] searchRestaurantsInArea: Total ${totalTime.toFixed(2)}ms (Cache check: ${cacheCheckTime.toFixed(2)}ms, Cache write: ${cacheTime.toFixed(2)}ms), query: "${q}", results: ${result.length}`);
-      }
-
-      return result;
-    } catch (error) {
-      // AbortErrors are expected during cleanup - don't log them as errors
-      const isAbort = error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'));
-      if (__DEV__ && !isAbort) {
-        console.warn('[mapService] Search failed:', error);
-      }
-      throw error;
-    } finally {
-      inFlight.delete(key);
+      console.log(`[PERF] searchRestaurantsInArea: ${totalTime.toFixed(2)}ms, query: "${q}", results: ${result.length}`);
     }
-  })();
-
-  inFlight.set(key, promise);
-  return promise;
+    return result;
+  } catch (error) {
+    // AbortErrors are expected during cleanup - don't log them as errors
+    const isAbort = error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'));
+    if (__DEV__ && !isAbort) {
+      console.warn('[mapService] Search failed:', error);
+    }
+    throw error;
+  }
 }
 
 /**
  * Find restaurants by Mapbox ID (exact match).
- * This is the primary matching strategy for Mapbox search results.
+ * This is the primary matching strategy for Mapbox search results: if the POI belongs to a
+ * known place, the place's original ref is returned so rankings stay attached to it.
  */
 export async function findRestaurantByMapboxId(
   mapboxId: string
@@ -329,41 +212,30 @@ export async function findRestaurantByMapboxId(
   }
 
   try {
-    // Query dish_rankings table for records with matching mapbox_id
-    const { data, error } = await supabase
-      .from('dish_rankings')
-      .select('osm_id, restaurant_name')
-      .eq('mapbox_id', mapboxId)
-      .limit(1);
-
-    if (error) {
-      if (__DEV__) {
-        console.warn('[mapService] Error finding restaurant by mapbox_id:', error);
-      }
+    const placeId = await lookupPlaceId(`mapbox:${mapboxId}`);
+    if (!placeId) {
       return [];
     }
 
-    if (!data || data.length === 0) {
+    const [{ data: place, error: placeError }, { data: refs, error: refsError }] = await Promise.all([
+      supabase.from('places').select('id, name, lat, lng').eq('id', placeId).single(),
+      supabase.from('place_refs').select('ref').eq('place_id', placeId).order('created_at', { ascending: true }).limit(1),
+    ]);
+
+    if (placeError || refsError || !place) {
+      if (__DEV__) {
+        console.warn('[mapService] Error finding restaurant by mapbox_id:', placeError ?? refsError);
+      }
       return [];
     }
 
-    // Extract OSM ID from the first match
-    const firstMatch = data[0];
-    const osmId = firstMatch.osm_id;
-
-    // Convert OSM ID to restaurant ID format (osm:node:123)
-    // We need to determine the type (node/way/relation) - for now, try node first
-    const restaurantId = `osm:node:${osmId}`;
-
-    // Create a minimal restaurant object from the dish_rankings data
-    // In a full implementation, you might want to fetch full restaurant details
-    // For MVP, we'll return a basic structure that can be enriched later
     const restaurant: RestaurantWithRanking = {
-      id: restaurantId,
-      name: firstMatch.restaurant_name,
+      id: refs?.[0]?.ref ?? `mapbox:${mapboxId}`,
+      place_id: placeId,
+      name: place.name,
       address: null,
-      lat: 0, // Will be populated from Mapbox feature
-      lng: 0, // Will be populated from Mapbox feature
+      lat: place.lat ?? 0, // Caller falls back to the Mapbox feature coordinates
+      lng: place.lng ?? 0,
       created_at: new Date().toISOString(),
       updated_at: new Date().toISOString(),
       top_dish_net_score: 0, // Will be enriched
@@ -414,43 +286,6 @@ export async function findRestaurantByCoordinates(
   return [];
 }
 
-/**
- * Update dish_rankings records with mapbox_id (self-healing).
- */
-export async function updateDishRankingsWithMapboxId(
-  osmIds: string[],
-  mapboxId: string
-): Promise<void> {
-  if (!osmIds || osmIds.length === 0 || !mapboxId) {
-    return;
-  }
-
-  try {
-    // Update all dish_rankings records matching the OSM IDs
-    // Only update records where mapbox_id IS NULL to avoid overwriting existing mappings
-    const { error } = await supabase
-      .from('dish_rankings')
-      .update({ mapbox_id: mapboxId })
-      .in('osm_id', osmIds)
-      .is('mapbox_id', null);
-
-    if (error) {
-      if (__DEV__) {
-        console.warn('[mapService] Error updating dish_rankings with mapbox_id:', error);
-      }
-      return;
-    }
-
-    if (__DEV__) {
-      console.log(`[mapService] Updated ${osmIds.length} dish_rankings records with mapbox_id: ${mapboxId}`);
-    }
-  } catch (error) {
-    if (__DEV__) {
-      console.error('[mapService] Error in updateDishRankingsWithMapboxId:', error);
-    }
-  }
-}
-
 /**
  * DEPRECATED: This function is kept for backward compatibility.
  * Search for restaurants using Mapbox Search Box.
@@ -469,17 +304,16 @@ export async function searchRestaurantsWithMapbox(
 }
 
 /**
- * DEPRECATED: Viewport-based fetching is no longer the primary interaction.
- * This function is kept for backward compatibility and recommendation fetching.
- * 
- * For new code, use searchRestaurantsInArea() instead.
+ * Every ranked place inside the viewport, best first by weighted score, with raw average,
+ * review count and star dish. Used for browsing the map without a search query.
+ * Results are capped per zoom level server-side.
  */
 export async function fetchRestaurantsInViewport(
   viewport: ViewportBounds,
   options?: FetchOptions
 ): Promise<RestaurantWithRanking[]> {
   const perfStart = performance.now();
-  const key = `browse:${stableViewportKey(viewport)}`;
+  const key = `browse:${stableViewportKey(viewport)}:z${Math.round(options?.zoom ?? calculateZoomFromViewport(viewport))}`;
   
   if (__DEV__) {
     console.log(`[CACHE] fetchRestaurantsInViewport:`, {
@@ -493,57 +327,23 @@ export async function fetchRestaurantsInViewport(
     });
   }
   
-  // Check cache
-  const cacheCheckStart = performance.now();
-  const cached = takeFromCache(key);
-  const cacheCheckTime = performance.now() - cacheCheckStart;
-  if (cached) {
-    const totalTime = performance.now() - perfStart;
-    if (__DEV__) {
-      console.log(`[PERF] fetchRestaurantsInViewport: MEMORY CACHE HIT in ${cacheCheckTime.toFixed(2)}ms (total: ${totalTime.toFixed(2)}ms)`);
-    }
-    return cached;
-  }
+  try {
+    const result = await rankedPlacesCache.getOrLoad(key, ({ background }) =>
+      fetchRankedPlaces(viewport, null, background ? { zoom: options?.zoom } : options)
+    );
 
-  // Check for in-flight request
-  const existing = inFlight.get(key);
-  if (existing) {
     if (__DEV__) {
-      console.log(`[PERF] fetchRestaurantsInViewport: IN-FLIGHT REQUEST (cache check: ${cacheCheckTime.toFixed(2)}ms)`);
-    }
-    return existing;
-  }
-
-  const promise = (async () => {
-    try {
-      // Overpass has been removed - return empty array
-      const result: RestaurantWithRanking[] = [];
-
-      // Cache result
-      const cacheStart = performance.now();
-      putInCache(key, result);
-      const cacheTime = performance.now() - cacheStart;
-      
-      const totalTime = performance.now() - perfStart;
-      
-      if (__DEV__) {
-        console.log(`[PERF] fetchRestaurantsInViewport: Total time ${totalTime.toFixed(2)}ms (Cache write: ${cacheTime.toFixed(2)}ms)`);
-      }
-
-      return result;
-    } catch (error) {
       const totalTime = performance.now() - perfStart;
-      // AbortErrors are expected during cleanup - don't log them as errors
-      const isAbort = error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'));
-      if (__DEV__ && !isAbort) {
-        console.error(`[PERF] fetchRestaurantsInViewport: FAILED after ${totalTime.toFixed(2)}ms:`, error);
-      }
-      throw error;
-    } finally {
-      inFlight.delete(key);
+      console.log(`[PERF] fetchRestaurantsInViewport: ${totalTime.toFixed(2)}ms, results: ${result.length}`);
     }
-  })();
-
-  inFlight.set(key, promise);
-  return promise;
+    return result;
+  } catch (error) {
+    const totalTime = performance.now() - perfStart;
+    // AbortErrors are expected during cleanup - don't log them as errors
+    const isAbort = error instanceof Error && (error.name === 'AbortError' || error.message.includes('aborted'));
+    if (__DEV__ && !isAbort) {
+      console.error(`[PERF] fetchRestaurantsInViewport: FAILED after ${totalTime.toFixed(2)}ms:`, error);
+    }
+    throw error;
+  }
 }
@@ -0,0 +1,210 @@
+import {
+  SearchBoxCore,
+  type SearchBoxFeatureSuggestion,
+  type SearchBoxSuggestion,
+  type SessionToken,
+} from '@mapbox/search-js-core';
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import type {
+  GeocodeForwardRequest,
+  GeocodeForwardResult,
+  GeocodeReverseRequest,
+  GeocodeReverseResult,
+  GeocodeSuccessResponse,
+} from '../../supabase/functions/_shared/geocodeTypes';
+import type {
+  MapboxProxyErrorResponse,
+  MapboxProxyRequest,
+  MapboxRetrieveResult,
+  MapboxSuggestResult,
+} from '../../supabase/functions/_shared/mapboxProxyTypes';
+import type { SearchRegion } from '../lib/searchRegion';
+import { supabase } from '../lib/supabase';
+
+/**
+ * Where Mapbox search and geocoding requests go:
+ * - `proxy` (default): the mapbox-proxy edge function, which keeps the Mapbox token off the device
+ * - `direct`: the Search Box API straight from the app with EXPO_PUBLIC_MAPBOX_TOKEN
+ * - `fixtures`: canned answers for a few Mexican cities, no network or token needed
+ *
+ * Chosen with EXPO_PUBLIC_MAPBOX_PROVIDER. `direct` and `fixtures` only apply to development builds.
+ */
+export type MapboxProviderName = 'proxy' | 'direct' | 'fixtures';
+
+export type MapboxSuggestParams = {
+  q: string;
+  sessionToken: SessionToken;
+  region: SearchRegion;
+  proximity: { lat: number; lng: number } | null;
+  limit: number;
+};
+
+/**
+ * Every Mapbox call the app makes. Results are returned in Mapbox's own shapes, so
+ * mapboxSearchService transforms and caches them the same way whichever provider answered.
+ * null means "no answer for this request" and is cached; thrown errors are retried soon.
+ */
+export interface MapboxSearchProvider {
+  readonly name: MapboxProviderName;
+  suggest(params: MapboxSuggestParams): Promise<SearchBoxSuggestion[]>;
+  retrieve(
+    suggestion: SearchBoxSuggestion,
+    sessionToken: SessionToken,
+    language: string
+  ): Promise<SearchBoxFeatureSuggestion | null>;
+  forwardGeocode(request: GeocodeForwardRequest): Promise<GeocodeForwardResult | null>;
+  reverseGeocode(request: GeocodeReverseRequest): Promise<GeocodeReverseResult | null>;
+}
+
+const MAPBOX_TOKEN = process.env.EXPO_PUBLIC_MAPBOX_TOKEN;
+
+function configuredProviderName(): MapboxProviderName {
+  const requested = process.env.EXPO_PUBLIC_MAPBOX_PROVIDER;
+  if (__DEV__ && (requested === 'direct' || requested === 'fixtures')) return requested;
+  return 'proxy';
+}
+
+if (configuredProviderName() === 'direct' && !MAPBOX_TOKEN) {
+  console.warn('EXPO_PUBLIC_MAPBOX_PROVIDER is "direct" but EXPO_PUBLIC_MAPBOX_TOKEN is not set. Mapbox Search will not work.');
+}
+
+/**
+ * Call the mapbox-proxy edge function. A 4xx other than 429 means the request itself can't be
+ * answered (e.g. an empty query): resolves to null, which is cached like any other answer.
+ * Rate limits, 5xx and network errors throw so callers only cache them briefly.
+ */
+async function invokeMapboxProxy<T>(request: MapboxProxyRequest): Promise<T | null> {
+  const { data, error } = await supabase.functions.invoke<GeocodeSuccessResponse<T>>('mapbox-proxy', {
+    body: request,
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError) {
+      const response = error.context as Response;
+      const body = (await response.json().catch(() => null)) as MapboxProxyErrorResponse | null;
+      if (response.status >= 400 && response.status < 500 && response.status !== 429) {
+        if (__DEV__) {
+          console.warn(`[mapboxProvider] mapbox-proxy rejected ${request.mode} request:`, body?.code, body?.error);
+        }
+        return null;
+      }
+      throw new Error(body?.error ?? `Mapbox proxy failed: ${response.status}`);
+    }
+    throw error;
+  }
+
+  return data?.data ?? null;
+}
+
+export const proxyMapboxProvider: MapboxSearchProvider = {
+  name: 'proxy',
+
+  async suggest({ q, sessionToken, region, proximity, limit }) {
+    const result = await invokeMapboxProxy<MapboxSuggestResult>({
+      mode: 'suggest',
+      q,
+      sessionToken: sessionToken.id,
+      language: region.language,
+      country: region.country,
+      proximity,
+      limit,
+    });
+    // The proxy returns the Search Box API's suggestions untouched
+    return (result?.suggestions ?? []) as unknown as SearchBoxSuggestion[];
+  },
+
+  async retrieve(suggestion, sessionToken, language) {
+    const result = await invokeMapboxProxy<MapboxRetrieveResult>({
+      mode: 'retrieve',
+      mapboxId: suggestion.mapbox_id,
+      sessionToken: sessionToken.id,
+      language,
+    });
+    return (result?.feature ?? null) as SearchBoxFeatureSuggestion | null;
+  },
+
+  forwardGeocode(request) {
+    return invokeMapboxProxy<GeocodeForwardResult>(request);
+  },
+
+  reverseGeocode(request) {
+    return invokeMapboxProxy<GeocodeReverseResult>(request);
+  },
+};
+
+let searchInstance: SearchBoxCore | null = null;
+
+function getSearchInstance(): SearchBoxCore {
+  if (!MAPBOX_TOKEN) {
+    throw new Error('Mapbox token is not configured. Set EXPO_PUBLIC_MAPBOX_TOKEN.');
+  }
+
+  if (!searchInstance) {
+    searchInstance = new SearchBoxCore({
+      accessToken: MAPBOX_TOKEN,
+    });
+  }
+
+  return searchInstance;
+}
+
+// Geocoding has no client-side token path since geocode-v2; only Search Box calls go direct
+export const directMapboxProvider: MapboxSearchProvider = {
+  name: 'direct',
+
+  async suggest({ q, sessionToken, region, proximity, limit }) {
+    const response = await getSearchInstance().suggest(q, {
+      sessionToken,
+      proximity: proximity ? [proximity.lng, proximity.lat] : undefined, // [lng, lat]
+      types: 'poi', // Point of Interest only (string, not array)
+      ...(region.country ? { country: region.country } : {}), // Single country (string, not array)
+      language: region.language, // "es" gives "Ciudad de México" instead of "Mexico City"
+      limit,
+    });
+    return response?.suggestions ?? [];
+  },
+
+  async retrieve(suggestion, sessionToken, language) {
+    // Requires the original SearchBoxSuggestion object
+    const response = await getSearchInstance().retrieve(suggestion, { sessionToken, language });
+    return response?.features?.[0] ?? null;
+  },
+
+  forwardGeocode: proxyMapboxProvider.forwardGeocode,
+  reverseGeocode: proxyMapboxProvider.reverseGeocode,
+};
+
+let providerOverride: MapboxSearchProvider | null = null;
+let fixtureProvider: MapboxSearchProvider | null = null;
+
+/**
+ * Replace the provider, e.g. with a fixture provider in tests. null restores the configured one.
+ */
+export function setMapboxProvider(provider: MapboxSearchProvider | null) {
+  providerOverride = provider;
+}
+
+/**
+ * Name of the provider in use; part of every Mapbox cache key so answers never cross providers.
+ */
+export function mapboxProviderName(): MapboxProviderName {
+  return providerOverride?.name ?? configuredProviderName();
+}
+
+export async function getMapboxProvider(): Promise<MapboxSearchProvider> {
+  if (providerOverride) return providerOverride;
+
+  switch (configuredProviderName()) {
+    case 'direct':
+      return directMapboxProvider;
+    case 'fixtures':
+      // Fixtures are only parsed once this provider is picked
+      if (!fixtureProvider) {
+        const { createFixtureMapboxProvider } = await import('./fixtureMapboxProvider');
+        fixtureProvider = createFixtureMapboxProvider();
+      }
+      return fixtureProvider;
+    default:
+      return proxyMapboxProvider;
+  }
+}
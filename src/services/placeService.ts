@@ -0,0 +1,87 @@
+import { callRpc } from '../lib/rpc';
+import type { UUID } from '../types/database';
+import { normalizeRestaurantRef, parseRestaurantRef, placeIdForRef } from '../utils/restaurantRef';
+
+/**
+ * Canonical restaurant identity.
+ * Any external id (OSM node/way/relation, Mapbox POI, legacy formats) resolves to one places.id.
+ * Refs never move between places from the client, so resolved ids are memoized for the session.
+ */
+
+const placeIdByRef = new Map<string, UUID>();
+
+// "place:<uuid>" already names the place and is not a place_refs entry, so it never reaches the server
+function knownPlaceId(normalizedRef: string): UUID | null {
+  const ref = parseRestaurantRef(normalizedRef);
+  return ref ? placeIdForRef(ref) : null;
+}
+
+type PlaceHints = {
+  name: string;
+  lat?: number | null;
+  lng?: number | null;
+};
+
+/**
+ * Resolve a restaurant to its place id, registering the place if this is the first time
+ * anyone has seen it. Requires an authenticated user (used when writing rankings).
+ */
+export async function resolvePlaceId(refs: string | Array<string | null | undefined>, hints: PlaceHints): Promise<UUID> {
+  const normalized = (Array.isArray(refs) ? refs : [refs])
+    .map((r) => normalizeRestaurantRef(r))
+    .filter((r): r is string => !!r);
+
+  if (normalized.length === 0) {
+    throw new Error('Invalid restaurant reference');
+  }
+
+  const known = normalized.map(knownPlaceId).find(Boolean);
+  if (known) return known;
+
+  const cached = normalized.map((r) => placeIdByRef.get(r)).find(Boolean);
+  if (cached && normalized.every((r) => placeIdByRef.has(r))) return cached;
+
+  const placeId = await callRpc('resolve_place', {
+    refs: normalized,
+    name_param: hints.name,
+    lat_param: hints.lat ?? null,
+    lng_param: hints.lng ?? null,
+  });
+  for (const ref of normalized) placeIdByRef.set(ref, placeId);
+  return placeId;
+}
+
+/**
+ * Look up place ids for a batch of external ids without creating anything.
+ * Refs that have never been ranked are simply missing from the result.
+ * Keys are the refs exactly as passed in.
+ */
+export async function lookupPlaceIds(refs: string[]): Promise<Map<string, UUID>> {
+  const result = new Map<string, UUID>();
+  const missing: string[] = [];
+
+  for (const ref of refs) {
+    const normalized = normalizeRestaurantRef(ref);
+    if (!normalized) continue;
+    const cached = knownPlaceId(normalized) ?? placeIdByRef.get(normalized);
+    if (cached) result.set(ref, cached);
+    else missing.push(ref);
+  }
+
+  if (missing.length === 0) return result;
+
+  const rows = await callRpc('get_place_ids', { refs: missing });
+
+  for (const row of rows) {
+    result.set(row.ref, row.place_id);
+    const normalized = normalizeRestaurantRef(row.ref);
+    if (normalized) placeIdByRef.set(normalized, row.place_id);
+  }
+
+  return result;
+}
+
+export async function lookupPlaceId(ref: string): Promise<UUID | null> {
+  const ids = await lookupPlaceIds([ref]);
+  return ids.get(ref) ?? null;
+}
@@ -0,0 +1,74 @@
+import { callRpc, type RpcResult } from '../lib/rpc';
+import { supabase } from '../lib/supabase';
+import type {
+  DishLeaderboardEntry,
+  DishNameSuggestion,
+  DishPriceHistoryEntry,
+  PlaceDish,
+  Platillo,
+  PriceHistoryBucket,
+  UUID,
+} from '../types/database';
+
+/**
+ * Dishes (platillos) at a place. Every distinct dish name ranked at a place has a
+ * platillos row, created by the database when the ranking is saved, so rankings and
+ * UP/DOWN votes (voteService) refer to the same dish.
+ */
+
+function toPlaceDish(row: RpcResult<'get_place_dishes'>[number]): PlaceDish {
+  return { ...row, avg_score: row.avg_score ?? 0 };
+}
+
+/**
+ * Ranked dishes at a place, star dish first (average score plus a bounded vote bonus).
+ */
+export async function getPlaceDishes(placeId: UUID): Promise<PlaceDish[]> {
+  const rows = await callRpc('get_place_dishes', { place_id_param: placeId });
+  return rows.map(toPlaceDish);
+}
+
+export async function getPlatillo(platilloId: UUID): Promise<Platillo | null> {
+  const { data, error } = await supabase.from('platillos').select('*').eq('id', platilloId).maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Dishes at a place ranked by confidence-weighted score, with raw average, count, confidence and agreed tags.
+ * Unlike getPlaceDishes this ignores votes, and dishes with few rankings are pulled toward the global mean.
+ */
+export async function getRestaurantDishLeaderboard(placeId: UUID): Promise<DishLeaderboardEntry[]> {
+  const rows = await callRpc('get_restaurant_dish_leaderboard', { place_id_param: placeId });
+  return rows.map((row) => ({ ...row, tags: row.tags ?? [] }));
+}
+
+/**
+ * Median, min and max price of each dish at a place per period, newest period first.
+ * Only rankings with a price count; pass platilloId to get a single dish.
+ */
+export async function getDishPriceHistory(
+  placeId: UUID,
+  options: { platilloId?: UUID; bucket?: PriceHistoryBucket } = {}
+): Promise<DishPriceHistoryEntry[]> {
+  return callRpc('get_dish_price_history', {
+    place_id_param: placeId,
+    platillo_id_param: options.platilloId ?? null,
+    bucket: options.bucket ?? 'month',
+  });
+}
+
+/**
+ * Existing dish names at a place close to what the user is typing, so "taco al pastor" is
+ * offered "Tacos al Pastor" instead of creating a near-duplicate dish.
+ */
+export async function suggestDishNames(placeId: UUID, query: string, limit = 5): Promise<DishNameSuggestion[]> {
+  if (!query.trim()) return [];
+
+  return callRpc('suggest_dish_names', {
+    place_id_param: placeId,
+    query,
+    limit_count: limit,
+  });
+}
@@ -0,0 +1,224 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { isNetworkError, isRetryableError } from '../lib/network';
+import type { DishRanking, DishRankingInput } from '../types/database';
+import { submitDishRanking } from './dishRankingService';
+import { uploadDishPhoto } from './storageService';
+
+/**
+ * Outbox for rankings that could not be submitted because the network was down.
+ * Entries are persisted in AsyncStorage (so they survive restarts) and retried with
+ * exponential backoff. Each entry keeps the client_request_id it was first submitted
+ * with, so a retry after a lost response returns the existing row instead of a duplicate.
+ * Only network and server errors are retried; anything else (rate limit, validation,
+ * permissions) marks the entry failed until the user retries or discards it.
+ */
+
+const STORAGE_KEY = 'star-dish:ranking-outbox';
+const BASE_RETRY_MS = 5_000;
+const MAX_RETRY_MS = 10 * 60_000;
+
+export type PendingRankingStatus = 'pending' | 'failed';
+
+export type PendingRanking = {
+  clientRequestId: string;
+  status: PendingRankingStatus; // Entries stored before this field existed are pending
+  input: DishRankingInput; // image_url/thumbnail_url are filled in once the photo has been uploaded
+  imageUri: string | null; // Local photo still waiting to be uploaded
+  queuedAt: number;
+  attempts: number;
+  nextAttemptAt: number;
+  lastError: string | null;
+};
+
+type OutboxListener = (pending: PendingRanking[]) => void;
+type SyncedListener = (ranking: DishRanking, entry: PendingRanking) => void;
+
+let queue: PendingRanking[] | null = null;
+let loading: Promise<PendingRanking[]> | null = null;
+let flushing: Promise<void> | null = null;
+const outboxListeners = new Set<OutboxListener>();
+const syncedListeners = new Set<SyncedListener>();
+
+/**
+ * RFC 4122 v4 id for idempotent submissions (Hermes has no crypto.randomUUID).
+ */
+export function createClientRequestId(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, (c) => {
+    const r = (Math.random() * 16) | 0;
+    return (c === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+  });
+}
+
+function isAuthError(error: unknown): boolean {
+  return error instanceof Error && error.message === 'Not authenticated';
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_MS);
+}
+
+async function loadQueue(): Promise<PendingRanking[]> {
+  if (queue) return queue;
+  if (!loading) {
+    loading = AsyncStorage.getItem(STORAGE_KEY)
+      .then((raw) => {
+        const parsed = raw ? JSON.parse(raw) : [];
+        queue = Array.isArray(parsed) ? (parsed as PendingRanking[]) : [];
+        return queue;
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[rankingOutbox] Failed to read outbox:', error);
+        queue = [];
+        return queue;
+      })
+      .finally(() => {
+        loading = null;
+      });
+  }
+  return loading;
+}
+
+async function saveQueue(next: PendingRanking[]): Promise<void> {
+  queue = next;
+  for (const listener of outboxListeners) listener(next);
+  try {
+    await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  } catch (error) {
+    if (__DEV__) console.warn('[rankingOutbox] Failed to persist outbox:', error);
+  }
+}
+
+async function updateEntry(clientRequestId: string, changes: Partial<PendingRanking>): Promise<void> {
+  const current = await loadQueue();
+  await saveQueue(current.map((e) => (e.clientRequestId === clientRequestId ? { ...e, ...changes } : e)));
+}
+
+async function removeEntry(clientRequestId: string): Promise<void> {
+  const current = await loadQueue();
+  await saveQueue(current.filter((e) => e.clientRequestId !== clientRequestId));
+}
+
+export async function getPendingRankings(): Promise<PendingRanking[]> {
+  return loadQueue();
+}
+
+/**
+ * Queue a ranking for background submission. Keep the client_request_id of the failed
+ * attempt on `input`, so a request that did reach the server is not inserted twice.
+ */
+export async function enqueueRanking(input: DishRankingInput, imageUri: string | null): Promise<PendingRanking> {
+  const clientRequestId = input.client_request_id ?? createClientRequestId();
+  const now = Date.now();
+  const entry: PendingRanking = {
+    clientRequestId,
+    status: 'pending',
+    input: { ...input, client_request_id: clientRequestId },
+    imageUri: input.image_url ? null : imageUri,
+    queuedAt: now,
+    attempts: 0,
+    nextAttemptAt: now + BASE_RETRY_MS,
+    lastError: null,
+  };
+
+  const current = await loadQueue();
+  await saveQueue([...current.filter((e) => e.clientRequestId !== clientRequestId), entry]);
+  return entry;
+}
+
+export async function discardPendingRanking(clientRequestId: string): Promise<void> {
+  await removeEntry(clientRequestId);
+}
+
+/**
+ * Put a failed entry back in line and submit it right away.
+ */
+export async function retryPendingRanking(clientRequestId: string): Promise<void> {
+  await updateEntry(clientRequestId, { status: 'pending', nextAttemptAt: Date.now() });
+  await flushRankingOutbox(true);
+}
+
+function isFailed(entry: PendingRanking): boolean {
+  return entry.status === 'failed';
+}
+
+async function submitEntry(entry: PendingRanking): Promise<DishRanking> {
+  let input = entry.input;
+
+  if (entry.imageUri && !input.image_url) {
+    const photo = await uploadDishPhoto(entry.imageUri);
+    input = { ...input, image_url: photo.url, thumbnail_url: photo.thumbnailUrl };
+    // Remember the upload so a failed insert doesn't upload the photo again
+    await updateEntry(entry.clientRequestId, { input, imageUri: null });
+  }
+
+  return submitDishRanking(input);
+}
+
+async function runFlush(force: boolean): Promise<void> {
+  const entries = await loadQueue();
+  const now = Date.now();
+
+  for (const entry of entries) {
+    if (isFailed(entry)) continue;
+    if (!force && entry.nextAttemptAt > now) continue;
+
+    try {
+      const ranking = await submitEntry(entry);
+      await removeEntry(entry.clientRequestId);
+      for (const listener of syncedListeners) listener(ranking, entry);
+    } catch (error) {
+      // Signed out: leave everything queued until a session is back
+      if (isAuthError(error)) return;
+
+      const attempts = entry.attempts + 1;
+      await updateEntry(entry.clientRequestId, {
+        status: isRetryableError(error) ? 'pending' : 'failed',
+        attempts,
+        nextAttemptAt: Date.now() + retryDelay(attempts),
+        lastError: error instanceof Error ? error.message : String(error),
+      });
+
+      // Still offline: the remaining entries would fail the same way
+      if (isNetworkError(error)) return;
+      if (__DEV__) console.warn('[rankingOutbox] Failed to submit queued ranking:', error);
+    }
+  }
+}
+
+/**
+ * Submit queued rankings whose retry time has come (all of them with force, e.g. when the
+ * app returns to the foreground). Concurrent calls share one run.
+ */
+export function flushRankingOutbox(force = false): Promise<void> {
+  if (!flushing) {
+    flushing = runFlush(force).finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+}
+
+/**
+ * Milliseconds until the next queued ranking is due, or null if nothing is waiting for a retry.
+ */
+export function getNextRetryDelay(pending: PendingRanking[]): number | null {
+  const waiting = pending.filter((e) => !isFailed(e));
+  if (waiting.length === 0) return null;
+  const next = Math.min(...waiting.map((e) => e.nextAttemptAt));
+  return Math.max(next - Date.now(), 0);
+}
+
+export function subscribeToRankingOutbox(listener: OutboxListener): () => void {
+  outboxListeners.add(listener);
+  return () => {
+    outboxListeners.delete(listener);
+  };
+}
+
+export function subscribeToSyncedRankings(listener: SyncedListener): () => void {
+  syncedListeners.add(listener);
+  return () => {
+    syncedListeners.delete(listener);
+  };
+}
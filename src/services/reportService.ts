@@ -0,0 +1,61 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+
+import { isNetworkError } from '../lib/network';
+import { supabase } from '../lib/supabase';
+import type { ReportReason, ReportTarget, UUID } from '../types/database';
+
+export type ReportContentInput = {
+  rankingId: UUID;
+  target: ReportTarget;
+  reason: ReportReason;
+  details?: string | null;
+};
+
+export type ReportContentResult = {
+  alreadyReported: boolean; // This user had already reported the same target
+  hidden: boolean; // The report pushed the ranking over the auto-hide threshold
+  reportCount: number;
+};
+
+/**
+ * Report a ranking or its photo for moderation.
+ * Goes through the report-content edge function, which records the report and hides the
+ * ranking once enough different users have reported it.
+ */
+export async function reportContent(input: ReportContentInput): Promise<ReportContentResult> {
+  const {
+    data: { user },
+    error: authError,
+  } = await supabase.auth.getUser();
+
+  if (authError && isNetworkError(authError)) throw authError;
+  if (!user) {
+    throw new Error('Not authenticated');
+  }
+
+  const { data, error } = await supabase.functions.invoke<{ data?: ReportContentResult; error?: string }>(
+    'report-content',
+    {
+      body: {
+        ranking_id: input.rankingId,
+        target: input.target,
+        reason: input.reason,
+        details: input.details ?? null,
+      },
+    }
+  );
+
+  if (error) {
+    // The function answers with { error } and a 4xx/5xx status; surface its message
+    if (error instanceof FunctionsHttpError) {
+      const body = await (error.context as Response).json().catch(() => null);
+      if (typeof body?.error === 'string') throw new Error(body.error);
+    }
+    throw error;
+  }
+  if (!data?.data) {
+    throw new Error(data?.error ?? 'Failed to report content');
+  }
+
+  return data.data;
+}
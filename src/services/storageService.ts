@@ -1,44 +1,107 @@
+import { prepareDishPhoto, type PreparedPhoto } from '../lib/imageProcessing';
+import { isNetworkError } from '../lib/network';
 import { supabase } from '../lib/supabase';
 
+export type UploadedDishPhoto = {
+  url: string;
+  thumbnailUrl: string;
+};
+
+async function uploadPreparedPhoto(path: string, photo: PreparedPhoto): Promise<string> {
+  // Read the processed file as a blob
+  const response = await fetch(photo.uri);
+  const blob = await response.blob();
+
+  const { data, error } = await supabase.storage
+    .from('dish-photos')
+    .upload(path, blob, {
+      contentType: photo.contentType,
+      upsert: false,
+    });
+
+  if (error) {
+    throw new Error(`Failed to upload image: ${error.message}`, { cause: error });
+  }
+
+  const {
+    data: { publicUrl },
+  } = supabase.storage.from('dish-photos').getPublicUrl(data.path);
+
+  return publicUrl;
+}
+
 /**
- * Upload an image file to Supabase Storage.
- * Returns the public URL of the uploaded image.
+ * Upload a picked photo to Supabase Storage.
+ * The photo is resized and re-encoded first (dropping EXIF/GPS metadata), and a thumbnail is
+ * uploaded alongside it. Returns the public URLs of both.
  */
-export async function uploadDishPhoto(imageUri: string): Promise<string> {
+export async function uploadDishPhoto(imageUri: string): Promise<UploadedDishPhoto> {
   const {
     data: { user },
+    error: authError,
   } = await supabase.auth.getUser();
 
+  // getUser() fails offline; rethrow so callers can queue the upload instead of asking to sign in
+  if (authError && isNetworkError(authError)) throw authError;
   if (!user) {
     throw new Error('Not authenticated');
   }
 
-  // Generate a unique filename
+  const { full, thumbnail } = await prepareDishPhoto(imageUri);
+
+  // Generate a unique filename; the thumbnail sits next to the full image
   const timestamp = Date.now();
   const randomId = Math.random().toString(36).substring(2, 15);
-  const fileExt = imageUri.split('.').pop()?.split('?')[0] || 'jpg';
-  const fileName = `${user.id}/${timestamp}-${randomId}.${fileExt}`;
+  const baseName = `${user.id}/${timestamp}-${randomId}`;
 
-  // Read the file as a blob
-  const response = await fetch(imageUri);
-  const blob = await response.blob();
+  const url = await uploadPreparedPhoto(`${baseName}.${full.extension}`, full);
+  try {
+    const thumbnailUrl = await uploadPreparedPhoto(`${baseName}-thumb.${thumbnail.extension}`, thumbnail);
+    return { url, thumbnailUrl };
+  } catch (error) {
+    // Don't leave a full-size photo behind that no ranking will reference
+    await deleteDishPhoto(url).catch(() => undefined);
+    throw error;
+  }
+}
 
-  // Upload to Supabase Storage
-  const { data, error } = await supabase.storage
-    .from('dish-photos')
-    .upload(fileName, blob, {
-      contentType: blob.type || 'image/jpeg',
-      upsert: false,
-    });
+/**
+ * Storage path (e.g. "<user-id>/123-abc.jpg") for a public dish-photos URL.
+ * Returns null for URLs that don't point into the bucket (sample photos, external images).
+ */
+export function getDishPhotoPath(publicUrl: string): string | null {
+  const marker = '/storage/v1/object/public/dish-photos/';
+  const index = publicUrl.indexOf(marker);
+  if (index === -1) return null;
+  const path = publicUrl.slice(index + marker.length).split('?')[0];
+  return path ? decodeURIComponent(path) : null;
+}
+
+/**
+ * Remove a previously uploaded dish photo.
+ * Storage RLS only lets users delete files in their own folder.
+ */
+export async function deleteDishPhoto(publicUrl: string): Promise<void> {
+  const path = getDishPhotoPath(publicUrl);
+  if (!path) return;
+
+  const { error } = await supabase.storage.from('dish-photos').remove([path]);
 
   if (error) {
-    throw new Error(`Failed to upload image: ${error.message}`);
+    throw new Error(`Failed to delete image: ${error.message}`);
   }
+}
 
-  // Get the public URL
-  const {
-    data: { publicUrl },
-  } = supabase.storage.from('dish-photos').getPublicUrl(data.path);
+/**
+ * Remove both files of an upload that no ranking ended up using (e.g. the ranking update failed).
+ */
+export async function deleteUploadedDishPhoto(photo: UploadedDishPhoto): Promise<void> {
+  const paths = [photo.url, photo.thumbnailUrl].map(getDishPhotoPath).filter((path): path is string => !!path);
+  if (paths.length === 0) return;
 
-  return publicUrl;
+  const { error } = await supabase.storage.from('dish-photos').remove(paths);
+
+  if (error) {
+    throw new Error(`Failed to delete image: ${error.message}`);
+  }
 }
@@ -1,6 +1,15 @@
-import type { VoteType } from '../types/database';
+import type { PlatilloVoteCounts, UUID, VoteType } from '../types/database';
+import { callRpc } from '../lib/rpc';
 import { supabase } from '../lib/supabase';
 
+/**
+ * The vote a user ends up with after pressing `pressed`, mirroring `toggle_platillo_vote`:
+ * no vote adds it, the same vote removes it, the opposite vote flips it.
+ */
+export function nextVoteState(current: VoteType | null, pressed: VoteType): VoteType | null {
+  return current === pressed ? null : pressed;
+}
+
 /**
  * Atomic vote toggle using Supabase RPC `toggle_platillo_vote`.
  *
@@ -20,14 +29,32 @@ export async function togglePlatilloVote(
   if (!user) throw new Error('Not authenticated');
   if (userId && user.id !== userId) throw new Error('User mismatch');
 
-  const { error } = await supabase.rpc('toggle_platillo_vote', {
+  await callRpc('toggle_platillo_vote', {
     platillo_id: platilloId,
     vote_type: voteType,
   });
-
-  if (error) throw error;
 }
 
+/**
+ * Aggregated vote counts for a batch of platillos via RPC `get_platillo_vote_counts`.
+ * Every requested id is present in the result, with zero counts if it has no votes.
+ */
+export async function getPlatilloVoteCounts(platilloIds: UUID[]): Promise<Map<UUID, PlatilloVoteCounts>> {
+  const result = new Map<UUID, PlatilloVoteCounts>();
+  if (platilloIds.length === 0) return result;
 
+  const rows = await callRpc('get_platillo_vote_counts', {
+    platillo_ids: platilloIds,
+  });
 
+  for (const row of rows) {
+    result.set(row.platillo_id, {
+      up: row.up_votes,
+      down: row.down_votes,
+      net: row.net_score,
+      myVote: row.my_vote,
+    });
+  }
 
+  return result;
+}
@@ -0,0 +1,110 @@
+import { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState, type PropsWithChildren } from 'react';
+import { AppState, Platform } from 'react-native';
+
+import { supabase } from '../lib/supabase';
+import {
+  discardPendingRanking,
+  enqueueRanking,
+  flushRankingOutbox,
+  getNextRetryDelay,
+  getPendingRankings,
+  retryPendingRanking,
+  subscribeToRankingOutbox,
+  subscribeToSyncedRankings,
+  type PendingRanking,
+} from '../services/rankingOutboxService';
+import type { DishRanking, DishRankingInput } from '../types/database';
+
+type SyncedEvent = { ranking: DishRanking; entry: PendingRanking; nonce: number };
+
+type RankingOutboxContextValue = {
+  pendingRankings: PendingRanking[]; // Failed entries included, with status 'failed'
+  lastSynced: SyncedEvent | null;
+  queueRanking: (input: DishRankingInput, imageUri: string | null) => Promise<void>;
+  discardRanking: (clientRequestId: string) => Promise<void>;
+  retryRanking: (clientRequestId: string) => Promise<void>;
+};
+
+const RankingOutboxContext = createContext<RankingOutboxContextValue | null>(null);
+
+/**
+ * Keeps the ranking outbox draining: retries on its backoff schedule, and immediately when
+ * the app returns to the foreground, the browser comes back online, or the user signs in.
+ * Rankings the server rejected stay listed as failed until the user retries or discards them.
+ */
+export function RankingOutboxProvider({ children }: PropsWithChildren) {
+  const [pendingRankings, setPendingRankings] = useState<PendingRanking[]>([]);
+  const [lastSynced, setLastSynced] = useState<SyncedEvent | null>(null);
+  const counterRef = useRef(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    getPendingRankings().then((pending) => {
+      if (!cancelled) setPendingRankings(pending);
+    });
+
+    const unsubscribeOutbox = subscribeToRankingOutbox(setPendingRankings);
+    const unsubscribeSynced = subscribeToSyncedRankings((ranking, entry) => {
+      counterRef.current += 1;
+      setLastSynced({ ranking, entry, nonce: counterRef.current });
+    });
+
+    void flushRankingOutbox(true);
+
+    const appStateSub = AppState.addEventListener('change', (state) => {
+      if (state === 'active') void flushRankingOutbox(true);
+    });
+    const { data: authSub } = supabase.auth.onAuthStateChange((event) => {
+      if (event === 'SIGNED_IN') void flushRankingOutbox(true);
+    });
+
+    const handleOnline = () => void flushRankingOutbox(true);
+    if (Platform.OS === 'web' && typeof window !== 'undefined') {
+      window.addEventListener('online', handleOnline);
+    }
+
+    return () => {
+      cancelled = true;
+      unsubscribeOutbox();
+      unsubscribeSynced();
+      appStateSub.remove();
+      authSub.subscription.unsubscribe();
+      if (Platform.OS === 'web' && typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline);
+      }
+    };
+  }, []);
+
+  // Wake up when the earliest queued ranking is due
+  useEffect(() => {
+    const delay = getNextRetryDelay(pendingRankings);
+    if (delay == null) return;
+    const timeout = setTimeout(() => void flushRankingOutbox(), delay);
+    return () => clearTimeout(timeout);
+  }, [pendingRankings]);
+
+  const queueRanking = useCallback(async (input: DishRankingInput, imageUri: string | null) => {
+    await enqueueRanking(input, imageUri);
+  }, []);
+
+  const discardRanking = useCallback(async (clientRequestId: string) => {
+    await discardPendingRanking(clientRequestId);
+  }, []);
+
+  const retryRanking = useCallback(async (clientRequestId: string) => {
+    await retryPendingRanking(clientRequestId);
+  }, []);
+
+  const value = useMemo<RankingOutboxContextValue>(
+    () => ({ pendingRankings, lastSynced, queueRanking, discardRanking, retryRanking }),
+    [pendingRankings, lastSynced, queueRanking, discardRanking, retryRanking]
+  );
+
+  return <RankingOutboxContext.Provider value={value}>{children}</RankingOutboxContext.Provider>;
+}
+
+export function useRankingOutbox() {
+  const ctx = useContext(RankingOutboxContext);
+  if (!ctx) throw new Error('useRankingOutbox must be used within RankingOutboxProvider');
+  return ctx;
+}
@@ -9,6 +9,7 @@ export type SearchState = {
 };
 
 export type RecommendationsState = {
+  saved: RestaurantWithRanking[];
   recentlyViewed: RestaurantWithRanking[];
   topPicks: RestaurantWithRanking[];
   bestRated: RestaurantWithRanking[];
@@ -32,6 +33,7 @@ const INITIAL_STATE: SearchState = {
 };
 
 const INITIAL_RECOMMENDATIONS: RecommendationsState = {
+  saved: [],
   recentlyViewed: [],
   topPicks: [],
   bestRated: [],
@@ -1,26 +1,84 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { createContext, useCallback, useContext, useEffect, useMemo, useState, type PropsWithChildren } from 'react';
 
 import { setHapticsEnabled as setLibHapticsEnabled } from '../lib/haptics';
+import {
+  setSearchRegionSettings,
+  type SearchCountrySetting,
+  type SearchLanguageSetting,
+} from '../lib/searchRegion';
+
+const SEARCH_REGION_STORAGE_KEY = 'star-dish:search-region';
 
 type Settings = {
   hapticsEnabled: boolean;
   setHapticsEnabled: (enabled: boolean) => void;
+  searchCountry: SearchCountrySetting;
+  setSearchCountry: (country: SearchCountrySetting) => void;
+  searchLanguage: SearchLanguageSetting;
+  setSearchLanguage: (language: SearchLanguageSetting) => void;
 };
 
 const SettingsContext = createContext<Settings | null>(null);
 
 export function SettingsProvider({ children }: PropsWithChildren) {
   const [hapticsEnabled, setHapticsEnabledState] = useState(true);
+  const [searchCountry, setSearchCountryState] = useState<SearchCountrySetting>('auto');
+  const [searchLanguage, setSearchLanguageState] = useState<SearchLanguageSetting>('auto');
+  const [searchRegionLoaded, setSearchRegionLoaded] = useState(false);
 
   useEffect(() => {
     setLibHapticsEnabled(hapticsEnabled);
   }, [hapticsEnabled]);
 
+  // The search region override survives restarts; a user abroad should not have to set it again
+  useEffect(() => {
+    AsyncStorage.getItem(SEARCH_REGION_STORAGE_KEY)
+      .then((raw) => {
+        const saved = raw ? JSON.parse(raw) : null;
+        if (typeof saved?.country === 'string') setSearchCountryState(saved.country);
+        if (typeof saved?.language === 'string') setSearchLanguageState(saved.language);
+      })
+      .catch((error) => {
+        if (__DEV__) console.warn('[SettingsContext] Failed to read search region:', error);
+      })
+      .finally(() => setSearchRegionLoaded(true));
+  }, []);
+
+  useEffect(() => {
+    setSearchRegionSettings(searchCountry, searchLanguage);
+    if (!searchRegionLoaded) return;
+    AsyncStorage.setItem(
+      SEARCH_REGION_STORAGE_KEY,
+      JSON.stringify({ country: searchCountry, language: searchLanguage })
+    ).catch((error) => {
+      if (__DEV__) console.warn('[SettingsContext] Failed to save search region:', error);
+    });
+  }, [searchCountry, searchLanguage, searchRegionLoaded]);
+
   const setHapticsEnabled = useCallback((enabled: boolean) => {
     setHapticsEnabledState(enabled);
   }, []);
 
-  const value = useMemo<Settings>(() => ({ hapticsEnabled, setHapticsEnabled }), [hapticsEnabled, setHapticsEnabled]);
+  const setSearchCountry = useCallback((country: SearchCountrySetting) => {
+    setSearchCountryState(country);
+  }, []);
+
+  const setSearchLanguage = useCallback((language: SearchLanguageSetting) => {
+    setSearchLanguageState(language);
+  }, []);
+
+  const value = useMemo<Settings>(
+    () => ({
+      hapticsEnabled,
+      setHapticsEnabled,
+      searchCountry,
+      setSearchCountry,
+      searchLanguage,
+      setSearchLanguage,
+    }),
+    [hapticsEnabled, setHapticsEnabled, searchCountry, setSearchCountry, searchLanguage, setSearchLanguage]
+  );
 
   return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
 }
@@ -30,7 +88,3 @@ export function useSettings() {
   if (!ctx) throw new Error('useSettings must be used within SettingsProvider');
   return ctx;
 }
-
-
-
-
@@ -1,16 +1,14 @@
+import type { Enums, Tables } from './supabase';
+
+// Table rows come from the generated types (supabase.ts) so they follow the migrations;
+// the shapes below add what the app layers on top (joined data, narrowed text columns).
+
 export type UUID = string;
 export type IsoDateTime = string;
 
-export type VoteType = 'UP' | 'DOWN';
+export type VoteType = Enums<'vote_type'>;
 
-export interface Profile {
-  id: UUID;
-  username: string | null;
-  full_name: string | null;
-  avatar_url: string | null;
-  created_at: IsoDateTime;
-  updated_at: IsoDateTime;
-}
+export type Profile = Tables<'profiles'>;
 
 export interface Restaurant {
   id: UUID;
@@ -40,33 +38,13 @@ export interface Restaurant {
   address_country?: string | null;
 }
 
-export interface Platillo {
-  id: UUID;
-  restaurant_id: UUID;
-  name: string;
-  description: string | null;
-  created_at: IsoDateTime;
-  updated_at: IsoDateTime;
-}
+// restaurant_id points at the legacy restaurants table and is null for dishes materialized
+// from rankings, which have place_id instead. name_key is normalize_dish_name(name).
+export type Platillo = Tables<'platillos'>;
 
-export interface Review {
-  id: UUID;
-  user_id: UUID;
-  restaurant_id: UUID;
-  rating: number; // 1..5 (enforced in DB)
-  content: string | null;
-  created_at: IsoDateTime;
-  updated_at: IsoDateTime;
-}
+export type Review = Tables<'reviews'>; // rating is 1..5 (enforced in DB)
 
-export interface Vote {
-  id: UUID;
-  user_id: UUID;
-  platillo_id: UUID;
-  vote_type: VoteType;
-  created_at: IsoDateTime;
-  updated_at: IsoDateTime;
-}
+export type Vote = Tables<'votes'>;
 
 // Map query shapes
 export type ViewportBounds = {
@@ -78,12 +56,99 @@ export type ViewportBounds = {
 
 export type RestaurantWithRanking = Restaurant & {
   top_dish_net_score: number;
+  place_id?: UUID | null; // Canonical places.id once the restaurant has been ranked
+  review_count?: number;
+  weighted_score?: number; // Bayesian average of rankings; top_dish_net_score holds the raw average
+  confidence?: number; // 0-1, grows with review_count
+  star_dish_name?: string | null; // Best-scored dish at this place
+  star_dish_score?: number | null;
+  dish_tags?: DishTag[]; // Tags agreed on for at least one of its dishes
+  median_price_cents?: number | null; // Typical dish price across its rankings; null if none have a price
 };
 
+// Canonical restaurant identity (places table). External ids live in place_refs.
+export type Place = Omit<Tables<'places'>, 'location'>;
+
+export interface PlaceRef {
+  ref: string; // Canonical external id, e.g. osm:node:123 or mapbox:poi.123456789
+  place_id: UUID;
+  provider: 'osm' | 'mapbox';
+  created_at: IsoDateTime;
+}
+
+// Saved restaurant (user_favorites), keyed by canonical place
+export type UserFavorite = Tables<'user_favorites'>;
+
 // RPC result shapes
 // get_star_dish(restaurant_id) returns a single platillo UUID (or null if none).
 export type GetStarDishResult = UUID | null;
 
+// get_platillo_vote_counts(platillo_ids) returns one row per requested platillo.
+export type PlatilloVoteCounts = {
+  up: number;
+  down: number;
+  net: number;
+  myVote: VoteType | null; // The signed-in user's vote, null if none or signed out
+};
+
+// get_place_dishes(place_id) returns ranked dishes at a place, star dish first.
+export type PlaceDish = {
+  platillo_id: UUID;
+  name: string;
+  avg_score: number;
+  ranking_count: number;
+  up_votes: number;
+  down_votes: number;
+  star_score: number; // avg_score plus a bounded vote bonus
+};
+
+// suggest_dish_names(place_id, query) returns existing dishes similar to typed input.
+export type DishNameSuggestion = {
+  platillo_id: UUID;
+  name: string;
+  ranking_count: number;
+  similarity: number; // pg_trgm similarity of the normalized names, 0-1
+};
+
+// get_restaurant_dish_leaderboard(place_id) returns dishes by confidence-weighted score.
+export type DishLeaderboardEntry = {
+  platillo_id: UUID;
+  dish_name: string;
+  avg_score: number;
+  review_count: number;
+  weighted_score: number;
+  confidence: number;
+  tags: DishTag[];
+};
+
+// get_dish_price_history(place_id) returns one row per dish per period, newest period first.
+export type DishPriceHistoryEntry = {
+  platillo_id: UUID;
+  dish_name: string;
+  period_start: string; // YYYY-MM-DD, first day of the period
+  median_price_cents: number;
+  min_price_cents: number;
+  max_price_cents: number;
+  price_count: number;
+};
+
+export type PriceHistoryBucket = 'week' | 'month' | 'quarter' | 'year';
+
+// search_dishes(query) returns one row per matching dish per place, best first.
+export type DishSearchResult = {
+  place_id: UUID;
+  place_ref: string | null; // Canonical external ref, e.g. mapbox:poi.123 or osm:node:456
+  restaurant_name: string;
+  lat: number | null;
+  lng: number | null;
+  platillo_id: UUID;
+  dish_name: string;
+  avg_score: number;
+  review_count: number;
+  weighted_score: number;
+  relevance: number;
+};
+
 // Optional: get_dish_ranking_for_restaurant returns SETOF jsonb.
 export type DishRankingRow = {
   platillo_id: UUID;
@@ -91,34 +156,69 @@ export type DishRankingRow = {
   net_score: number;
 };
 
-// User-submitted dish ranking (stored in dish_rankings table).
-export interface DishRanking {
-  id: UUID;
-  user_id: UUID;
-  osm_id: string;
-  restaurant_name: string;
-  dish_name: string;
-  price_cents: number | null;
-  ingredients: string | null;
-  score: number; // 0-10
-  image_url: string | null;
-  mapbox_id?: string | null; // Mapbox feature ID (e.g., poi.123456789) for exact matching
-  created_at: IsoDateTime;
-  updated_at: IsoDateTime;
-}
+export type ModerationState = 'pending' | 'approved' | 'hidden';
+
+// Structured dish tags (dish_ranking_tags). A ranking has at most one spicy_* level.
+export type DishTag =
+  | 'vegetarian'
+  | 'vegan'
+  | 'gluten_free'
+  | 'spicy_mild'
+  | 'spicy_medium'
+  | 'spicy_hot'
+  | 'contains_nuts'
+  | 'contains_seafood';
+
+// User-submitted dish ranking (dish_rankings row).
+// place_id is the canonical restaurant; osm_id the legacy external id (numeric OSM id or mapbox:xxx).
+// platillo_id and dish_key are set by the database, thumbnail_url is null on older rankings and
+// client_request_id is set when submitted through the offline outbox.
+export type DishRanking = Omit<Tables<'dish_rankings'>, 'search_vector' | 'moderation_state'> & {
+  moderation_state: ModerationState; // Hidden rankings are only returned to their owner
+  tags?: DishTag[]; // Embedded from dish_ranking_tags; missing on RPC results
+};
 
 // Input shape for submitting a new dish ranking (omits server-generated fields).
+// The restaurant is identified by any external ref; the service resolves it to a place_id.
 export type DishRankingInput = {
-  osm_id: string;
+  restaurant_ref: string; // e.g. osm:node:123 or mapbox:poi.123456789
   restaurant_name: string;
+  restaurant_lat?: number | null;
+  restaurant_lng?: number | null;
   dish_name: string;
   price_cents?: number | null;
   ingredients?: string | null;
+  tags?: DishTag[];
   score: number;
   image_url?: string | null;
-  mapbox_id?: string | null;
+  thumbnail_url?: string | null;
+  client_request_id?: string | null; // Idempotency key; resubmitting the same key returns the existing row
 };
 
+// Fields an owner can change on an existing ranking. The restaurant cannot be changed.
+export type DishRankingUpdate = Partial<
+  Pick<DishRankingInput, 'dish_name' | 'price_cents' | 'ingredients' | 'tags' | 'score' | 'image_url' | 'thumbnail_url'>
+>;
+
+// One photo in a restaurant's gallery, taken from a ranking that has an image.
+export type DishPhoto = Pick<DishRanking, 'id' | 'user_id' | 'dish_name' | 'score' | 'image_url' | 'thumbnail_url' | 'created_at'> & {
+  image_url: string;
+};
+
+export type ReportTarget = 'ranking' | 'photo';
+export type ReportReason = 'inappropriate' | 'spam' | 'wrong_restaurant' | 'other';
+
+// content_reports row; users can read their own reports.
+export interface ContentReport {
+  id: UUID;
+  ranking_id: UUID;
+  reporter_id: UUID;
+  target: ReportTarget;
+  reason: ReportReason;
+  details: string | null;
+  created_at: IsoDateTime;
+}
+
 // Mapbox Search types
 export interface MapboxSuggestion {
   mapbox_id: string; // Feature ID (e.g., "poi.123456789")
@@ -0,0 +1,1018 @@
+/**
+ * Database types for the Supabase client, in the format of `supabase gen types typescript`.
+ * Regenerate with `npm run gen:types` (local stack running) after adding a migration instead
+ * of editing by hand. App-facing shapes live in database.ts; RPC responses are also checked
+ * at runtime by lib/rpcSchema.ts.
+ */
+
+export type Json = string | number | boolean | null | { [key: string]: Json | undefined } | Json[];
+
+export type Database = {
+  public: {
+    Tables: {
+      content_reports: {
+        Row: {
+          created_at: string;
+          details: string | null;
+          id: string;
+          ranking_id: string;
+          reason: string;
+          reporter_id: string;
+          target: string;
+        };
+        Insert: {
+          created_at?: string;
+          details?: string | null;
+          id?: string;
+          ranking_id: string;
+          reason: string;
+          reporter_id: string;
+          target: string;
+        };
+        Update: {
+          created_at?: string;
+          details?: string | null;
+          id?: string;
+          ranking_id?: string;
+          reason?: string;
+          reporter_id?: string;
+          target?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'content_reports_ranking_id_fkey';
+            columns: ['ranking_id'];
+            isOneToOne: false;
+            referencedRelation: 'dish_rankings';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'content_reports_reporter_id_fkey';
+            columns: ['reporter_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      dish_ranking_inserts: {
+        Row: {
+          created_at: string;
+          id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'dish_ranking_inserts_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      dish_ranking_tags: {
+        Row: {
+          created_at: string;
+          ranking_id: string;
+          tag: string;
+        };
+        Insert: {
+          created_at?: string;
+          ranking_id: string;
+          tag: string;
+        };
+        Update: {
+          created_at?: string;
+          ranking_id?: string;
+          tag?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'dish_ranking_tags_ranking_id_fkey';
+            columns: ['ranking_id'];
+            isOneToOne: false;
+            referencedRelation: 'dish_rankings';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      dish_rankings: {
+        Row: {
+          client_request_id: string | null;
+          created_at: string;
+          dish_key: string | null;
+          dish_name: string;
+          id: string;
+          image_url: string | null;
+          ingredients: string | null;
+          mapbox_id: string | null;
+          moderated_at: string | null;
+          moderation_state: string;
+          osm_id: string;
+          place_id: string;
+          platillo_id: string | null;
+          price_cents: number | null;
+          restaurant_lat: number | null;
+          restaurant_lng: number | null;
+          restaurant_name: string;
+          score: number;
+          search_vector: unknown | null;
+          thumbnail_url: string | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          client_request_id?: string | null;
+          created_at?: string;
+          dish_key?: string | null;
+          dish_name: string;
+          id?: string;
+          image_url?: string | null;
+          ingredients?: string | null;
+          mapbox_id?: string | null;
+          moderated_at?: string | null;
+          moderation_state?: string;
+          osm_id: string;
+          place_id: string;
+          platillo_id?: string | null;
+          price_cents?: number | null;
+          restaurant_lat?: number | null;
+          restaurant_lng?: number | null;
+          restaurant_name: string;
+          score: number;
+          search_vector?: never;
+          thumbnail_url?: string | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          client_request_id?: string | null;
+          created_at?: string;
+          dish_key?: string | null;
+          dish_name?: string;
+          id?: string;
+          image_url?: string | null;
+          ingredients?: string | null;
+          mapbox_id?: string | null;
+          moderated_at?: string | null;
+          moderation_state?: string;
+          osm_id?: string;
+          place_id?: string;
+          platillo_id?: string | null;
+          price_cents?: number | null;
+          restaurant_lat?: number | null;
+          restaurant_lng?: number | null;
+          restaurant_name?: string;
+          score?: number;
+          search_vector?: never;
+          thumbnail_url?: string | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'dish_rankings_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'dish_rankings_platillo_id_fkey';
+            columns: ['platillo_id'];
+            isOneToOne: false;
+            referencedRelation: 'platillo_scores';
+            referencedColumns: ['platillo_id'];
+          },
+          {
+            foreignKeyName: 'dish_rankings_platillo_id_fkey';
+            columns: ['platillo_id'];
+            isOneToOne: false;
+            referencedRelation: 'platillos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'dish_rankings_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      geocode_cache: {
+        Row: {
+          cache_key: string;
+          created_at: string;
+          expires_at: string;
+          mode: string;
+          payload: Json;
+        };
+        Insert: {
+          cache_key: string;
+          created_at?: string;
+          expires_at: string;
+          mode: string;
+          payload: Json;
+        };
+        Update: {
+          cache_key?: string;
+          created_at?: string;
+          expires_at?: string;
+          mode?: string;
+          payload?: Json;
+        };
+        Relationships: [];
+      };
+      mapbox_proxy_usage: {
+        Row: {
+          request_count: number;
+          subject: string;
+          window_kind: string;
+          window_start: string;
+        };
+        Insert: {
+          request_count?: number;
+          subject: string;
+          window_kind: string;
+          window_start: string;
+        };
+        Update: {
+          request_count?: number;
+          subject?: string;
+          window_kind?: string;
+          window_start?: string;
+        };
+        Relationships: [];
+      };
+      place_refs: {
+        Row: {
+          created_at: string;
+          place_id: string;
+          provider: string | null;
+          ref: string;
+        };
+        Insert: {
+          created_at?: string;
+          place_id: string;
+          provider?: never;
+          ref: string;
+        };
+        Update: {
+          created_at?: string;
+          place_id?: string;
+          provider?: never;
+          ref?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'place_refs_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      places: {
+        Row: {
+          created_at: string;
+          id: string;
+          lat: number | null;
+          lng: number | null;
+          location: unknown | null;
+          name: string;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          lat?: number | null;
+          lng?: number | null;
+          location?: never;
+          name: string;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          lat?: number | null;
+          lng?: number | null;
+          location?: never;
+          name?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      platillos: {
+        Row: {
+          created_at: string;
+          description: string | null;
+          id: string;
+          name: string;
+          name_key: string | null;
+          place_id: string | null;
+          restaurant_id: string | null;
+          updated_at: string;
+        };
+        Insert: {
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name: string;
+          name_key?: string | null;
+          place_id?: string | null;
+          restaurant_id?: string | null;
+          updated_at?: string;
+        };
+        Update: {
+          created_at?: string;
+          description?: string | null;
+          id?: string;
+          name?: string;
+          name_key?: string | null;
+          place_id?: string | null;
+          restaurant_id?: string | null;
+          updated_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'platillos_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'platillos_restaurant_id_fkey';
+            columns: ['restaurant_id'];
+            isOneToOne: false;
+            referencedRelation: 'restaurants';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      profiles: {
+        Row: {
+          avatar_url: string | null;
+          created_at: string;
+          full_name: string | null;
+          id: string;
+          updated_at: string;
+          username: string | null;
+        };
+        Insert: {
+          avatar_url?: string | null;
+          created_at?: string;
+          full_name?: string | null;
+          id: string;
+          updated_at?: string;
+          username?: string | null;
+        };
+        Update: {
+          avatar_url?: string | null;
+          created_at?: string;
+          full_name?: string | null;
+          id?: string;
+          updated_at?: string;
+          username?: string | null;
+        };
+        Relationships: [];
+      };
+      restaurants: {
+        Row: {
+          address: string | null;
+          created_at: string;
+          id: string;
+          lat: number;
+          lng: number;
+          location: unknown | null;
+          name: string;
+          updated_at: string;
+        };
+        Insert: {
+          address?: string | null;
+          created_at?: string;
+          id?: string;
+          lat: number;
+          lng: number;
+          location?: never;
+          name: string;
+          updated_at?: string;
+        };
+        Update: {
+          address?: string | null;
+          created_at?: string;
+          id?: string;
+          lat?: number;
+          lng?: number;
+          location?: never;
+          name?: string;
+          updated_at?: string;
+        };
+        Relationships: [];
+      };
+      reviews: {
+        Row: {
+          content: string | null;
+          created_at: string;
+          id: string;
+          rating: number;
+          restaurant_id: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          content?: string | null;
+          created_at?: string;
+          id?: string;
+          rating: number;
+          restaurant_id: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          content?: string | null;
+          created_at?: string;
+          id?: string;
+          rating?: number;
+          restaurant_id?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'reviews_restaurant_id_fkey';
+            columns: ['restaurant_id'];
+            isOneToOne: false;
+            referencedRelation: 'restaurants';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'reviews_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_favorites: {
+        Row: {
+          created_at: string;
+          place_id: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          place_id: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          place_id?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_favorites_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_favorites_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      user_restaurant_views: {
+        Row: {
+          id: string;
+          osm_id: string;
+          restaurant_name: string;
+          user_id: string;
+          view_count: number;
+          viewed_at: string;
+        };
+        Insert: {
+          id?: string;
+          osm_id: string;
+          restaurant_name: string;
+          user_id: string;
+          view_count?: number;
+          viewed_at?: string;
+        };
+        Update: {
+          id?: string;
+          osm_id?: string;
+          restaurant_name?: string;
+          user_id?: string;
+          view_count?: number;
+          viewed_at?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_restaurant_views_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      votes: {
+        Row: {
+          created_at: string;
+          id: string;
+          platillo_id: string;
+          updated_at: string;
+          user_id: string;
+          vote_type: Database['public']['Enums']['vote_type'];
+        };
+        Insert: {
+          created_at?: string;
+          id?: string;
+          platillo_id: string;
+          updated_at?: string;
+          user_id: string;
+          vote_type: Database['public']['Enums']['vote_type'];
+        };
+        Update: {
+          created_at?: string;
+          id?: string;
+          platillo_id?: string;
+          updated_at?: string;
+          user_id?: string;
+          vote_type?: Database['public']['Enums']['vote_type'];
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'votes_platillo_id_fkey';
+            columns: ['platillo_id'];
+            isOneToOne: false;
+            referencedRelation: 'platillo_scores';
+            referencedColumns: ['platillo_id'];
+          },
+          {
+            foreignKeyName: 'votes_platillo_id_fkey';
+            columns: ['platillo_id'];
+            isOneToOne: false;
+            referencedRelation: 'platillos';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'votes_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'profiles';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+    };
+    Views: {
+      moderation_queue: {
+        Row: {
+          dish_name: string | null;
+          image_url: string | null;
+          last_reported_at: string | null;
+          moderation_state: string | null;
+          photo_reported: boolean | null;
+          place_id: string | null;
+          ranking_id: string | null;
+          reasons: string[] | null;
+          reporter_count: number | null;
+          restaurant_name: string | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'dish_rankings_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      platillo_scores: {
+        Row: {
+          avg_score: number | null;
+          down_votes: number | null;
+          last_ranked_at: string | null;
+          name: string | null;
+          place_id: string | null;
+          platillo_id: string | null;
+          ranking_count: number | null;
+          star_score: number | null;
+          up_votes: number | null;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'platillos_place_id_fkey';
+            columns: ['place_id'];
+            isOneToOne: false;
+            referencedRelation: 'places';
+            referencedColumns: ['id'];
+          },
+        ];
+      };
+      platillo_tags: {
+        Row: {
+          place_id: string | null;
+          platillo_id: string | null;
+          tag: string | null;
+          tag_count: number | null;
+          tagged_count: number | null;
+        };
+        Relationships: [];
+      };
+    };
+    Functions: {
+      consume_mapbox_proxy_quota: {
+        Args: { per_day: number; per_minute: number; subject_param: string };
+        Returns: {
+          allowed: boolean;
+          day_count: number;
+          minute_count: number;
+          retry_after_seconds: number;
+        }[];
+      };
+      dish_search_tsquery: { Args: { query: string }; Returns: unknown };
+      ensure_platillo: {
+        Args: { dish_name_param: string; place_id_param: string };
+        Returns: string;
+      };
+      get_best_rated: {
+        Args: { limit_count?: number };
+        Returns: {
+          avg_score: number;
+          confidence: number;
+          place_id: string;
+          place_ref: string;
+          restaurant_name: string;
+          total_reviews: number;
+          weighted_score: number;
+        }[];
+      };
+      get_dish_price_history: {
+        Args: { bucket?: string; place_id_param: string; platillo_id_param?: string | null };
+        Returns: {
+          dish_name: string;
+          max_price_cents: number;
+          median_price_cents: number;
+          min_price_cents: number;
+          period_start: string;
+          platillo_id: string;
+          price_count: number;
+        }[];
+      };
+      get_dish_ranking_for_restaurant: {
+        Args: { restaurant_id: string };
+        Returns: Json[];
+      };
+      get_my_ranking_for_dish: {
+        Args: { dish_name_param: string; place_id_param: string };
+        Returns: Database['public']['Tables']['dish_rankings']['Row'][];
+      };
+      get_place_dishes: {
+        Args: { place_id_param: string };
+        Returns: {
+          avg_score: number;
+          down_votes: number;
+          name: string;
+          platillo_id: string;
+          ranking_count: number;
+          star_score: number;
+          up_votes: number;
+        }[];
+      };
+      get_place_ids: {
+        Args: { refs: string[] };
+        Returns: { place_id: string; ref: string }[];
+      };
+      get_place_rankings: {
+        Args: { refs: string[] };
+        Returns: {
+          place_id: string;
+          ranking: number;
+          ref: string;
+          review_count: number;
+        }[];
+      };
+      get_place_star_dish: { Args: { place_id_param: string }; Returns: string };
+      get_platillo_vote_counts: {
+        Args: { platillo_ids: string[] };
+        Returns: {
+          down_votes: number;
+          my_vote: Database['public']['Enums']['vote_type'];
+          net_score: number;
+          platillo_id: string;
+          up_votes: number;
+        }[];
+      };
+      get_ranked_places_in_viewport: {
+        Args: {
+          name_query?: string | null;
+          ne_lat: number;
+          ne_lng: number;
+          page_offset?: number;
+          page_size?: number;
+          sw_lat: number;
+          sw_lng: number;
+          zoom_level?: number | null;
+        };
+        Returns: {
+          avg_score: number;
+          confidence: number;
+          dish_tags: string[];
+          lat: number;
+          lng: number;
+          median_price_cents: number;
+          name: string;
+          place_id: string;
+          place_ref: string;
+          review_count: number;
+          star_dish_name: string;
+          star_dish_score: number;
+          total_count: number;
+          weighted_score: number;
+        }[];
+      };
+      get_recently_viewed_restaurants: {
+        Args: { limit_count?: number; user_id_param: string };
+        Returns: {
+          osm_id: string;
+          restaurant_name: string;
+          view_count: number;
+          viewed_at: string;
+        }[];
+      };
+      get_restaurant_dish_leaderboard: {
+        Args: { place_id_param: string };
+        Returns: {
+          avg_score: number;
+          confidence: number;
+          dish_name: string;
+          platillo_id: string;
+          review_count: number;
+          tags: string[];
+          weighted_score: number;
+        }[];
+      };
+      get_restaurant_leaderboard: {
+        Args: { limit_count?: number; min_reviews?: number };
+        Returns: {
+          avg_score: number;
+          confidence: number;
+          lat: number;
+          lng: number;
+          place_id: string;
+          place_ref: string;
+          restaurant_name: string;
+          review_count: number;
+          weighted_score: number;
+        }[];
+      };
+      get_restaurant_ranking_from_dishes: {
+        Args: { osm_id_param: string };
+        Returns: number;
+      };
+      get_restaurant_rankings_batch: {
+        Args: { osm_ids: string[] };
+        Returns: { osm_id: string; ranking: number }[];
+      };
+      get_star_dish: { Args: { restaurant_id: string }; Returns: string };
+      get_top_picks: {
+        Args: { limit_count?: number };
+        Returns: {
+          avg_score: number;
+          confidence: number;
+          lat: number;
+          lng: number;
+          place_id: string;
+          place_ref: string;
+          restaurant_name: string;
+          review_count: number;
+          weighted_score: number;
+        }[];
+      };
+      get_user_favorites: {
+        Args: { limit_count?: number };
+        Returns: {
+          avg_score: number;
+          favorited_at: string;
+          lat: number;
+          lng: number;
+          place_id: string;
+          place_ref: string;
+          restaurant_name: string;
+          review_count: number;
+        }[];
+      };
+      immutable_unaccent: { Args: { value: string }; Returns: string };
+      link_place_ref: {
+        Args: { place_id_param: string; ref_param: string };
+        Returns: string;
+      };
+      merge_places: {
+        Args: { drop_id: string; keep_id: string };
+        Returns: undefined;
+      };
+      normalize_dish_name: { Args: { name: string }; Returns: string };
+      normalize_place_ref: { Args: { raw: string }; Returns: string };
+      purge_expired_geocode_cache: { Args: never; Returns: number };
+      ranking_prior_mean: { Args: never; Returns: number };
+      resolve_place: {
+        Args: {
+          lat_param?: number | null;
+          lng_param?: number | null;
+          name_param: string;
+          refs: string[];
+        };
+        Returns: string;
+      };
+      score_confidence: { Args: { review_count: number }; Returns: number };
+      search_dishes: {
+        Args: {
+          limit_count?: number;
+          near_lat?: number | null;
+          near_lng?: number | null;
+          query: string;
+          radius_km?: number;
+        };
+        Returns: {
+          avg_score: number;
+          dish_name: string;
+          lat: number;
+          lng: number;
+          place_id: string;
+          place_ref: string;
+          platillo_id: string;
+          relevance: number;
+          restaurant_name: string;
+          review_count: number;
+          weighted_score: number;
+        }[];
+      };
+      set_dish_ranking_tags: {
+        Args: { ranking_id_param: string; tags: string[] };
+        Returns: string[];
+      };
+      star_dish_score: {
+        Args: { avg_score: number; down_votes: number; up_votes: number };
+        Returns: number;
+      };
+      suggest_dish_names: {
+        Args: { limit_count?: number; place_id_param: string; query: string };
+        Returns: {
+          name: string;
+          platillo_id: string;
+          ranking_count: number;
+          similarity: number;
+        }[];
+      };
+      toggle_platillo_vote: {
+        Args: {
+          platillo_id: string;
+          vote_type: Database['public']['Enums']['vote_type'];
+        };
+        Returns: undefined;
+      };
+      upsert_restaurant_view: {
+        Args: {
+          osm_id_param: string;
+          restaurant_name_param: string;
+          user_id_param: string;
+        };
+        Returns: undefined;
+      };
+      viewport_place_cap: { Args: { zoom_level: number }; Returns: number };
+      weighted_score: {
+        Args: { avg_score: number; prior_mean: number; review_count: number };
+        Returns: number;
+      };
+    };
+    Enums: {
+      vote_type: 'UP' | 'DOWN';
+    };
+    CompositeTypes: {
+      [_ in never]: never;
+    };
+  };
+};
+
+type DatabaseWithoutInternals = Database;
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, 'public'>];
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])[TableName] extends {
+      Row: infer R;
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    ? (DefaultSchema['Tables'] & DefaultSchema['Views'])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R;
+      }
+      ? R
+      : never
+    : never;
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables'] | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Insert: infer I;
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I;
+      }
+      ? I
+      : never
+    : never;
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables'] | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Update: infer U;
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U;
+      }
+      ? U
+      : never
+    : never;
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums'] | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals;
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums']
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals;
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums'][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums']
+    ? DefaultSchema['Enums'][DefaultSchemaEnumNameOrOptions]
+    : never;
+
+export const Constants = {
+  public: {
+    Enums: {
+      vote_type: ['UP', 'DOWN'],
+    },
+  },
+} as const;
@@ -0,0 +1,69 @@
+import { calculateZoomFromViewport, createGridCacheKey, expandViewportWithBuffer } from '../grid';
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('calculateZoomFromViewport', () => {
+  const viewportWithLatSpan = (latSpan: number) => ({
+    southWestLat: 19,
+    northEastLat: 19 + latSpan,
+    southWestLng: -99.2,
+    northEastLng: -99.1,
+  });
+
+  it('derives zoom from the latitude span', () => {
+    expect(calculateZoomFromViewport(viewportWithLatSpan(360))).toBe(0);
+    expect(calculateZoomFromViewport(viewportWithLatSpan(360 / 1024))).toBe(10);
+    expect(calculateZoomFromViewport(viewportWithLatSpan(0.1))).toBe(11); // log2(3600) ≈ 11.8
+  });
+
+  it('clamps to 0-20', () => {
+    expect(calculateZoomFromViewport(viewportWithLatSpan(1000))).toBe(0);
+    expect(calculateZoomFromViewport(viewportWithLatSpan(0.000001))).toBe(20);
+  });
+});
+
+describe('createGridCacheKey', () => {
+  it('buckets city zoom levels on a 0.2° grid', () => {
+    expect(createGridCacheKey(19.43, -99.13, 11)).toEqual({ key: '19.400:-99.200:z10', bufferRadius: 15540 });
+    // Every zoom up to 12 shares the bucket
+    expect(createGridCacheKey(19.43, -99.13, 3).key).toBe('19.400:-99.200:z10');
+    expect(createGridCacheKey(19.43, -99.13, 12).key).toBe('19.400:-99.200:z10');
+  });
+
+  it('buckets neighborhood zoom levels on a 0.05° grid', () => {
+    expect(createGridCacheKey(19.43, -99.13, 13)).toEqual({ key: '19.450:-99.150:z13', bufferRadius: 3885 });
+    expect(createGridCacheKey(19.43, -99.13, 15).key).toBe('19.450:-99.150:z13');
+  });
+
+  it('buckets street zoom levels on a 0.01° grid', () => {
+    expect(createGridCacheKey(19.4326, -99.1332, 16)).toEqual({ key: '19.430:-99.130:z16', bufferRadius: 777 });
+    expect(createGridCacheKey(19.4326, -99.1332, 20).key).toBe('19.430:-99.130:z16');
+  });
+
+  it('gives nearby centers the same key and distant ones different keys', () => {
+    const a = createGridCacheKey(19.4326, -99.1332, 14).key;
+    const b = createGridCacheKey(19.4301, -99.1399, 14).key;
+    const c = createGridCacheKey(20.6767, -103.3475, 14).key;
+    expect(a).toBe(b);
+    expect(a).not.toBe(c);
+  });
+});
+
+describe('expandViewportWithBuffer', () => {
+  it('returns a square of the buffer radius around the viewport center', () => {
+    const expanded = expandViewportWithBuffer(
+      { southWestLat: 19.4, northEastLat: 19.5, southWestLng: -99.2, northEastLng: -99.1 },
+      11100 // 0.1°
+    );
+    expect(expanded.southWestLat).toBeCloseTo(19.35);
+    expect(expanded.northEastLat).toBeCloseTo(19.55);
+    expect(expanded.southWestLng).toBeCloseTo(-99.25);
+    expect(expanded.northEastLng).toBeCloseTo(-99.05);
+  });
+});
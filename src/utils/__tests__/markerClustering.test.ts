@@ -0,0 +1,88 @@
+import type { RestaurantWithRanking } from '../../types/database';
+import {
+  calculateZoomFromLatitudeDelta,
+  createClusterer,
+  getClusteredMarkers,
+  isCluster,
+  type ClusteredPoint,
+} from '../markerClustering';
+
+function restaurant(id: string, lat: number, lng: number): RestaurantWithRanking {
+  return {
+    id,
+    name: id,
+    address: null,
+    lat,
+    lng,
+    created_at: '2025-01-01T00:00:00.000Z',
+    updated_at: '2025-01-01T00:00:00.000Z',
+    top_dish_net_score: 0,
+  };
+}
+
+// Two tight groups ~500km apart: three places in Mexico City, two in Guadalajara
+const RESTAURANTS = [
+  restaurant('cdmx-1', 19.4326, -99.1332),
+  restaurant('cdmx-2', 19.4330, -99.1340),
+  restaurant('cdmx-3', 19.4320, -99.1325),
+  restaurant('gdl-1', 20.6767, -103.3475),
+  restaurant('gdl-2', 20.6770, -103.3480),
+];
+
+const MEXICO = { southWestLat: 14, northEastLat: 33, southWestLng: -118, northEastLng: -86 };
+
+function markerIds(points: ClusteredPoint[]): string[] {
+  return points
+    .filter((p) => !isCluster(p))
+    .map((p) => (p.properties as { restaurant: RestaurantWithRanking }).restaurant.id)
+    .sort();
+}
+
+describe('createClusterer / getClusteredMarkers', () => {
+  it('groups nearby places into clusters when zoomed out', () => {
+    const points = getClusteredMarkers(createClusterer(RESTAURANTS), MEXICO, 5);
+
+    expect(points).toHaveLength(2);
+    expect(points.every(isCluster)).toBe(true);
+    const counts = points.map((p) => (isCluster(p) ? p.properties.point_count : 0)).sort();
+    expect(counts).toEqual([2, 3]);
+  });
+
+  it('returns individual markers above maxZoom', () => {
+    const points = getClusteredMarkers(createClusterer(RESTAURANTS), MEXICO, 19);
+
+    expect(points.some(isCluster)).toBe(false);
+    expect(markerIds(points)).toEqual(['cdmx-1', 'cdmx-2', 'cdmx-3', 'gdl-1', 'gdl-2']);
+  });
+
+  it('keeps markers just outside the viewport thanks to the padding', () => {
+    // Viewport around Mexico City only; Guadalajara is outside it but inside the 200% padding
+    const viewport = { southWestLat: 18.5, northEastLat: 20.5, southWestLng: -100.5, northEastLng: -98 };
+    const points = getClusteredMarkers(createClusterer(RESTAURANTS), viewport, 19);
+
+    expect(markerIds(points)).toEqual(['cdmx-1', 'cdmx-2', 'cdmx-3', 'gdl-1', 'gdl-2']);
+  });
+
+  it('drops far-away places and places without coordinates', () => {
+    const invalid = { ...restaurant('no-coords', 0, 0), lat: undefined } as unknown as RestaurantWithRanking;
+    const viewport = { southWestLat: 19.4, northEastLat: 19.45, southWestLng: -99.15, northEastLng: -99.1 };
+    const points = getClusteredMarkers(createClusterer([...RESTAURANTS, invalid]), viewport, 19);
+
+    expect(markerIds(points)).toEqual(['cdmx-1', 'cdmx-2', 'cdmx-3']);
+  });
+
+  it('keeps [lng, lat] order in geometry', () => {
+    const [point] = getClusteredMarkers(createClusterer([RESTAURANTS[0]]), MEXICO, 19);
+    expect(point.geometry.coordinates[0]).toBeCloseTo(-99.1332);
+    expect(point.geometry.coordinates[1]).toBeCloseTo(19.4326);
+  });
+});
+
+describe('calculateZoomFromLatitudeDelta', () => {
+  it('approximates zoom from the latitude delta and clamps to 0-20', () => {
+    expect(calculateZoomFromLatitudeDelta(360)).toBe(0);
+    expect(calculateZoomFromLatitudeDelta(360 / 1024)).toBeCloseTo(10);
+    expect(calculateZoomFromLatitudeDelta(1000)).toBe(0);
+    expect(calculateZoomFromLatitudeDelta(0.0000001)).toBe(20);
+  });
+});
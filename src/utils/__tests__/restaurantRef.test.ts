@@ -0,0 +1,41 @@
+import { legacyOsmIdForRef, normalizeRestaurantRef, parseRestaurantRef, placeIdForRef } from '../restaurantRef';
+
+const PLACE_ID = '0b6f3c1e-8d2a-4f5b-9c7e-1a2b3c4d5e6f';
+
+describe('normalizeRestaurantRef', () => {
+  it('turns every stored OSM form into a canonical ref', () => {
+    expect(normalizeRestaurantRef('000990001')).toBe('osm:node:990001');
+    expect(normalizeRestaurantRef(' osm:way:0077 ')).toBe('osm:way:77');
+  });
+
+  it('turns every stored Mapbox form into a canonical ref', () => {
+    expect(normalizeRestaurantRef('poi.1')).toBe('mapbox:poi.1');
+    expect(normalizeRestaurantRef('mapbox:poi.1')).toBe('mapbox:poi.1');
+    expect(normalizeRestaurantRef('osm:node:mapbox:poi.1')).toBe('mapbox:poi.1');
+  });
+
+  it('returns null for empty and unknown values', () => {
+    expect(normalizeRestaurantRef('')).toBeNull();
+    expect(normalizeRestaurantRef(null)).toBeNull();
+    expect(normalizeRestaurantRef('foo:bar:baz')).toBeNull();
+  });
+});
+
+describe('place ids', () => {
+  it('parses "place:<uuid>" to the place id instead of an external ref', () => {
+    const ref = parseRestaurantRef(`place:${PLACE_ID.toUpperCase()}`);
+
+    expect(ref).toEqual({ provider: 'place', placeId: PLACE_ID });
+    expect(placeIdForRef(ref!)).toBe(PLACE_ID);
+    expect(normalizeRestaurantRef(`place:${PLACE_ID}`)).toBe(`place:${PLACE_ID}`);
+  });
+
+  it('rejects place ids that are not uuids', () => {
+    expect(parseRestaurantRef('place:not-a-ref')).toBeNull();
+  });
+
+  it('keeps the place form in the legacy osm_id column', () => {
+    expect(legacyOsmIdForRef({ provider: 'place', placeId: PLACE_ID })).toBe(`place:${PLACE_ID}`);
+    expect(legacyOsmIdForRef({ provider: 'osm', osmType: 'node', osmId: '1' })).toBe('1');
+  });
+});
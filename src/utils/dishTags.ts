@@ -0,0 +1,76 @@
+/**
+ * Labels and filter helpers for structured dish tags (dish_ranking_tags, migration 025).
+ * The ranking form offers the toggleable tags plus a single spice level; the map filter
+ * sheet offers DISH_TAG_FILTERS, where "Spicy" matches any spice level.
+ */
+
+import type { DishTag } from '../types/database';
+
+export type SpiceLevelTag = Extract<DishTag, `spicy_${string}`>;
+
+// Tags a ranking can switch on independently, in display order
+export const TOGGLE_DISH_TAGS: Array<{ tag: Exclude<DishTag, SpiceLevelTag>; label: string }> = [
+  { tag: 'vegetarian', label: 'Vegetarian' },
+  { tag: 'vegan', label: 'Vegan' },
+  { tag: 'gluten_free', label: 'Gluten-free' },
+  { tag: 'contains_nuts', label: 'Contains nuts' },
+  { tag: 'contains_seafood', label: 'Contains seafood' },
+];
+
+export const SPICE_LEVEL_TAGS: Array<{ tag: SpiceLevelTag; label: string }> = [
+  { tag: 'spicy_mild', label: 'Mild' },
+  { tag: 'spicy_medium', label: 'Medium' },
+  { tag: 'spicy_hot', label: 'Hot' },
+];
+
+export type DishTagFilter = {
+  id: string;
+  label: string;
+  tags: DishTag[]; // A place matches when it has any of these
+};
+
+export const DISH_TAG_FILTERS: DishTagFilter[] = [
+  { id: 'vegetarian', label: 'Vegetarian', tags: ['vegetarian', 'vegan'] },
+  { id: 'vegan', label: 'Vegan', tags: ['vegan'] },
+  { id: 'gluten_free', label: 'Gluten-free', tags: ['gluten_free'] },
+  { id: 'spicy', label: 'Spicy', tags: ['spicy_mild', 'spicy_medium', 'spicy_hot'] },
+  { id: 'contains_nuts', label: 'Nuts', tags: ['contains_nuts'] },
+  { id: 'contains_seafood', label: 'Seafood', tags: ['contains_seafood'] },
+];
+
+export function isSpiceLevelTag(tag: DishTag): tag is SpiceLevelTag {
+  return tag.startsWith('spicy_');
+}
+
+/**
+ * Short label for a tag, e.g. "Gluten-free" or "Spicy (hot)".
+ */
+export function dishTagLabel(tag: DishTag): string {
+  if (isSpiceLevelTag(tag)) {
+    const level = SPICE_LEVEL_TAGS.find((s) => s.tag === tag);
+    return `Spicy (${(level?.label ?? '').toLowerCase()})`;
+  }
+  return TOGGLE_DISH_TAGS.find((t) => t.tag === tag)?.label ?? tag;
+}
+
+export function toggleDishTag(tags: DishTag[], tag: Exclude<DishTag, SpiceLevelTag>): DishTag[] {
+  return tags.includes(tag) ? tags.filter((t) => t !== tag) : [...tags, tag];
+}
+
+// Replace the spice level; null clears it
+export function withSpiceLevel(tags: DishTag[], level: SpiceLevelTag | null): DishTag[] {
+  const rest = tags.filter((t) => !isSpiceLevelTag(t));
+  return level ? [...rest, level] : rest;
+}
+
+/**
+ * Whether a place's dish tags satisfy every selected filter.
+ */
+export function matchesDishTagFilters(placeTags: DishTag[] | undefined, filterIds: string[]): boolean {
+  if (filterIds.length === 0) return true;
+  const tags = placeTags ?? [];
+  return filterIds.every((id) => {
+    const filter = DISH_TAG_FILTERS.find((f) => f.id === id);
+    return !filter || filter.tags.some((t) => tags.includes(t));
+  });
+}
@@ -0,0 +1,86 @@
+/**
+ * Price formatting and price-based filters. Rankings store prices as integer cents in the
+ * app's currency; search is scoped to Mexico (mapboxSearchService uses country: 'mx'), so
+ * that currency is MXN.
+ */
+
+import type { RestaurantWithRanking } from '../types/database';
+
+export const DEFAULT_CURRENCY = 'MXN';
+export const DEFAULT_PRICE_LOCALE = 'es-MX';
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+function formatterFor(currency: string, locale: string, wholeUnits: boolean): Intl.NumberFormat {
+  const key = `${locale}:${currency}:${wholeUnits}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.NumberFormat(locale, {
+      style: 'currency',
+      currency,
+      minimumFractionDigits: wholeUnits ? 0 : 2,
+      maximumFractionDigits: wholeUnits ? 0 : 2,
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * "$85.50" style price for an amount in cents. Whole amounts drop the decimals ("$120").
+ */
+export function formatPrice(
+  cents: number,
+  options: { currency?: string; locale?: string } = {}
+): string {
+  const { currency = DEFAULT_CURRENCY, locale = DEFAULT_PRICE_LOCALE } = options;
+  const amount = cents / 100;
+  try {
+    return formatterFor(currency, locale, Number.isInteger(amount)).format(amount);
+  } catch {
+    // Runtimes without Intl currency support
+    return `$${Number.isInteger(amount) ? amount : amount.toFixed(2)}`;
+  }
+}
+
+export function formatPriceRange(minCents: number, maxCents: number): string {
+  return minCents === maxCents ? formatPrice(minCents) : `${formatPrice(minCents)}–${formatPrice(maxCents)}`;
+}
+
+export type PriceRange = {
+  id: string;
+  label: string;
+  minCents: number;
+  maxCents: number | null; // Exclusive; null for no upper bound
+};
+
+// Typical dish price (median of ranked prices) at a place, in MXN
+export const PRICE_RANGES: PriceRange[] = [
+  { id: 'under_100', label: 'Under $100', minCents: 0, maxCents: 10_000 },
+  { id: '100_200', label: '$100–200', minCents: 10_000, maxCents: 20_000 },
+  { id: '200_400', label: '$200–400', minCents: 20_000, maxCents: 40_000 },
+  { id: 'over_400', label: '$400+', minCents: 40_000, maxCents: null },
+];
+
+/**
+ * Whether a place's median dish price falls in the range. Places without prices never match.
+ */
+export function matchesPriceRange(restaurant: RestaurantWithRanking, rangeId: string | null): boolean {
+  if (!rangeId) return true;
+  const range = PRICE_RANGES.find((r) => r.id === rangeId);
+  if (!range) return true;
+  const price = restaurant.median_price_cents;
+  if (price == null) return false;
+  return price >= range.minCents && (range.maxCents == null || price < range.maxCents);
+}
+
+/**
+ * Score points per 100 pesos of the typical dish, or null when the place has no prices.
+ * Uses the confidence-weighted score so a single 10/10 does not top the value ranking.
+ */
+export function valueScore(restaurant: RestaurantWithRanking): number | null {
+  const price = restaurant.median_price_cents;
+  if (price == null || price <= 0) return null;
+  const score = restaurant.weighted_score ?? restaurant.top_dish_net_score;
+  return (score / price) * 10_000;
+}
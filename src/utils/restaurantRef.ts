@@ -0,0 +1,100 @@
+/**
+ * Typed external restaurant identifiers.
+ *
+ * Restaurants reach the app from several providers, and over time ids have been
+ * stored as "osm:node:123", bare numeric OSM ids, "mapbox:poi.123", bare Mapbox ids
+ * and the broken "osm:node:mapbox:poi.123". Every one of those parses into a
+ * RestaurantRef here; the canonical string form matches public.place_refs.ref and
+ * normalize_place_ref() in migration 013, which maps refs to a single places.id.
+ *
+ * Places the app only knows by id (no external ref came back with them) use
+ * "place:<places.id>". That form is app-only: normalize_place_ref() returns NULL
+ * for it and it is never a place_refs entry, so placeService answers it directly
+ * instead of resolving it into another place.
+ */
+
+export type OsmElementType = 'node' | 'way' | 'relation';
+
+export type RestaurantRef =
+  | { provider: 'osm'; osmType: OsmElementType; osmId: string }
+  | { provider: 'mapbox'; mapboxId: string }
+  | { provider: 'place'; placeId: string };
+
+const OSM_REF = /^osm:(node|way|relation):(\d+)$/;
+const LEGACY_OSM_MAPBOX_REF = /^osm:(?:node|way|relation):mapbox:([^:]+)$/;
+const MAPBOX_REF = /^mapbox:([^:]+)$/;
+const PLACE_REF = /^place:([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})$/i;
+
+function stripLeadingZeros(digits: string): string {
+  return digits.replace(/^0+(?=\d)/, '');
+}
+
+/**
+ * Parse any restaurant id we have ever stored. Returns null for empty or unrecognised values.
+ */
+export function parseRestaurantRef(raw: string | null | undefined): RestaurantRef | null {
+  const value = raw?.trim();
+  if (!value) return null;
+
+  // Legacy dish_rankings.osm_id: bare numeric id, always stored as a node
+  if (/^\d+$/.test(value)) {
+    return { provider: 'osm', osmType: 'node', osmId: stripLeadingZeros(value) };
+  }
+
+  const osm = value.match(OSM_REF);
+  if (osm) {
+    return { provider: 'osm', osmType: osm[1] as OsmElementType, osmId: stripLeadingZeros(osm[2]) };
+  }
+
+  const legacy = value.match(LEGACY_OSM_MAPBOX_REF);
+  if (legacy) return { provider: 'mapbox', mapboxId: legacy[1] };
+
+  const mapbox = value.match(MAPBOX_REF);
+  if (mapbox) return { provider: 'mapbox', mapboxId: mapbox[1] };
+
+  const place = value.match(PLACE_REF);
+  if (place) return { provider: 'place', placeId: place[1].toLowerCase() };
+
+  // Bare Mapbox feature id (dish_rankings.mapbox_id)
+  if (!value.includes(':')) return { provider: 'mapbox', mapboxId: value };
+
+  return null;
+}
+
+/**
+ * Canonical string form: "osm:node:123", "mapbox:poi.123" or "place:<uuid>".
+ */
+export function formatRestaurantRef(ref: RestaurantRef): string {
+  switch (ref.provider) {
+    case 'osm':
+      return `osm:${ref.osmType}:${ref.osmId}`;
+    case 'mapbox':
+      return `mapbox:${ref.mapboxId}`;
+    case 'place':
+      return `place:${ref.placeId}`;
+  }
+}
+
+/**
+ * Parse and re-format in one step. Returns null when the id is not a restaurant ref.
+ */
+export function normalizeRestaurantRef(raw: string | null | undefined): string | null {
+  const ref = parseRestaurantRef(raw);
+  return ref ? formatRestaurantRef(ref) : null;
+}
+
+/**
+ * Value written to the legacy dish_rankings.osm_id column: the numeric OSM id,
+ * or the canonical ref for Mapbox-only restaurants and places known only by id.
+ */
+export function legacyOsmIdForRef(ref: RestaurantRef): string {
+  return ref.provider === 'osm' ? ref.osmId : formatRestaurantRef(ref);
+}
+
+export function mapboxIdForRef(ref: RestaurantRef): string | null {
+  return ref.provider === 'mapbox' ? ref.mapboxId : null;
+}
+
+export function placeIdForRef(ref: RestaurantRef): string | null {
+  return ref.provider === 'place' ? ref.placeId : null;
+}
@@ -0,0 +1,58 @@
+// Request and response schemas of the geocode-v2 edge function. Type-only, so both the Deno
+// function and the app (src/services/mapboxSearchService.ts) can import them.
+
+export type GeocodeBBox = {
+  southWestLat: number;
+  northEastLat: number;
+  southWestLng: number;
+  northEastLng: number;
+};
+
+export type GeocodeForwardRequest = {
+  mode: "forward";
+  q: string;
+  language?: string; // ISO 639-1, defaults to "es"
+  country?: string | null; // ISO 3166 alpha-2; null or omitted searches every country
+  proximity?: { lat: number; lng: number } | null;
+  limit?: number; // 1-10, defaults to 5
+};
+
+export type GeocodeReverseRequest = {
+  mode: "reverse";
+  lat: number;
+  lng: number;
+  language?: string;
+};
+
+export type GeocodeRequest = GeocodeForwardRequest | GeocodeReverseRequest;
+
+// One place (city, locality or neighborhood)
+export type GeocodeCandidate = {
+  name: string; // e.g. "Guadalajara"
+  displayName: string; // e.g. "Guadalajara, Jalisco, México"
+  placeType: string; // Mapbox place type: place, locality or neighborhood
+  center: { lat: number; lng: number };
+  bbox: GeocodeBBox; // The feature's bbox, or a small box around center
+  countryCode: string | null; // Lowercase ISO 3166 alpha-2
+  relevance: number; // 0-1, Mapbox relevance for forward queries
+};
+
+// Best candidates first; empty when nothing matched
+export type GeocodeForwardResult = { candidates: GeocodeCandidate[] };
+
+// label is "City, State" (or the closest available); null when nothing is there
+export type GeocodeReverseResult = { label: string | null; candidate: GeocodeCandidate | null };
+
+export type GeocodeSuccessResponse<T> = { data: T; cached: boolean };
+
+// 400 invalid_request, 403 forbidden, 405 method_not_allowed, 500 misconfigured, 502 upstream_error,
+// 504 upstream_timeout
+export type GeocodeErrorCode =
+  | "invalid_request"
+  | "forbidden"
+  | "method_not_allowed"
+  | "misconfigured"
+  | "upstream_error"
+  | "upstream_timeout";
+
+export type GeocodeErrorResponse = { error: string; code: GeocodeErrorCode };
@@ -0,0 +1,47 @@
+// Request and response schemas of the mapbox-proxy edge function, which keeps the Mapbox token
+// on the server. Type-only, shared with src/services/mapboxSearchService.ts.
+import type { GeocodeErrorCode, GeocodeRequest } from "./geocodeTypes.ts";
+
+// Search Box API suggest, POIs only. sessionToken groups suggest and retrieve calls for billing.
+export type MapboxSuggestRequest = {
+  mode: "suggest";
+  q: string;
+  sessionToken: string;
+  language?: string;
+  country?: string | null;
+  proximity?: { lat: number; lng: number } | null;
+  limit?: number; // 1-10, defaults to 10
+};
+
+export type MapboxRetrieveRequest = {
+  mode: "retrieve";
+  mapboxId: string;
+  sessionToken: string;
+  language?: string;
+};
+
+// forward and reverse are geocode-v2 requests, passed through unchanged
+export type MapboxProxyRequest = MapboxSuggestRequest | MapboxRetrieveRequest | GeocodeRequest;
+
+// Suggestions exactly as the Search Box API returns them (SearchBoxSuggestion in search-js-core)
+export type MapboxSuggestResult = {
+  suggestions: Array<{ mapbox_id: string; name: string; [key: string]: unknown }>;
+};
+
+// The retrieved feature as the Search Box API returns it (SearchBoxFeatureSuggestion), or null
+export type MapboxRetrieveResult = {
+  feature: {
+    type: "Feature";
+    geometry: { type: "Point"; coordinates: [number, number] };
+    properties: { [key: string]: unknown };
+  } | null;
+};
+
+// 429 rate_limited comes with retryAfterSeconds; other codes as in geocode-v2
+export type MapboxProxyErrorCode = GeocodeErrorCode | "rate_limited";
+
+export type MapboxProxyErrorResponse = {
+  error: string;
+  code: MapboxProxyErrorCode;
+  retryAfterSeconds?: number;
+};
@@ -0,0 +1,366 @@
+import type {
+  GeocodeBBox,
+  GeocodeCandidate,
+  GeocodeErrorCode,
+  GeocodeForwardRequest,
+  GeocodeForwardResult,
+  GeocodeRequest,
+  GeocodeReverseRequest,
+  GeocodeReverseResult,
+} from "../_shared/geocodeTypes.ts";
+
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// This file runs on Supabase Edge Functions (Deno runtime). Some editors/linters don't include Deno types,
+// so we declare the minimal surface we use to avoid TypeScript errors during local linting.
+declare const Deno: {
+  serve: (handler: (req: Request) => Response | Promise<Response>) => void;
+  env: {
+    get: (key: string) => string | undefined;
+  };
+};
+
+const CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const EMPTY_RESULT_TTL_MS = 24 * 60 * 60 * 1000; // "Nothing here" is cached for less time
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+const PURGE_PROBABILITY = 0.01; // Share of cache writes that also purge expired rows
+const MAPBOX_TIMEOUT_MS = 20_000;
+const POINT_BBOX_DELTA = 0.1;
+
+const ISO_CODE_RE = /^[a-z]{2}$/i;
+
+class GeocodeError extends Error {
+  constructor(readonly status: number, readonly code: GeocodeErrorCode, message: string) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200, cacheable = false): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": cacheable ? "public, max-age=300, s-maxage=600" : "no-store",
+    },
+  });
+}
+
+function errorResponse(error: GeocodeError): Response {
+  return json({ error: error.message, code: error.code }, error.status);
+}
+
+function getConfig() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const mapboxToken = Deno.env.get("MAPBOX_TOKEN") || Deno.env.get("EXPO_PUBLIC_MAPBOX_TOKEN");
+  if (!url || !serviceKey || !mapboxToken) {
+    throw new GeocodeError(500, "misconfigured", "SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and MAPBOX_TOKEN must be set");
+  }
+  return { url, serviceKey, mapboxToken };
+}
+
+type Config = ReturnType<typeof getConfig>;
+
+// mapbox-proxy counts the caller's quota and then calls us with the service role key. Any
+// other key, the anon key included, would geocode without a quota.
+function requireServiceRole(config: Config, req: Request) {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  if (token !== config.serviceKey) {
+    throw new GeocodeError(403, "forbidden", "Geocoding is only available through mapbox-proxy");
+  }
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseLanguage(value: unknown): string {
+  if (value === undefined || value === null) return "es";
+  if (typeof value !== "string" || !ISO_CODE_RE.test(value)) {
+    throw new GeocodeError(400, "invalid_request", "Invalid language");
+  }
+  return value.toLowerCase();
+}
+
+function parseRequest(body: unknown): Required<GeocodeForwardRequest> | Required<GeocodeReverseRequest> {
+  const input = (body ?? {}) as Partial<Record<keyof GeocodeForwardRequest | keyof GeocodeReverseRequest, unknown>>;
+  const language = parseLanguage(input.language);
+
+  if (input.mode === "forward") {
+    const q = typeof input.q === "string" ? input.q.trim().slice(0, 120) : "";
+    if (!q) throw new GeocodeError(400, "invalid_request", "Missing q");
+
+    const country = input.country ?? null;
+    if (country !== null && (typeof country !== "string" || !ISO_CODE_RE.test(country))) {
+      throw new GeocodeError(400, "invalid_request", "Invalid country");
+    }
+
+    const rawProximity = input.proximity as { lat?: unknown; lng?: unknown } | null | undefined;
+    let proximity: { lat: number; lng: number } | null = null;
+    if (rawProximity != null) {
+      if (!isFiniteNumber(rawProximity.lat) || !isFiniteNumber(rawProximity.lng)) {
+        throw new GeocodeError(400, "invalid_request", "Invalid proximity");
+      }
+      proximity = { lat: rawProximity.lat, lng: rawProximity.lng };
+    }
+
+    const limit = input.limit ?? 5;
+    if (!Number.isInteger(limit) || (limit as number) < 1 || (limit as number) > 10) {
+      throw new GeocodeError(400, "invalid_request", "limit must be an integer from 1 to 10");
+    }
+
+    return {
+      mode: "forward",
+      q,
+      language,
+      country: typeof country === "string" ? country.toLowerCase() : null,
+      proximity,
+      limit: limit as number,
+    };
+  }
+
+  if (input.mode === "reverse") {
+    const { lat, lng } = input;
+    if (!isFiniteNumber(lat) || !isFiniteNumber(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      throw new GeocodeError(400, "invalid_request", "Invalid lat/lng");
+    }
+    return { mode: "reverse", lat, lng, language };
+  }
+
+  throw new GeocodeError(400, "invalid_request", 'mode must be "forward" or "reverse"');
+}
+
+function cacheKeyFor(request: Required<GeocodeForwardRequest> | Required<GeocodeReverseRequest>): string {
+  // ~100m cells, matching the client's rounding
+  const round = (n: number) => (Math.round(n * 1000) / 1000).toFixed(3);
+  if (request.mode === "reverse") {
+    return `reverse:${request.language}:${round(request.lat)},${round(request.lng)}`;
+  }
+  const near = request.proximity ? `${round(request.proximity.lat)},${round(request.proximity.lng)}` : "-";
+  return `forward:${request.language}:${request.country ?? "any"}:${request.limit}:${near}:${request.q.toLowerCase()}`;
+}
+
+// First tier: this instance. Second tier: public.geocode_cache, shared by every instance.
+const memoryCache = new Map<string, { expiresAt: number; payload: unknown }>();
+
+function rememberInMemory(key: string, payload: unknown, expiresAt: number) {
+  if (memoryCache.size >= MEMORY_CACHE_MAX_ENTRIES) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest !== undefined) memoryCache.delete(oldest);
+  }
+  memoryCache.set(key, { expiresAt, payload });
+}
+
+// PostgREST with the service role; geocode_cache is invisible to app roles
+function rest(config: Config, path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${config.url}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: config.serviceKey,
+      Authorization: `Bearer ${config.serviceKey}`,
+      "Content-Type": "application/json",
+      ...(init.headers ?? {}),
+    },
+  });
+}
+
+// Cache failures never fail the request; the answer is just fetched from Mapbox again
+async function readCache(config: Config, key: string): Promise<unknown | undefined> {
+  const now = Date.now();
+  const hit = memoryCache.get(key);
+  if (hit && hit.expiresAt > now) return hit.payload;
+
+  try {
+    const res = await rest(
+      config,
+      `geocode_cache?cache_key=eq.${encodeURIComponent(key)}&expires_at=gt.${encodeURIComponent(new Date(now).toISOString())}&select=payload,expires_at`
+    );
+    if (!res.ok) return undefined;
+    const [row] = (await res.json()) as Array<{ payload: unknown; expires_at: string }>;
+    if (!row) return undefined;
+    rememberInMemory(key, row.payload, new Date(row.expires_at).getTime());
+    return row.payload;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeCache(config: Config, key: string, mode: GeocodeRequest["mode"], payload: unknown, ttlMs: number) {
+  const expiresAt = Date.now() + ttlMs;
+  rememberInMemory(key, payload, expiresAt);
+
+  try {
+    await rest(config, "geocode_cache", {
+      method: "POST",
+      headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+      body: JSON.stringify({
+        cache_key: key,
+        mode,
+        payload,
+        created_at: new Date().toISOString(),
+        expires_at: new Date(expiresAt).toISOString(),
+      }),
+    });
+    if (Math.random() < PURGE_PROBABILITY) {
+      await rest(config, "rpc/purge_expired_geocode_cache", { method: "POST", body: "{}" });
+    }
+  } catch {
+    // Served from memory until this instance goes away
+  }
+}
+
+async function fetchMapbox(config: Config, path: string, params: Record<string, string>): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), MAPBOX_TIMEOUT_MS);
+  const query = new URLSearchParams({ ...params, access_token: config.mapboxToken });
+
+  try {
+    // Mapbox Geocoding API: https://api.mapbox.com/geocoding/v5/mapbox.places/{search_text or lng,lat}.json
+    const res = await fetch(`https://api.mapbox.com/geocoding/v5/mapbox.places/${path}.json?${query}`, {
+      headers: { Accept: "application/json" },
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new GeocodeError(502, "upstream_error", `Mapbox geocode error ${res.status}: ${text.slice(0, 200)}`);
+    }
+
+    return await res.json();
+  } catch (e) {
+    if (e instanceof GeocodeError) throw e;
+    const name = e instanceof Error ? (e as { name?: string }).name : undefined;
+    if (name === "AbortError") {
+      throw new GeocodeError(504, "upstream_timeout", "Geocoding timed out. Please try again.");
+    }
+    throw new GeocodeError(502, "upstream_error", e instanceof Error ? e.message : "Geocoding failed");
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+type MapboxFeature = {
+  id?: string;
+  text?: string;
+  place_name?: string;
+  place_type?: string[];
+  relevance?: number;
+  center?: [number, number];
+  bbox?: [number, number, number, number];
+  properties?: { short_code?: string };
+  context?: Array<{ id?: string; text?: string; short_code?: string }>;
+};
+
+function toCandidate(feature: MapboxFeature): GeocodeCandidate | null {
+  const [lng, lat] = (feature.center ?? []).map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+
+  // Mapbox bbox format: [minLng, minLat, maxLng, maxLat]; points get a small box around them
+  let bbox: GeocodeBBox = {
+    southWestLat: lat - POINT_BBOX_DELTA,
+    northEastLat: lat + POINT_BBOX_DELTA,
+    southWestLng: lng - POINT_BBOX_DELTA,
+    northEastLng: lng + POINT_BBOX_DELTA,
+  };
+  if (Array.isArray(feature.bbox) && feature.bbox.length === 4) {
+    const [minLng, minLat, maxLng, maxLat] = feature.bbox.map(Number);
+    if ([minLng, minLat, maxLng, maxLat].every(Number.isFinite)) {
+      bbox = { southWestLat: minLat, northEastLat: maxLat, southWestLng: minLng, northEastLng: maxLng };
+    }
+  }
+
+  const country = feature.id?.startsWith("country.")
+    ? feature.properties?.short_code
+    : feature.context?.find((c) => c.id?.startsWith("country."))?.short_code;
+
+  return {
+    name: feature.text ?? feature.place_name ?? "",
+    displayName: feature.place_name ?? feature.text ?? "",
+    placeType: feature.place_type?.[0] ?? "place",
+    center: { lat, lng },
+    bbox,
+    countryCode: country ? country.toLowerCase() : null,
+    relevance: typeof feature.relevance === "number" ? feature.relevance : 1,
+  };
+}
+
+// "City, State", falling back to whatever is most specific
+function reverseLabel(feature: MapboxFeature): string | null {
+  const context = feature.context ?? [];
+  const place = context.find((c) => c.id?.startsWith("place."));
+  const locality = context.find((c) => c.id?.startsWith("locality."));
+  const region = context.find((c) => c.id?.startsWith("region."));
+
+  const city = place?.text || locality?.text || feature.text;
+  const state = region?.text;
+
+  if (city && state) return `${city}, ${state}`;
+  return city || state || feature.place_name || null;
+}
+
+async function forward(config: Config, request: Required<GeocodeForwardRequest>): Promise<GeocodeForwardResult> {
+  const params: Record<string, string> = {
+    language: request.language,
+    types: "place,locality",
+    limit: String(request.limit),
+  };
+  if (request.country) params.country = request.country;
+  if (request.proximity) params.proximity = `${request.proximity.lng},${request.proximity.lat}`;
+
+  const data = (await fetchMapbox(config, encodeURIComponent(request.q), params)) as { features?: MapboxFeature[] };
+  const candidates = (data.features ?? [])
+    .map(toCandidate)
+    .filter((c): c is GeocodeCandidate => c !== null)
+    .sort((a, b) => b.relevance - a.relevance);
+  return { candidates };
+}
+
+async function reverse(config: Config, request: Required<GeocodeReverseRequest>): Promise<GeocodeReverseResult> {
+  const data = (await fetchMapbox(config, `${request.lng},${request.lat}`, {
+    language: request.language,
+    types: "place,locality,neighborhood",
+    limit: "1",
+  })) as { features?: MapboxFeature[] };
+
+  const feature = data.features?.[0];
+  if (!feature) return { label: null, candidate: null };
+  return { label: reverseLabel(feature), candidate: toCandidate(feature) };
+}
+
+function isEmpty(result: GeocodeForwardResult | GeocodeReverseResult): boolean {
+  return "candidates" in result ? result.candidates.length === 0 : result.label === null;
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") {
+    return errorResponse(new GeocodeError(405, "method_not_allowed", "Method not allowed"));
+  }
+
+  try {
+    const config = getConfig();
+    requireServiceRole(config, req);
+
+    const body = await req.json().catch(() => {
+      throw new GeocodeError(400, "invalid_request", "Body must be JSON");
+    });
+    const request = parseRequest(body);
+
+    const key = cacheKeyFor(request);
+    const cached = await readCache(config, key);
+    if (cached !== undefined) return json({ data: cached, cached: true }, 200, true);
+
+    const result = request.mode === "forward" ? await forward(config, request) : await reverse(config, request);
+    await writeCache(config, key, request.mode, result, isEmpty(result) ? EMPTY_RESULT_TTL_MS : CACHE_TTL_MS);
+
+    return json({ data: result, cached: false }, 200, true);
+  } catch (e) {
+    if (e instanceof GeocodeError) return errorResponse(e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error", code: "upstream_error" }, 500);
+  }
+});
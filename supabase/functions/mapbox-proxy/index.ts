@@ -0,0 +1,435 @@
+import type { GeocodeRequest } from "../_shared/geocodeTypes.ts";
+import type {
+  MapboxProxyErrorCode,
+  MapboxProxyRequest,
+  MapboxRetrieveRequest,
+  MapboxRetrieveResult,
+  MapboxSuggestRequest,
+  MapboxSuggestResult,
+} from "../_shared/mapboxProxyTypes.ts";
+
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// This file runs on Supabase Edge Functions (Deno runtime). Some editors/linters don't include Deno types,
+// so we declare the minimal surface we use to avoid TypeScript errors during local linting.
+declare const Deno: {
+  serve: (handler: (req: Request) => Response | Promise<Response>) => void;
+  env: {
+    get: (key: string) => string | undefined;
+  };
+};
+
+const SEARCH_BOX_URL = "https://api.mapbox.com/search/searchbox/v1";
+const SUGGEST_TTL_MS = 60 * 60 * 1000;
+const RETRIEVE_TTL_MS = 24 * 60 * 60 * 1000;
+const MEMORY_CACHE_MAX_ENTRIES = 500;
+const MAPBOX_TIMEOUT_MS = 20_000;
+
+// Requests per caller; signed-in users get more room than anonymous IPs
+const DEFAULT_QUOTAS = {
+  user: { perMinute: 60, perDay: 2000 },
+  ip: { perMinute: 30, perDay: 500 },
+};
+
+const ISO_CODE_RE = /^[a-z]{2}$/i;
+
+class ProxyError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: MapboxProxyErrorCode,
+    message: string,
+    readonly retryAfterSeconds?: number
+  ) {
+    super(message);
+  }
+}
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-store",
+      ...headers,
+    },
+  });
+}
+
+function errorResponse(error: ProxyError): Response {
+  if (error.retryAfterSeconds !== undefined) {
+    return json(
+      { error: error.message, code: error.code, retryAfterSeconds: error.retryAfterSeconds },
+      error.status,
+      { "Retry-After": String(error.retryAfterSeconds) }
+    );
+  }
+  return json({ error: error.message, code: error.code }, error.status);
+}
+
+function envInt(key: string, fallback: number): number {
+  const value = Number(Deno.env.get(key));
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+function getConfig() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  const mapboxToken = Deno.env.get("MAPBOX_TOKEN") || Deno.env.get("EXPO_PUBLIC_MAPBOX_TOKEN");
+  if (!url || !serviceKey || !mapboxToken) {
+    throw new ProxyError(500, "misconfigured", "SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY and MAPBOX_TOKEN must be set");
+  }
+  return {
+    url,
+    serviceKey,
+    mapboxToken,
+    quotas: {
+      user: {
+        perMinute: envInt("MAPBOX_PROXY_USER_PER_MINUTE", DEFAULT_QUOTAS.user.perMinute),
+        perDay: envInt("MAPBOX_PROXY_USER_PER_DAY", DEFAULT_QUOTAS.user.perDay),
+      },
+      ip: {
+        perMinute: envInt("MAPBOX_PROXY_IP_PER_MINUTE", DEFAULT_QUOTAS.ip.perMinute),
+        perDay: envInt("MAPBOX_PROXY_IP_PER_DAY", DEFAULT_QUOTAS.ip.perDay),
+      },
+    },
+  };
+}
+
+type Config = ReturnType<typeof getConfig>;
+
+// PostgREST with the service role; the usage and cache tables are invisible to app roles
+function rest(config: Config, path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${config.url}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: config.serviceKey,
+      Authorization: `Bearer ${config.serviceKey}`,
+      "Content-Type": "application/json",
+      ...(init.headers ?? {}),
+    },
+  });
+}
+
+// verify_jwt = true: the gateway has checked the signature, so reading the claims is enough.
+// Signed-in users are counted per user, everyone on the anon key per IP. The client can send
+// its own x-forwarded-for; only the last hop, appended by the platform's proxy, is trusted.
+// Other functions calling in with the service role (the legacy geocode shim) name the caller
+// they are counting for in x-quota-subject; nobody else can set it.
+function quotaSubject(config: Config, req: Request): { subject: string; kind: "user" | "ip" } {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  if (token === config.serviceKey) {
+    const forwarded = req.headers.get("x-quota-subject")?.match(/^(user|ip):.{1,100}$/);
+    if (forwarded) return { subject: forwarded[0], kind: forwarded[1] as "user" | "ip" };
+  }
+
+  try {
+    const payload = token.split(".")[1] ?? "";
+    const claims = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/"))) as { sub?: string; role?: string };
+    if (claims.role === "authenticated" && typeof claims.sub === "string") {
+      return { subject: `user:${claims.sub}`, kind: "user" };
+    }
+  } catch {
+    // Not a readable JWT: fall through to the IP
+  }
+  const ip = req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() || "unknown";
+  return { subject: `ip:${ip}`, kind: "ip" };
+}
+
+type QuotaRow = { allowed: boolean; retry_after_seconds: number };
+
+async function countRequest(config: Config, subject: string, limits: { perMinute: number; perDay: number }): Promise<QuotaRow> {
+  const res = await rest(config, "rpc/consume_mapbox_proxy_quota", {
+    method: "POST",
+    body: JSON.stringify({ subject_param: subject, per_minute: limits.perMinute, per_day: limits.perDay }),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw new Error(`consume_mapbox_proxy_quota failed with ${res.status}: ${text.slice(0, 200)}`);
+  }
+  const [row] = (await res.json()) as QuotaRow[];
+  if (!row) throw new Error("consume_mapbox_proxy_quota returned no row");
+  return row;
+}
+
+// Per-instance minute windows, only used while the shared counter can't be reached
+const fallbackWindows = new Map<string, { windowStart: number; count: number }>();
+
+function consumeFallbackQuota(subject: string, perMinute: number) {
+  const now = Date.now();
+  const windowStart = now - (now % 60_000);
+  const current = fallbackWindows.get(subject);
+  const count = current?.windowStart === windowStart ? current.count + 1 : 1;
+
+  fallbackWindows.delete(subject);
+  if (fallbackWindows.size >= MEMORY_CACHE_MAX_ENTRIES) {
+    const oldest = fallbackWindows.keys().next().value;
+    if (oldest !== undefined) fallbackWindows.delete(oldest);
+  }
+  fallbackWindows.set(subject, { windowStart, count });
+
+  if (count > perMinute) {
+    const retryAfterSeconds = Math.max(1, Math.ceil((windowStart + 60_000 - now) / 1000));
+    throw new ProxyError(429, "rate_limited", "Too many searches. Please try again later.", retryAfterSeconds);
+  }
+}
+
+async function consumeQuota(config: Config, req: Request) {
+  const { subject, kind } = quotaSubject(config, req);
+  const limits = config.quotas[kind];
+
+  let row: QuotaRow;
+  try {
+    row = await countRequest(config, subject, limits);
+  } catch (e) {
+    // Don't let a broken counter switch the quota off: cap this instance on its own instead
+    console.error("[mapbox-proxy] Quota check failed, using the per-instance limit:", e);
+    consumeFallbackQuota(subject, limits.perMinute);
+    return;
+  }
+
+  if (!row.allowed) {
+    throw new ProxyError(429, "rate_limited", "Too many searches. Please try again later.", row.retry_after_seconds);
+  }
+}
+
+function parseLanguage(value: unknown): string {
+  if (value === undefined || value === null) return "es";
+  if (typeof value !== "string" || !ISO_CODE_RE.test(value)) {
+    throw new ProxyError(400, "invalid_request", "Invalid language");
+  }
+  return value.toLowerCase();
+}
+
+function parseSessionToken(value: unknown): string {
+  if (typeof value !== "string" || !/^[\w-]{8,64}$/.test(value)) {
+    throw new ProxyError(400, "invalid_request", "Invalid sessionToken");
+  }
+  return value;
+}
+
+function parseSuggest(input: Partial<MapboxSuggestRequest>): Required<MapboxSuggestRequest> {
+  const q = typeof input.q === "string" ? input.q.trim().slice(0, 120) : "";
+  if (!q) throw new ProxyError(400, "invalid_request", "Missing q");
+
+  const country = input.country ?? null;
+  if (country !== null && (typeof country !== "string" || !ISO_CODE_RE.test(country))) {
+    throw new ProxyError(400, "invalid_request", "Invalid country");
+  }
+
+  let proximity: { lat: number; lng: number } | null = null;
+  if (input.proximity != null) {
+    const { lat, lng } = input.proximity;
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) {
+      throw new ProxyError(400, "invalid_request", "Invalid proximity");
+    }
+    proximity = { lat, lng };
+  }
+
+  const limit = input.limit ?? 10;
+  if (!Number.isInteger(limit) || limit < 1 || limit > 10) {
+    throw new ProxyError(400, "invalid_request", "limit must be an integer from 1 to 10");
+  }
+
+  return {
+    mode: "suggest",
+    q,
+    sessionToken: parseSessionToken(input.sessionToken),
+    language: parseLanguage(input.language),
+    country: typeof country === "string" ? country.toLowerCase() : null,
+    proximity,
+    limit,
+  };
+}
+
+function parseRetrieve(input: Partial<MapboxRetrieveRequest>): Required<MapboxRetrieveRequest> {
+  if (typeof input.mapboxId !== "string" || !input.mapboxId || input.mapboxId.length > 512) {
+    throw new ProxyError(400, "invalid_request", "Invalid mapboxId");
+  }
+  return {
+    mode: "retrieve",
+    mapboxId: input.mapboxId,
+    sessionToken: parseSessionToken(input.sessionToken),
+    language: parseLanguage(input.language),
+  };
+}
+
+// First tier: this instance. Second tier: public.geocode_cache, shared with geocode-v2.
+const memoryCache = new Map<string, { expiresAt: number; payload: unknown }>();
+
+function rememberInMemory(key: string, payload: unknown, expiresAt: number) {
+  if (memoryCache.size >= MEMORY_CACHE_MAX_ENTRIES) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest !== undefined) memoryCache.delete(oldest);
+  }
+  memoryCache.set(key, { expiresAt, payload });
+}
+
+// Cache failures never fail the request; the answer is just fetched from Mapbox again
+async function readCache(config: Config, key: string): Promise<unknown | undefined> {
+  const now = Date.now();
+  const hit = memoryCache.get(key);
+  if (hit && hit.expiresAt > now) return hit.payload;
+
+  try {
+    const res = await rest(
+      config,
+      `geocode_cache?cache_key=eq.${encodeURIComponent(key)}&expires_at=gt.${encodeURIComponent(new Date(now).toISOString())}&select=payload,expires_at`
+    );
+    if (!res.ok) return undefined;
+    const [row] = (await res.json()) as Array<{ payload: unknown; expires_at: string }>;
+    if (!row) return undefined;
+    rememberInMemory(key, row.payload, new Date(row.expires_at).getTime());
+    return row.payload;
+  } catch {
+    return undefined;
+  }
+}
+
+async function writeCache(config: Config, key: string, mode: "suggest" | "retrieve", payload: unknown, ttlMs: number) {
+  const expiresAt = Date.now() + ttlMs;
+  rememberInMemory(key, payload, expiresAt);
+
+  try {
+    await rest(config, "geocode_cache", {
+      method: "POST",
+      headers: { Prefer: "resolution=merge-duplicates,return=minimal" },
+      body: JSON.stringify({
+        cache_key: key,
+        mode,
+        payload,
+        created_at: new Date().toISOString(),
+        expires_at: new Date(expiresAt).toISOString(),
+      }),
+    });
+  } catch {
+    // Served from memory until this instance goes away
+  }
+}
+
+async function withCache<T>(
+  config: Config,
+  key: string,
+  mode: "suggest" | "retrieve",
+  ttlMs: number,
+  load: () => Promise<T>
+): Promise<{ data: T; cached: boolean }> {
+  const cached = await readCache(config, key);
+  if (cached !== undefined) return { data: cached as T, cached: true };
+
+  const data = await load();
+  await writeCache(config, key, mode, data, ttlMs);
+  return { data, cached: false };
+}
+
+async function fetchSearchBox(config: Config, path: string, params: Record<string, string>): Promise<unknown> {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), MAPBOX_TIMEOUT_MS);
+  const query = new URLSearchParams({ ...params, access_token: config.mapboxToken });
+
+  try {
+    const res = await fetch(`${SEARCH_BOX_URL}/${path}?${query}`, {
+      headers: { Accept: "application/json" },
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw new ProxyError(502, "upstream_error", `Mapbox search error ${res.status}: ${text.slice(0, 200)}`);
+    }
+
+    return await res.json();
+  } catch (e) {
+    if (e instanceof ProxyError) throw e;
+    if (e instanceof Error && e.name === "AbortError") {
+      throw new ProxyError(504, "upstream_timeout", "Search timed out. Please try again.");
+    }
+    throw new ProxyError(502, "upstream_error", e instanceof Error ? e.message : "Search failed");
+  } finally {
+    clearTimeout(timeout);
+  }
+}
+
+// Cached answers don't open a billed session, so the key leaves the session token out
+function suggest(config: Config, request: Required<MapboxSuggestRequest>) {
+  const round = (n: number) => (Math.round(n * 1000) / 1000).toFixed(3);
+  const near = request.proximity ? `${round(request.proximity.lat)},${round(request.proximity.lng)}` : "-";
+  const key = `suggest:${request.language}:${request.country ?? "any"}:${request.limit}:${near}:${request.q.toLowerCase()}`;
+
+  return withCache(config, key, "suggest", SUGGEST_TTL_MS, async (): Promise<MapboxSuggestResult> => {
+    const params: Record<string, string> = {
+      q: request.q,
+      session_token: request.sessionToken,
+      language: request.language,
+      types: "poi",
+      limit: String(request.limit),
+    };
+    if (request.country) params.country = request.country;
+    if (request.proximity) params.proximity = `${request.proximity.lng},${request.proximity.lat}`;
+
+    const data = (await fetchSearchBox(config, "suggest", params)) as Partial<MapboxSuggestResult>;
+    return { suggestions: data.suggestions ?? [] };
+  });
+}
+
+function retrieve(config: Config, request: Required<MapboxRetrieveRequest>) {
+  const key = `retrieve:${request.language}:${request.mapboxId}`;
+
+  return withCache(config, key, "retrieve", RETRIEVE_TTL_MS, async (): Promise<MapboxRetrieveResult> => {
+    const data = (await fetchSearchBox(config, `retrieve/${encodeURIComponent(request.mapboxId)}`, {
+      session_token: request.sessionToken,
+      language: request.language,
+    })) as { features?: Array<MapboxRetrieveResult["feature"]> };
+    return { feature: data.features?.[0] ?? null };
+  });
+}
+
+// Geocoding lives in geocode-v2 (and its cache); pass its status and body straight through
+async function geocode(config: Config, request: GeocodeRequest): Promise<Response> {
+  const res = await fetch(`${config.url}/functions/v1/geocode-v2`, {
+    method: "POST",
+    headers: {
+      apikey: config.serviceKey,
+      Authorization: `Bearer ${config.serviceKey}`,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(request),
+  });
+  const body = await res.json().catch(() => ({ error: "Invalid response from geocode-v2", code: "upstream_error" }));
+  return json(body, res.status);
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") {
+    return errorResponse(new ProxyError(405, "method_not_allowed", "Method not allowed"));
+  }
+
+  try {
+    const body = (await req.json().catch(() => {
+      throw new ProxyError(400, "invalid_request", "Body must be JSON");
+    })) as Partial<MapboxProxyRequest> | null;
+    const mode = body?.mode;
+    if (mode !== "suggest" && mode !== "retrieve" && mode !== "forward" && mode !== "reverse") {
+      throw new ProxyError(400, "invalid_request", 'mode must be "suggest", "retrieve", "forward" or "reverse"');
+    }
+
+    const config = getConfig();
+    await consumeQuota(config, req);
+
+    if (mode === "forward" || mode === "reverse") return await geocode(config, body as GeocodeRequest);
+
+    const result =
+      mode === "suggest"
+        ? await suggest(config, parseSuggest(body as Partial<MapboxSuggestRequest>))
+        : await retrieve(config, parseRetrieve(body as Partial<MapboxRetrieveRequest>));
+    return json(result);
+  } catch (e) {
+    if (e instanceof ProxyError) return errorResponse(e);
+    return json({ error: e instanceof Error ? e.message : "Unknown error", code: "upstream_error" }, 500);
+  }
+});
@@ -0,0 +1,167 @@
+const corsHeaders: Record<string, string> = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Methods": "POST, OPTIONS",
+};
+
+// This file runs on Supabase Edge Functions (Deno runtime). Some editors/linters don't include Deno types,
+// so we declare the minimal surface we use to avoid TypeScript errors during local linting.
+declare const Deno: {
+  serve: (handler: (req: Request) => Response | Promise<Response>) => void;
+  env: {
+    get: (key: string) => string | undefined;
+  };
+};
+
+type ReportTarget = "ranking" | "photo";
+type ReportReason = "inappropriate" | "spam" | "wrong_restaurant" | "other";
+
+type ReportRequestBody = {
+  ranking_id: string;
+  target: ReportTarget;
+  reason: ReportReason;
+  details?: string | null;
+};
+
+type RankingRow = {
+  id: string;
+  user_id: string;
+  image_url: string | null;
+  moderation_state: "pending" | "approved" | "hidden";
+};
+
+const TARGETS: ReportTarget[] = ["ranking", "photo"];
+const REASONS: ReportReason[] = ["inappropriate", "spam", "wrong_restaurant", "other"];
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Distinct reporters (other than the author) needed before a ranking is hidden automatically
+const DEFAULT_HIDE_THRESHOLD = 3;
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {
+      ...corsHeaders,
+      "Content-Type": "application/json; charset=utf-8",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
+function getConfig() {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) {
+    throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set");
+  }
+  const threshold = Number(Deno.env.get("REPORT_HIDE_THRESHOLD"));
+  return {
+    url,
+    serviceKey,
+    hideThreshold: Number.isInteger(threshold) && threshold > 0 ? threshold : DEFAULT_HIDE_THRESHOLD,
+  };
+}
+
+type Config = ReturnType<typeof getConfig>;
+
+// PostgREST with the service role: bypasses RLS, so every query below filters explicitly
+async function rest(config: Config, path: string, init: RequestInit = {}): Promise<Response> {
+  return fetch(`${config.url}/rest/v1/${path}`, {
+    ...init,
+    headers: {
+      apikey: config.serviceKey,
+      Authorization: `Bearer ${config.serviceKey}`,
+      "Content-Type": "application/json",
+      ...(init.headers ?? {}),
+    },
+  });
+}
+
+async function restError(res: Response, action: string): Promise<Error> {
+  const text = await res.text().catch(() => "");
+  return new Error(`Failed to ${action} (${res.status}): ${text.slice(0, 200)}`);
+}
+
+async function getCaller(config: Config, authorization: string): Promise<string | null> {
+  const res = await fetch(`${config.url}/auth/v1/user`, {
+    headers: { apikey: config.serviceKey, Authorization: authorization },
+  });
+  if (!res.ok) return null;
+  const user = (await res.json()) as { id?: string };
+  return typeof user.id === "string" ? user.id : null;
+}
+
+function parseBody(body: Partial<ReportRequestBody>): ReportRequestBody | string {
+  if (typeof body.ranking_id !== "string" || !UUID_RE.test(body.ranking_id)) return "Invalid ranking_id";
+  if (!TARGETS.includes(body.target as ReportTarget)) return "Invalid target";
+  if (!REASONS.includes(body.reason as ReportReason)) return "Invalid reason";
+  const details = typeof body.details === "string" ? body.details.trim().slice(0, 500) : "";
+  return {
+    ranking_id: body.ranking_id,
+    target: body.target as ReportTarget,
+    reason: body.reason as ReportReason,
+    details: details || null,
+  };
+}
+
+Deno.serve(async (req: Request) => {
+  if (req.method === "OPTIONS") return new Response("ok", { headers: corsHeaders });
+  if (req.method !== "POST") return json({ error: "Method not allowed" }, 405);
+
+  try {
+    const config = getConfig();
+
+    const authorization = req.headers.get("Authorization");
+    const reporterId = authorization ? await getCaller(config, authorization) : null;
+    if (!reporterId) return json({ error: "Not authenticated" }, 401);
+
+    const body = (await req.json().catch(() => null)) as Partial<ReportRequestBody> | null;
+    if (!body || typeof body !== "object") return json({ error: "Body must be a JSON object" }, 400);
+
+    const parsed = parseBody(body);
+    if (typeof parsed === "string") return json({ error: parsed }, 400);
+
+    const rankingRes = await rest(
+      config,
+      `dish_rankings?id=eq.${parsed.ranking_id}&select=id,user_id,image_url,moderation_state`
+    );
+    if (!rankingRes.ok) throw await restError(rankingRes, "load ranking");
+    const [ranking] = (await rankingRes.json()) as RankingRow[];
+
+    // Hidden rankings are invisible to everyone but the owner, so treat them as missing too
+    if (!ranking || ranking.moderation_state === "hidden") return json({ error: "Ranking not found" }, 404);
+    if (ranking.user_id === reporterId) return json({ error: "You can't report your own ranking" }, 400);
+    if (parsed.target === "photo" && !ranking.image_url) return json({ error: "This ranking has no photo" }, 400);
+
+    const insertRes = await rest(config, "content_reports", {
+      method: "POST",
+      headers: { Prefer: "return=minimal" },
+      body: JSON.stringify({ ...parsed, reporter_id: reporterId }),
+    });
+    const alreadyReported = insertRes.status === 409;
+    if (!insertRes.ok && !alreadyReported) throw await restError(insertRes, "save report");
+
+    const reportsRes = await rest(config, `content_reports?ranking_id=eq.${ranking.id}&select=reporter_id`);
+    if (!reportsRes.ok) throw await restError(reportsRes, "count reports");
+    const reporters = new Set(((await reportsRes.json()) as Array<{ reporter_id: string }>).map((r) => r.reporter_id));
+    reporters.delete(ranking.user_id);
+
+    // Rankings the team has approved stay up; their reports still show in moderation_queue
+    let hidden = false;
+    if (ranking.moderation_state === "pending" && reporters.size >= config.hideThreshold) {
+      const hideRes = await rest(config, `dish_rankings?id=eq.${ranking.id}&moderation_state=eq.pending`, {
+        method: "PATCH",
+        headers: { Prefer: "return=minimal" },
+        body: JSON.stringify({ moderation_state: "hidden", moderated_at: new Date().toISOString() }),
+      });
+      if (!hideRes.ok) throw await restError(hideRes, "hide ranking");
+      hidden = true;
+    }
+
+    return json({ data: { alreadyReported, hidden, reportCount: reporters.size } });
+  } catch (e) {
+    // Upstream errors can include table and column details; keep them in the function logs
+    console.error("[report-content] Failed to save report:", e);
+    return json({ error: "Could not save the report. Please try again." }, 500);
+  }
+});
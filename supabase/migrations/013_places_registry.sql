@@ -0,0 +1,416 @@
+-- Star Dish MVP - Canonical place registry
+-- A restaurant can be known by several external ids (OSM node/way/relation, Mapbox POI).
+-- dish_rankings.osm_id has accumulated numeric OSM ids, "mapbox:poi.xxx" strings and the
+-- broken "osm:node:mapbox:xxx" format. Every external id now resolves to one places.id.
+
+CREATE TABLE IF NOT EXISTS public.places (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  lat double precision,
+  lng double precision,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT places_lat_range CHECK (lat IS NULL OR (lat >= -90 AND lat <= 90)),
+  CONSTRAINT places_lng_range CHECK (lng IS NULL OR (lng >= -180 AND lng <= 180))
+);
+
+DROP TRIGGER IF EXISTS set_places_updated_at ON public.places;
+CREATE TRIGGER set_places_updated_at
+BEFORE UPDATE ON public.places
+FOR EACH ROW
+EXECUTE FUNCTION public.set_updated_at();
+
+-- External ids in canonical form: "osm:node:123", "osm:way:456", "mapbox:poi.789"
+CREATE TABLE IF NOT EXISTS public.place_refs (
+  ref text PRIMARY KEY,
+  place_id uuid NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  provider text GENERATED ALWAYS AS (split_part(ref, ':', 1)) STORED,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CONSTRAINT place_refs_format CHECK (ref ~ '^(osm:(node|way|relation):[0-9]+|mapbox:[^:]+)$')
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_refs_place_id ON public.place_refs(place_id);
+
+-- RLS: public read, writes only through the SECURITY DEFINER functions below
+ALTER TABLE public.places ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.place_refs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "places_public_read" ON public.places;
+CREATE POLICY "places_public_read"
+  ON public.places FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "place_refs_public_read" ON public.place_refs;
+CREATE POLICY "place_refs_public_read"
+  ON public.place_refs FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Normalize any external id we have stored over time into its canonical ref.
+-- normalizeRestaurantRef() in src/utils/restaurantRef.ts applies the same rules. It also
+-- accepts the app's "place:<uuid>" ids, which are places.id values rather than external
+-- refs; they normalize to NULL here and are never stored in place_refs.
+CREATE OR REPLACE FUNCTION public.normalize_place_ref(raw text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN raw IS NULL OR btrim(raw) = '' THEN NULL
+    -- Legacy dish_rankings.osm_id: bare numeric OSM id (always stored as a node)
+    WHEN btrim(raw) ~ '^[0-9]+$' THEN 'osm:node:' || regexp_replace(btrim(raw), '^0+(?=[0-9])', '')
+    WHEN btrim(raw) ~ '^osm:(node|way|relation):[0-9]+$'
+      THEN 'osm:' || split_part(btrim(raw), ':', 2) || ':' || regexp_replace(split_part(btrim(raw), ':', 3), '^0+(?=[0-9])', '')
+    -- Broken format written by older clients: osm:node:mapbox:xxx
+    WHEN btrim(raw) ~ '^osm:(node|way|relation):mapbox:[^:]+$'
+      THEN 'mapbox:' || regexp_replace(btrim(raw), '^osm:(node|way|relation):mapbox:', '')
+    WHEN btrim(raw) ~ '^mapbox:[^:]+$' THEN btrim(raw)
+    -- Bare Mapbox feature id (dish_rankings.mapbox_id, e.g. poi.123456789)
+    WHEN btrim(raw) ~ '^[^:]+$' THEN 'mapbox:' || btrim(raw)
+    ELSE NULL
+  END;
+$$;
+
+-- Resolve a set of external ids for the same restaurant to its place id, creating the place
+-- when none of them is known. When they point at different places, the place that owns most
+-- of them wins (then the one claimed first). Only trusted callers (migrations, service role)
+-- may attach the remaining refs to an existing place: for app users nothing checks that the
+-- ids really are that restaurant.
+CREATE OR REPLACE FUNCTION public.resolve_place(
+  refs text[],
+  name_param text,
+  lat_param double precision DEFAULT NULL,
+  lng_param double precision DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized text[];
+  found_place uuid;
+  created boolean := false;
+  winner uuid;
+BEGIN
+  SELECT array_agg(DISTINCT n.ref)
+  INTO normalized
+  FROM (SELECT public.normalize_place_ref(r) AS ref FROM unnest(refs) AS r) n
+  WHERE n.ref IS NOT NULL;
+
+  IF normalized IS NULL THEN
+    RAISE EXCEPTION 'No valid place reference in %', refs;
+  END IF;
+
+  SELECT pr.place_id
+  INTO found_place
+  FROM public.place_refs pr
+  WHERE pr.ref = ANY(normalized)
+  GROUP BY pr.place_id
+  ORDER BY COUNT(*) DESC, MIN(pr.created_at)
+  LIMIT 1;
+
+  IF found_place IS NULL THEN
+    INSERT INTO public.places (name, lat, lng)
+    VALUES (COALESCE(NULLIF(btrim(name_param), ''), 'Restaurant'), lat_param, lng_param)
+    RETURNING id INTO found_place;
+    created := true;
+  ELSIF lat_param IS NOT NULL AND lng_param IS NOT NULL THEN
+    UPDATE public.places
+    SET lat = lat_param, lng = lng_param
+    WHERE id = found_place AND (lat IS NULL OR lng IS NULL);
+  END IF;
+
+  IF NOT created AND COALESCE(auth.role(), 'service_role') IN ('anon', 'authenticated') THEN
+    RETURN found_place;
+  END IF;
+
+  INSERT INTO public.place_refs (ref, place_id)
+  SELECT r, found_place FROM unnest(normalized) AS r
+  ON CONFLICT (ref) DO NOTHING;
+
+  -- A concurrent call may have registered some of the refs first; defer to whichever place
+  -- now owns most of them
+  SELECT pr.place_id
+  INTO winner
+  FROM public.place_refs pr
+  WHERE pr.ref = ANY(normalized)
+  GROUP BY pr.place_id
+  ORDER BY COUNT(*) DESC, MIN(pr.created_at)
+  LIMIT 1;
+
+  IF winner IS DISTINCT FROM found_place THEN
+    DELETE FROM public.places p
+    WHERE p.id = found_place
+      AND NOT EXISTS (SELECT 1 FROM public.place_refs pr WHERE pr.place_id = p.id);
+    RETURN winner;
+  END IF;
+
+  RETURN found_place;
+END;
+$$;
+
+-- Look up place ids for external ids without creating anything.
+-- Returns the ref exactly as passed in so callers can map results back.
+CREATE OR REPLACE FUNCTION public.get_place_ids(refs text[])
+RETURNS TABLE (ref text, place_id uuid)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT r AS ref, pr.place_id
+  FROM unnest(refs) AS r
+  JOIN public.place_refs pr ON pr.ref = public.normalize_place_ref(r);
+$$;
+
+-- Average dish score per place for a batch of external ids (map enrichment).
+CREATE OR REPLACE FUNCTION public.get_place_rankings(refs text[])
+RETURNS TABLE (ref text, place_id uuid, ranking numeric, review_count bigint)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    r AS ref,
+    pr.place_id,
+    ROUND(AVG(dr.score)::numeric, 1) AS ranking,
+    COUNT(dr.id)::bigint AS review_count
+  FROM unnest(refs) AS r
+  JOIN public.place_refs pr ON pr.ref = public.normalize_place_ref(r)
+  JOIN public.dish_rankings dr ON dr.place_id = pr.place_id
+  GROUP BY r, pr.place_id;
+$$;
+
+-- Attach another external id to an existing place (e.g. a Mapbox POI matched to an OSM node).
+-- Refs already claimed by a different place are left untouched. Service role only: nothing
+-- here checks that the ref really is that restaurant.
+CREATE OR REPLACE FUNCTION public.link_place_ref(place_id_param uuid, ref_param text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  normalized text := public.normalize_place_ref(ref_param);
+  owner uuid;
+BEGIN
+  IF normalized IS NULL THEN
+    RAISE EXCEPTION 'Invalid place reference: %', ref_param;
+  END IF;
+
+  INSERT INTO public.place_refs (ref, place_id)
+  VALUES (normalized, place_id_param)
+  ON CONFLICT (ref) DO NOTHING;
+
+  SELECT pr.place_id INTO owner FROM public.place_refs pr WHERE pr.ref = normalized;
+  RETURN owner;
+END;
+$$;
+
+-- Merge two places that turned out to be the same restaurant. Internal use only.
+CREATE OR REPLACE FUNCTION public.merge_places(keep_id uuid, drop_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF keep_id = drop_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.place_refs SET place_id = keep_id WHERE place_id = drop_id;
+  UPDATE public.dish_rankings SET place_id = keep_id WHERE place_id = drop_id;
+  DELETE FROM public.places WHERE id = drop_id;
+END;
+$$;
+
+-- Link dish_rankings to places
+ALTER TABLE public.dish_rankings
+ADD COLUMN IF NOT EXISTS place_id uuid REFERENCES public.places(id) ON DELETE RESTRICT;
+
+CREATE INDEX IF NOT EXISTS idx_dish_rankings_place_id ON public.dish_rankings(place_id);
+
+COMMENT ON COLUMN public.dish_rankings.place_id IS
+'Canonical restaurant id (places.id). osm_id and mapbox_id are kept as the external ids the ranking was submitted with.';
+
+-- Older clients only send osm_id/mapbox_id: resolve the place for them. Rankings that
+-- come with a place_id register nothing, so editing a ranking never attaches refs to a place.
+CREATE OR REPLACE FUNCTION public.set_dish_ranking_place()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.place_id IS NULL THEN
+    NEW.place_id := public.resolve_place(
+      ARRAY[NEW.osm_id, NEW.mapbox_id],
+      NEW.restaurant_name,
+      NEW.restaurant_lat,
+      NEW.restaurant_lng
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_dish_rankings_place ON public.dish_rankings;
+CREATE TRIGGER set_dish_rankings_place
+BEFORE INSERT ON public.dish_rankings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_dish_ranking_place();
+
+-- Back-fill existing rankings, oldest first so the first-seen id owns the place
+DO $$
+DECLARE
+  ranking record;
+  resolved uuid;
+  survivor uuid;
+  other uuid;
+BEGIN
+  FOR ranking IN
+    SELECT id, osm_id, mapbox_id, restaurant_name, restaurant_lat, restaurant_lng
+    FROM public.dish_rankings
+    WHERE place_id IS NULL
+    ORDER BY created_at
+  LOOP
+    resolved := public.resolve_place(
+      ARRAY[ranking.osm_id, ranking.mapbox_id],
+      ranking.restaurant_name,
+      ranking.restaurant_lat,
+      ranking.restaurant_lng
+    );
+    UPDATE public.dish_rankings SET place_id = resolved WHERE id = ranking.id;
+  END LOOP;
+
+  -- All the refs on one ranking (its osm_id and mapbox_id) are the same restaurant, so every
+  -- place owning one of them, and the ranking's own place, is merged into the one that owns
+  -- the most refs. A merge can retire a place another ranking points at, so look for the
+  -- next pair after each one.
+  LOOP
+    WITH ownership AS (
+      SELECT pr.place_id, COUNT(*) AS ref_count, MIN(pr.created_at) AS first_claimed
+      FROM public.place_refs pr
+      GROUP BY pr.place_id
+    ),
+    linked AS (
+      SELECT dr.id AS ranking_id, pr.place_id
+      FROM public.dish_rankings dr
+      JOIN public.place_refs pr
+        ON pr.ref IN (public.normalize_place_ref(dr.osm_id), public.normalize_place_ref(dr.mapbox_id))
+      UNION
+      SELECT dr.id, dr.place_id
+      FROM public.dish_rankings dr
+    ),
+    ranked AS (
+      SELECT
+        l.ranking_id,
+        l.place_id,
+        row_number() OVER (
+          PARTITION BY l.ranking_id
+          ORDER BY o.ref_count DESC NULLS LAST, o.first_claimed NULLS LAST, l.place_id
+        ) AS rn
+      FROM linked l
+      LEFT JOIN ownership o ON o.place_id = l.place_id
+    )
+    SELECT keep.place_id, dupe.place_id
+    INTO survivor, other
+    FROM ranked keep
+    JOIN ranked dupe ON dupe.ranking_id = keep.ranking_id AND dupe.rn > 1
+    WHERE keep.rn = 1
+    LIMIT 1;
+
+    EXIT WHEN NOT FOUND;
+    PERFORM public.merge_places(survivor, other);
+  END LOOP;
+END $$;
+
+ALTER TABLE public.dish_rankings ALTER COLUMN place_id SET NOT NULL;
+
+-- Rebuild top picks / best rated on place_id so rankings never split across two ids
+DROP FUNCTION IF EXISTS public.get_top_picks(int);
+
+CREATE FUNCTION public.get_top_picks(limit_count int DEFAULT 10)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  restaurant_name text,
+  avg_score numeric,
+  review_count bigint,
+  lat double precision,
+  lng double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH restaurant_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count,
+      (array_agg(dr.restaurant_lat ORDER BY dr.created_at DESC) FILTER (WHERE dr.restaurant_lat IS NOT NULL))[1] AS ranking_lat,
+      (array_agg(dr.restaurant_lng ORDER BY dr.created_at DESC) FILTER (WHERE dr.restaurant_lng IS NOT NULL))[1] AS ranking_lng
+    FROM public.dish_rankings dr
+    GROUP BY dr.place_id
+    HAVING COUNT(*) >= 1  -- Minimum 1 review for top picks
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    GROUP BY pr.place_id
+  )
+  SELECT
+    rs.place_id,
+    ref.ref AS place_ref,
+    p.name AS restaurant_name,
+    rs.avg_score,
+    rs.review_count,
+    COALESCE(p.lat, rs.ranking_lat) AS lat,
+    COALESCE(p.lng, rs.ranking_lng) AS lng
+  FROM restaurant_stats rs
+  JOIN public.places p ON p.id = rs.place_id
+  LEFT JOIN primary_refs ref ON ref.place_id = rs.place_id
+  ORDER BY rs.avg_score DESC, rs.review_count DESC
+  LIMIT limit_count;
+$$;
+
+DROP FUNCTION IF EXISTS public.get_best_rated(int);
+
+CREATE FUNCTION public.get_best_rated(limit_count int DEFAULT 10)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  restaurant_name text,
+  avg_score numeric,
+  total_reviews bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    GROUP BY pr.place_id
+  )
+  SELECT
+    dr.place_id,
+    ref.ref AS place_ref,
+    p.name AS restaurant_name,
+    ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+    COUNT(*)::bigint AS total_reviews
+  FROM public.dish_rankings dr
+  JOIN public.places p ON p.id = dr.place_id
+  LEFT JOIN primary_refs ref ON ref.place_id = dr.place_id
+  GROUP BY dr.place_id, ref.ref, p.name
+  HAVING AVG(dr.score) >= 7.0 AND COUNT(*) >= 2  -- High score + minimum reviews
+  ORDER BY avg_score DESC, total_reviews DESC
+  LIMIT limit_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_place_ref(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_place(text[], text, double precision, double precision) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.resolve_place(text[], text, double precision, double precision) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_place_ids(text[]) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_place_rankings(text[]) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.link_place_ref(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.merge_places(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_top_picks(int) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_best_rated(int) TO anon, authenticated;
@@ -0,0 +1,140 @@
+-- Star Dish MVP - Viewport query for ranked places
+-- Lets the map show every rated place inside the visible bounds without a search query.
+
+-- Spatial column mirrors restaurants.location (001_initial_schema.sql); NULL until coordinates are known
+ALTER TABLE public.places
+ADD COLUMN IF NOT EXISTS location geography(point, 4326)
+  GENERATED ALWAYS AS (
+    CASE
+      WHEN lat IS NOT NULL AND lng IS NOT NULL THEN ST_SetSRID(ST_MakePoint(lng, lat), 4326)::geography
+    END
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS places_location_gix ON public.places USING gist (location);
+
+-- Places created before coordinates were captured: take the latest ranking's coordinates
+UPDATE public.places p
+SET lat = c.restaurant_lat, lng = c.restaurant_lng
+FROM (
+  SELECT DISTINCT ON (dr.place_id) dr.place_id, dr.restaurant_lat, dr.restaurant_lng
+  FROM public.dish_rankings dr
+  WHERE dr.restaurant_lat IS NOT NULL AND dr.restaurant_lng IS NOT NULL
+  ORDER BY dr.place_id, dr.created_at DESC
+) c
+WHERE c.place_id = p.id AND (p.lat IS NULL OR p.lng IS NULL);
+
+-- Maximum places returned for a viewport, by zoom level.
+-- Zoomed-out views cover a whole city, so only the best-ranked places are worth drawing.
+CREATE OR REPLACE FUNCTION public.viewport_place_cap(zoom_level int)
+RETURNS int
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN zoom_level IS NULL OR zoom_level <= 10 THEN 50
+    WHEN zoom_level <= 12 THEN 100
+    WHEN zoom_level <= 14 THEN 200
+    ELSE 400
+  END;
+$$;
+
+-- Ranked places inside a bounding box, best first.
+-- Paginated with page_size/page_offset; total_count is the number of rows available
+-- for this viewport after the zoom cap, so clients know when to stop paging.
+CREATE OR REPLACE FUNCTION public.get_ranked_places_in_viewport(
+  sw_lat double precision,
+  sw_lng double precision,
+  ne_lat double precision,
+  ne_lng double precision,
+  zoom_level int DEFAULT NULL,
+  name_query text DEFAULT NULL,
+  page_size int DEFAULT 100,
+  page_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  name text,
+  lat double precision,
+  lng double precision,
+  avg_score numeric,
+  review_count bigint,
+  star_dish_name text,
+  star_dish_score numeric,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      ST_MakeEnvelope(sw_lng, sw_lat, ne_lng, ne_lat, 4326)::geography AS envelope,
+      public.viewport_place_cap(zoom_level) AS cap,
+      NULLIF(btrim(name_query), '') AS q
+  ),
+  visible AS (
+    SELECT p.id, p.name, p.lat, p.lng
+    FROM public.places p, bounds b
+    WHERE p.location && b.envelope
+      AND (b.q IS NULL OR p.name ILIKE '%' || b.q || '%')
+  ),
+  place_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count
+    FROM public.dish_rankings dr
+    JOIN visible v ON v.id = dr.place_id
+    GROUP BY dr.place_id
+  ),
+  dish_stats AS (
+    SELECT
+      dr.place_id,
+      dr.dish_name,
+      ROUND(AVG(dr.score)::numeric, 1) AS dish_score,
+      COUNT(*) AS dish_reviews,
+      MAX(dr.created_at) AS last_ranked_at
+    FROM public.dish_rankings dr
+    JOIN visible v ON v.id = dr.place_id
+    GROUP BY dr.place_id, lower(btrim(dr.dish_name)), dr.dish_name
+  ),
+  star_dishes AS (
+    SELECT DISTINCT ON (ds.place_id) ds.place_id, ds.dish_name, ds.dish_score
+    FROM dish_stats ds
+    ORDER BY ds.place_id, ds.dish_score DESC, ds.dish_reviews DESC, ds.last_ranked_at DESC
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    JOIN visible v ON v.id = pr.place_id
+    GROUP BY pr.place_id
+  ),
+  ranked AS (
+    SELECT
+      v.id AS place_id,
+      ref.ref AS place_ref,
+      v.name,
+      v.lat,
+      v.lng,
+      ps.avg_score,
+      ps.review_count,
+      sd.dish_name AS star_dish_name,
+      sd.dish_score AS star_dish_score
+    FROM visible v
+    JOIN place_stats ps ON ps.place_id = v.id
+    LEFT JOIN star_dishes sd ON sd.place_id = v.id
+    LEFT JOIN primary_refs ref ON ref.place_id = v.id
+    ORDER BY ps.avg_score DESC, ps.review_count DESC, v.id
+    LIMIT (SELECT cap FROM bounds)
+  )
+  SELECT r.*, COUNT(*) OVER ()::bigint AS total_count
+  FROM ranked r
+  ORDER BY r.avg_score DESC, r.review_count DESC, r.place_id
+  LIMIT LEAST(GREATEST(page_size, 1), (SELECT cap FROM bounds))
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.viewport_place_cap(int) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ranked_places_in_viewport(
+  double precision, double precision, double precision, double precision, int, text, int, int
+) TO anon, authenticated;
@@ -0,0 +1,107 @@
+-- Star Dish MVP - User Favorites
+-- Saved restaurants, keyed by canonical place so a favorite survives provider id changes.
+
+CREATE TABLE IF NOT EXISTS public.user_favorites (
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  place_id uuid NOT NULL REFERENCES public.places(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, place_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_user_favorites_user_created ON public.user_favorites(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_favorites_place_id ON public.user_favorites(place_id);
+
+-- RLS: favorites are private to their owner
+ALTER TABLE public.user_favorites ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own favorites" ON public.user_favorites;
+CREATE POLICY "Users can read own favorites"
+  ON public.user_favorites FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can add own favorites" ON public.user_favorites;
+CREATE POLICY "Users can add own favorites"
+  ON public.user_favorites FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can remove own favorites" ON public.user_favorites;
+CREATE POLICY "Users can remove own favorites"
+  ON public.user_favorites FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Merging two places must carry favorites over; a user who saved both keeps one row
+CREATE OR REPLACE FUNCTION public.merge_places(keep_id uuid, drop_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF keep_id = drop_id THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.place_refs SET place_id = keep_id WHERE place_id = drop_id;
+  UPDATE public.dish_rankings SET place_id = keep_id WHERE place_id = drop_id;
+
+  DELETE FROM public.user_favorites f
+  WHERE f.place_id = drop_id
+    AND EXISTS (
+      SELECT 1 FROM public.user_favorites k
+      WHERE k.user_id = f.user_id AND k.place_id = keep_id
+    );
+  UPDATE public.user_favorites SET place_id = keep_id WHERE place_id = drop_id;
+
+  DELETE FROM public.places WHERE id = drop_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.merge_places(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+-- The current user's saved places, newest first, with the same ranking stats as top picks.
+-- Runs as the caller, so RLS limits rows to auth.uid().
+CREATE OR REPLACE FUNCTION public.get_user_favorites(limit_count int DEFAULT 20)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  restaurant_name text,
+  lat double precision,
+  lng double precision,
+  avg_score numeric,
+  review_count bigint,
+  favorited_at timestamptz
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id AS place_id,
+    (
+      SELECT pr.ref
+      FROM public.place_refs pr
+      WHERE pr.place_id = p.id
+      ORDER BY pr.created_at
+      LIMIT 1
+    ) AS place_ref,
+    p.name AS restaurant_name,
+    p.lat,
+    p.lng,
+    stats.avg_score,
+    COALESCE(stats.review_count, 0) AS review_count,
+    f.created_at AS favorited_at
+  FROM public.user_favorites f
+  JOIN public.places p ON p.id = f.place_id
+  LEFT JOIN LATERAL (
+    SELECT
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count
+    FROM public.dish_rankings dr
+    WHERE dr.place_id = p.id
+  ) stats ON true
+  WHERE f.user_id = auth.uid()
+  ORDER BY f.created_at DESC
+  LIMIT limit_count;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_user_favorites(int) TO authenticated;
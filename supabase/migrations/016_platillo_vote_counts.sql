@@ -0,0 +1,43 @@
+-- Star Dish MVP - Aggregated platillo vote counts
+-- Counts are computed in SQL for a batch of dishes, so clients never download individual votes.
+
+-- UP/DOWN/net counts per platillo, plus the caller's own vote (NULL when signed out or not voted).
+-- Every requested id gets a row, with zero counts if nobody has voted on it yet.
+CREATE OR REPLACE FUNCTION public.get_platillo_vote_counts(platillo_ids uuid[])
+RETURNS TABLE (
+  platillo_id uuid,
+  up_votes bigint,
+  down_votes bigint,
+  net_score bigint,
+  my_vote public.vote_type
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    ids.id AS platillo_id,
+    COUNT(v.id) FILTER (WHERE v.vote_type = 'UP') AS up_votes,
+    COUNT(v.id) FILTER (WHERE v.vote_type = 'DOWN') AS down_votes,
+    COUNT(v.id) FILTER (WHERE v.vote_type = 'UP') - COUNT(v.id) FILTER (WHERE v.vote_type = 'DOWN') AS net_score,
+    (array_agg(v.vote_type) FILTER (WHERE v.user_id = auth.uid()))[1] AS my_vote
+  FROM (SELECT DISTINCT unnest(platillo_ids) AS id) ids
+  LEFT JOIN public.votes v ON v.platillo_id = ids.id
+  GROUP BY ids.id;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_platillo_vote_counts(uuid[]) TO anon, authenticated;
+
+-- Realtime: UPDATE events need the previous vote_type to apply a delta instead of refetching
+ALTER TABLE public.votes REPLICA IDENTITY FULL;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_publication WHERE pubname = 'supabase_realtime')
+    AND NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'votes'
+    )
+  THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.votes;
+  END IF;
+END $$;
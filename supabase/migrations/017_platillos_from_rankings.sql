@@ -0,0 +1,318 @@
+-- Star Dish MVP - Platillos from dish rankings
+-- Every distinct (place, normalized dish name) in dish_rankings becomes a platillos row, so
+-- ranked dishes can be voted on and the star dish reflects both scores and votes.
+-- Legacy platillos keep their restaurant_id; ranking-backed ones hang off places instead.
+
+-- Normalized form used to decide that two typed names are the same dish
+CREATE OR REPLACE FUNCTION public.normalize_dish_name(name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT lower(btrim(regexp_replace(coalesce(name, ''), '\s+', ' ', 'g')));
+$$;
+
+ALTER TABLE public.platillos ALTER COLUMN restaurant_id DROP NOT NULL;
+
+ALTER TABLE public.platillos
+ADD COLUMN IF NOT EXISTS place_id uuid REFERENCES public.places(id) ON DELETE CASCADE,
+ADD COLUMN IF NOT EXISTS name_key text;
+
+UPDATE public.platillos SET name_key = public.normalize_dish_name(name) WHERE name_key IS NULL;
+
+ALTER TABLE public.platillos
+ADD CONSTRAINT platillos_owner_present CHECK (restaurant_id IS NOT NULL OR place_id IS NOT NULL);
+
+CREATE UNIQUE INDEX IF NOT EXISTS platillos_place_name_key_idx
+  ON public.platillos (place_id, name_key)
+  WHERE place_id IS NOT NULL;
+
+-- Find or create the platillo for a dish at a place. Internal: called from the ranking trigger.
+CREATE OR REPLACE FUNCTION public.ensure_platillo(place_id_param uuid, dish_name_param text)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  key text := public.normalize_dish_name(dish_name_param);
+  platillo uuid;
+BEGIN
+  IF place_id_param IS NULL OR key = '' THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.platillos (place_id, name, name_key)
+  VALUES (place_id_param, btrim(dish_name_param), key)
+  ON CONFLICT (place_id, name_key) WHERE place_id IS NOT NULL DO NOTHING
+  RETURNING id INTO platillo;
+
+  IF platillo IS NULL THEN
+    SELECT p.id INTO platillo
+    FROM public.platillos p
+    WHERE p.place_id = place_id_param AND p.name_key = key;
+  END IF;
+
+  RETURN platillo;
+END;
+$$;
+
+-- Link dish_rankings to platillos
+ALTER TABLE public.dish_rankings
+ADD COLUMN IF NOT EXISTS platillo_id uuid REFERENCES public.platillos(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_dish_rankings_platillo_id ON public.dish_rankings(platillo_id);
+
+COMMENT ON COLUMN public.dish_rankings.platillo_id IS
+'Dish this ranking belongs to (platillos.id), derived from place_id and the normalized dish_name.';
+
+-- Runs after set_dish_rankings_place (triggers fire in name order), so place_id is already set
+CREATE OR REPLACE FUNCTION public.set_dish_ranking_platillo()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.platillo_id := public.ensure_platillo(NEW.place_id, NEW.dish_name);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_dish_rankings_platillo ON public.dish_rankings;
+CREATE TRIGGER set_dish_rankings_platillo
+BEFORE INSERT OR UPDATE OF dish_name, place_id ON public.dish_rankings
+FOR EACH ROW
+EXECUTE FUNCTION public.set_dish_ranking_platillo();
+
+-- Back-fill: the most recently used spelling becomes the platillo's display name
+INSERT INTO public.platillos (place_id, name, name_key)
+SELECT DISTINCT ON (dr.place_id, public.normalize_dish_name(dr.dish_name))
+  dr.place_id,
+  btrim(dr.dish_name),
+  public.normalize_dish_name(dr.dish_name)
+FROM public.dish_rankings dr
+WHERE public.normalize_dish_name(dr.dish_name) <> ''
+ORDER BY dr.place_id, public.normalize_dish_name(dr.dish_name), dr.created_at DESC
+ON CONFLICT (place_id, name_key) WHERE place_id IS NOT NULL DO NOTHING;
+
+UPDATE public.dish_rankings dr
+SET platillo_id = p.id
+FROM public.platillos p
+WHERE dr.platillo_id IS NULL
+  AND p.place_id = dr.place_id
+  AND p.name_key = public.normalize_dish_name(dr.dish_name);
+
+-- Merging places now also merges their platillos. Dishes present at both places keep the
+-- surviving place's row; votes move over unless the voter already voted on that row.
+CREATE OR REPLACE FUNCTION public.merge_places(keep_id uuid, drop_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dup record;
+BEGIN
+  IF keep_id = drop_id THEN
+    RETURN;
+  END IF;
+
+  FOR dup IN
+    SELECT d.id AS drop_platillo, k.id AS keep_platillo
+    FROM public.platillos d
+    JOIN public.platillos k ON k.place_id = keep_id AND k.name_key = d.name_key
+    WHERE d.place_id = drop_id
+  LOOP
+    DELETE FROM public.votes v
+    WHERE v.platillo_id = dup.drop_platillo
+      AND EXISTS (
+        SELECT 1 FROM public.votes kv
+        WHERE kv.platillo_id = dup.keep_platillo AND kv.user_id = v.user_id
+      );
+    UPDATE public.votes SET platillo_id = dup.keep_platillo WHERE platillo_id = dup.drop_platillo;
+    UPDATE public.dish_rankings SET platillo_id = dup.keep_platillo WHERE platillo_id = dup.drop_platillo;
+    DELETE FROM public.platillos WHERE id = dup.drop_platillo;
+  END LOOP;
+
+  UPDATE public.platillos SET place_id = keep_id WHERE place_id = drop_id;
+
+  UPDATE public.place_refs SET place_id = keep_id WHERE place_id = drop_id;
+  UPDATE public.dish_rankings SET place_id = keep_id WHERE place_id = drop_id;
+
+  DELETE FROM public.user_favorites f
+  WHERE f.place_id = drop_id
+    AND EXISTS (
+      SELECT 1 FROM public.user_favorites k
+      WHERE k.user_id = f.user_id AND k.place_id = keep_id
+    );
+  UPDATE public.user_favorites SET place_id = keep_id WHERE place_id = drop_id;
+
+  DELETE FROM public.places WHERE id = drop_id;
+END;
+$$;
+
+-- Star dish score: the average ranking (0-10) plus a vote bonus in (-2, 2).
+-- The bonus saturates, so votes break ties and nudge close calls but never outweigh scores.
+CREATE OR REPLACE FUNCTION public.star_dish_score(avg_score numeric, up_votes bigint, down_votes bigint)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ROUND(
+    coalesce(avg_score, 0)
+      + 2.0 * (coalesce(up_votes, 0) - coalesce(down_votes, 0)) / (coalesce(up_votes, 0) + coalesce(down_votes, 0) + 2),
+    2
+  );
+$$;
+
+-- Ranking and vote totals per ranking-backed platillo
+CREATE OR REPLACE VIEW public.platillo_scores AS
+SELECT
+  p.id AS platillo_id,
+  p.place_id,
+  p.name,
+  r.avg_score,
+  coalesce(r.ranking_count, 0)::bigint AS ranking_count,
+  coalesce(v.up_votes, 0)::bigint AS up_votes,
+  coalesce(v.down_votes, 0)::bigint AS down_votes,
+  r.last_ranked_at,
+  public.star_dish_score(r.avg_score, v.up_votes, v.down_votes) AS star_score
+FROM public.platillos p
+LEFT JOIN LATERAL (
+  SELECT
+    ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+    COUNT(*) AS ranking_count,
+    MAX(dr.created_at) AS last_ranked_at
+  FROM public.dish_rankings dr
+  WHERE dr.platillo_id = p.id
+) r ON true
+LEFT JOIN LATERAL (
+  SELECT
+    COUNT(*) FILTER (WHERE vt.vote_type = 'UP') AS up_votes,
+    COUNT(*) FILTER (WHERE vt.vote_type = 'DOWN') AS down_votes
+  FROM public.votes vt
+  WHERE vt.platillo_id = p.id
+) v ON true
+WHERE p.place_id IS NOT NULL;
+
+GRANT SELECT ON public.platillo_scores TO anon, authenticated;
+
+-- Dishes at a place, best first. Only dishes that still have rankings are listed.
+CREATE OR REPLACE FUNCTION public.get_place_dishes(place_id_param uuid)
+RETURNS TABLE (
+  platillo_id uuid,
+  name text,
+  avg_score numeric,
+  ranking_count bigint,
+  up_votes bigint,
+  down_votes bigint,
+  star_score numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT s.platillo_id, s.name, s.avg_score, s.ranking_count, s.up_votes, s.down_votes, s.star_score
+  FROM public.platillo_scores s
+  WHERE s.place_id = place_id_param AND s.ranking_count > 0
+  ORDER BY s.star_score DESC, s.ranking_count DESC, s.last_ranked_at DESC;
+$$;
+
+-- The place's star dish, or NULL if nothing has been ranked there
+CREATE OR REPLACE FUNCTION public.get_place_star_dish(place_id_param uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT d.platillo_id FROM public.get_place_dishes(place_id_param) d LIMIT 1;
+$$;
+
+-- Viewport query: star dish now comes from platillo_scores (scores and votes)
+CREATE OR REPLACE FUNCTION public.get_ranked_places_in_viewport(
+  sw_lat double precision,
+  sw_lng double precision,
+  ne_lat double precision,
+  ne_lng double precision,
+  zoom_level int DEFAULT NULL,
+  name_query text DEFAULT NULL,
+  page_size int DEFAULT 100,
+  page_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  name text,
+  lat double precision,
+  lng double precision,
+  avg_score numeric,
+  review_count bigint,
+  star_dish_name text,
+  star_dish_score numeric,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      ST_MakeEnvelope(sw_lng, sw_lat, ne_lng, ne_lat, 4326)::geography AS envelope,
+      public.viewport_place_cap(zoom_level) AS cap,
+      NULLIF(btrim(name_query), '') AS q
+  ),
+  visible AS (
+    SELECT p.id, p.name, p.lat, p.lng
+    FROM public.places p, bounds b
+    WHERE p.location && b.envelope
+      AND (b.q IS NULL OR p.name ILIKE '%' || b.q || '%')
+  ),
+  place_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count
+    FROM public.dish_rankings dr
+    JOIN visible v ON v.id = dr.place_id
+    GROUP BY dr.place_id
+  ),
+  star_dishes AS (
+    SELECT DISTINCT ON (s.place_id) s.place_id, s.name AS dish_name, s.avg_score AS dish_score
+    FROM public.platillo_scores s
+    JOIN visible v ON v.id = s.place_id
+    WHERE s.ranking_count > 0
+    ORDER BY s.place_id, s.star_score DESC, s.ranking_count DESC, s.last_ranked_at DESC
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    JOIN visible v ON v.id = pr.place_id
+    GROUP BY pr.place_id
+  ),
+  ranked AS (
+    SELECT
+      v.id AS place_id,
+      ref.ref AS place_ref,
+      v.name,
+      v.lat,
+      v.lng,
+      ps.avg_score,
+      ps.review_count,
+      sd.dish_name AS star_dish_name,
+      sd.dish_score AS star_dish_score
+    FROM visible v
+    JOIN place_stats ps ON ps.place_id = v.id
+    LEFT JOIN star_dishes sd ON sd.place_id = v.id
+    LEFT JOIN primary_refs ref ON ref.place_id = v.id
+    ORDER BY ps.avg_score DESC, ps.review_count DESC, v.id
+    LIMIT (SELECT cap FROM bounds)
+  )
+  SELECT r.*, COUNT(*) OVER ()::bigint AS total_count
+  FROM ranked r
+  ORDER BY r.avg_score DESC, r.review_count DESC, r.place_id
+  LIMIT LEAST(GREATEST(page_size, 1), (SELECT cap FROM bounds))
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.normalize_dish_name(text) TO anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ensure_platillo(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.merge_places(uuid, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.star_dish_score(numeric, bigint, bigint) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_place_dishes(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_place_star_dish(uuid) TO anon, authenticated;
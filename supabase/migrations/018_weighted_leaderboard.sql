@@ -0,0 +1,310 @@
+-- Star Dish MVP - Confidence-weighted leaderboards
+-- A plain AVG(score) lets one 10/10 ranking beat fifty 9s. Scores are now shrunk toward the
+-- global mean with a Bayesian average: (C * m + n * avg) / (C + n), where m is the mean of all
+-- rankings and C = 5 is how many rankings it takes before a place's own average dominates.
+-- Raw average, count and confidence (n / (n + C)) are returned alongside so clients can show both.
+
+-- Prior: the mean score across all rankings (5 on an empty table)
+CREATE OR REPLACE FUNCTION public.ranking_prior_mean()
+RETURNS numeric
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT coalesce(AVG(score)::numeric, 5) FROM public.dish_rankings;
+$$;
+
+CREATE OR REPLACE FUNCTION public.weighted_score(avg_score numeric, review_count bigint, prior_mean numeric)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ROUND((5 * prior_mean + review_count * coalesce(avg_score, 0)) / (5 + review_count), 2);
+$$;
+
+CREATE OR REPLACE FUNCTION public.score_confidence(review_count bigint)
+RETURNS numeric
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT ROUND(review_count::numeric / (review_count + 5), 2);
+$$;
+
+-- Dishes at one restaurant, grouped by platillo (place + normalized dish name), best first
+CREATE OR REPLACE FUNCTION public.get_restaurant_dish_leaderboard(place_id_param uuid)
+RETURNS TABLE (
+  platillo_id uuid,
+  dish_name text,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  confidence numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH prior AS (
+    SELECT public.ranking_prior_mean() AS mean
+  ),
+  dishes AS (
+    SELECT
+      dr.platillo_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count,
+      MAX(dr.created_at) AS last_ranked_at
+    FROM public.dish_rankings dr
+    WHERE dr.place_id = place_id_param AND dr.platillo_id IS NOT NULL
+    GROUP BY dr.platillo_id
+  )
+  SELECT
+    d.platillo_id,
+    p.name AS dish_name,
+    d.avg_score,
+    d.review_count,
+    public.weighted_score(d.avg_score, d.review_count, prior.mean) AS weighted_score,
+    public.score_confidence(d.review_count) AS confidence
+  FROM dishes d
+  JOIN public.platillos p ON p.id = d.platillo_id
+  CROSS JOIN prior
+  ORDER BY weighted_score DESC, d.review_count DESC, d.last_ranked_at DESC;
+$$;
+
+-- Restaurants ranked by weighted score
+CREATE OR REPLACE FUNCTION public.get_restaurant_leaderboard(limit_count int DEFAULT 20, min_reviews int DEFAULT 1)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  restaurant_name text,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  confidence numeric,
+  lat double precision,
+  lng double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH prior AS (
+    SELECT public.ranking_prior_mean() AS mean
+  ),
+  restaurant_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count
+    FROM public.dish_rankings dr
+    GROUP BY dr.place_id
+    HAVING COUNT(*) >= min_reviews
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    GROUP BY pr.place_id
+  )
+  SELECT
+    rs.place_id,
+    ref.ref AS place_ref,
+    p.name AS restaurant_name,
+    rs.avg_score,
+    rs.review_count,
+    public.weighted_score(rs.avg_score, rs.review_count, prior.mean) AS weighted_score,
+    public.score_confidence(rs.review_count) AS confidence,
+    p.lat,
+    p.lng
+  FROM restaurant_stats rs
+  JOIN public.places p ON p.id = rs.place_id
+  LEFT JOIN primary_refs ref ON ref.place_id = rs.place_id
+  CROSS JOIN prior
+  ORDER BY weighted_score DESC, rs.review_count DESC
+  LIMIT limit_count;
+$$;
+
+-- Top picks: same rows as before, now ordered by weighted score
+DROP FUNCTION IF EXISTS public.get_top_picks(int);
+
+CREATE FUNCTION public.get_top_picks(limit_count int DEFAULT 10)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  restaurant_name text,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  confidence numeric,
+  lat double precision,
+  lng double precision
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH prior AS (
+    SELECT public.ranking_prior_mean() AS mean
+  ),
+  restaurant_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count,
+      (array_agg(dr.restaurant_lat ORDER BY dr.created_at DESC) FILTER (WHERE dr.restaurant_lat IS NOT NULL))[1] AS ranking_lat,
+      (array_agg(dr.restaurant_lng ORDER BY dr.created_at DESC) FILTER (WHERE dr.restaurant_lng IS NOT NULL))[1] AS ranking_lng
+    FROM public.dish_rankings dr
+    GROUP BY dr.place_id
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    GROUP BY pr.place_id
+  )
+  SELECT
+    rs.place_id,
+    ref.ref AS place_ref,
+    p.name AS restaurant_name,
+    rs.avg_score,
+    rs.review_count,
+    public.weighted_score(rs.avg_score, rs.review_count, prior.mean) AS weighted_score,
+    public.score_confidence(rs.review_count) AS confidence,
+    COALESCE(p.lat, rs.ranking_lat) AS lat,
+    COALESCE(p.lng, rs.ranking_lng) AS lng
+  FROM restaurant_stats rs
+  JOIN public.places p ON p.id = rs.place_id
+  LEFT JOIN primary_refs ref ON ref.place_id = rs.place_id
+  CROSS JOIN prior
+  ORDER BY weighted_score DESC, rs.review_count DESC
+  LIMIT limit_count;
+$$;
+
+-- Best rated: the weighted score must clear 7, so a lone high ranking no longer qualifies
+DROP FUNCTION IF EXISTS public.get_best_rated(int);
+
+CREATE FUNCTION public.get_best_rated(limit_count int DEFAULT 10)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  restaurant_name text,
+  avg_score numeric,
+  total_reviews bigint,
+  weighted_score numeric,
+  confidence numeric
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    l.place_id,
+    l.place_ref,
+    l.restaurant_name,
+    l.avg_score,
+    l.review_count AS total_reviews,
+    l.weighted_score,
+    l.confidence
+  FROM public.get_restaurant_leaderboard(limit_count, 2) l
+  WHERE l.weighted_score >= 7.0
+  ORDER BY l.weighted_score DESC, l.review_count DESC
+  LIMIT limit_count;
+$$;
+
+-- Viewport query: rank by weighted score and return it with confidence
+DROP FUNCTION IF EXISTS public.get_ranked_places_in_viewport(
+  double precision, double precision, double precision, double precision, int, text, int, int
+);
+
+CREATE FUNCTION public.get_ranked_places_in_viewport(
+  sw_lat double precision,
+  sw_lng double precision,
+  ne_lat double precision,
+  ne_lng double precision,
+  zoom_level int DEFAULT NULL,
+  name_query text DEFAULT NULL,
+  page_size int DEFAULT 100,
+  page_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  name text,
+  lat double precision,
+  lng double precision,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  confidence numeric,
+  star_dish_name text,
+  star_dish_score numeric,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      ST_MakeEnvelope(sw_lng, sw_lat, ne_lng, ne_lat, 4326)::geography AS envelope,
+      public.viewport_place_cap(zoom_level) AS cap,
+      NULLIF(btrim(name_query), '') AS q,
+      public.ranking_prior_mean() AS prior_mean
+  ),
+  visible AS (
+    SELECT p.id, p.name, p.lat, p.lng
+    FROM public.places p, bounds b
+    WHERE p.location && b.envelope
+      AND (b.q IS NULL OR p.name ILIKE '%' || b.q || '%')
+  ),
+  place_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count
+    FROM public.dish_rankings dr
+    JOIN visible v ON v.id = dr.place_id
+    GROUP BY dr.place_id
+  ),
+  star_dishes AS (
+    SELECT DISTINCT ON (s.place_id) s.place_id, s.name AS dish_name, s.avg_score AS dish_score
+    FROM public.platillo_scores s
+    JOIN visible v ON v.id = s.place_id
+    WHERE s.ranking_count > 0
+    ORDER BY s.place_id, s.star_score DESC, s.ranking_count DESC, s.last_ranked_at DESC
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    JOIN visible v ON v.id = pr.place_id
+    GROUP BY pr.place_id
+  ),
+  ranked AS (
+    SELECT
+      v.id AS place_id,
+      ref.ref AS place_ref,
+      v.name,
+      v.lat,
+      v.lng,
+      ps.avg_score,
+      ps.review_count,
+      public.weighted_score(ps.avg_score, ps.review_count, b.prior_mean) AS weighted_score,
+      public.score_confidence(ps.review_count) AS confidence,
+      sd.dish_name AS star_dish_name,
+      sd.dish_score AS star_dish_score
+    FROM visible v
+    JOIN place_stats ps ON ps.place_id = v.id
+    CROSS JOIN bounds b
+    LEFT JOIN star_dishes sd ON sd.place_id = v.id
+    LEFT JOIN primary_refs ref ON ref.place_id = v.id
+    ORDER BY weighted_score DESC, ps.review_count DESC, v.id
+    LIMIT (SELECT cap FROM bounds)
+  )
+  SELECT r.*, COUNT(*) OVER ()::bigint AS total_count
+  FROM ranked r
+  ORDER BY r.weighted_score DESC, r.review_count DESC, r.place_id
+  LIMIT LEAST(GREATEST(page_size, 1), (SELECT cap FROM bounds))
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.ranking_prior_mean() TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.weighted_score(numeric, bigint, numeric) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.score_confidence(bigint) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_restaurant_dish_leaderboard(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_restaurant_leaderboard(int, int) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_top_picks(int) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_best_rated(int) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ranked_places_in_viewport(
+  double precision, double precision, double precision, double precision, int, text, int, int
+) TO anon, authenticated;
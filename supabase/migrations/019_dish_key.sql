@@ -0,0 +1,141 @@
+-- Star Dish MVP - Dish name normalization and duplicate merge
+-- "Tacos al pastor", "taco al pastor " and "TACOS AL PASTOR" are one dish. Dish names are
+-- reduced to a dish_key (case, accents, punctuation, whitespace and common Spanish plurals),
+-- platillos are re-keyed with it, and duplicates that now share a key are merged.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- unaccent() is only STABLE; pinning the dictionary makes it safe for IMMUTABLE callers
+CREATE OR REPLACE FUNCTION public.immutable_unaccent(value text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+PARALLEL SAFE
+SET search_path = public, extensions
+AS $$
+  SELECT unaccent('unaccent'::regdictionary, value);
+$$;
+
+-- Singularization only has to map singular and plural to the same key, not produce real words:
+--   final z -> c       (nuez / nueces -> nuec)
+--   final s dropped    (tacos -> taco), for words of 4+ letters
+--   final e dropped after l, r, n, d, j, c (tamales -> tamal, camarones -> camaron)
+CREATE OR REPLACE FUNCTION public.normalize_dish_name(name text)
+RETURNS text
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT btrim(
+    regexp_replace(
+      regexp_replace(
+        regexp_replace(
+          regexp_replace(
+            regexp_replace(lower(public.immutable_unaccent(coalesce(name, ''))), '[^a-z0-9]+', ' ', 'g'),
+            'z\y', 'c', 'g'
+          ),
+          '([a-z]{3,})s\y', '\1', 'g'
+        ),
+        '([a-z]{2,}[lrndjc])e\y', '\1', 'g'
+      ),
+      '\s+', ' ', 'g'
+    )
+  );
+$$;
+
+-- dish_key on each ranking, kept in sync by the platillo trigger
+ALTER TABLE public.dish_rankings
+ADD COLUMN IF NOT EXISTS dish_key text;
+
+CREATE INDEX IF NOT EXISTS idx_dish_rankings_place_dish_key ON public.dish_rankings(place_id, dish_key);
+
+CREATE OR REPLACE FUNCTION public.set_dish_ranking_platillo()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.dish_key := public.normalize_dish_name(NEW.dish_name);
+  NEW.platillo_id := public.ensure_platillo(NEW.place_id, NEW.dish_name);
+  RETURN NEW;
+END;
+$$;
+
+-- Merge platillos that collapse to the same key. The oldest row survives; votes move over
+-- unless the voter already voted on the survivor.
+DO $$
+DECLARE
+  dup record;
+BEGIN
+  FOR dup IN
+    WITH keyed AS (
+      SELECT
+        p.id,
+        first_value(p.id) OVER (
+          PARTITION BY p.place_id, public.normalize_dish_name(p.name)
+          ORDER BY p.created_at, p.id
+        ) AS keep_id
+      FROM public.platillos p
+      WHERE p.place_id IS NOT NULL
+    )
+    SELECT id AS drop_id, keep_id FROM keyed WHERE id <> keep_id
+  LOOP
+    DELETE FROM public.votes v
+    WHERE v.platillo_id = dup.drop_id
+      AND EXISTS (
+        SELECT 1 FROM public.votes kv
+        WHERE kv.platillo_id = dup.keep_id AND kv.user_id = v.user_id
+      );
+    UPDATE public.votes SET platillo_id = dup.keep_id WHERE platillo_id = dup.drop_id;
+    UPDATE public.dish_rankings SET platillo_id = dup.keep_id WHERE platillo_id = dup.drop_id;
+    DELETE FROM public.platillos WHERE id = dup.drop_id;
+  END LOOP;
+END $$;
+
+UPDATE public.platillos
+SET name_key = public.normalize_dish_name(name)
+WHERE name_key IS DISTINCT FROM public.normalize_dish_name(name);
+
+-- Direct column update: the trigger only fires on dish_name/place_id changes
+UPDATE public.dish_rankings
+SET dish_key = public.normalize_dish_name(dish_name)
+WHERE dish_key IS DISTINCT FROM public.normalize_dish_name(dish_name);
+
+CREATE INDEX IF NOT EXISTS platillos_name_key_trgm_idx ON public.platillos USING gin (name_key gin_trgm_ops);
+
+-- Existing dish names at a place that look like what the user is typing, closest first.
+-- Matches on trigram similarity or key prefix, so short partial input still finds dishes.
+CREATE OR REPLACE FUNCTION public.suggest_dish_names(
+  place_id_param uuid,
+  query text,
+  limit_count int DEFAULT 5
+)
+RETURNS TABLE (
+  platillo_id uuid,
+  name text,
+  ranking_count bigint,
+  similarity real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT public.normalize_dish_name(query) AS key
+  )
+  SELECT
+    p.id AS platillo_id,
+    p.name,
+    (SELECT COUNT(*) FROM public.dish_rankings dr WHERE dr.platillo_id = p.id)::bigint AS ranking_count,
+    similarity(p.name_key, q.key) AS similarity
+  FROM public.platillos p, q
+  WHERE p.place_id = place_id_param
+    AND q.key <> ''
+    AND (p.name_key % q.key OR p.name_key LIKE q.key || '%')
+  ORDER BY (p.name_key LIKE q.key || '%') DESC, similarity DESC, ranking_count DESC
+  LIMIT LEAST(GREATEST(limit_count, 1), 20);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.immutable_unaccent(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.normalize_dish_name(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.suggest_dish_names(uuid, text, int) TO anon, authenticated;
@@ -0,0 +1,13 @@
+-- Star Dish MVP - Idempotent ranking submission
+-- Rankings queued offline are retried until they land. Each submission carries a
+-- client-generated client_request_id, so a retry after a lost response cannot insert twice.
+
+ALTER TABLE public.dish_rankings
+ADD COLUMN IF NOT EXISTS client_request_id uuid;
+
+CREATE UNIQUE INDEX IF NOT EXISTS dish_rankings_user_client_request_idx
+  ON public.dish_rankings (user_id, client_request_id)
+  WHERE client_request_id IS NOT NULL;
+
+COMMENT ON COLUMN public.dish_rankings.client_request_id IS
+'Idempotency key generated by the client when the ranking was first submitted.';
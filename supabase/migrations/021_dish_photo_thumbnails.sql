@@ -0,0 +1,10 @@
+-- Star Dish MVP - Dish photo thumbnails
+-- Photos are resized and re-encoded on the device before upload, and a small thumbnail is
+-- uploaded next to each one. Lists and carousels load the thumbnail; rankings from before
+-- this change have none and fall back to image_url.
+
+ALTER TABLE public.dish_rankings
+ADD COLUMN IF NOT EXISTS thumbnail_url text;
+
+COMMENT ON COLUMN public.dish_rankings.thumbnail_url IS
+'Public URL of the downscaled copy of image_url in the dish-photos bucket.';
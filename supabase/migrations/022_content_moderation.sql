@@ -0,0 +1,112 @@
+-- Star Dish MVP - Content reports and moderation
+-- Rankings and their photos go live without review. Users can report a ranking or its
+-- photo; the report-content edge function records the report and hides the ranking once
+-- enough independent users have reported it. Hidden rankings are only visible to their
+-- owner, so they also drop out of every map, leaderboard and gallery query (all of which
+-- run with the caller's RLS).
+
+ALTER TABLE public.dish_rankings
+ADD COLUMN IF NOT EXISTS moderation_state text NOT NULL DEFAULT 'pending',
+ADD COLUMN IF NOT EXISTS moderated_at timestamptz;
+
+ALTER TABLE public.dish_rankings DROP CONSTRAINT IF EXISTS dish_rankings_moderation_state_check;
+ALTER TABLE public.dish_rankings
+ADD CONSTRAINT dish_rankings_moderation_state_check
+CHECK (moderation_state IN ('pending', 'approved', 'hidden'));
+
+COMMENT ON COLUMN public.dish_rankings.moderation_state IS
+'pending: not reviewed yet (visible); approved: reviewed by the team, never auto-hidden; hidden: removed from public reads.';
+
+-- Only the owner sees a hidden ranking
+DROP POLICY IF EXISTS "Anyone can read dish_rankings" ON public.dish_rankings;
+DROP POLICY IF EXISTS "Anyone can read visible dish_rankings" ON public.dish_rankings;
+CREATE POLICY "Anyone can read visible dish_rankings"
+  ON public.dish_rankings FOR SELECT
+  USING (moderation_state <> 'hidden' OR auth.uid() = user_id);
+
+-- platillo_scores was created with the owner's rights, which skip the policy above and let
+-- hidden rankings keep feeding star scores and star dishes
+ALTER VIEW public.platillo_scores SET (security_invoker = true);
+
+-- Owners may update their rankings, but not moderate them. A replaced photo has not been
+-- reviewed, so an approved ranking goes back to pending.
+CREATE OR REPLACE FUNCTION public.guard_dish_ranking_moderation()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.moderation_state := 'pending';
+      NEW.moderated_at := NULL;
+    ELSIF NEW.moderation_state IS DISTINCT FROM OLD.moderation_state
+       OR NEW.moderated_at IS DISTINCT FROM OLD.moderated_at THEN
+      RAISE EXCEPTION 'moderation_state can only be changed by moderators'
+        USING ERRCODE = '42501';
+    END IF;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND OLD.moderation_state = 'approved'
+     AND NEW.moderation_state = 'approved'
+     AND NEW.image_url IS DISTINCT FROM OLD.image_url THEN
+    NEW.moderation_state := 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS guard_dish_rankings_moderation ON public.dish_rankings;
+CREATE TRIGGER guard_dish_rankings_moderation
+BEFORE INSERT OR UPDATE ON public.dish_rankings
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_dish_ranking_moderation();
+
+-- One row per (ranking, reporter, target); a user can report the ranking and its photo
+-- separately, but each counts once towards auto-hiding.
+CREATE TABLE IF NOT EXISTS public.content_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  ranking_id uuid NOT NULL REFERENCES public.dish_rankings(id) ON DELETE CASCADE,
+  reporter_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  target text NOT NULL CHECK (target IN ('ranking', 'photo')),
+  reason text NOT NULL CHECK (reason IN ('inappropriate', 'spam', 'wrong_restaurant', 'other')),
+  details text CHECK (details IS NULL OR char_length(details) <= 500),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (ranking_id, reporter_id, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_content_reports_ranking_id ON public.content_reports(ranking_id);
+CREATE INDEX IF NOT EXISTS idx_content_reports_created_at ON public.content_reports(created_at DESC);
+
+-- RLS: reporters can see their own reports; inserts only go through the edge function
+-- (service role), which also applies the auto-hide rule.
+ALTER TABLE public.content_reports ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own reports" ON public.content_reports;
+CREATE POLICY "Users can read own reports"
+  ON public.content_reports FOR SELECT
+  TO authenticated
+  USING (auth.uid() = reporter_id);
+
+-- Moderation queue: reported rankings with their report counts, most reported first.
+-- Not granted to app users; query it from the dashboard or with the service role.
+CREATE OR REPLACE VIEW public.moderation_queue AS
+SELECT
+  dr.id AS ranking_id,
+  dr.place_id,
+  dr.restaurant_name,
+  dr.dish_name,
+  dr.image_url,
+  dr.moderation_state,
+  COUNT(DISTINCT cr.reporter_id) AS reporter_count,
+  array_agg(DISTINCT cr.reason) AS reasons,
+  bool_or(cr.target = 'photo') AS photo_reported,
+  MAX(cr.created_at) AS last_reported_at
+FROM public.content_reports cr
+JOIN public.dish_rankings dr ON dr.id = cr.ranking_id
+WHERE dr.moderation_state <> 'approved'
+GROUP BY dr.id
+ORDER BY reporter_count DESC, last_reported_at DESC;
+
+REVOKE ALL ON public.moderation_queue FROM PUBLIC, anon, authenticated;
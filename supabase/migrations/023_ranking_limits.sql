@@ -0,0 +1,171 @@
+-- Star Dish MVP - Ranking limits
+-- One account could insert any number of 10/10 rankings of the same dish and push it up
+-- get_top_picks. Each user now keeps at most one ranking per dish (dish_key) per place, and
+-- rating the dish again updates that ranking. New rankings are also rate limited per user.
+
+-- Rankings from before 019 that never went through the platillo trigger
+UPDATE public.dish_rankings
+SET dish_key = public.normalize_dish_name(dish_name)
+WHERE dish_key IS NULL;
+
+-- Existing duplicates: keep each user's most recent ranking of a dish. Their photos stay in
+-- the bucket; clean them up from Storage if needed.
+DELETE FROM public.dish_rankings dr
+USING (
+  SELECT
+    id,
+    row_number() OVER (PARTITION BY user_id, place_id, dish_key ORDER BY created_at DESC, id DESC) AS rn
+  FROM public.dish_rankings
+) ranked
+WHERE dr.id = ranked.id
+  AND ranked.rn > 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS dish_rankings_user_place_dish_key_idx
+  ON public.dish_rankings (user_id, place_id, dish_key);
+
+CREATE INDEX IF NOT EXISTS idx_dish_rankings_user_created ON public.dish_rankings(user_id, created_at DESC);
+
+-- Merging two places now first drops the older ranking of anyone who ranked the same dish
+-- at both, the same rule as the clean-up above; otherwise the move trips the unique index.
+CREATE OR REPLACE FUNCTION public.merge_places(keep_id uuid, drop_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  dup record;
+BEGIN
+  IF keep_id = drop_id THEN
+    RETURN;
+  END IF;
+
+  DELETE FROM public.dish_rankings dr
+  USING public.dish_rankings newer
+  WHERE dr.place_id IN (keep_id, drop_id)
+    AND newer.place_id IN (keep_id, drop_id)
+    AND newer.place_id <> dr.place_id
+    AND newer.user_id = dr.user_id
+    AND newer.dish_key = dr.dish_key
+    AND (newer.created_at, newer.id) > (dr.created_at, dr.id);
+
+  FOR dup IN
+    SELECT d.id AS drop_platillo, k.id AS keep_platillo
+    FROM public.platillos d
+    JOIN public.platillos k ON k.place_id = keep_id AND k.name_key = d.name_key
+    WHERE d.place_id = drop_id
+  LOOP
+    DELETE FROM public.votes v
+    WHERE v.platillo_id = dup.drop_platillo
+      AND EXISTS (
+        SELECT 1 FROM public.votes kv
+        WHERE kv.platillo_id = dup.keep_platillo AND kv.user_id = v.user_id
+      );
+    UPDATE public.votes SET platillo_id = dup.keep_platillo WHERE platillo_id = dup.drop_platillo;
+    UPDATE public.dish_rankings SET platillo_id = dup.keep_platillo WHERE platillo_id = dup.drop_platillo;
+    DELETE FROM public.platillos WHERE id = dup.drop_platillo;
+  END LOOP;
+
+  UPDATE public.platillos SET place_id = keep_id WHERE place_id = drop_id;
+
+  UPDATE public.place_refs SET place_id = keep_id WHERE place_id = drop_id;
+  UPDATE public.dish_rankings SET place_id = keep_id WHERE place_id = drop_id;
+
+  DELETE FROM public.user_favorites f
+  WHERE f.place_id = drop_id
+    AND EXISTS (
+      SELECT 1 FROM public.user_favorites k
+      WHERE k.user_id = f.user_id AND k.place_id = keep_id
+    );
+  UPDATE public.user_favorites SET place_id = keep_id WHERE place_id = drop_id;
+
+  DELETE FROM public.places WHERE id = drop_id;
+END;
+$$;
+
+-- Every ranking insert by an app user, for the rate limit below. Counting dish_rankings
+-- itself could be dodged by backdating created_at or deleting rankings and inserting again,
+-- so inserts are logged here instead. Users can add their own rows (the trigger runs with
+-- their rights) and read them back, but never change or delete them.
+CREATE TABLE IF NOT EXISTS public.dish_ranking_inserts (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dish_ranking_inserts_user_created
+  ON public.dish_ranking_inserts(user_id, created_at DESC);
+
+ALTER TABLE public.dish_ranking_inserts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can read own ranking inserts" ON public.dish_ranking_inserts;
+CREATE POLICY "Users can read own ranking inserts"
+  ON public.dish_ranking_inserts FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can log own ranking inserts" ON public.dish_ranking_inserts;
+CREATE POLICY "Users can log own ranking inserts"
+  ON public.dish_ranking_inserts FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+REVOKE ALL ON public.dish_ranking_inserts FROM anon, authenticated;
+GRANT SELECT, INSERT ON public.dish_ranking_inserts TO authenticated;
+
+-- Per-user insert limits. Errors use SQLSTATE PT429, which PostgREST returns as HTTP 429.
+-- Service-role and dashboard inserts are not limited, and keep the created_at they pass.
+CREATE OR REPLACE FUNCTION public.enforce_dish_ranking_rate_limit()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  recent_count int;
+  daily_count int;
+BEGIN
+  IF current_user NOT IN ('anon', 'authenticated') THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.created_at := now();
+
+  SELECT
+    COUNT(*) FILTER (WHERE created_at > now() - interval '10 minutes'),
+    COUNT(*)
+  INTO recent_count, daily_count
+  FROM public.dish_ranking_inserts
+  WHERE user_id = NEW.user_id
+    AND created_at > now() - interval '1 day';
+
+  IF recent_count >= 10 OR daily_count >= 60 THEN
+    RAISE EXCEPTION 'You''re rating dishes too quickly. Please try again later.'
+      USING ERRCODE = 'PT429',
+            DETAIL = format('%s rankings in the last 10 minutes, %s in the last day', recent_count, daily_count);
+  END IF;
+
+  INSERT INTO public.dish_ranking_inserts (user_id) VALUES (NEW.user_id);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_dish_rankings_rate_limit ON public.dish_rankings;
+CREATE TRIGGER enforce_dish_rankings_rate_limit
+BEFORE INSERT ON public.dish_rankings
+FOR EACH ROW
+EXECUTE FUNCTION public.enforce_dish_ranking_rate_limit();
+
+-- The caller's ranking of a dish at a place, matched on dish_key like the unique index.
+-- Lets the app offer "update your rating" before submitting a second one.
+CREATE OR REPLACE FUNCTION public.get_my_ranking_for_dish(place_id_param uuid, dish_name_param text)
+RETURNS SETOF public.dish_rankings
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT *
+  FROM public.dish_rankings dr
+  WHERE dr.user_id = auth.uid()
+    AND dr.place_id = place_id_param
+    AND dr.dish_key = public.normalize_dish_name(dish_name_param)
+  LIMIT 1;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_my_ranking_for_dish(uuid, text) TO authenticated;
@@ -0,0 +1,137 @@
+-- Star Dish MVP - Full-text dish search
+-- Searching only matched restaurant names. Rankings now carry a tsvector over the dish name
+-- (weight A), ingredients (B) and restaurant name (C), built with both the Spanish and English
+-- configurations, so "birria" finds the places where birria is ranked, best rated first.
+
+ALTER TABLE public.dish_rankings
+ADD COLUMN IF NOT EXISTS search_vector tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('spanish'::regconfig, public.immutable_unaccent(coalesce(dish_name, ''))), 'A') ||
+    setweight(to_tsvector('english'::regconfig, public.immutable_unaccent(coalesce(dish_name, ''))), 'A') ||
+    setweight(to_tsvector('spanish'::regconfig, public.immutable_unaccent(coalesce(ingredients, ''))), 'B') ||
+    setweight(to_tsvector('english'::regconfig, public.immutable_unaccent(coalesce(ingredients, ''))), 'B') ||
+    setweight(to_tsvector('simple'::regconfig, public.immutable_unaccent(coalesce(restaurant_name, ''))), 'C')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_dish_rankings_search_vector ON public.dish_rankings USING gin (search_vector);
+
+-- Typeahead query: every word must match, the last one as a prefix ("birr" matches "birria").
+-- Words are ORed across the Spanish and English stemmers. NULL when nothing searchable is left.
+CREATE OR REPLACE FUNCTION public.dish_search_tsquery(query text)
+RETURNS tsquery
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  words text[];
+  word text;
+  term text;
+  result tsquery;
+  word_query tsquery;
+  i int;
+BEGIN
+  words := regexp_split_to_array(
+    btrim(regexp_replace(lower(public.immutable_unaccent(coalesce(query, ''))), '[^a-z0-9]+', ' ', 'g')),
+    ' '
+  );
+
+  FOR i IN 1 .. coalesce(array_length(words, 1), 0) LOOP
+    word := words[i];
+    CONTINUE WHEN word = '';
+    term := word || CASE WHEN i = array_length(words, 1) THEN ':*' ELSE '' END;
+
+    word_query := to_tsquery('spanish'::regconfig, term) || to_tsquery('english'::regconfig, term);
+    -- Stop words ("de", "the") produce an empty query; skip them instead of matching nothing
+    CONTINUE WHEN numnode(word_query) = 0;
+
+    result := CASE WHEN result IS NULL THEN word_query ELSE result && word_query END;
+  END LOOP;
+
+  RETURN result;
+END;
+$$;
+
+-- Dishes matching `query`, one row per dish per place. Dishes whose name matches come before
+-- matches on ingredients or the restaurant name; within each, best weighted score first.
+-- With near_lat/near_lng, only places within radius_km are returned.
+CREATE OR REPLACE FUNCTION public.search_dishes(
+  query text,
+  near_lat double precision DEFAULT NULL,
+  near_lng double precision DEFAULT NULL,
+  radius_km double precision DEFAULT 50,
+  limit_count int DEFAULT 10
+)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  restaurant_name text,
+  lat double precision,
+  lng double precision,
+  platillo_id uuid,
+  dish_name text,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  relevance real
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT public.dish_search_tsquery(query) AS tsq, public.ranking_prior_mean() AS prior_mean
+  ),
+  matches AS (
+    SELECT
+      dr.place_id,
+      dr.platillo_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count,
+      MAX(ts_rank(dr.search_vector, q.tsq)) AS relevance,
+      bool_or(
+        (to_tsvector('spanish'::regconfig, public.immutable_unaccent(dr.dish_name)) ||
+         to_tsvector('english'::regconfig, public.immutable_unaccent(dr.dish_name))) @@ q.tsq
+      ) AS dish_match
+    FROM public.dish_rankings dr, q
+    WHERE q.tsq IS NOT NULL
+      AND dr.search_vector @@ q.tsq
+      AND dr.platillo_id IS NOT NULL
+    GROUP BY dr.place_id, dr.platillo_id
+  )
+  SELECT
+    p.id AS place_id,
+    (
+      SELECT pr.ref
+      FROM public.place_refs pr
+      WHERE pr.place_id = p.id
+      ORDER BY pr.created_at
+      LIMIT 1
+    ) AS place_ref,
+    p.name AS restaurant_name,
+    p.lat,
+    p.lng,
+    m.platillo_id,
+    pl.name AS dish_name,
+    m.avg_score,
+    m.review_count,
+    public.weighted_score(m.avg_score, m.review_count, q.prior_mean) AS weighted_score,
+    m.relevance
+  FROM matches m
+  CROSS JOIN q
+  JOIN public.places p ON p.id = m.place_id
+  JOIN public.platillos pl ON pl.id = m.platillo_id
+  WHERE near_lat IS NULL
+     OR near_lng IS NULL
+     OR ST_DWithin(
+          p.location,
+          ST_SetSRID(ST_MakePoint(near_lng, near_lat), 4326)::geography,
+          radius_km * 1000
+        )
+  ORDER BY
+    m.dish_match DESC,
+    public.weighted_score(m.avg_score, m.review_count, q.prior_mean) DESC,
+    m.relevance DESC
+  LIMIT greatest(1, least(limit_count, 50));
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_dishes(text, double precision, double precision, double precision, int)
+  TO anon, authenticated;
@@ -0,0 +1,267 @@
+-- Star Dish MVP - Dietary and ingredient tags
+-- Ingredients are free text, so nothing could be filtered on them. Rankings can now carry
+-- structured tags (diet, spice level, allergens), stored one row per tag. Tags are agreed
+-- per dish across its rankings and rolled up per place for the map filters.
+
+CREATE TABLE IF NOT EXISTS public.dish_ranking_tags (
+  ranking_id uuid NOT NULL REFERENCES public.dish_rankings(id) ON DELETE CASCADE,
+  tag text NOT NULL CHECK (tag IN (
+    'vegetarian',
+    'vegan',
+    'gluten_free',
+    'spicy_mild',
+    'spicy_medium',
+    'spicy_hot',
+    'contains_nuts',
+    'contains_seafood'
+  )),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (ranking_id, tag)
+);
+
+-- A ranking has at most one spice level
+CREATE UNIQUE INDEX IF NOT EXISTS dish_ranking_tags_one_spice_level_idx
+  ON public.dish_ranking_tags (ranking_id)
+  WHERE tag LIKE 'spicy\_%';
+
+CREATE INDEX IF NOT EXISTS idx_dish_ranking_tags_tag ON public.dish_ranking_tags(tag);
+
+-- RLS: tags are as visible as their ranking; only the ranking's owner can change them
+ALTER TABLE public.dish_ranking_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can read tags of visible rankings" ON public.dish_ranking_tags;
+CREATE POLICY "Anyone can read tags of visible rankings"
+  ON public.dish_ranking_tags FOR SELECT
+  USING (EXISTS (SELECT 1 FROM public.dish_rankings dr WHERE dr.id = ranking_id));
+
+DROP POLICY IF EXISTS "Users can tag own rankings" ON public.dish_ranking_tags;
+CREATE POLICY "Users can tag own rankings"
+  ON public.dish_ranking_tags FOR INSERT
+  TO authenticated
+  WITH CHECK (EXISTS (SELECT 1 FROM public.dish_rankings dr WHERE dr.id = ranking_id AND dr.user_id = auth.uid()));
+
+DROP POLICY IF EXISTS "Users can untag own rankings" ON public.dish_ranking_tags;
+CREATE POLICY "Users can untag own rankings"
+  ON public.dish_ranking_tags FOR DELETE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM public.dish_rankings dr WHERE dr.id = ranking_id AND dr.user_id = auth.uid()));
+
+-- Replace the tags of one of the caller's rankings and return the stored set
+CREATE OR REPLACE FUNCTION public.set_dish_ranking_tags(ranking_id_param uuid, tags text[])
+RETURNS text[]
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  result text[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.dish_rankings dr
+    WHERE dr.id = ranking_id_param AND dr.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Ranking not found' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM public.dish_ranking_tags WHERE ranking_id = ranking_id_param;
+
+  INSERT INTO public.dish_ranking_tags (ranking_id, tag)
+  SELECT DISTINCT ranking_id_param, t
+  FROM unnest(coalesce(tags, '{}'::text[])) AS t;
+
+  SELECT coalesce(array_agg(tag ORDER BY tag), '{}'::text[])
+  INTO result
+  FROM public.dish_ranking_tags
+  WHERE ranking_id = ranking_id_param;
+
+  RETURN result;
+END;
+$$;
+
+-- Tags that apply to a dish. Only rankings that tagged anything vote. A single report is
+-- enough for an allergen; diet and spice tags need more than half of those rankings, so one
+-- "vegan" among several untagged-as-vegan rankings does not label the dish.
+-- Runs with the caller's RLS, so hidden rankings do not count.
+CREATE OR REPLACE VIEW public.platillo_tags
+WITH (security_invoker = true) AS
+WITH tagged AS (
+  SELECT dr.place_id, dr.platillo_id, t.ranking_id, t.tag
+  FROM public.dish_ranking_tags t
+  JOIN public.dish_rankings dr ON dr.id = t.ranking_id
+  WHERE dr.platillo_id IS NOT NULL
+),
+voters AS (
+  SELECT platillo_id, COUNT(DISTINCT ranking_id) AS tagged_count
+  FROM tagged
+  GROUP BY platillo_id
+)
+SELECT
+  t.place_id,
+  t.platillo_id,
+  t.tag,
+  COUNT(*)::bigint AS tag_count,
+  v.tagged_count::bigint AS tagged_count
+FROM tagged t
+JOIN voters v ON v.platillo_id = t.platillo_id
+GROUP BY t.place_id, t.platillo_id, t.tag, v.tagged_count
+HAVING t.tag LIKE 'contains\_%' OR COUNT(*) * 2 > v.tagged_count;
+
+GRANT SELECT ON public.platillo_tags TO anon, authenticated;
+
+-- Leaderboard rows now carry the dish's agreed tags
+DROP FUNCTION IF EXISTS public.get_restaurant_dish_leaderboard(uuid);
+
+CREATE FUNCTION public.get_restaurant_dish_leaderboard(place_id_param uuid)
+RETURNS TABLE (
+  platillo_id uuid,
+  dish_name text,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  confidence numeric,
+  tags text[]
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH prior AS (
+    SELECT public.ranking_prior_mean() AS mean
+  ),
+  dishes AS (
+    SELECT
+      dr.platillo_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count,
+      MAX(dr.created_at) AS last_ranked_at
+    FROM public.dish_rankings dr
+    WHERE dr.place_id = place_id_param AND dr.platillo_id IS NOT NULL
+    GROUP BY dr.platillo_id
+  ),
+  dish_tags AS (
+    SELECT pt.platillo_id, array_agg(pt.tag ORDER BY pt.tag) AS tags
+    FROM public.platillo_tags pt
+    WHERE pt.place_id = place_id_param
+    GROUP BY pt.platillo_id
+  )
+  SELECT
+    d.platillo_id,
+    p.name AS dish_name,
+    d.avg_score,
+    d.review_count,
+    public.weighted_score(d.avg_score, d.review_count, prior.mean) AS weighted_score,
+    public.score_confidence(d.review_count) AS confidence,
+    coalesce(dt.tags, '{}'::text[]) AS tags
+  FROM dishes d
+  JOIN public.platillos p ON p.id = d.platillo_id
+  CROSS JOIN prior
+  LEFT JOIN dish_tags dt ON dt.platillo_id = d.platillo_id
+  ORDER BY weighted_score DESC, d.review_count DESC, d.last_ranked_at DESC;
+$$;
+
+-- Viewport places now carry dish_tags: every tag that applies to at least one of their dishes
+DROP FUNCTION IF EXISTS public.get_ranked_places_in_viewport(
+  double precision, double precision, double precision, double precision, int, text, int, int
+);
+
+CREATE FUNCTION public.get_ranked_places_in_viewport(
+  sw_lat double precision,
+  sw_lng double precision,
+  ne_lat double precision,
+  ne_lng double precision,
+  zoom_level int DEFAULT NULL,
+  name_query text DEFAULT NULL,
+  page_size int DEFAULT 100,
+  page_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  name text,
+  lat double precision,
+  lng double precision,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  confidence numeric,
+  star_dish_name text,
+  star_dish_score numeric,
+  dish_tags text[],
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      ST_MakeEnvelope(sw_lng, sw_lat, ne_lng, ne_lat, 4326)::geography AS envelope,
+      public.viewport_place_cap(zoom_level) AS cap,
+      NULLIF(btrim(name_query), '') AS q,
+      public.ranking_prior_mean() AS prior_mean
+  ),
+  visible AS (
+    SELECT p.id, p.name, p.lat, p.lng
+    FROM public.places p, bounds b
+    WHERE p.location && b.envelope
+      AND (b.q IS NULL OR p.name ILIKE '%' || b.q || '%')
+  ),
+  place_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count
+    FROM public.dish_rankings dr
+    JOIN visible v ON v.id = dr.place_id
+    GROUP BY dr.place_id
+  ),
+  star_dishes AS (
+    SELECT DISTINCT ON (s.place_id) s.place_id, s.name AS dish_name, s.avg_score AS dish_score
+    FROM public.platillo_scores s
+    JOIN visible v ON v.id = s.place_id
+    WHERE s.ranking_count > 0
+    ORDER BY s.place_id, s.star_score DESC, s.ranking_count DESC, s.last_ranked_at DESC
+  ),
+  place_tags AS (
+    SELECT pt.place_id, array_agg(DISTINCT pt.tag) AS tags
+    FROM public.platillo_tags pt
+    JOIN visible v ON v.id = pt.place_id
+    GROUP BY pt.place_id
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    JOIN visible v ON v.id = pr.place_id
+    GROUP BY pr.place_id
+  ),
+  ranked AS (
+    SELECT
+      v.id AS place_id,
+      ref.ref AS place_ref,
+      v.name,
+      v.lat,
+      v.lng,
+      ps.avg_score,
+      ps.review_count,
+      public.weighted_score(ps.avg_score, ps.review_count, b.prior_mean) AS weighted_score,
+      public.score_confidence(ps.review_count) AS confidence,
+      sd.dish_name AS star_dish_name,
+      sd.dish_score AS star_dish_score,
+      coalesce(pt.tags, '{}'::text[]) AS dish_tags
+    FROM visible v
+    JOIN place_stats ps ON ps.place_id = v.id
+    CROSS JOIN bounds b
+    LEFT JOIN star_dishes sd ON sd.place_id = v.id
+    LEFT JOIN place_tags pt ON pt.place_id = v.id
+    LEFT JOIN primary_refs ref ON ref.place_id = v.id
+    ORDER BY weighted_score DESC, ps.review_count DESC, v.id
+    LIMIT (SELECT cap FROM bounds)
+  )
+  SELECT r.*, COUNT(*) OVER ()::bigint AS total_count
+  FROM ranked r
+  ORDER BY r.weighted_score DESC, r.review_count DESC, r.place_id
+  LIMIT LEAST(GREATEST(page_size, 1), (SELECT cap FROM bounds))
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.set_dish_ranking_tags(uuid, text[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_restaurant_dish_leaderboard(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ranked_places_in_viewport(
+  double precision, double precision, double precision, double precision, int, text, int, int
+) TO anon, authenticated;
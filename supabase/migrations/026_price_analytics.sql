@@ -0,0 +1,158 @@
+-- Star Dish MVP - Price analytics
+-- price_cents was collected on every ranking but never aggregated. Adds per-dish price history
+-- (median, min and max per period) and a median price per place for the map's price filter and
+-- "best value" sort. Prices are in the app's currency (MXN); rankings without a price, or with
+-- a price of 0, are left out.
+
+-- Price of each dish at a place per period (week, month, quarter or year; anything else is
+-- treated as month), newest period first. Pass platillo_id_param for a single dish.
+CREATE OR REPLACE FUNCTION public.get_dish_price_history(
+  place_id_param uuid,
+  platillo_id_param uuid DEFAULT NULL,
+  bucket text DEFAULT 'month'
+)
+RETURNS TABLE (
+  platillo_id uuid,
+  dish_name text,
+  period_start date,
+  median_price_cents int,
+  min_price_cents int,
+  max_price_cents int,
+  price_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    dr.platillo_id,
+    p.name AS dish_name,
+    date_trunc(
+      CASE WHEN bucket IN ('week', 'month', 'quarter', 'year') THEN bucket ELSE 'month' END,
+      dr.created_at
+    )::date AS period_start,
+    ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY dr.price_cents))::int AS median_price_cents,
+    MIN(dr.price_cents) AS min_price_cents,
+    MAX(dr.price_cents) AS max_price_cents,
+    COUNT(*)::bigint AS price_count
+  FROM public.dish_rankings dr
+  JOIN public.platillos p ON p.id = dr.platillo_id
+  WHERE dr.place_id = place_id_param
+    AND (platillo_id_param IS NULL OR dr.platillo_id = platillo_id_param)
+    AND dr.price_cents > 0
+  GROUP BY dr.platillo_id, p.name, 3
+  ORDER BY p.name, period_start DESC;
+$$;
+
+-- Viewport places now carry median_price_cents (over rankings with a price), used by the price
+-- filter and the best value sort
+DROP FUNCTION IF EXISTS public.get_ranked_places_in_viewport(
+  double precision, double precision, double precision, double precision, int, text, int, int
+);
+
+CREATE FUNCTION public.get_ranked_places_in_viewport(
+  sw_lat double precision,
+  sw_lng double precision,
+  ne_lat double precision,
+  ne_lng double precision,
+  zoom_level int DEFAULT NULL,
+  name_query text DEFAULT NULL,
+  page_size int DEFAULT 100,
+  page_offset int DEFAULT 0
+)
+RETURNS TABLE (
+  place_id uuid,
+  place_ref text,
+  name text,
+  lat double precision,
+  lng double precision,
+  avg_score numeric,
+  review_count bigint,
+  weighted_score numeric,
+  confidence numeric,
+  star_dish_name text,
+  star_dish_score numeric,
+  dish_tags text[],
+  median_price_cents int,
+  total_count bigint
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH bounds AS (
+    SELECT
+      ST_MakeEnvelope(sw_lng, sw_lat, ne_lng, ne_lat, 4326)::geography AS envelope,
+      public.viewport_place_cap(zoom_level) AS cap,
+      NULLIF(btrim(name_query), '') AS q,
+      public.ranking_prior_mean() AS prior_mean
+  ),
+  visible AS (
+    SELECT p.id, p.name, p.lat, p.lng
+    FROM public.places p, bounds b
+    WHERE p.location && b.envelope
+      AND (b.q IS NULL OR p.name ILIKE '%' || b.q || '%')
+  ),
+  place_stats AS (
+    SELECT
+      dr.place_id,
+      ROUND(AVG(dr.score)::numeric, 1) AS avg_score,
+      COUNT(*)::bigint AS review_count,
+      ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY dr.price_cents) FILTER (WHERE dr.price_cents > 0))::int
+        AS median_price_cents
+    FROM public.dish_rankings dr
+    JOIN visible v ON v.id = dr.place_id
+    GROUP BY dr.place_id
+  ),
+  star_dishes AS (
+    SELECT DISTINCT ON (s.place_id) s.place_id, s.name AS dish_name, s.avg_score AS dish_score
+    FROM public.platillo_scores s
+    JOIN visible v ON v.id = s.place_id
+    WHERE s.ranking_count > 0
+    ORDER BY s.place_id, s.star_score DESC, s.ranking_count DESC, s.last_ranked_at DESC
+  ),
+  place_tags AS (
+    SELECT pt.place_id, array_agg(DISTINCT pt.tag) AS tags
+    FROM public.platillo_tags pt
+    JOIN visible v ON v.id = pt.place_id
+    GROUP BY pt.place_id
+  ),
+  primary_refs AS (
+    SELECT pr.place_id, (array_agg(pr.ref ORDER BY pr.created_at))[1] AS ref
+    FROM public.place_refs pr
+    JOIN visible v ON v.id = pr.place_id
+    GROUP BY pr.place_id
+  ),
+  ranked AS (
+    SELECT
+      v.id AS place_id,
+      ref.ref AS place_ref,
+      v.name,
+      v.lat,
+      v.lng,
+      ps.avg_score,
+      ps.review_count,
+      public.weighted_score(ps.avg_score, ps.review_count, b.prior_mean) AS weighted_score,
+      public.score_confidence(ps.review_count) AS confidence,
+      sd.dish_name AS star_dish_name,
+      sd.dish_score AS star_dish_score,
+      coalesce(pt.tags, '{}'::text[]) AS dish_tags,
+      ps.median_price_cents
+    FROM visible v
+    JOIN place_stats ps ON ps.place_id = v.id
+    CROSS JOIN bounds b
+    LEFT JOIN star_dishes sd ON sd.place_id = v.id
+    LEFT JOIN place_tags pt ON pt.place_id = v.id
+    LEFT JOIN primary_refs ref ON ref.place_id = v.id
+    ORDER BY weighted_score DESC, ps.review_count DESC, v.id
+    LIMIT (SELECT cap FROM bounds)
+  )
+  SELECT r.*, COUNT(*) OVER ()::bigint AS total_count
+  FROM ranked r
+  ORDER BY r.weighted_score DESC, r.review_count DESC, r.place_id
+  LIMIT LEAST(GREATEST(page_size, 1), (SELECT cap FROM bounds))
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_dish_price_history(uuid, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_ranked_places_in_viewport(
+  double precision, double precision, double precision, double precision, int, text, int, int
+) TO anon, authenticated;
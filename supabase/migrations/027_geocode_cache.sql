@@ -0,0 +1,33 @@
+-- Star Dish MVP - Geocode cache
+-- The geocode edge function cached Mapbox answers in a per-instance Map, so every cold start
+-- and every other instance paid for the same lookups again. geocode-v2 keeps them here,
+-- shared by all instances. Only the service role (the edge function) can read or write it.
+
+CREATE TABLE IF NOT EXISTS public.geocode_cache (
+  cache_key text PRIMARY KEY, -- mode, language, country and normalized query or rounded coordinates
+  mode text NOT NULL CHECK (mode IN ('forward', 'reverse')),
+  payload jsonb NOT NULL, -- GeocodeForwardResult or GeocodeReverseResult
+  created_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_expires_at ON public.geocode_cache(expires_at);
+
+-- RLS without policies: app roles see nothing, the service role bypasses it
+ALTER TABLE public.geocode_cache ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.geocode_cache FROM anon, authenticated;
+
+-- Delete expired entries; geocode-v2 calls this now and then. Returns the number removed.
+CREATE OR REPLACE FUNCTION public.purge_expired_geocode_cache()
+RETURNS int
+LANGUAGE sql
+AS $$
+  WITH deleted AS (
+    DELETE FROM public.geocode_cache
+    WHERE expires_at < now()
+    RETURNING 1
+  )
+  SELECT COUNT(*)::int FROM deleted;
+$$;
+
+REVOKE ALL ON FUNCTION public.purge_expired_geocode_cache() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,73 @@
+-- Star Dish MVP - Mapbox proxy quotas
+-- The app no longer calls Mapbox Search with a token shipped in the bundle; the mapbox-proxy edge
+-- function does, on behalf of each user (or IP for anonymous callers). Counters here cap how many
+-- requests one caller can make per minute and per day, across all function instances.
+-- Suggest and retrieve answers share geocode_cache with geocode-v2.
+
+CREATE TABLE IF NOT EXISTS public.mapbox_proxy_usage (
+  subject text NOT NULL, -- 'user:<uuid>' or 'ip:<address>'
+  window_kind text NOT NULL CHECK (window_kind IN ('minute', 'day')),
+  window_start timestamptz NOT NULL,
+  request_count int NOT NULL DEFAULT 0,
+  PRIMARY KEY (subject, window_kind, window_start)
+);
+
+CREATE INDEX IF NOT EXISTS idx_mapbox_proxy_usage_window_start ON public.mapbox_proxy_usage(window_start);
+
+-- Only the service role (the edge function) touches it
+ALTER TABLE public.mapbox_proxy_usage ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON public.mapbox_proxy_usage FROM anon, authenticated;
+
+ALTER TABLE public.geocode_cache DROP CONSTRAINT IF EXISTS geocode_cache_mode_check;
+ALTER TABLE public.geocode_cache
+ADD CONSTRAINT geocode_cache_mode_check CHECK (mode IN ('forward', 'reverse', 'suggest', 'retrieve'));
+
+-- Count one request for subject_param and say whether it is within both limits.
+-- Rejected requests count too, so a caller hammering the proxy stays blocked until the window ends.
+-- retry_after_seconds is 0 when allowed.
+CREATE OR REPLACE FUNCTION public.consume_mapbox_proxy_quota(
+  subject_param text,
+  per_minute int,
+  per_day int
+)
+RETURNS TABLE (
+  allowed boolean,
+  minute_count int,
+  day_count int,
+  retry_after_seconds int
+)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  minute_start timestamptz := date_trunc('minute', now());
+  day_start timestamptz := date_trunc('day', now());
+BEGIN
+  INSERT INTO public.mapbox_proxy_usage (subject, window_kind, window_start, request_count)
+  VALUES (subject_param, 'minute', minute_start, 1)
+  ON CONFLICT (subject, window_kind, window_start)
+  DO UPDATE SET request_count = public.mapbox_proxy_usage.request_count + 1
+  RETURNING request_count INTO minute_count;
+
+  INSERT INTO public.mapbox_proxy_usage (subject, window_kind, window_start, request_count)
+  VALUES (subject_param, 'day', day_start, 1)
+  ON CONFLICT (subject, window_kind, window_start)
+  DO UPDATE SET request_count = public.mapbox_proxy_usage.request_count + 1
+  RETURNING request_count INTO day_count;
+
+  -- Old windows are useless; drop them now and then rather than on every call
+  IF random() < 0.01 THEN
+    DELETE FROM public.mapbox_proxy_usage WHERE window_start < now() - interval '2 days';
+  END IF;
+
+  allowed := minute_count <= per_minute AND day_count <= per_day;
+  retry_after_seconds := CASE
+    WHEN allowed THEN 0
+    WHEN day_count > per_day THEN CEIL(EXTRACT(EPOCH FROM (day_start + interval '1 day' - now())))::int
+    ELSE CEIL(EXTRACT(EPOCH FROM (minute_start + interval '1 minute' - now())))::int
+  END;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.consume_mapbox_proxy_quota(text, int, int) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,22 @@
+-- Star Dish MVP - RPC privileges
+-- Functions are executable by PUBLIC when created, and Supabase also grants EXECUTE to anon
+-- directly. Revoking from anon alone (003, 004) or only granting to authenticated (009, 015,
+-- 023, 025) therefore left every "signed in only" RPC callable without a session. The pgTAP
+-- tests in supabase/tests/database check these grants.
+
+REVOKE EXECUTE ON FUNCTION public.get_dish_ranking_for_restaurant(uuid) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.toggle_platillo_vote(uuid, public.vote_type) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.upsert_restaurant_view(uuid, text, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_recently_viewed_restaurants(uuid, int) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_user_favorites(int) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_my_ranking_for_dish(uuid, text) FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.set_dish_ranking_tags(uuid, text[]) FROM PUBLIC, anon;
+
+-- Re-grant in case authenticated only ever had EXECUTE through PUBLIC
+GRANT EXECUTE ON FUNCTION public.get_dish_ranking_for_restaurant(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.toggle_platillo_vote(uuid, public.vote_type) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.upsert_restaurant_view(uuid, text, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_recently_viewed_restaurants(uuid, int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_user_favorites(int) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_ranking_for_dish(uuid, text) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.set_dish_ranking_tags(uuid, text[]) TO authenticated;
@@ -0,0 +1,175 @@
+-- Row level security as seen by guests (anon) and signed-in users (authenticated).
+-- Data is seeded as the superuser, then each block switches role and JWT claims the way
+-- PostgREST does for a request.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(34);
+
+-- Alice and Bob; profiles are created by the auth.users trigger
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+-- Two visible rankings of the same dish and one of Alice's that moderation hid
+INSERT INTO public.dish_rankings
+  (id, user_id, osm_id, restaurant_name, restaurant_lat, restaurant_lng, dish_name, score, price_cents, moderation_state)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 19.43, -99.13, 'Tacos al pastor', 9, 4500, 'pending'),
+  ('aaaaaaaa-0000-0000-0000-000000000002', '22222222-2222-2222-2222-222222222222', '990001', 'Taquería Prueba', 19.43, -99.13, 'Tacos al pastor', 7, NULL, 'pending'),
+  ('aaaaaaaa-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 19.43, -99.13, 'Gringa', 5, NULL, 'hidden');
+
+INSERT INTO public.dish_ranking_tags (ranking_id, tag) VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000003', 'contains_nuts');
+
+INSERT INTO public.user_favorites (user_id, place_id)
+SELECT '11111111-1111-1111-1111-111111111111', place_id
+FROM public.dish_rankings
+WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001';
+
+INSERT INTO public.geocode_cache (cache_key, mode, payload, expires_at)
+VALUES ('forward:es:mx:1::guadalajara', 'forward', '{"candidates": []}', now() + interval '1 day');
+
+-- Guest --------------------------------------------------------------------------------
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$SELECT id FROM public.dish_rankings WHERE osm_id = '990001' ORDER BY id$$,
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000001'::uuid), ('aaaaaaaa-0000-0000-0000-000000000002'::uuid)$$,
+  'anon reads visible rankings but not hidden ones'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.dish_ranking_tags WHERE ranking_id = 'aaaaaaaa-0000-0000-0000-000000000003'$$,
+  'anon does not see tags of hidden rankings'
+);
+SELECT isnt_empty($$SELECT 1 FROM public.place_refs WHERE ref = 'osm:node:990001'$$, 'anon reads place refs');
+SELECT isnt_empty(
+  $$SELECT 1 FROM public.places p JOIN public.place_refs pr ON pr.place_id = p.id WHERE pr.ref = 'osm:node:990001'$$,
+  'anon reads places'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.dish_rankings (user_id, osm_id, restaurant_name, dish_name, score)
+    VALUES ('11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 'Quesadilla', 10)$$,
+  '42501', NULL,
+  'anon cannot insert rankings, not even in someone else''s name'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.places (name) VALUES ('Spam')$$,
+  '42501', NULL,
+  'anon cannot create places directly'
+);
+SELECT is_empty($$SELECT 1 FROM public.user_favorites$$, 'anon sees no favorites');
+SELECT is_empty($$SELECT 1 FROM public.user_restaurant_views$$, 'anon sees no view history');
+SELECT is_empty($$SELECT 1 FROM public.content_reports$$, 'anon sees no reports');
+SELECT throws_ok($$SELECT 1 FROM public.moderation_queue$$, '42501', NULL, 'anon cannot read the moderation queue');
+SELECT throws_ok($$SELECT 1 FROM public.geocode_cache$$, '42501', NULL, 'anon cannot read the geocode cache');
+SELECT throws_ok($$SELECT 1 FROM public.mapbox_proxy_usage$$, '42501', NULL, 'anon cannot read proxy usage');
+SELECT throws_ok($$SELECT 1 FROM public.dish_ranking_inserts$$, '42501', NULL, 'anon cannot read the ranking insert log');
+
+-- Alice --------------------------------------------------------------------------------
+
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT results_eq(
+  $$SELECT count(*) FROM public.dish_rankings WHERE osm_id = '990001'$$,
+  ARRAY[3::bigint],
+  'owners still see their hidden rankings'
+);
+SELECT lives_ok(
+  $$INSERT INTO public.dish_rankings
+      (id, user_id, osm_id, restaurant_name, dish_name, score, moderation_state)
+    VALUES
+      ('aaaaaaaa-0000-0000-0000-000000000004', '11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 'Quesadilla', 8, 'approved')$$,
+  'users can insert their own rankings'
+);
+SELECT results_eq(
+  $$SELECT moderation_state FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000004'$$,
+  ARRAY['pending'],
+  'new rankings start pending whatever the client sends'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.dish_rankings (user_id, osm_id, restaurant_name, dish_name, score)
+    VALUES ('22222222-2222-2222-2222-222222222222', '990001', 'Taquería Prueba', 'Sope', 1)$$,
+  '42501', NULL,
+  'users cannot insert rankings for someone else'
+);
+SELECT throws_ok(
+  $$UPDATE public.dish_rankings SET moderation_state = 'approved' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000003'$$,
+  '42501', NULL,
+  'users cannot moderate their own rankings'
+);
+SELECT lives_ok(
+  $$UPDATE public.dish_rankings SET score = 10 WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  'users can update their own rankings'
+);
+SELECT lives_ok(
+  $$UPDATE public.dish_rankings SET score = 0 WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002'$$,
+  'updating someone else''s ranking is a silent no-op'
+);
+SELECT lives_ok(
+  $$DELETE FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000002'$$,
+  'deleting someone else''s ranking is a silent no-op'
+);
+SELECT results_eq(
+  $$SELECT id, score FROM public.dish_rankings WHERE id IN ('aaaaaaaa-0000-0000-0000-000000000001', 'aaaaaaaa-0000-0000-0000-000000000002') ORDER BY id$$,
+  $$VALUES ('aaaaaaaa-0000-0000-0000-000000000001'::uuid, 10), ('aaaaaaaa-0000-0000-0000-000000000002'::uuid, 7)$$,
+  'only the owner''s update applied'
+);
+SELECT is(
+  public.set_dish_ranking_tags('aaaaaaaa-0000-0000-0000-000000000001', ARRAY['vegetarian', 'spicy_hot', 'vegetarian']),
+  ARRAY['spicy_hot', 'vegetarian'],
+  'set_dish_ranking_tags replaces the tags of an own ranking'
+);
+SELECT isnt_empty($$SELECT 1 FROM public.user_favorites$$, 'users see their own favorites');
+SELECT throws_ok(
+  $$INSERT INTO public.user_favorites (user_id, place_id)
+    SELECT '22222222-2222-2222-2222-222222222222', place_id FROM public.places LIMIT 1$$,
+  '42501', NULL,
+  'users cannot add favorites for someone else'
+);
+SELECT lives_ok(
+  $$SELECT public.upsert_restaurant_view('11111111-1111-1111-1111-111111111111', 'osm:node:990001', 'Taquería Prueba')$$,
+  'users can record their own views'
+);
+SELECT throws_ok(
+  $$SELECT public.upsert_restaurant_view('22222222-2222-2222-2222-222222222222', 'osm:node:990001', 'Taquería Prueba')$$,
+  '42501', NULL,
+  'users cannot record views for someone else'
+);
+SELECT throws_ok($$SELECT 1 FROM public.geocode_cache$$, '42501', NULL, 'authenticated cannot read the geocode cache');
+SELECT throws_ok($$DELETE FROM public.dish_ranking_inserts$$, '42501', NULL, 'users cannot clear their ranking insert log');
+
+-- Bob ----------------------------------------------------------------------------------
+
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "22222222-2222-2222-2222-222222222222", "role": "authenticated"}', true);
+
+SELECT is_empty(
+  $$SELECT 1 FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000003'$$,
+  'other users do not see hidden rankings'
+);
+SELECT is_empty($$SELECT 1 FROM public.user_favorites$$, 'other users do not see someone else''s favorites');
+SELECT is_empty(
+  $$SELECT * FROM public.get_recently_viewed_restaurants('11111111-1111-1111-1111-111111111111')$$,
+  'other users do not see someone else''s view history'
+);
+SELECT throws_ok(
+  $$SELECT public.set_dish_ranking_tags('aaaaaaaa-0000-0000-0000-000000000001', ARRAY['vegan'])$$,
+  '42501', 'Ranking not found',
+  'set_dish_ranking_tags refuses rankings of other users'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.dish_ranking_tags (ranking_id, tag) VALUES ('aaaaaaaa-0000-0000-0000-000000000001', 'vegan')$$,
+  '42501', NULL,
+  'users cannot tag rankings of other users directly'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
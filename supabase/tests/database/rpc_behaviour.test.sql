@@ -0,0 +1,303 @@
+-- What the RPCs return for a small seeded restaurant: id normalization, place registry,
+-- leaderboards, search, votes, prices, ranking limits and the edge-function helpers.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(50);
+
+INSERT INTO auth.users (id, email) VALUES
+  ('11111111-1111-1111-1111-111111111111', 'alice@example.com'),
+  ('22222222-2222-2222-2222-222222222222', 'bob@example.com');
+
+-- One place (osm:node:990001) with two visible rankings of the same dish and a hidden one
+INSERT INTO public.dish_rankings
+  (id, user_id, osm_id, restaurant_name, restaurant_lat, restaurant_lng, dish_name, ingredients, score, price_cents, moderation_state)
+VALUES
+  ('aaaaaaaa-0000-0000-0000-000000000001', '11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 19.43, -99.13, 'Tacos al pastor', 'cerdo, piña', 9, 4500, 'pending'),
+  ('aaaaaaaa-0000-0000-0000-000000000002', '22222222-2222-2222-2222-222222222222', '990001', 'Taquería Prueba', 19.43, -99.13, 'tacos  al Pastor', NULL, 7, NULL, 'pending'),
+  ('aaaaaaaa-0000-0000-0000-000000000003', '11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 19.43, -99.13, 'Gringa', NULL, 1, NULL, 'hidden');
+
+-- Pure helpers ---------------------------------------------------------------------------
+
+SELECT is(public.normalize_place_ref('000990001'), 'osm:node:990001', 'bare OSM ids become nodes without leading zeros');
+SELECT is(public.normalize_place_ref(' osm:way:0077 '), 'osm:way:77', 'canonical OSM refs are trimmed');
+SELECT is(public.normalize_place_ref('osm:node:mapbox:poi.1'), 'mapbox:poi.1', 'the broken osm:node:mapbox: form is repaired');
+SELECT is(public.normalize_place_ref('poi.1'), 'mapbox:poi.1', 'bare Mapbox ids get the mapbox: prefix');
+SELECT is(public.normalize_place_ref(''), NULL, 'empty refs normalize to NULL');
+SELECT is(public.normalize_place_ref('foo:bar:baz'), NULL, 'unknown formats normalize to NULL');
+SELECT is(
+  public.normalize_place_ref('place:0b6f3c1e-8d2a-4f5b-9c7e-1a2b3c4d5e6f'), NULL,
+  'the app''s place:<uuid> ids are not external refs'
+);
+SELECT is(public.normalize_dish_name('  Tacos   al PASTOR '), 'tacos al pastor', 'dish names are trimmed, collapsed and lowercased');
+SELECT is(public.weighted_score(10, 1, 5), 5.83, 'a single ranking barely moves the weighted score off the prior');
+SELECT is(public.score_confidence(5), 0.50, 'confidence is n / (n + 5)');
+SELECT is(public.viewport_place_cap(16), 400, 'street zoom shows up to 400 places');
+
+-- Guest reads ----------------------------------------------------------------------------
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$SELECT ref FROM public.get_place_ids(ARRAY['0990001', 'osm:node:424242'])$$,
+  ARRAY['0990001'],
+  'get_place_ids returns known refs exactly as passed'
+);
+SELECT results_eq(
+  $$SELECT ranking, review_count FROM public.get_place_rankings(ARRAY['990001'])$$,
+  $$VALUES (8.0::numeric, 2::bigint)$$,
+  'get_place_rankings averages visible rankings only'
+);
+SELECT results_eq(
+  $$SELECT restaurant_name, avg_score, review_count FROM public.get_top_picks(50) WHERE place_ref = 'osm:node:990001'$$,
+  $$VALUES ('Taquería Prueba'::text, 8.0::numeric, 2::bigint)$$,
+  'get_top_picks lists the place with its average'
+);
+SELECT results_eq(
+  $$SELECT name, star_dish_name, median_price_cents, dish_tags
+    FROM public.get_ranked_places_in_viewport(19.42, -99.14, 19.44, -99.12, 16)
+    WHERE place_ref = 'osm:node:990001'$$,
+  $$VALUES ('Taquería Prueba'::text, 'Tacos al pastor'::text, 4500, '{}'::text[])$$,
+  'get_ranked_places_in_viewport returns the place with its star dish and median price'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.get_ranked_places_in_viewport(20.6, -103.4, 20.7, -103.3, 16) WHERE place_ref = 'osm:node:990001'$$,
+  'places outside the viewport are left out'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.get_ranked_places_in_viewport(19.42, -99.14, 19.44, -99.12, 16, 'sushi') WHERE place_ref = 'osm:node:990001'$$,
+  'name_query filters places by name'
+);
+SELECT results_eq(
+  $$SELECT dish_name, review_count FROM public.search_dishes('pastor') WHERE place_ref = 'osm:node:990001'$$,
+  $$VALUES ('Tacos al pastor'::text, 2::bigint)$$,
+  'search_dishes finds dishes by name, one row per dish'
+);
+SELECT results_eq(
+  $$SELECT dish_name FROM public.search_dishes('pina', 19.43, -99.13, 5) WHERE place_ref = 'osm:node:990001'$$,
+  ARRAY['Tacos al pastor'],
+  'search_dishes matches ingredients without accents within the radius'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.search_dishes('pastor', 20.67, -103.35, 5) WHERE place_ref = 'osm:node:990001'$$,
+  'search_dishes leaves out places outside the radius'
+);
+SELECT results_eq(
+  $$SELECT name FROM public.suggest_dish_names((SELECT place_id FROM public.get_place_ids(ARRAY['990001'])), 'taco')$$,
+  ARRAY['Tacos al pastor'],
+  'suggest_dish_names completes partial dish names'
+);
+SELECT results_eq(
+  $$SELECT median_price_cents, min_price_cents, max_price_cents, price_count
+    FROM public.get_dish_price_history((SELECT place_id FROM public.get_place_ids(ARRAY['990001'])))$$,
+  $$VALUES (4500, 4500, 4500, 1::bigint)$$,
+  'get_dish_price_history ignores rankings without a price'
+);
+
+-- Signed-in writes -----------------------------------------------------------------------
+
+RESET ROLE;
+SET LOCAL ROLE authenticated;
+SELECT set_config('request.jwt.claims', '{"sub": "11111111-1111-1111-1111-111111111111", "role": "authenticated"}', true);
+
+SELECT is(
+  public.resolve_place(ARRAY['osm:node:990001', 'mapbox:poi.990001'], 'Taquería Prueba'),
+  (SELECT place_id FROM public.get_place_ids(ARRAY['990001'])),
+  'resolve_place finds the existing place for a known ref'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.get_place_ids(ARRAY['poi.990001'])$$,
+  'resolve_place does not let app users attach new refs to an existing place'
+);
+SELECT isnt(
+  public.resolve_place(ARRAY['osm:node:990002'], 'Otra Taquería', 19.5, -99.2),
+  (SELECT place_id FROM public.get_place_ids(ARRAY['990001'])),
+  'resolve_place creates a place for unknown refs'
+);
+SELECT throws_ok(
+  $$SELECT public.resolve_place(ARRAY['', 'foo:bar:baz'], 'Nowhere')$$,
+  'P0001', NULL,
+  'resolve_place rejects calls without a valid ref'
+);
+SELECT lives_ok(
+  $$UPDATE public.dish_rankings SET mapbox_id = 'poi.990009' WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  'owners can still edit the external ids on their ranking'
+);
+SELECT is_empty(
+  $$SELECT 1 FROM public.get_place_ids(ARRAY['poi.990009'])$$,
+  'editing a ranking does not register refs for its place'
+);
+SELECT results_eq(
+  $$SELECT id FROM public.get_my_ranking_for_dish((SELECT place_id FROM public.get_place_ids(ARRAY['990001'])), 'TACOS al pastor ')$$,
+  ARRAY['aaaaaaaa-0000-0000-0000-000000000001'::uuid],
+  'get_my_ranking_for_dish matches on the normalized dish name and the caller'
+);
+SELECT throws_ok(
+  $$INSERT INTO public.dish_rankings (user_id, osm_id, restaurant_name, dish_name, score)
+    VALUES ('11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 'Tacos Al Pastor', 10)$$,
+  '23505', NULL,
+  'a user ranks each dish of a place at most once'
+);
+INSERT INTO public.dish_rankings (user_id, osm_id, restaurant_name, dish_name, score, created_at)
+VALUES ('11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 'Quesadilla', 8, '2000-01-01');
+SELECT is(
+  (SELECT created_at FROM public.dish_rankings WHERE dish_name = 'Quesadilla'),
+  now(),
+  'app users cannot backdate a ranking'
+);
+-- Out of the way of the star dish checks below; the insert still counts towards the limit
+DELETE FROM public.dish_rankings WHERE dish_name = 'Quesadilla';
+SELECT throws_ok(
+  $sql$DO $rank$
+    BEGIN
+      FOR i IN 1..9 LOOP
+        INSERT INTO public.dish_rankings (user_id, osm_id, restaurant_name, dish_name, score)
+        VALUES ('11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 'Platillo ' || i, 5);
+      END LOOP;
+      DELETE FROM public.dish_rankings WHERE dish_name LIKE 'Platillo %';
+      INSERT INTO public.dish_rankings (user_id, osm_id, restaurant_name, dish_name, score)
+      VALUES ('11111111-1111-1111-1111-111111111111', '990001', 'Taquería Prueba', 'Platillo 10', 5);
+    END
+  $rank$$sql$,
+  'PT429', NULL,
+  'more than 10 rankings in 10 minutes are rejected, even after deleting some'
+);
+
+-- Votes on the tacos platillo: up, then up again to take it back
+SELECT lives_ok(
+  $$SELECT public.toggle_platillo_vote(
+      (SELECT platillo_id FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'), 'UP')$$,
+  'toggle_platillo_vote records an up vote'
+);
+SELECT results_eq(
+  $$SELECT up_votes, down_votes, my_vote FROM public.get_platillo_vote_counts(
+      ARRAY[(SELECT platillo_id FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001')])$$,
+  $$VALUES (1::bigint, 0::bigint, 'UP'::public.vote_type)$$,
+  'get_platillo_vote_counts includes the caller''s vote'
+);
+SELECT lives_ok(
+  $$SELECT public.toggle_platillo_vote(
+      (SELECT platillo_id FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'), 'UP')$$,
+  'toggle_platillo_vote accepts the same vote twice'
+);
+SELECT results_eq(
+  $$SELECT up_votes, down_votes, my_vote FROM public.get_platillo_vote_counts(
+      ARRAY[(SELECT platillo_id FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001')])$$,
+  $$VALUES (0::bigint, 0::bigint, NULL::public.vote_type)$$,
+  'voting the same way again removes the vote'
+);
+
+-- Edge-function helpers (service role) ----------------------------------------------------
+
+RESET ROLE;
+SELECT set_config('request.jwt.claims', '{"role": "service_role"}', true);
+
+SELECT is(
+  public.resolve_place(ARRAY['osm:node:990001', 'mapbox:poi.990001'], 'Taquería Prueba'),
+  (SELECT place_id FROM public.get_place_ids(ARRAY['990001'])),
+  'resolve_place finds the existing place for the service role too'
+);
+SELECT results_eq(
+  $$SELECT place_id FROM public.get_place_ids(ARRAY['poi.990001'])$$,
+  $$SELECT place_id FROM public.get_place_ids(ARRAY['990001'])$$,
+  'resolve_place registers the other refs the service role gave it'
+);
+SELECT is(
+  public.resolve_place(ARRAY['osm:node:990002', 'osm:node:990001', 'mapbox:poi.990001'], 'Taquería Prueba'),
+  (SELECT place_id FROM public.get_place_ids(ARRAY['990001'])),
+  'resolve_place picks the place that owns most of the refs'
+);
+SELECT is(
+  public.link_place_ref((SELECT place_id FROM public.get_place_ids(ARRAY['990002'])), 'mapbox:poi.990001'),
+  (SELECT place_id FROM public.get_place_ids(ARRAY['990001'])),
+  'link_place_ref leaves refs owned by another place alone'
+);
+
+SELECT results_eq(
+  $$SELECT allowed, minute_count FROM public.consume_mapbox_proxy_quota('test:subject', 2, 100)$$,
+  $$VALUES (true, 1)$$,
+  'the first request in a window is allowed'
+);
+SELECT lives_ok(
+  $$SELECT public.consume_mapbox_proxy_quota('test:subject', 2, 100)$$,
+  'the second request uses up the per-minute limit'
+);
+SELECT results_eq(
+  $$SELECT allowed, minute_count, retry_after_seconds BETWEEN 1 AND 60
+    FROM public.consume_mapbox_proxy_quota('test:subject', 2, 100)$$,
+  $$VALUES (false, 3, true)$$,
+  'requests over the per-minute limit are refused with a retry delay'
+);
+
+INSERT INTO public.geocode_cache (cache_key, mode, payload, expires_at) VALUES
+  ('test:expired', 'forward', '{"candidates": []}', now() - interval '1 minute'),
+  ('test:fresh', 'forward', '{"candidates": []}', now() + interval '1 day');
+
+SELECT cmp_ok(public.purge_expired_geocode_cache(), '>=', 1, 'purge_expired_geocode_cache deletes expired entries');
+SELECT results_eq(
+  $$SELECT cache_key FROM public.geocode_cache WHERE cache_key LIKE 'test:%'$$,
+  ARRAY['test:fresh'],
+  'fresh entries are kept'
+);
+
+-- Moderation -----------------------------------------------------------------------------
+
+-- A new best dish takes over as star dish until a moderator hides its only ranking
+INSERT INTO public.dish_rankings (id, user_id, osm_id, restaurant_name, dish_name, score)
+VALUES ('aaaaaaaa-0000-0000-0000-000000000004', '22222222-2222-2222-2222-222222222222', '990001', 'Taquería Prueba', 'Birria', 10);
+
+SET LOCAL ROLE anon;
+SELECT set_config('request.jwt.claims', '{"role": "anon"}', true);
+
+SELECT results_eq(
+  $$SELECT star_dish_name, star_dish_score
+    FROM public.get_ranked_places_in_viewport(19.42, -99.14, 19.44, -99.12, 16)
+    WHERE place_ref = 'osm:node:990001'$$,
+  $$VALUES ('Birria'::text, 10.0::numeric)$$,
+  'the best-scored dish is the star dish'
+);
+
+RESET ROLE;
+UPDATE public.dish_rankings
+SET moderation_state = 'hidden', moderated_at = now()
+WHERE id = 'aaaaaaaa-0000-0000-0000-000000000004';
+SET LOCAL ROLE anon;
+
+SELECT results_eq(
+  $$SELECT star_dish_name, star_dish_score
+    FROM public.get_ranked_places_in_viewport(19.42, -99.14, 19.44, -99.12, 16)
+    WHERE place_ref = 'osm:node:990001'$$,
+  $$VALUES ('Tacos al pastor'::text, 8.0::numeric)$$,
+  'hiding its only ranking takes the dish out of the star dish pick'
+);
+SELECT results_eq(
+  $$SELECT platillo_id, star_score
+    FROM public.get_place_dishes((SELECT place_id FROM public.get_place_ids(ARRAY['990001'])))$$,
+  $$SELECT platillo_id, 8.00::numeric FROM public.dish_rankings WHERE id = 'aaaaaaaa-0000-0000-0000-000000000001'$$,
+  'get_place_dishes only scores visible rankings'
+);
+
+RESET ROLE;
+
+-- Merging places -------------------------------------------------------------------------
+
+-- Bob ranked the tacos again at a duplicate of the same restaurant; the merge keeps the newer one
+INSERT INTO public.dish_rankings (user_id, osm_id, restaurant_name, dish_name, score, created_at)
+VALUES ('22222222-2222-2222-2222-222222222222', '990003', 'Taquería Prueba', 'Tacos al Pastor', 6, now() + interval '1 minute');
+
+SELECT lives_ok(
+  $$SELECT public.merge_places(
+      (SELECT place_id FROM public.get_place_ids(ARRAY['990001'])),
+      (SELECT place_id FROM public.get_place_ids(ARRAY['990003'])))$$,
+  'merge_places copes with a user who ranked the same dish at both places'
+);
+SELECT results_eq(
+  $$SELECT score FROM public.dish_rankings
+    WHERE user_id = '22222222-2222-2222-2222-222222222222' AND dish_key = 'tacos al pastor'$$,
+  ARRAY[6],
+  'the newest of the two rankings survives the merge'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
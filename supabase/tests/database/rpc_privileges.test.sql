@@ -0,0 +1,111 @@
+-- Who may call each RPC: public reads for anon and authenticated, writes and per-user reads
+-- for authenticated only, internal helpers for neither.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(74);
+
+-- Public reads
+SELECT function_privs_are('public', 'get_star_dish', ARRAY['uuid'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_star_dish', ARRAY['uuid'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_ranking_from_dishes', ARRAY['text'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_ranking_from_dishes', ARRAY['text'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_rankings_batch', ARRAY['text[]'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_rankings_batch', ARRAY['text[]'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_top_picks', ARRAY['integer'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_top_picks', ARRAY['integer'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_best_rated', ARRAY['integer'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_best_rated', ARRAY['integer'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'normalize_place_ref', ARRAY['text'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'normalize_place_ref', ARRAY['text'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_ids', ARRAY['text[]'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_ids', ARRAY['text[]'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_rankings', ARRAY['text[]'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_rankings', ARRAY['text[]'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'viewport_place_cap', ARRAY['integer'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'viewport_place_cap', ARRAY['integer'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are(
+  'public', 'get_ranked_places_in_viewport',
+  ARRAY['double precision', 'double precision', 'double precision', 'double precision', 'integer', 'text', 'integer', 'integer'],
+  'anon', ARRAY['EXECUTE']
+);
+SELECT function_privs_are(
+  'public', 'get_ranked_places_in_viewport',
+  ARRAY['double precision', 'double precision', 'double precision', 'double precision', 'integer', 'text', 'integer', 'integer'],
+  'authenticated', ARRAY['EXECUTE']
+);
+SELECT function_privs_are('public', 'get_platillo_vote_counts', ARRAY['uuid[]'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_platillo_vote_counts', ARRAY['uuid[]'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'normalize_dish_name', ARRAY['text'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'normalize_dish_name', ARRAY['text'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'star_dish_score', ARRAY['numeric', 'bigint', 'bigint'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'star_dish_score', ARRAY['numeric', 'bigint', 'bigint'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_dishes', ARRAY['uuid'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_dishes', ARRAY['uuid'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_star_dish', ARRAY['uuid'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_place_star_dish', ARRAY['uuid'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'ranking_prior_mean', ARRAY[]::text[], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'ranking_prior_mean', ARRAY[]::text[], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'weighted_score', ARRAY['numeric', 'bigint', 'numeric'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'weighted_score', ARRAY['numeric', 'bigint', 'numeric'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'score_confidence', ARRAY['bigint'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'score_confidence', ARRAY['bigint'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_dish_leaderboard', ARRAY['uuid'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_dish_leaderboard', ARRAY['uuid'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_leaderboard', ARRAY['integer', 'integer'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_restaurant_leaderboard', ARRAY['integer', 'integer'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'immutable_unaccent', ARRAY['text'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'immutable_unaccent', ARRAY['text'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'suggest_dish_names', ARRAY['uuid', 'text', 'integer'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'suggest_dish_names', ARRAY['uuid', 'text', 'integer'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are(
+  'public', 'search_dishes',
+  ARRAY['text', 'double precision', 'double precision', 'double precision', 'integer'],
+  'anon', ARRAY['EXECUTE']
+);
+SELECT function_privs_are(
+  'public', 'search_dishes',
+  ARRAY['text', 'double precision', 'double precision', 'double precision', 'integer'],
+  'authenticated', ARRAY['EXECUTE']
+);
+SELECT function_privs_are('public', 'get_dish_price_history', ARRAY['uuid', 'uuid', 'text'], 'anon', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_dish_price_history', ARRAY['uuid', 'uuid', 'text'], 'authenticated', ARRAY['EXECUTE']);
+
+-- Signed-in users only
+SELECT function_privs_are('public', 'get_dish_ranking_for_restaurant', ARRAY['uuid'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'get_dish_ranking_for_restaurant', ARRAY['uuid'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'toggle_platillo_vote', ARRAY['uuid', 'public.vote_type'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'toggle_platillo_vote', ARRAY['uuid', 'public.vote_type'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'upsert_restaurant_view', ARRAY['uuid', 'text', 'text'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'upsert_restaurant_view', ARRAY['uuid', 'text', 'text'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_recently_viewed_restaurants', ARRAY['uuid', 'integer'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'get_recently_viewed_restaurants', ARRAY['uuid', 'integer'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are(
+  'public', 'resolve_place', ARRAY['text[]', 'text', 'double precision', 'double precision'],
+  'anon', ARRAY[]::text[]
+);
+SELECT function_privs_are(
+  'public', 'resolve_place', ARRAY['text[]', 'text', 'double precision', 'double precision'],
+  'authenticated', ARRAY['EXECUTE']
+);
+SELECT function_privs_are('public', 'get_user_favorites', ARRAY['integer'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'get_user_favorites', ARRAY['integer'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'get_my_ranking_for_dish', ARRAY['uuid', 'text'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'get_my_ranking_for_dish', ARRAY['uuid', 'text'], 'authenticated', ARRAY['EXECUTE']);
+SELECT function_privs_are('public', 'set_dish_ranking_tags', ARRAY['uuid', 'text[]'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'set_dish_ranking_tags', ARRAY['uuid', 'text[]'], 'authenticated', ARRAY['EXECUTE']);
+
+-- Internal: triggers, migrations and edge functions (service role) only
+SELECT function_privs_are('public', 'merge_places', ARRAY['uuid', 'uuid'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'merge_places', ARRAY['uuid', 'uuid'], 'authenticated', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'link_place_ref', ARRAY['uuid', 'text'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'link_place_ref', ARRAY['uuid', 'text'], 'authenticated', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'ensure_platillo', ARRAY['uuid', 'text'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'ensure_platillo', ARRAY['uuid', 'text'], 'authenticated', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'purge_expired_geocode_cache', ARRAY[]::text[], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'purge_expired_geocode_cache', ARRAY[]::text[], 'authenticated', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'consume_mapbox_proxy_quota', ARRAY['text', 'integer', 'integer'], 'anon', ARRAY[]::text[]);
+SELECT function_privs_are('public', 'consume_mapbox_proxy_quota', ARRAY['text', 'integer', 'integer'], 'authenticated', ARRAY[]::text[]);
+
+SELECT * FROM finish();
+ROLLBACK;